@@ -30,7 +30,11 @@ import CustomerManagement from "./pages/admin/CustomerManagement";
 import TierSettings from "./pages/admin/TierSettings";
 import AdminSetup from "./pages/admin/Setup";
 import Inventory from "./pages/admin/Inventory";
+import Cellar from "./pages/admin/Cellar";
 import ManualPour from "./pages/admin/ManualPour";
+import Wines from "./pages/admin/Wines";
+import Locations from "./pages/admin/Locations";
+import StripeEvents from "./pages/admin/StripeEvents";
 import NotFound from "./pages/NotFound";
 
 // Component to handle recovery hash redirect before any routes render
@@ -158,11 +162,31 @@ const App = () => (
                 <Inventory />
               </ProtectedRoute>
             } />
+            <Route path="/admin/cellar" element={
+              <ProtectedRoute requiredRole="admin">
+                <Cellar />
+              </ProtectedRoute>
+            } />
             <Route path="/admin/manual-pour" element={
               <ProtectedRoute requiredRole="admin">
                 <ManualPour />
               </ProtectedRoute>
             } />
+            <Route path="/admin/wines" element={
+              <ProtectedRoute requiredRole="admin">
+                <Wines />
+              </ProtectedRoute>
+            } />
+            <Route path="/admin/locations" element={
+              <ProtectedRoute requiredRole="admin">
+                <Locations />
+              </ProtectedRoute>
+            } />
+            <Route path="/admin/stripe-events" element={
+              <ProtectedRoute requiredRole="admin">
+                <StripeEvents />
+              </ProtectedRoute>
+            } />
             
             <Route path="*" element={<NotFound />} />
           </Routes>
@@ -0,0 +1,132 @@
+import { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ExternalLink, FileDown } from 'lucide-react';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { readFunctionErrorBody } from '@/lib/edge-functions';
+
+interface Invoice {
+  id: string;
+  number: string | null;
+  created: number;
+  total: number;
+  currency: string;
+  status: 'open' | 'paid' | 'uncollectible' | 'void' | null;
+  hosted_invoice_url: string | null;
+  invoice_pdf: string | null;
+}
+
+interface InvoiceHistoryProps {
+  /** Staff pass the member's customer ID; members see their own invoices without it. */
+  customerId?: string;
+}
+
+function InvoiceStatusBadge({ status }: { status: Invoice['status'] }) {
+  switch (status) {
+    case 'paid': return <Badge className="bg-green-500">Paid</Badge>;
+    case 'open': return <Badge className="bg-amber-500">Due</Badge>;
+    case 'uncollectible': return <Badge variant="destructive">Unpaid</Badge>;
+    case 'void': return <Badge variant="outline">Void</Badge>;
+    default: return <Badge variant="outline">{status ?? 'Unknown'}</Badge>;
+  }
+}
+
+const formatAmount = (cents: number, currency: string) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: currency.toUpperCase() }).format(cents / 100);
+
+/** A member's Stripe invoices with links to Stripe's hosted invoice page and PDF. */
+export function InvoiceHistory({ customerId }: InvoiceHistoryProps) {
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchInvoices = async () => {
+      setLoading(true);
+      setError(null);
+
+      const { data, error: invokeError } = await supabase.functions.invoke('get-invoices', {
+        body: customerId ? { customer_id: customerId } : {},
+      });
+
+      if (invokeError) {
+        const body = await readFunctionErrorBody(invokeError);
+        console.error('Error fetching invoices:', body?.error || invokeError);
+        setError('Invoices could not be loaded');
+      } else {
+        setInvoices(data?.invoices || []);
+      }
+
+      setLoading(false);
+    };
+
+    fetchInvoices();
+  }, [customerId]);
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground">Loading invoices...</p>;
+  }
+
+  if (error) {
+    return <p className="text-sm text-destructive">{error}</p>;
+  }
+
+  if (invoices.length === 0) {
+    return <p className="text-sm text-muted-foreground">No invoices yet</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Date</TableHead>
+            <TableHead>Amount</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {invoices.map((invoice) => (
+            <TableRow key={invoice.id}>
+              <TableCell className="whitespace-nowrap">
+                <p>{format(new Date(invoice.created * 1000), 'MMM d, yyyy')}</p>
+                {invoice.number && <p className="text-xs text-muted-foreground font-mono">{invoice.number}</p>}
+              </TableCell>
+              <TableCell>{formatAmount(invoice.total, invoice.currency)}</TableCell>
+              <TableCell><InvoiceStatusBadge status={invoice.status} /></TableCell>
+              <TableCell className="text-right whitespace-nowrap">
+                {invoice.hosted_invoice_url && (
+                  <Button variant="ghost" size="icon" asChild>
+                    <a
+                      href={invoice.hosted_invoice_url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      aria-label={`View invoice ${invoice.number ?? invoice.id}`}
+                    >
+                      <ExternalLink className="h-4 w-4" />
+                    </a>
+                  </Button>
+                )}
+                {invoice.invoice_pdf && (
+                  <Button variant="ghost" size="icon" asChild>
+                    <a
+                      href={invoice.invoice_pdf}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      aria-label={`Download PDF of invoice ${invoice.number ?? invoice.id}`}
+                    >
+                      <FileDown className="h-4 w-4" />
+                    </a>
+                  </Button>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { PourLocation } from '@/lib/locations';
+
+interface LocationSelectProps {
+  locations: PourLocation[];
+  loading?: boolean;
+  value: string;
+  onValueChange: (value: string) => void;
+  id?: string;
+}
+
+export function LocationSelect({ locations, loading = false, value, onValueChange, id }: LocationSelectProps) {
+  return (
+    <Select value={value} onValueChange={onValueChange} disabled={loading || locations.length === 0}>
+      <SelectTrigger id={id}>
+        <SelectValue
+          placeholder={loading ? 'Loading locations...' : locations.length === 0 ? 'No active locations' : 'Select location'}
+        />
+      </SelectTrigger>
+      <SelectContent>
+        {locations.map((location) => (
+          <SelectItem key={location.id} value={location.id}>
+            {location.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
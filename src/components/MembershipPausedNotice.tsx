@@ -0,0 +1,31 @@
+import { Link } from 'react-router-dom';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { PauseCircle } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface MembershipPausedNoticeProps {
+  pausedUntil: string;
+  /** The primary member can end the pause early from their Account page. */
+  canResume?: boolean;
+}
+
+/** Shown while the membership is on a vacation hold, when pours cannot be redeemed. */
+export function MembershipPausedNotice({ pausedUntil, canResume = false }: MembershipPausedNoticeProps) {
+  return (
+    <Alert className="border-blue-500/50">
+      <PauseCircle className="h-4 w-4" />
+      <AlertTitle>Paused until {format(new Date(pausedUntil), 'MMMM d')}</AlertTitle>
+      <AlertDescription className="space-y-3">
+        <p>
+          Your membership is on hold and you won't be billed. Pours can be redeemed again once it resumes.
+        </p>
+        {canResume && (
+          <Button size="sm" variant="outline" asChild>
+            <Link to="/account">Resume Early</Link>
+          </Button>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+}
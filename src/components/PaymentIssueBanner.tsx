@@ -0,0 +1,64 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle } from 'lucide-react';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+
+interface BillingStatus {
+  past_due: boolean;
+  grace_period_ends_at?: string | null;
+  update_payment_url?: string | null;
+  redemptions_suspended?: boolean;
+}
+
+/**
+ * Tells a member whose renewal payment failed how long their benefits continue, or that
+ * redemptions are paused, with a link to pay the outstanding invoice. Renders nothing otherwise.
+ */
+export function PaymentIssueBanner() {
+  const [status, setStatus] = useState<BillingStatus | null>(null);
+
+  useEffect(() => {
+    const fetchStatus = async () => {
+      const { data, error } = await supabase.rpc('get_my_billing_status');
+      if (error) {
+        console.error('Error fetching billing status:', error);
+        return;
+      }
+      setStatus(data as unknown as BillingStatus);
+    };
+
+    fetchStatus();
+  }, []);
+
+  if (!status?.past_due) return null;
+
+  return (
+    <Alert variant={status.redemptions_suspended ? 'destructive' : 'default'} className="border-amber-500/50">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>{status.redemptions_suspended ? 'Pours paused' : 'Payment failed'}</AlertTitle>
+      <AlertDescription className="space-y-3">
+        <p>
+          {status.redemptions_suspended
+            ? "We couldn't collect your membership payment, so pour redemptions are paused. They'll be available again as soon as your payment goes through."
+            : `We couldn't process your latest membership payment. Your benefits continue${
+                status.grace_period_ends_at ? ` until ${format(new Date(status.grace_period_ends_at), 'MMMM d')}` : ''
+              }. Please update your payment method to avoid interruption.`}
+        </p>
+        {status.update_payment_url ? (
+          <Button size="sm" asChild>
+            <a href={status.update_payment_url} target="_blank" rel="noopener noreferrer">
+              Update Payment
+            </a>
+          </Button>
+        ) : (
+          <Button size="sm" asChild>
+            <Link to="/account">Update Payment</Link>
+          </Button>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+}
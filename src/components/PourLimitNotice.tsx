@@ -0,0 +1,59 @@
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ShieldAlert } from 'lucide-react';
+import { describePourLimits, exceedsPourLimits, type PourLimitStatus } from '@/lib/pour-limits';
+import { formatPourCount } from '@/lib/pour-sizes';
+
+interface PourLimitNoticeProps {
+  limits: PourLimitStatus | null;
+  cost: number;
+  canOverride: boolean;
+  overrideReason: string;
+  onOverrideReasonChange: (value: string) => void;
+}
+
+/**
+ * Responsible-service usage for the pour forms. Past a cap, managers get an override
+ * reason field; everyone else is told to fetch one.
+ */
+export function PourLimitNotice({ limits, cost, canOverride, overrideReason, onOverrideReasonChange }: PourLimitNoticeProps) {
+  if (!limits || limits.remaining === null) return null;
+
+  const exceeded = exceedsPourLimits(limits, cost);
+
+  return (
+    <div className={`space-y-3 rounded-lg border p-3 ${exceeded ? 'border-destructive/50 bg-destructive/5' : ''}`}>
+      <div className="flex items-center gap-2 flex-wrap">
+        <ShieldAlert className={`h-4 w-4 ${exceeded ? 'text-destructive' : 'text-muted-foreground'}`} />
+        <span className="text-sm font-medium">Service limits</span>
+        {describePourLimits(limits).map((line) => (
+          <Badge key={line} variant="outline">{line}</Badge>
+        ))}
+      </div>
+      {exceeded && (
+        <>
+          <p className="text-sm text-destructive">
+            Only {formatPourCount(limits.remaining)} more can be served
+            {limits.limited_by === 'window' ? ` in ${limits.window_hours} hours` : ' today'}.
+            {!canOverride && ' A manager must record this pour.'}
+          </p>
+          {canOverride && (
+            <div className="space-y-2">
+              <Label htmlFor="override-reason">Manager override reason</Label>
+              <Textarea
+                id="override-reason"
+                placeholder="Why is this pour being served past the limit?"
+                value={overrideReason}
+                onChange={(e) => onOverrideReasonChange(e.target.value)}
+                maxLength={500}
+                rows={2}
+              />
+              <p className="text-xs text-muted-foreground">The override is logged under your name.</p>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
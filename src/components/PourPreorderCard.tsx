@@ -0,0 +1,209 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { LocationSelect } from '@/components/LocationSelect';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { GlassWater, Loader2, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { readFunctionErrorBody } from '@/lib/edge-functions';
+import { fetchActiveLocations, type PourLocation } from '@/lib/locations';
+
+interface PendingPreorder {
+  id: string;
+  quantity: number;
+  expires_at: string | null;
+  created_at: string | null;
+  locations: { name: string } | null;
+}
+
+interface PourPreorderCardProps {
+  customerId: string;
+  availablePours: number;
+  onChange: () => void;
+}
+
+export function PourPreorderCard({ customerId, availablePours, onChange }: PourPreorderCardProps) {
+  const [preorders, setPreorders] = useState<PendingPreorder[]>([]);
+  const [quantity, setQuantity] = useState('1');
+  const [locations, setLocations] = useState<PourLocation[]>([]);
+  const [locationId, setLocationId] = useState('');
+  const [notes, setNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+
+  const fetchPreorders = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('pours')
+      .select('id, quantity, expires_at, created_at, locations(name)')
+      .eq('customer_id', customerId)
+      .eq('status', 'pending')
+      .gt('expires_at', new Date().toISOString())
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching pre-orders:', error);
+      return;
+    }
+    setPreorders(data || []);
+  }, [customerId]);
+
+  useEffect(() => {
+    fetchPreorders();
+  }, [fetchPreorders]);
+
+  useEffect(() => {
+    fetchActiveLocations().then((data) => {
+      setLocations(data);
+      if (data.length > 0) setLocationId(data[0].id);
+    });
+  }, []);
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    try {
+      const qty = parseInt(quantity);
+      const { data, error } = await supabase.functions.invoke('pour-preorders', {
+        body: { action: 'create', quantity: qty, location_id: locationId, notes: notes.trim() || undefined },
+      });
+
+      if (error) {
+        const body = await readFunctionErrorBody(error);
+        toast.error(body?.error || 'Failed to place pre-order');
+        return;
+      }
+
+      toast.success(`${qty} pour${qty > 1 ? 's' : ''} held until ${format(new Date(data.expires_at), 'h:mm a')}`);
+      setQuantity('1');
+      setNotes('');
+      fetchPreorders();
+      onChange();
+    } catch (error) {
+      console.error('Pre-order error:', error);
+      toast.error('Failed to place pre-order');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCancel = async (preorderId: string) => {
+    setCancellingId(preorderId);
+    try {
+      const { error } = await supabase.functions.invoke('pour-preorders', {
+        body: { action: 'cancel', pour_id: preorderId },
+      });
+
+      if (error) {
+        const body = await readFunctionErrorBody(error);
+        toast.error(body?.error || 'Failed to cancel pre-order');
+        return;
+      }
+
+      toast.success('Pre-order cancelled');
+      fetchPreorders();
+      onChange();
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
+  const maxQuantity = Math.min(Math.floor(availablePours), 10);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <GlassWater className="w-5 h-5" />
+          Pre-order a Pour
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {preorders.length > 0 && (
+          <div className="space-y-2">
+            {preorders.map((preorder) => (
+              <div key={preorder.id} className="flex items-center justify-between p-3 border rounded-lg">
+                <div>
+                  <p className="text-sm font-medium">
+                    {preorder.quantity} pour{preorder.quantity > 1 ? 's' : ''} · {preorder.locations?.name || 'Unknown location'}
+                  </p>
+                  {preorder.expires_at && (
+                    <p className="text-xs text-muted-foreground">
+                      Held until {format(new Date(preorder.expires_at), 'h:mm a')}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant="secondary">Waiting for staff</Badge>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    aria-label="Cancel pre-order"
+                    disabled={cancellingId === preorder.id}
+                    onClick={() => handleCancel(preorder.id)}
+                  >
+                    {cancellingId === preorder.id ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <X className="h-4 w-4" />
+                    )}
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {maxQuantity < 1 ? (
+          <p className="text-sm text-muted-foreground text-center py-2">
+            No pours left to pre-order this billing period
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="preorder-quantity">Glasses</Label>
+                <Select value={quantity} onValueChange={setQuantity}>
+                  <SelectTrigger id="preorder-quantity">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Array.from({ length: maxQuantity }, (_, i) => i + 1).map((n) => (
+                      <SelectItem key={n} value={String(n)}>{n}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="preorder-location">Where</Label>
+                <LocationSelect
+                  id="preorder-location"
+                  locations={locations}
+                  value={locationId}
+                  onValueChange={setLocationId}
+                />
+              </div>
+            </div>
+            <Input
+              placeholder="Notes for staff (optional)"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              maxLength={500}
+            />
+            <Button className="w-full" onClick={handleSubmit} disabled={submitting || !locationId}>
+              {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Hold My Pour
+            </Button>
+            <p className="text-xs text-muted-foreground text-center">
+              Held pours count against your allowance until staff pour them or the hold expires
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
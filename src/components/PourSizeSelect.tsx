@@ -0,0 +1,26 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { formatPourSize, type PourSize } from '@/lib/pour-sizes';
+
+interface PourSizeSelectProps {
+  sizes: PourSize[];
+  value: string;
+  onValueChange: (value: string) => void;
+  id?: string;
+}
+
+export function PourSizeSelect({ sizes, value, onValueChange, id }: PourSizeSelectProps) {
+  return (
+    <Select value={value} onValueChange={onValueChange}>
+      <SelectTrigger id={id}>
+        <SelectValue placeholder="Select size" />
+      </SelectTrigger>
+      <SelectContent>
+        {sizes.map((size) => (
+          <SelectItem key={size.id} value={size.id}>
+            {formatPourSize(size)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
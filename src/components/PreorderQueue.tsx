@@ -0,0 +1,209 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Check, GlassWater, Loader2, X } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { readFunctionErrorBody } from '@/lib/edge-functions';
+import type { PourLimitStatus } from '@/lib/pour-limits';
+import { PourLimitNotice } from '@/components/PourLimitNotice';
+
+interface QueuedPreorder {
+  id: string;
+  customer_id: string;
+  quantity: number;
+  allowance_cost: number | null;
+  notes: string | null;
+  expires_at: string | null;
+  created_at: string | null;
+  locations: { name: string } | null;
+  member_name?: string;
+  member_user_id?: string;
+}
+
+// Pre-orders are low volume, so polling keeps the queue fresh without a realtime subscription
+const REFRESH_INTERVAL_MS = 15 * 1000;
+
+export function PreorderQueue() {
+  const [preorders, setPreorders] = useState<QueuedPreorder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [actionLoading, setActionLoading] = useState<string | null>(null);
+  // A pre-order refused for the member's service limits, awaiting a manager override
+  const [limitBlocked, setLimitBlocked] = useState<{ id: string; limits: PourLimitStatus } | null>(null);
+  const [overrideReason, setOverrideReason] = useState('');
+  const { userRole } = useAuth();
+  const canOverride = userRole === 'admin';
+
+  const fetchQueue = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('pours')
+        .select('id, customer_id, quantity, allowance_cost, notes, expires_at, created_at, locations(name)')
+        .eq('status', 'pending')
+        .gt('expires_at', new Date().toISOString())
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      if (data?.length) {
+        const customerIds = [...new Set(data.map(p => p.customer_id))];
+        const { data: customers } = await supabase
+          .from('customers')
+          .select('id, user_id')
+          .in('id', customerIds);
+
+        const userIds = customers?.map(c => c.user_id) || [];
+        const { data: profiles } = await supabase
+          .from('staff_profile_view')
+          .select('id, first_name, last_name')
+          .in('id', userIds);
+
+        const customerUserMap = new Map(customers?.map(c => [c.id, c.user_id]) || []);
+        const nameMap = new Map(profiles?.map(p => [p.id, `${p.first_name || ''} ${p.last_name || ''}`.trim()]) || []);
+
+        setPreorders(data.map(p => {
+          const userId = customerUserMap.get(p.customer_id);
+          return {
+            ...p,
+            member_user_id: userId,
+            member_name: (userId && nameMap.get(userId)) || 'Member',
+          };
+        }));
+      } else {
+        setPreorders([]);
+      }
+    } catch (error) {
+      console.error('Error fetching pre-order queue:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchQueue();
+    const interval = setInterval(fetchQueue, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const handleResolve = async (preorder: QueuedPreorder, action: 'confirm' | 'reject') => {
+    setActionLoading(preorder.id + action);
+    try {
+      const override = action === 'confirm' && limitBlocked?.id === preorder.id && overrideReason.trim()
+        ? overrideReason.trim()
+        : undefined;
+
+      const { error } = await supabase.functions.invoke('pour-preorders', {
+        body: { action, pour_id: preorder.id, override_reason: override },
+      });
+
+      if (error) {
+        const body = await readFunctionErrorBody<{ error?: string; limit_exceeded?: boolean; limits?: PourLimitStatus | null }>(error);
+        if (body?.limit_exceeded && body.limits) {
+          setLimitBlocked({ id: preorder.id, limits: body.limits });
+        }
+        toast.error(body?.error || 'Failed to update pre-order');
+        return;
+      }
+
+      toast.success(action === 'confirm'
+        ? override ? `Poured ${preorder.quantity} for ${preorder.member_name} with manager override`
+          : `Poured ${preorder.quantity} for ${preorder.member_name}`
+        : 'Pre-order rejected and allowance released');
+      if (limitBlocked?.id === preorder.id) {
+        setLimitBlocked(null);
+        setOverrideReason('');
+      }
+      fetchQueue();
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GlassWater className="h-5 w-5" />
+          Pre-order Queue
+          {preorders.length > 0 && (
+            <Badge variant="secondary" className="bg-amber-500 text-white">{preorders.length}</Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-muted-foreground text-center py-4">Loading...</p>
+        ) : preorders.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No pre-orders waiting</p>
+        ) : (
+          <div className="space-y-2">
+            {preorders.map((preorder) => (
+              <div key={preorder.id} className="p-3 border rounded-lg space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  {preorder.member_user_id ? (
+                    <Link to={`/staff/customers/${preorder.member_user_id}`} className="font-semibold hover:underline truncate">
+                      {preorder.member_name}
+                    </Link>
+                  ) : (
+                    <span className="font-semibold truncate">{preorder.member_name}</span>
+                  )}
+                  <Badge variant="outline">
+                    {preorder.quantity} pour{preorder.quantity > 1 ? 's' : ''} · {preorder.locations?.name || 'Unknown location'}
+                  </Badge>
+                </div>
+                {preorder.notes && <p className="text-sm text-muted-foreground">{preorder.notes}</p>}
+                {limitBlocked?.id === preorder.id && (
+                  <PourLimitNotice
+                    limits={limitBlocked.limits}
+                    cost={Number(preorder.allowance_cost ?? preorder.quantity)}
+                    canOverride={canOverride}
+                    overrideReason={overrideReason}
+                    onOverrideReasonChange={setOverrideReason}
+                  />
+                )}
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-xs text-muted-foreground">
+                    {preorder.expires_at && `Expires ${formatDistanceToNow(new Date(preorder.expires_at), { addSuffix: true })}`}
+                  </span>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      size="sm"
+                      className="h-8"
+                      disabled={!!actionLoading || (limitBlocked?.id === preorder.id && (!canOverride || !overrideReason.trim()))}
+                      onClick={() => handleResolve(preorder, 'confirm')}
+                    >
+                      {actionLoading === preorder.id + 'confirm' ? (
+                        <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                      ) : (
+                        <Check className="mr-1 h-3 w-3" />
+                      )}
+                      Poured
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-8 text-destructive hover:text-destructive"
+                      disabled={!!actionLoading}
+                      onClick={() => handleResolve(preorder, 'reject')}
+                    >
+                      {actionLoading === preorder.id + 'reject' ? (
+                        <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                      ) : (
+                        <X className="mr-1 h-3 w-3" />
+                      )}
+                      Reject
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -22,6 +22,8 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { PasswordInput } from '@/components/ui/password-input';
 import { Label } from '@/components/ui/label';
+import { LocationSelect } from '@/components/LocationSelect';
+import { fetchActiveLocations, type PourLocation } from '@/lib/locations';
 import { toast } from 'sonner';
 import { Loader2, User, Key, CheckCircle } from 'lucide-react';
 
@@ -35,6 +37,7 @@ interface ProfileData {
   last_name: string;
   phone: string;
   email: string;
+  default_location_id: string;
 }
 
 export function ProfileSettingsDialog({ open, onOpenChange }: ProfileSettingsDialogProps) {
@@ -46,7 +49,9 @@ export function ProfileSettingsDialog({ open, onOpenChange }: ProfileSettingsDia
     last_name: '',
     phone: '',
     email: '',
+    default_location_id: '',
   });
+  const [locations, setLocations] = useState<PourLocation[]>([]);
   
   // Password change state
   const [currentPassword, setCurrentPassword] = useState('');
@@ -66,19 +71,25 @@ export function ProfileSettingsDialog({ open, onOpenChange }: ProfileSettingsDia
     
     setLoading(true);
     try {
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('first_name, last_name, phone, email')
-        .eq('id', user.id)
-        .single();
+      const [{ data, error }, activeLocations] = await Promise.all([
+        supabase
+          .from('profiles')
+          .select('first_name, last_name, phone, email, default_location_id')
+          .eq('id', user.id)
+          .single(),
+        fetchActiveLocations(),
+      ]);
 
       if (error) throw error;
 
+      setLocations(activeLocations);
+
       setProfile({
         first_name: data.first_name || '',
         last_name: data.last_name || '',
         phone: data.phone || '',
         email: data.email || user.email || '',
+        default_location_id: data.default_location_id || '',
       });
     } catch (error) {
       console.error('Error fetching profile:', error);
@@ -99,6 +110,7 @@ export function ProfileSettingsDialog({ open, onOpenChange }: ProfileSettingsDia
           first_name: profile.first_name.trim(),
           last_name: profile.last_name.trim(),
           phone: profile.phone.trim(),
+          default_location_id: profile.default_location_id || null,
         })
         .eq('id', user.id);
 
@@ -222,6 +234,19 @@ export function ProfileSettingsDialog({ open, onOpenChange }: ProfileSettingsDia
                   />
                 </div>
 
+                <div className="space-y-2">
+                  <Label htmlFor="defaultLocation">Default Location</Label>
+                  <LocationSelect
+                    id="defaultLocation"
+                    locations={locations}
+                    value={profile.default_location_id}
+                    onValueChange={(value) => setProfile({ ...profile, default_location_id: value })}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Pre-selected when you record a pour
+                  </p>
+                </div>
+
                 <Button 
                   onClick={handleSaveProfile} 
                   disabled={saving}
@@ -2,10 +2,14 @@ import { useEffect, useRef, useState } from 'react';
 import jsQR from 'jsqr';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
-import { Camera, X } from 'lucide-react';
+import { TierBadge } from '@/components/TierBadge';
+import { Camera, ShieldCheck, ShieldX, X } from 'lucide-react';
+import { verifyQrTokenLocally, type LocalQrResult } from '@/lib/qr-offline';
+import { format } from 'date-fns';
 
 interface QRScannerProps {
-  onScan: (data: string) => void;
+  /** Called with the raw code and its on-device signature check, which works without a connection. */
+  onScan: (data: string, local: LocalQrResult) => void;
   onClose: () => void;
 }
 
@@ -16,6 +20,7 @@ export function QRScanner({ onScan, onClose }: QRScannerProps) {
   const [scanning, setScanning] = useState(false);
   const [detectedCode, setDetectedCode] = useState<string>('');
   const [isProcessing, setIsProcessing] = useState(false);
+  const [localResult, setLocalResult] = useState<LocalQrResult | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const scanIntervalRef = useRef<number | null>(null);
 
@@ -94,6 +99,15 @@ export function QRScanner({ onScan, onClose }: QRScannerProps) {
     }
   };
 
+  const handleDecoded = async (data: string) => {
+    stopContinuousScanning();
+    setScanning(false);
+    stopCamera();
+    const result = await verifyQrTokenLocally(data);
+    setLocalResult(result);
+    onScan(data, result);
+  };
+
   const handleManualCapture = () => {
     if (isProcessing) return;
     
@@ -124,10 +138,7 @@ export function QRScanner({ onScan, onClose }: QRScannerProps) {
 
       if (code && code.data) {
         console.log('QR Code successfully decoded:', code.data);
-        stopContinuousScanning();
-        setScanning(false);
-        stopCamera();
-        onScan(code.data);
+        handleDecoded(code.data);
         return;
       }
 
@@ -141,10 +152,7 @@ export function QRScanner({ onScan, onClose }: QRScannerProps) {
 
       if (code && code.data) {
         console.log('QR Code decoded with contrast adjustment:', code.data);
-        stopContinuousScanning();
-        setScanning(false);
-        stopCamera();
-        onScan(code.data);
+        handleDecoded(code.data);
         return;
       }
 
@@ -163,10 +171,7 @@ export function QRScanner({ onScan, onClose }: QRScannerProps) {
 
       if (code && code.data) {
         console.log('QR Code decoded from center region:', code.data);
-        stopContinuousScanning();
-        setScanning(false);
-        stopCamera();
-        onScan(code.data);
+        handleDecoded(code.data);
         return;
       }
       
@@ -220,6 +225,32 @@ export function QRScanner({ onScan, onClose }: QRScannerProps) {
               )}
             </div>
 
+            {localResult?.status === 'valid' && (
+              <div className="flex items-center justify-between gap-2 rounded-lg border border-green-500/50 bg-green-500/10 p-3">
+                <div className="flex items-center gap-2">
+                  <ShieldCheck className="h-5 w-5 text-green-600" />
+                  <div>
+                    <p className="font-medium">
+                      {localResult.claims.first_name} {localResult.claims.last_name}
+                    </p>
+                    <p className="text-xs text-muted-foreground">Live screen · verified on this device</p>
+                  </div>
+                </div>
+                <TierBadge tier={localResult.claims.tier} />
+              </div>
+            )}
+
+            {(localResult?.status === 'expired' || localResult?.status === 'invalid' || localResult?.status === 'stale') && (
+              <div className="flex items-center gap-2 rounded-lg border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+                <ShieldX className="h-5 w-5" />
+                {localResult.status === 'stale'
+                  ? `Old capture: ${localResult.claims.first_name || 'this member'}'s code from ${format(new Date(localResult.shown_at), 'h:mm:ss a')}, not a live screen.`
+                  : localResult.status === 'expired'
+                  ? 'This code has expired. Ask the member to refresh it.'
+                  : 'This is not a valid membership code.'}
+              </div>
+            )}
+
             <div className="space-y-4">
               <Button 
                 onClick={handleManualCapture}
@@ -0,0 +1,323 @@
+import { useEffect, useState } from 'react';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { TierBadge } from '@/components/TierBadge';
+import { WineSelect } from '@/components/WineSelect';
+import { LocationSelect } from '@/components/LocationSelect';
+import { PourSizeSelect } from '@/components/PourSizeSelect';
+import { PourLimitNotice } from '@/components/PourLimitNotice';
+import { useAuth } from '@/contexts/AuthContext';
+import { enqueuePour, submitQueuedPour } from '@/lib/pour-queue';
+import { fetchActiveWines, type Wine } from '@/lib/wines';
+import { fetchPourLocationChoices, type PourLocation } from '@/lib/locations';
+import { fetchPourSizes, formatPourCount, type PourSize } from '@/lib/pour-sizes';
+import { exceedsPourLimits, fetchPourLimits, type PourLimitStatus } from '@/lib/pour-limits';
+import { Loader2, Minus, Plus, ShieldCheck } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+
+/** A member as returned by verify-qr-token, or read from the QR code itself when scanned offline. */
+export interface ScannedMember {
+  id: string;
+  tier: 'select' | 'premier' | 'elite' | 'household';
+  first_name: string | null;
+  last_name: string | null;
+  is_secondary?: boolean;
+  pours_balance?: number | null;
+  pour_limits?: PourLimitStatus | null;
+  verified_offline?: boolean;
+  /** The rotating code was current when scanned, so it came from the member's screen. */
+  live_code?: boolean;
+  /** The member has paused their membership; redemptions are refused until this date. */
+  paused_until?: string | null;
+}
+
+interface RedeemSheetProps {
+  member: ScannedMember | null;
+  onOpenChange: (open: boolean) => void;
+  /** Called once the pour is recorded or saved for sync, so the scanner can take the next guest. */
+  onRedeemed: () => void;
+  /** Opens the full pour form for anything the sheet does not cover, such as guest pours. */
+  onMoreOptions: (member: ScannedMember) => void;
+}
+
+export function RedeemSheet({ member, onOpenChange, onRedeemed, onMoreOptions }: RedeemSheetProps) {
+  const { user, userRole } = useAuth();
+  const [quantity, setQuantity] = useState(1);
+  const [locationId, setLocationId] = useState('');
+  const [defaultLocationId, setDefaultLocationId] = useState('');
+  const [locations, setLocations] = useState<PourLocation[]>([]);
+  const [loadingLocations, setLoadingLocations] = useState(true);
+  const [pourSizeId, setPourSizeId] = useState('');
+  const [pourSizes, setPourSizes] = useState<PourSize[]>([]);
+  const [wineId, setWineId] = useState('');
+  const [wines, setWines] = useState<Wine[]>([]);
+  const [loadingWines, setLoadingWines] = useState(true);
+  const [balance, setBalance] = useState<number | null>(null);
+  const [limits, setLimits] = useState<PourLimitStatus | null>(null);
+  const [overrideReason, setOverrideReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  // Loaded once with the scanner, so opening the sheet costs no round trips
+  useEffect(() => {
+    fetchActiveWines().then((data) => {
+      setWines(data);
+      setLoadingWines(false);
+    });
+  }, []);
+
+  useEffect(() => {
+    fetchPourLocationChoices(user?.id).then(({ locations, defaultLocationId }) => {
+      setLocations(locations);
+      if (defaultLocationId) {
+        setDefaultLocationId(defaultLocationId);
+        setLocationId(defaultLocationId);
+      }
+      setLoadingLocations(false);
+    });
+  }, [user?.id]);
+
+  useEffect(() => {
+    if (!locationId) return;
+    fetchPourSizes(locationId).then((sizes) => {
+      setPourSizes(sizes);
+      setPourSizeId(sizes.find((s) => s.is_default)?.id ?? sizes[0]?.id ?? '');
+    });
+  }, [locationId]);
+
+  // The scan result already carries the balance and the caps at the staff member's default location
+  useEffect(() => {
+    if (!member) return;
+    setQuantity(1);
+    setWineId('');
+    setOverrideReason('');
+    setLocationId(defaultLocationId);
+    setBalance(member.pours_balance ?? null);
+  }, [member, defaultLocationId]);
+
+  useEffect(() => {
+    if (!member || !locationId) return;
+    if (locationId === defaultLocationId) {
+      setLimits(member.pour_limits ?? null);
+      return;
+    }
+    fetchPourLimits(member.id, locationId).then(setLimits);
+  }, [member, locationId, defaultLocationId]);
+
+  const name = member ? `${member.first_name || ''} ${member.last_name || ''}`.trim() : '';
+  const initials = member
+    ? `${member.first_name?.[0] || ''}${member.last_name?.[0] || ''}`.toUpperCase() || '?'
+    : '';
+  // Offline scans carry no balance; the server checks it when the queued pour syncs
+  const balanceUnknown = balance === null;
+  // Locations without sizes count one pour per glass
+  const unitCost = Number(pourSizes.find((s) => s.id === pourSizeId)?.allowance_cost ?? 1);
+  const cost = quantity * unitCost;
+  const maxQuantity = balanceUnknown ? Infinity : Math.floor((balance ?? 0) / unitCost);
+  const overLimit = exceedsPourLimits(limits, cost);
+  const canOverride = userRole === 'admin';
+
+  const handleRedeem = async () => {
+    if (!member || !user) return;
+
+    if (!locationId) {
+      toast.error('Please select a location');
+      return;
+    }
+
+    if (wines.length > 0 && !wineId) {
+      toast.error('Please select a wine');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      // Saved on the device first; the idempotency key makes later resyncs safe
+      const entry = enqueuePour(user.id, {
+        customer_id: member.id,
+        quantity,
+        location_id: locationId,
+        pour_size_id: pourSizeId || undefined,
+        wine_id: wineId || undefined,
+        source: 'qr',
+        override_reason: overLimit ? overrideReason.trim() : undefined,
+      }, name);
+
+      const result = await submitQueuedPour(user.id, entry, false);
+
+      if (result.status === 'queued') {
+        toast.warning('No connection. Pour saved on this device and will sync automatically.');
+        onRedeemed();
+        return;
+      }
+
+      // Not recorded, but kept on the device to retry, e.g. once an expired session is renewed
+      if (result.status === 'held') {
+        toast.warning(`${result.body?.error || 'Pour not recorded yet'}. Saved on this device and will retry automatically.`);
+        onRedeemed();
+        return;
+      }
+
+      if (result.status === 'rejected') {
+        const body = result.body;
+        if (typeof body?.available_pours === 'number') {
+          setBalance(body.available_pours);
+        }
+        if (body?.limits) {
+          setLimits(body.limits);
+        }
+        toast.error(body?.error || 'Failed to record pour');
+        return;
+      }
+
+      toast.success(`${formatPourCount(cost)} recorded for ${name || 'member'}`, {
+        description: `${formatPourCount(result.data.available_pours)} left this month`,
+      });
+      onRedeemed();
+    } catch (error) {
+      toast.error('Failed to record pour');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Sheet open={!!member} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="max-h-[90vh] overflow-y-auto">
+        <SheetHeader>
+          <div className="flex items-center gap-3">
+            <Avatar className="h-14 w-14">
+              <AvatarFallback className="text-lg">{initials}</AvatarFallback>
+            </Avatar>
+            <div className="text-left space-y-1">
+              <SheetTitle>{name || 'Member'}</SheetTitle>
+              <div className="flex items-center gap-2">
+                {member && <TierBadge tier={member.tier} />}
+                {member?.live_code && (
+                  <Badge variant="outline" className="border-green-500/50 text-green-700">
+                    <ShieldCheck className="h-3 w-3 mr-1" />
+                    Live screen
+                  </Badge>
+                )}
+                {member?.is_secondary && <span className="text-xs text-muted-foreground">Household member</span>}
+              </div>
+            </div>
+          </div>
+          <SheetDescription className="text-left">
+            {member?.paused_until
+              ? `Membership paused until ${format(new Date(member.paused_until), 'MMM d')}`
+              : balanceUnknown
+                ? 'Verified offline · allowance checked when back online'
+                : `${formatPourCount(balance ?? 0)} available this month`}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label>Quantity</Label>
+            <div className="flex items-center gap-4">
+              <Button
+                type="button"
+                variant="outline"
+                size="icon"
+                onClick={() => setQuantity((q) => Math.max(1, q - 1))}
+                disabled={quantity <= 1}
+                aria-label="One fewer pour"
+              >
+                <Minus className="h-4 w-4" />
+              </Button>
+              <span className="text-2xl font-semibold w-8 text-center">{quantity}</span>
+              <Button
+                type="button"
+                variant="outline"
+                size="icon"
+                onClick={() => setQuantity((q) => q + 1)}
+                disabled={quantity >= maxQuantity}
+                aria-label="One more pour"
+              >
+                <Plus className="h-4 w-4" />
+              </Button>
+              <span className="text-sm text-muted-foreground">Uses {formatPourCount(cost)}</span>
+            </div>
+          </div>
+
+          <div className="grid sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="redeem-location">Location</Label>
+              <LocationSelect
+                id="redeem-location"
+                locations={locations}
+                loading={loadingLocations}
+                value={locationId}
+                onValueChange={setLocationId}
+              />
+            </div>
+            {pourSizes.length > 1 && (
+              <div className="space-y-2">
+                <Label htmlFor="redeem-size">Pour Size</Label>
+                <PourSizeSelect
+                  id="redeem-size"
+                  sizes={pourSizes}
+                  value={pourSizeId}
+                  onValueChange={setPourSizeId}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="redeem-wine">Wine</Label>
+            <WineSelect
+              id="redeem-wine"
+              wines={wines}
+              loading={loadingWines}
+              value={wineId}
+              onValueChange={setWineId}
+            />
+          </div>
+
+          <PourLimitNotice
+            limits={limits}
+            cost={cost}
+            canOverride={canOverride}
+            overrideReason={overrideReason}
+            onOverrideReasonChange={setOverrideReason}
+          />
+        </div>
+
+        <SheetFooter className="gap-2">
+          <Button variant="ghost" onClick={() => member && onMoreOptions(member)} disabled={submitting}>
+            More options
+          </Button>
+          <Button
+            size="lg"
+            onClick={handleRedeem}
+            disabled={
+              submitting || !!member?.paused_until || (!balanceUnknown && cost > (balance ?? 0))
+              || (overLimit && (!canOverride || !overrideReason.trim()))
+            }
+          >
+            {submitting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Recording...
+              </>
+            ) : (
+              `Redeem ${formatPourCount(cost)}`
+            )}
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -21,8 +21,15 @@ import {
   Package,
   QrCode,
   Home,
-  Key
+  Key,
+  Grape,
+  MapPin,
+  Warehouse,
+  CloudOff
 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { usePourQueue } from '@/hooks/use-pour-queue';
+import { useQrScanSync } from '@/hooks/use-qr-scan-sync';
 import { ProfileSettingsDialog } from './ProfileSettingsDialog';
 import vinoLogo from '@/assets/vino-logo-trans.png';
 
@@ -36,6 +43,8 @@ export function StaffAdminHeader() {
   const { user, userRole, signOut } = useAuth();
   const location = useLocation();
   const [profileDialogOpen, setProfileDialogOpen] = useState(false);
+  const queuedPours = usePourQueue(user?.id);
+  useQrScanSync(user?.id);
 
   const isActive = (path: string) => location.pathname === path || location.pathname.startsWith(path + '/');
 
@@ -45,6 +54,9 @@ export function StaffAdminHeader() {
     { label: 'Customers', href: '/admin/customers', icon: Users },
     { label: 'Tiers', href: '/admin/tiers', icon: Settings },
     { label: 'Inventory', href: '/admin/inventory', icon: Package },
+    { label: 'Cellar', href: '/admin/cellar', icon: Warehouse },
+    { label: 'Wines', href: '/admin/wines', icon: Grape },
+    { label: 'Locations', href: '/admin/locations', icon: MapPin },
   ];
 
   const staffNavItems: NavItem[] = [
@@ -127,6 +139,18 @@ export function StaffAdminHeader() {
             </DropdownMenu>
           </div>
 
+          {/* Pours captured offline and not yet synced */}
+          {queuedPours > 0 && (
+            <Badge
+              variant="secondary"
+              className="mr-2 flex items-center gap-1 bg-amber-500 text-white"
+              title="Pours saved on this device. They sync automatically when the connection returns."
+            >
+              <CloudOff className="h-3 w-3" />
+              {queuedPours} to sync
+            </Badge>
+          )}
+
           {/* User Menu */}
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
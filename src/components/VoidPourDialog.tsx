@@ -0,0 +1,135 @@
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Loader2, Undo2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { readFunctionErrorBody } from '@/lib/edge-functions';
+
+interface VoidPourDialogProps {
+  pour: {
+    id: string;
+    created_at: string;
+    quantity: number;
+  } | null;
+  onOpenChange: (open: boolean) => void;
+  onVoided: () => void;
+}
+
+export function VoidPourDialog({ pour, onOpenChange, onVoided }: VoidPourDialogProps) {
+  const { userRole } = useAuth();
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [windowMinutes, setWindowMinutes] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!pour) return;
+    setReason('');
+
+    const fetchWindow = async () => {
+      const { data } = await supabase
+        .from('system_settings')
+        .select('value')
+        .eq('key', 'pour_reversal')
+        .maybeSingle();
+      const value = data?.value as { staff_window_minutes?: number } | null;
+      setWindowMinutes(value?.staff_window_minutes ?? 30);
+    };
+    fetchWindow();
+  }, [pour]);
+
+  const isAdmin = userRole === 'admin';
+  const outsideWindow = !!pour && windowMinutes !== null
+    && Date.now() - new Date(pour.created_at).getTime() > windowMinutes * 60 * 1000;
+  const needsApproval = outsideWindow && !isAdmin;
+
+  const handleSubmit = async () => {
+    if (!pour || !reason.trim()) return;
+
+    setSubmitting(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('reverse-pour', {
+        body: { action: 'request', pour_id: pour.id, reason: reason.trim() },
+      });
+
+      if (error) {
+        const body = await readFunctionErrorBody(error);
+        toast.error(body?.error || 'Failed to void pour');
+        return;
+      }
+
+      if (data.status === 'pending_approval') {
+        toast.info('Void request sent for admin approval');
+      } else {
+        toast.success(`${pour.quantity} pour${pour.quantity > 1 ? 's' : ''} voided and returned to the member`);
+      }
+      onOpenChange(false);
+      onVoided();
+    } catch (error) {
+      console.error('Void pour error:', error);
+      toast.error('Failed to void pour');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!pour} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Undo2 className="h-5 w-5" />
+            {needsApproval ? 'Request Pour Void' : 'Void Pour'}
+          </DialogTitle>
+          <DialogDescription>
+            {pour && (
+              <>
+                {pour.quantity} pour{pour.quantity > 1 ? 's' : ''} recorded{' '}
+                {format(new Date(pour.created_at), 'MMM dd, yyyy • h:mm a')}.
+              </>
+            )}{' '}
+            {needsApproval
+              ? `This pour is older than ${windowMinutes} minutes, so an admin must approve the void.`
+              : 'The pours will be returned to the member\'s allowance.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="void-reason">Reason (required)</Label>
+          <Textarea
+            id="void-reason"
+            placeholder="e.g. Wrong quantity entered, recorded on wrong member..."
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            rows={3}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={handleSubmit}
+            disabled={submitting || !reason.trim()}
+          >
+            {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {needsApproval ? 'Request Approval' : 'Void Pour'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
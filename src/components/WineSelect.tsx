@@ -0,0 +1,30 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { formatWineName, type Wine } from '@/lib/wines';
+
+interface WineSelectProps {
+  wines: Wine[];
+  loading?: boolean;
+  value: string;
+  onValueChange: (value: string) => void;
+  id?: string;
+}
+
+export function WineSelect({ wines, loading = false, value, onValueChange, id }: WineSelectProps) {
+  return (
+    <Select value={value} onValueChange={onValueChange} disabled={loading || wines.length === 0}>
+      <SelectTrigger id={id}>
+        <SelectValue
+          placeholder={loading ? 'Loading wines...' : wines.length === 0 ? 'No wines in the catalog' : 'Select wine'}
+        />
+      </SelectTrigger>
+      <SelectContent>
+        {wines.map((wine) => (
+          <SelectItem key={wine.id} value={wine.id}>
+            {formatWineName(wine)}
+            {wine.varietal && <span className="text-muted-foreground"> · {wine.varietal}</span>}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,173 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ShieldAlert, Loader2, Save } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { describePourLimits, type PourLimitStatus } from '@/lib/pour-limits';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+
+interface LimitOverride {
+  id: string;
+  customer_id: string;
+  overridden_by: string;
+  reason: string;
+  limit_status: PourLimitStatus;
+  created_at: string;
+  customer_name?: string;
+  staff_name?: string;
+}
+
+export function PourLimitOverridesSection() {
+  const [overrides, setOverrides] = useState<LimitOverride[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dayStartHour, setDayStartHour] = useState('6');
+  const [savingHour, setSavingHour] = useState(false);
+
+  const fetchOverrides = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('pour_limit_overrides')
+        .select('id, customer_id, overridden_by, reason, limit_status, created_at')
+        .order('created_at', { ascending: false })
+        .limit(10);
+
+      if (error) throw error;
+
+      if (data?.length) {
+        const customerIds = [...new Set(data.map(o => o.customer_id))];
+        const { data: customers } = await supabase
+          .from('customers')
+          .select('id, user_id')
+          .in('id', customerIds);
+
+        const userIds = [
+          ...(customers?.map(c => c.user_id) || []),
+          ...data.map(o => o.overridden_by),
+        ];
+        const { data: profiles } = await supabase
+          .from('profiles')
+          .select('id, first_name, last_name')
+          .in('id', userIds);
+
+        const customerUserMap = new Map(customers?.map(c => [c.id, c.user_id]) || []);
+        const profileMap = new Map(profiles?.map(p => [p.id, `${p.first_name || ''} ${p.last_name || ''}`.trim()]) || []);
+
+        setOverrides(data.map(o => ({
+          ...o,
+          limit_status: o.limit_status as unknown as PourLimitStatus,
+          customer_name: profileMap.get(customerUserMap.get(o.customer_id) || '') || 'Unknown',
+          staff_name: profileMap.get(o.overridden_by) || 'Unknown',
+        })));
+      } else {
+        setOverrides([]);
+      }
+    } catch (error) {
+      console.error('Error fetching limit overrides:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchDayStart = async () => {
+    const { data } = await supabase
+      .from('system_settings')
+      .select('value')
+      .eq('key', 'pour_limits')
+      .maybeSingle();
+    const value = data?.value as { day_start_hour?: number } | null;
+    setDayStartHour(String(value?.day_start_hour ?? 6));
+  };
+
+  useEffect(() => {
+    fetchOverrides();
+    fetchDayStart();
+  }, []);
+
+  // The service day is counted in the club's own timezone, taken from this browser
+  const handleSaveDayStart = async () => {
+    const hour = parseInt(dayStartHour);
+    if (isNaN(hour) || hour < 0 || hour > 23) {
+      toast.error('Please enter an hour from 0 to 23');
+      return;
+    }
+
+    setSavingHour(true);
+    try {
+      const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+      const { error } = await supabase
+        .from('system_settings')
+        .upsert({ key: 'pour_limits', value: { day_start_hour: hour, timezone } });
+      if (error) throw error;
+      toast.success(`Daily limits now reset at ${hour}:00 ${timezone}`);
+    } catch (error) {
+      console.error('Error saving service day start:', error);
+      toast.error('Failed to save service day start');
+    } finally {
+      setSavingHour(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <CardTitle className="flex items-center gap-2">
+            <ShieldAlert className="h-5 w-5" />
+            Service Limit Overrides
+          </CardTitle>
+          <div className="flex items-end gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="day-start-hour" className="text-xs text-muted-foreground">
+                Service day starts at (hour)
+              </Label>
+              <Input
+                id="day-start-hour"
+                type="number"
+                min="0"
+                max="23"
+                value={dayStartHour}
+                onChange={(e) => setDayStartHour(e.target.value)}
+                className="h-8 w-24"
+              />
+            </div>
+            <Button size="sm" variant="outline" className="h-8" onClick={handleSaveDayStart} disabled={savingHour}>
+              {savingHour ? <Loader2 className="h-3 w-3 animate-spin" /> : <Save className="h-3 w-3" />}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <Skeleton className="h-16 w-full" />
+        ) : overrides.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No pours have been served past a limit.</p>
+        ) : (
+          <div className="space-y-3">
+            {overrides.map((override) => (
+              <div key={override.id} className="p-3 border rounded-lg space-y-2">
+                <div className="flex items-center justify-between gap-2 flex-wrap">
+                  <span className="font-medium text-sm">{override.customer_name}</span>
+                  <div className="flex gap-1 flex-wrap">
+                    {describePourLimits(override.limit_status).map((line) => (
+                      <Badge key={line} variant="outline">{line}</Badge>
+                    ))}
+                  </div>
+                </div>
+                <p className="text-sm">{override.reason}</p>
+                <div className="flex items-center justify-between text-xs text-muted-foreground">
+                  <span>Overridden by {override.staff_name}</span>
+                  <span>{format(new Date(override.created_at), 'MMM d, h:mm a')}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,292 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Pencil, Plus, Save, Star } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'react-hot-toast';
+import type { PourLocation } from '@/lib/locations';
+import { formatPourCount, type PourSize } from '@/lib/pour-sizes';
+
+interface PourSizeForm {
+  name: string;
+  volume_ml: string;
+  allowance_cost: string;
+  sort_order: string;
+}
+
+const emptyForm: PourSizeForm = {
+  name: '',
+  volume_ml: '',
+  allowance_cost: '1',
+  sort_order: '0',
+};
+
+interface PourSizesDialogProps {
+  location: PourLocation | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const fetchSizes = async (locationId: string): Promise<PourSize[]> => {
+  const { data, error } = await supabase
+    .from('pour_sizes')
+    .select('*')
+    .eq('location_id', locationId)
+    .order('sort_order', { ascending: true })
+    .order('name', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching pour sizes:', error);
+    toast.error('Failed to load pour sizes');
+    return [];
+  }
+  return data || [];
+};
+
+export function PourSizesDialog({ location, onOpenChange }: PourSizesDialogProps) {
+  const [sizes, setSizes] = useState<PourSize[]>([]);
+  const [editing, setEditing] = useState<PourSize | null>(null);
+  const [form, setForm] = useState<PourSizeForm>(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!location) return;
+    setEditing(null);
+    setForm(emptyForm);
+    fetchSizes(location.id).then(setSizes);
+  }, [location]);
+
+  const reload = () => {
+    if (location) fetchSizes(location.id).then(setSizes);
+  };
+
+  const openEdit = (size: PourSize) => {
+    setEditing(size);
+    setForm({
+      name: size.name,
+      volume_ml: size.volume_ml?.toString() || '',
+      allowance_cost: size.allowance_cost.toString(),
+      sort_order: size.sort_order.toString(),
+    });
+  };
+
+  const handleSave = async () => {
+    if (!location) return;
+
+    if (!form.name.trim()) {
+      toast.error('Size name is required');
+      return;
+    }
+
+    // Stored to two decimals (e.g. 0.5 for a taste)
+    const cost = Math.round(Number(form.allowance_cost) * 100) / 100;
+    if (!(cost > 0)) {
+      toast.error('Allowance cost must be greater than 0');
+      return;
+    }
+
+    const payload = {
+      location_id: location.id,
+      name: form.name.trim(),
+      volume_ml: form.volume_ml ? parseInt(form.volume_ml) : null,
+      allowance_cost: cost,
+      sort_order: parseInt(form.sort_order) || 0,
+    };
+
+    setSaving(true);
+    try {
+      const { error } = editing
+        ? await supabase.from('pour_sizes').update(payload).eq('id', editing.id)
+        : await supabase.from('pour_sizes').insert({ ...payload, is_default: sizes.length === 0 });
+
+      if (error) {
+        if (error.code === '23505') {
+          toast.error('This location already has a size with that name');
+          return;
+        }
+        throw error;
+      }
+
+      toast.success(editing ? 'Pour size updated' : 'Pour size added');
+      setEditing(null);
+      setForm(emptyForm);
+      reload();
+    } catch (error) {
+      console.error('Error saving pour size:', error);
+      toast.error('Failed to save pour size');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Only one default per location, so clear the old one first
+  const makeDefault = async (size: PourSize) => {
+    if (!location) return;
+
+    const { error: clearError } = await supabase
+      .from('pour_sizes')
+      .update({ is_default: false })
+      .eq('location_id', location.id)
+      .eq('is_default', true);
+
+    const { error } = clearError
+      ? { error: clearError }
+      : await supabase.from('pour_sizes').update({ is_default: true, is_active: true }).eq('id', size.id);
+
+    if (error) {
+      console.error('Error setting default pour size:', error);
+      toast.error('Failed to set default size');
+    }
+    reload();
+  };
+
+  const toggleActive = async (size: PourSize) => {
+    if (size.is_default && size.is_active) {
+      toast.error('Choose another default before switching this size off');
+      return;
+    }
+
+    const { error } = await supabase
+      .from('pour_sizes')
+      .update({ is_active: !size.is_active })
+      .eq('id', size.id);
+
+    if (error) {
+      console.error('Error updating pour size:', error);
+      toast.error('Failed to update pour size');
+      return;
+    }
+
+    setSizes(prev => prev.map(s => s.id === size.id ? { ...s, is_active: !size.is_active } : s));
+  };
+
+  return (
+    <Dialog open={!!location} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Pour Sizes · {location?.name}</DialogTitle>
+          <DialogDescription>
+            Each size draws its allowance cost from the member's monthly pours. The default is used for
+            pre-orders and when staff do not pick a size.
+          </DialogDescription>
+        </DialogHeader>
+
+        {sizes.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No sizes yet. Pours here count as one full pour each.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Size</TableHead>
+                  <TableHead>Volume</TableHead>
+                  <TableHead>Cost</TableHead>
+                  <TableHead className="text-center">Active</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sizes.map((size) => (
+                  <TableRow key={size.id} className={size.is_active ? '' : 'opacity-60'}>
+                    <TableCell className="font-medium">
+                      {size.name}
+                      {size.is_default && <Badge variant="secondary" className="ml-2">Default</Badge>}
+                    </TableCell>
+                    <TableCell>{size.volume_ml ? `${size.volume_ml}ml` : '—'}</TableCell>
+                    <TableCell>{formatPourCount(Number(size.allowance_cost))}</TableCell>
+                    <TableCell className="text-center">
+                      <Switch
+                        checked={size.is_active}
+                        onCheckedChange={() => toggleActive(size)}
+                        aria-label={`Toggle ${size.name}`}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      {!size.is_default && (
+                        <Button variant="ghost" size="icon" onClick={() => makeDefault(size)} aria-label={`Make ${size.name} the default`}>
+                          <Star className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <Button variant="ghost" size="icon" onClick={() => openEdit(size)} aria-label={`Edit ${size.name}`}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <div className="border-t pt-4 space-y-4">
+          <p className="text-sm font-medium">{editing ? `Edit ${editing.name}` : 'Add a size'}</p>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <div className="space-y-2 col-span-2 md:col-span-1">
+              <Label htmlFor="size-name">Name</Label>
+              <Input
+                id="size-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g. Taste"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="size-volume">Volume (ml)</Label>
+              <Input
+                id="size-volume"
+                type="number"
+                min="1"
+                value={form.volume_ml}
+                onChange={(e) => setForm({ ...form, volume_ml: e.target.value })}
+                placeholder="Wine's pour"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="size-cost">Allowance Cost</Label>
+              <Input
+                id="size-cost"
+                type="number"
+                min="0.01"
+                step="0.01"
+                value={form.allowance_cost}
+                onChange={(e) => setForm({ ...form, allowance_cost: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="size-order">Menu Order</Label>
+              <Input
+                id="size-order"
+                type="number"
+                value={form.sort_order}
+                onChange={(e) => setForm({ ...form, sort_order: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            {editing ? (
+              <Button variant="outline" onClick={() => { setEditing(null); setForm(emptyForm); }} disabled={saving}>
+                Cancel
+              </Button>
+            ) : null}
+            <Button onClick={handleSave} disabled={saving}>
+              {editing ? <Save className="h-4 w-4 mr-2" /> : <Plus className="h-4 w-4 mr-2" />}
+              {saving ? 'Saving...' : editing ? 'Save Size' : 'Add Size'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,190 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { CloudOff, Loader2, RotateCcw, X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { readFunctionErrorBody } from '@/lib/edge-functions';
+import type { RedeemPourPayload } from '@/lib/pour-queue';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+
+interface SyncConflict {
+  id: string;
+  idempotency_key: string;
+  customer_id: string;
+  staff_id: string;
+  payload: RedeemPourPayload;
+  reason: string;
+  captured_at: string;
+  customer_name?: string;
+  staff_name?: string;
+}
+
+export function PourSyncConflictsSection() {
+  const { user } = useAuth();
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [actionLoading, setActionLoading] = useState<string | null>(null);
+
+  const fetchConflicts = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('pour_sync_conflicts')
+        .select('id, idempotency_key, customer_id, staff_id, payload, reason, captured_at')
+        .eq('status', 'open')
+        .order('captured_at', { ascending: true });
+
+      if (error) throw error;
+
+      if (!data?.length) {
+        setConflicts([]);
+        return;
+      }
+
+      const customerIds = [...new Set(data.map(c => c.customer_id))];
+      const { data: customers } = await supabase
+        .from('customers')
+        .select('id, user_id')
+        .in('id', customerIds);
+
+      const userIds = [
+        ...(customers?.map(c => c.user_id) || []),
+        ...data.map(c => c.staff_id),
+      ];
+      const { data: profiles } = await supabase
+        .from('profiles')
+        .select('id, first_name, last_name')
+        .in('id', userIds);
+
+      const customerUserMap = new Map(customers?.map(c => [c.id, c.user_id]) || []);
+      const profileMap = new Map(profiles?.map(p => [p.id, `${p.first_name || ''} ${p.last_name || ''}`.trim()]) || []);
+
+      setConflicts(data.map(c => ({
+        ...c,
+        payload: c.payload as unknown as RedeemPourPayload,
+        customer_name: profileMap.get(customerUserMap.get(c.customer_id) || '') || 'Unknown',
+        staff_name: profileMap.get(c.staff_id) || 'Unknown',
+      })));
+    } catch (error) {
+      console.error('Error fetching pour sync conflicts:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchConflicts();
+  }, []);
+
+  // Re-run the original pour with its key; redeem-pours resolves the conflict on success
+  const handleRetry = async (conflict: SyncConflict) => {
+    setActionLoading(conflict.id + 'retry');
+    try {
+      const { error } = await supabase.functions.invoke('redeem-pours', {
+        body: {
+          ...conflict.payload,
+          idempotency_key: conflict.idempotency_key,
+          captured_at: conflict.captured_at,
+          offline_sync: false,
+        },
+      });
+
+      if (error) {
+        const body = await readFunctionErrorBody(error);
+        throw new Error(body?.error || 'Retry failed');
+      }
+
+      toast.success(`Recorded ${conflict.payload.quantity} pour${conflict.payload.quantity > 1 ? 's' : ''} for ${conflict.customer_name}`);
+      fetchConflicts();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Retry failed');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const handleDismiss = async (conflict: SyncConflict) => {
+    setActionLoading(conflict.id + 'dismiss');
+    try {
+      const { error } = await supabase
+        .from('pour_sync_conflicts')
+        .update({ status: 'dismissed', resolved_by: user?.id, resolved_at: new Date().toISOString() })
+        .eq('id', conflict.id);
+
+      if (error) throw error;
+
+      toast.success('Conflict dismissed. The pour was not recorded.');
+      fetchConflicts();
+    } catch (error) {
+      console.error('Error dismissing conflict:', error);
+      toast.error('Failed to dismiss conflict');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  if (conflicts.length === 0) return null;
+
+  return (
+    <Card className="border-amber-500/50">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2">
+          <CloudOff className="h-5 w-5" />
+          Offline Pour Conflicts
+          <Badge variant="secondary" className="bg-amber-500 text-white">{conflicts.length} open</Badge>
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Pours captured without a connection that the server rejected when they synced
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {conflicts.map((conflict) => (
+            <div key={conflict.id} className="p-3 border rounded-lg space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="font-medium text-sm">{conflict.customer_name}</span>
+                <Badge variant="outline">
+                  {conflict.payload.quantity} {conflict.payload.is_guest ? 'guest ' : ''}pour{conflict.payload.quantity > 1 ? 's' : ''}
+                </Badge>
+              </div>
+              <p className="text-sm text-destructive">{conflict.reason}</p>
+              <div className="flex items-center justify-between text-xs text-muted-foreground">
+                <span>Captured by {conflict.staff_name}</span>
+                <span>{format(new Date(conflict.captured_at), 'MMM d, h:mm a')}</span>
+              </div>
+              <div className="flex items-center gap-2 pt-1 border-t">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="text-xs h-7"
+                  disabled={!!actionLoading}
+                  onClick={() => handleRetry(conflict)}
+                >
+                  {actionLoading === conflict.id + 'retry' ? (
+                    <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                  ) : (
+                    <RotateCcw className="mr-1 h-3 w-3" />
+                  )}
+                  Retry
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="text-xs h-7 text-destructive hover:text-destructive"
+                  disabled={!!actionLoading}
+                  onClick={() => handleDismiss(conflict)}
+                >
+                  {actionLoading === conflict.id + 'dismiss' ? (
+                    <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                  ) : (
+                    <X className="mr-1 h-3 w-3" />
+                  )}
+                  Dismiss
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,233 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Undo2, Check, X, Loader2, Save } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { readFunctionErrorBody } from '@/lib/edge-functions';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+
+interface VoidRequest {
+  id: string;
+  pour_id: string;
+  customer_id: string;
+  quantity: number;
+  reason: string;
+  requested_by: string;
+  created_at: string;
+  pour_created_at?: string;
+  customer_name?: string;
+  staff_name?: string;
+}
+
+export function PourVoidRequestsSection() {
+  const [requests, setRequests] = useState<VoidRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [actionLoading, setActionLoading] = useState<string | null>(null);
+  const [windowMinutes, setWindowMinutes] = useState('30');
+  const [savingWindow, setSavingWindow] = useState(false);
+
+  const fetchRequests = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('pour_reversals')
+        .select('id, pour_id, customer_id, quantity, reason, requested_by, created_at')
+        .eq('status', 'pending')
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      if (data?.length) {
+        const customerIds = [...new Set(data.map(r => r.customer_id))];
+        const pourIds = data.map(r => r.pour_id);
+
+        const [{ data: customers }, { data: pours }] = await Promise.all([
+          supabase.from('customers').select('id, user_id').in('id', customerIds),
+          supabase.from('pours').select('id, created_at').in('id', pourIds),
+        ]);
+
+        const userIds = [
+          ...(customers?.map(c => c.user_id) || []),
+          ...data.map(r => r.requested_by),
+        ];
+        const { data: profiles } = await supabase
+          .from('profiles')
+          .select('id, first_name, last_name')
+          .in('id', userIds);
+
+        const customerUserMap = new Map(customers?.map(c => [c.id, c.user_id]) || []);
+        const profileMap = new Map(profiles?.map(p => [p.id, `${p.first_name || ''} ${p.last_name || ''}`.trim()]) || []);
+        const pourDateMap = new Map(pours?.map(p => [p.id, p.created_at]) || []);
+
+        setRequests(data.map(r => ({
+          ...r,
+          pour_created_at: pourDateMap.get(r.pour_id) || undefined,
+          customer_name: profileMap.get(customerUserMap.get(r.customer_id) || '') || 'Unknown',
+          staff_name: profileMap.get(r.requested_by) || 'Unknown',
+        })));
+      } else {
+        setRequests([]);
+      }
+    } catch (error) {
+      console.error('Error fetching void requests:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchWindow = async () => {
+    const { data } = await supabase
+      .from('system_settings')
+      .select('value')
+      .eq('key', 'pour_reversal')
+      .maybeSingle();
+    const value = data?.value as { staff_window_minutes?: number } | null;
+    setWindowMinutes(String(value?.staff_window_minutes ?? 30));
+  };
+
+  useEffect(() => {
+    fetchRequests();
+    fetchWindow();
+  }, []);
+
+  const handleReview = async (request: VoidRequest, action: 'approve' | 'reject') => {
+    setActionLoading(request.id + action);
+    try {
+      const { error } = await supabase.functions.invoke('reverse-pour', {
+        body: { action, reversal_id: request.id },
+      });
+
+      if (error) {
+        const body = await readFunctionErrorBody(error);
+        throw new Error(body?.error || 'Action failed');
+      }
+
+      toast.success(action === 'approve'
+        ? `Voided ${request.quantity} pour${request.quantity > 1 ? 's' : ''} for ${request.customer_name}`
+        : 'Void request rejected');
+      fetchRequests();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Action failed');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const handleSaveWindow = async () => {
+    const minutes = parseInt(windowMinutes);
+    if (!minutes || minutes < 1 || minutes > 1440) {
+      toast.error('Please enter 1–1440 minutes');
+      return;
+    }
+
+    setSavingWindow(true);
+    try {
+      const { error } = await supabase
+        .from('system_settings')
+        .upsert({ key: 'pour_reversal', value: { staff_window_minutes: minutes } });
+      if (error) throw error;
+      toast.success(`Staff can now void pours up to ${minutes} minutes old`);
+    } catch (error) {
+      console.error('Error saving void window:', error);
+      toast.error('Failed to save void window');
+    } finally {
+      setSavingWindow(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <CardTitle className="flex items-center gap-2">
+            <Undo2 className="h-5 w-5" />
+            Pour Void Requests
+            {requests.length > 0 && (
+              <Badge variant="secondary" className="bg-amber-500 text-white">{requests.length} pending</Badge>
+            )}
+          </CardTitle>
+          <div className="flex items-end gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="void-window" className="text-xs text-muted-foreground">
+                Staff void window (minutes)
+              </Label>
+              <Input
+                id="void-window"
+                type="number"
+                min="1"
+                max="1440"
+                value={windowMinutes}
+                onChange={(e) => setWindowMinutes(e.target.value)}
+                className="h-8 w-24"
+              />
+            </div>
+            <Button size="sm" variant="outline" className="h-8" onClick={handleSaveWindow} disabled={savingWindow}>
+              {savingWindow ? <Loader2 className="h-3 w-3 animate-spin" /> : <Save className="h-3 w-3" />}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <Skeleton className="h-16 w-full" />
+        ) : requests.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No void requests awaiting approval.</p>
+        ) : (
+          <div className="space-y-3">
+            {requests.map((request) => (
+              <div key={request.id} className="p-3 border rounded-lg space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-sm">{request.customer_name}</span>
+                  <Badge variant="outline">
+                    {request.quantity} pour{request.quantity > 1 ? 's' : ''}
+                  </Badge>
+                </div>
+                <p className="text-sm">{request.reason}</p>
+                <div className="flex items-center justify-between text-xs text-muted-foreground">
+                  <span>Requested by {request.staff_name}</span>
+                  {request.pour_created_at && (
+                    <span>Poured {format(new Date(request.pour_created_at), 'MMM d, h:mm a')}</span>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 pt-1 border-t">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="text-xs h-7"
+                    disabled={!!actionLoading}
+                    onClick={() => handleReview(request, 'approve')}
+                  >
+                    {actionLoading === request.id + 'approve' ? (
+                      <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                    ) : (
+                      <Check className="mr-1 h-3 w-3" />
+                    )}
+                    Approve Void
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="text-xs h-7 text-destructive hover:text-destructive"
+                    disabled={!!actionLoading}
+                    onClick={() => handleReview(request, 'reject')}
+                  >
+                    {actionLoading === request.id + 'reject' ? (
+                      <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                    ) : (
+                      <X className="mr-1 h-3 w-3" />
+                    )}
+                    Reject
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
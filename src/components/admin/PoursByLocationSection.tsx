@@ -0,0 +1,101 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Skeleton } from '@/components/ui/skeleton';
+import { MapPin } from 'lucide-react';
+import { startOfDay, subDays } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+
+interface LocationTotal {
+  location_id: string;
+  location_name: string;
+  pour_count: number;
+  glasses: number;
+}
+
+const ranges = [
+  { key: 'today', label: 'Today', days: 0 },
+  { key: 'week', label: '7 days', days: 7 },
+  { key: 'month', label: '30 days', days: 30 },
+] as const;
+
+type RangeKey = typeof ranges[number]['key'];
+
+const fetchTotals = async (range: RangeKey): Promise<LocationTotal[]> => {
+  const days = ranges.find(r => r.key === range)?.days ?? 0;
+  const since = startOfDay(subDays(new Date(), days));
+
+  const { data, error } = await supabase.rpc('get_pour_totals_by_location', {
+    _since: since.toISOString(),
+  });
+
+  if (error) {
+    console.error('Error fetching pours by location:', error);
+    return [];
+  }
+  return data || [];
+};
+
+export function PoursByLocationSection() {
+  const [range, setRange] = useState<RangeKey>('today');
+  const [totals, setTotals] = useState<LocationTotal[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchTotals(range).then((data) => {
+      setTotals(data);
+      setLoading(false);
+    });
+  }, [range]);
+
+  const totalGlasses = totals.reduce((sum, t) => sum + Number(t.glasses), 0);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 gap-2">
+        <CardTitle className="flex items-center gap-2">
+          <MapPin className="h-5 w-5" />
+          Pours by Location
+        </CardTitle>
+        <div className="flex gap-1">
+          {ranges.map((r) => (
+            <Button
+              key={r.key}
+              size="sm"
+              variant={range === r.key ? 'default' : 'outline'}
+              onClick={() => setRange(r.key)}
+            >
+              {r.label}
+            </Button>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-8 w-full" />
+            <Skeleton className="h-8 w-full" />
+          </div>
+        ) : totals.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No locations configured</p>
+        ) : (
+          <div className="space-y-3">
+            {totals.map((t) => (
+              <div key={t.location_id} className="space-y-1">
+                <div className="flex justify-between text-sm">
+                  <span className="font-medium">{t.location_name}</span>
+                  <span className="text-muted-foreground">
+                    {t.glasses} glass{Number(t.glasses) === 1 ? '' : 'es'} · {t.pour_count} pour{Number(t.pour_count) === 1 ? '' : 's'}
+                  </span>
+                </div>
+                <Progress value={totalGlasses ? (Number(t.glasses) / totalGlasses) * 100 : 0} className="h-2" />
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
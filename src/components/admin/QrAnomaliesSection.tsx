@@ -0,0 +1,366 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Textarea } from '@/components/ui/textarea';
+import { ShieldAlert, Search, X, Ban, Loader2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { QrVerificationBadge } from '@/components/admin/QrVerificationBadge';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+
+type AnomalyKind = 'multi_device' | 'failure_burst' | 'heavy_scanning';
+
+interface AnomalyFlag {
+  id: string;
+  kind: AnomalyKind;
+  customer_id: string | null;
+  staff_id: string | null;
+  ip_address: string | null;
+  event_count: number;
+  window_start: string;
+  window_end: string;
+  customer_name?: string;
+  staff_name?: string;
+}
+
+interface FlagScan {
+  id: string;
+  verification_result: string;
+  ip_address: string | null;
+  created_at: string;
+  customer_name: string;
+  staff_name: string;
+}
+
+const KIND_LABELS: Record<AnomalyKind, string> = {
+  multi_device: 'Scanned on two devices',
+  failure_burst: 'Failed scan burst',
+  heavy_scanning: 'Heavy scanning',
+};
+
+function describeFlag(flag: AnomalyFlag) {
+  switch (flag.kind) {
+    case 'multi_device':
+      return `${flag.customer_name} scanned by different staff or devices minutes apart (${flag.event_count} scans)`;
+    case 'failure_burst':
+      return `${flag.event_count} failed, expired or invalid codes from ${flag.ip_address}`
+        + (flag.customer_name ? `, all for ${flag.customer_name}` : '');
+    case 'heavy_scanning':
+      return `${flag.staff_name} made ${flag.event_count} scans in an hour`;
+  }
+}
+
+async function fetchNames(customerIds: string[], profileIds: string[]) {
+  const { data: customers } = await supabase
+    .from('customers')
+    .select('id, user_id')
+    .in('id', customerIds);
+
+  const { data: profiles } = await supabase
+    .from('profiles')
+    .select('id, first_name, last_name')
+    .in('id', [...(customers?.map(c => c.user_id) || []), ...profileIds]);
+
+  const customerUserMap = new Map(customers?.map(c => [c.id, c.user_id]) || []);
+  const profileMap = new Map(profiles?.map(p => [p.id, `${p.first_name || ''} ${p.last_name || ''}`.trim()]) || []);
+
+  return {
+    customerName: (id: string | null) => (id && profileMap.get(customerUserMap.get(id) || '')) || 'Unknown',
+    staffName: (id: string | null) => (id && profileMap.get(id)) || 'Unknown',
+  };
+}
+
+/** The logged scans behind a flag: the member's, the IP's or the staff member's scans in its window. */
+async function fetchFlagScans(flag: AnomalyFlag): Promise<FlagScan[]> {
+  let query = supabase
+    .from('qr_verification_logs')
+    .select('id, customer_id, staff_id, ip_address, verification_result, created_at')
+    .gte('created_at', flag.window_start)
+    .lte('created_at', flag.window_end)
+    .order('created_at', { ascending: true })
+    .limit(200);
+
+  if (flag.kind === 'multi_device') query = query.eq('customer_id', flag.customer_id);
+  if (flag.kind === 'failure_burst') query = query.eq('ip_address', flag.ip_address);
+  if (flag.kind === 'heavy_scanning') query = query.eq('staff_id', flag.staff_id);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const logs = data || [];
+  const { customerName, staffName } = await fetchNames(
+    [...new Set(logs.map(l => l.customer_id).filter(Boolean))],
+    [...new Set(logs.map(l => l.staff_id))],
+  );
+
+  return logs.map(l => ({
+    id: l.id,
+    verification_result: l.verification_result,
+    ip_address: l.ip_address,
+    created_at: l.created_at,
+    customer_name: l.customer_id ? customerName(l.customer_id) : 'Unreadable code',
+    staff_name: staffName(l.staff_id),
+  }));
+}
+
+export function QrAnomaliesSection() {
+  const [flags, setFlags] = useState<AnomalyFlag[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [actionLoading, setActionLoading] = useState<string | null>(null);
+  const [detailFlag, setDetailFlag] = useState<AnomalyFlag | null>(null);
+  const [detailScans, setDetailScans] = useState<FlagScan[]>([]);
+  const [detailLoading, setDetailLoading] = useState(false);
+  const [suspendFlag, setSuspendFlag] = useState<AnomalyFlag | null>(null);
+  const [suspendReason, setSuspendReason] = useState('');
+
+  const fetchFlags = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('qr_anomaly_flags')
+        .select('id, kind, customer_id, staff_id, ip_address, event_count, window_start, window_end')
+        .eq('status', 'open')
+        .order('window_end', { ascending: false })
+        .limit(20);
+
+      if (error) throw error;
+
+      if (data?.length) {
+        const { customerName, staffName } = await fetchNames(
+          [...new Set(data.map(f => f.customer_id).filter(Boolean))],
+          [...new Set(data.map(f => f.staff_id).filter(Boolean))],
+        );
+
+        setFlags(data.map(f => ({
+          ...f,
+          kind: f.kind as AnomalyKind,
+          customer_name: f.customer_id ? customerName(f.customer_id) : undefined,
+          staff_name: f.staff_id ? staffName(f.staff_id) : undefined,
+        })));
+      } else {
+        setFlags([]);
+      }
+    } catch (error) {
+      console.error('Error fetching QR anomaly flags:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchFlags();
+  }, []);
+
+  const openDetails = async (flag: AnomalyFlag) => {
+    setDetailFlag(flag);
+    setDetailScans([]);
+    setDetailLoading(true);
+    try {
+      setDetailScans(await fetchFlagScans(flag));
+    } catch (error) {
+      console.error('Error fetching flagged scans:', error);
+      toast.error('Failed to load the flagged scans');
+    } finally {
+      setDetailLoading(false);
+    }
+  };
+
+  const handleReview = async (flag: AnomalyFlag, action: 'dismiss' | 'suspend', reason?: string) => {
+    setActionLoading(flag.id + action);
+    try {
+      const { data, error } = await supabase.rpc('review_qr_anomaly', {
+        _flag_id: flag.id,
+        _action: action,
+        _reason: reason,
+      });
+
+      if (error) throw error;
+
+      const result = data as { success: boolean; message?: string };
+      if (!result.success) {
+        toast.error(result.message || 'Action failed');
+        return;
+      }
+
+      toast.success(action === 'suspend'
+        ? `QR code suspended for ${flag.customer_name}`
+        : 'Flag dismissed');
+      setSuspendFlag(null);
+      setDetailFlag(null);
+      fetchFlags();
+    } catch (error) {
+      console.error('Error reviewing QR anomaly:', error);
+      toast.error('Action failed');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const startSuspend = (flag: AnomalyFlag) => {
+    setSuspendReason(`${KIND_LABELS[flag.kind]}: ${describeFlag(flag)}`);
+    setSuspendFlag(flag);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2">
+          <ShieldAlert className="h-5 w-5" />
+          QR Anomalies
+          {flags.length > 0 && (
+            <Badge variant="destructive">{flags.length} open</Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <Skeleton className="h-16 w-full" />
+        ) : flags.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No suspicious scan patterns found.</p>
+        ) : (
+          <div className="space-y-3">
+            {flags.map((flag) => (
+              <div key={flag.id} className="p-3 border rounded-lg space-y-2">
+                <div className="flex items-center justify-between gap-2 flex-wrap">
+                  <Badge variant="outline">{KIND_LABELS[flag.kind]}</Badge>
+                  <span className="text-xs text-muted-foreground">
+                    {format(new Date(flag.window_start), 'MMM d, h:mm')}–{format(new Date(flag.window_end), 'h:mm a')}
+                  </span>
+                </div>
+                <p className="text-sm">{describeFlag(flag)}</p>
+                <div className="flex items-center gap-2 pt-1 border-t flex-wrap">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="text-xs h-7"
+                    onClick={() => openDetails(flag)}
+                  >
+                    <Search className="mr-1 h-3 w-3" />
+                    View Scans
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="text-xs h-7"
+                    disabled={!!actionLoading}
+                    onClick={() => handleReview(flag, 'dismiss')}
+                  >
+                    {actionLoading === flag.id + 'dismiss' ? (
+                      <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                    ) : (
+                      <X className="mr-1 h-3 w-3" />
+                    )}
+                    Dismiss
+                  </Button>
+                  {flag.customer_id && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-xs h-7 text-destructive hover:text-destructive"
+                      disabled={!!actionLoading}
+                      onClick={() => startSuspend(flag)}
+                    >
+                      <Ban className="mr-1 h-3 w-3" />
+                      Suspend QR
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!detailFlag} onOpenChange={(open) => !open && setDetailFlag(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{detailFlag && KIND_LABELS[detailFlag.kind]}</DialogTitle>
+            <DialogDescription>{detailFlag && describeFlag(detailFlag)}</DialogDescription>
+          </DialogHeader>
+
+          {detailLoading ? (
+            <Skeleton className="h-32 w-full" />
+          ) : detailScans.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No scans found for this flag.</p>
+          ) : (
+            <div className="space-y-2 max-h-96 overflow-y-auto">
+              {detailScans.map((scan) => (
+                <div key={scan.id} className="flex items-center justify-between gap-3 p-2 rounded-md text-sm bg-muted/50">
+                  <div className="flex items-center gap-3 flex-wrap">
+                    <QrVerificationBadge result={scan.verification_result} />
+                    <span className="font-medium">{scan.customer_name}</span>
+                    <span className="text-muted-foreground">by {scan.staff_name}</span>
+                    {scan.ip_address && (
+                      <span className="text-xs text-muted-foreground font-mono">{scan.ip_address}</span>
+                    )}
+                  </div>
+                  <span className="text-muted-foreground text-xs whitespace-nowrap">
+                    {format(new Date(scan.created_at), 'h:mm:ss a')}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {detailFlag?.customer_id && (
+            <DialogFooter>
+              <Button variant="destructive" onClick={() => startSuspend(detailFlag)} disabled={!!actionLoading}>
+                <Ban className="mr-2 h-4 w-4" />
+                Suspend Member QR
+              </Button>
+            </DialogFooter>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!suspendFlag} onOpenChange={(open) => !open && setSuspendFlag(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Ban className="h-5 w-5" />
+              Suspend QR Code
+            </DialogTitle>
+            <DialogDescription>
+              {suspendFlag?.customer_name} will not be able to show a membership QR, and scans of their
+              existing codes will be refused until an admin restores it from their customer page.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="suspend-reason">Reason (required)</Label>
+            <Textarea
+              id="suspend-reason"
+              value={suspendReason}
+              onChange={(e) => setSuspendReason(e.target.value)}
+              rows={3}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSuspendFlag(null)} disabled={!!actionLoading}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => suspendFlag && handleReview(suspendFlag, 'suspend', suspendReason.trim())}
+              disabled={!!actionLoading || !suspendReason.trim()}
+            >
+              {actionLoading === suspendFlag?.id + 'suspend' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Suspend QR
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,16 @@
+import { Badge } from '@/components/ui/badge';
+
+/** The outcome of one QR scan, as recorded in qr_verification_logs. */
+export function QrVerificationBadge({ result }: { result: string }) {
+  switch (result) {
+    case 'success': return <Badge className="bg-green-500">Success</Badge>;
+    case 'success_offline': return <Badge className="bg-green-500">Offline</Badge>;
+    case 'failed': return <Badge variant="destructive">Failed</Badge>;
+    case 'expired': return <Badge variant="secondary" className="bg-amber-500 text-white">Expired</Badge>;
+    case 'invalid': return <Badge variant="destructive">Invalid</Badge>;
+    case 'replayed': return <Badge variant="destructive">Reused</Badge>;
+    case 'stale': return <Badge variant="destructive">Old Capture</Badge>;
+    case 'suspended': return <Badge variant="destructive">Suspended</Badge>;
+    default: return <Badge variant="outline">{result}</Badge>;
+  }
+}
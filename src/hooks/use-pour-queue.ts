@@ -0,0 +1,56 @@
+import * as React from "react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { getQueuedPours, POUR_QUEUE_EVENT, syncPourQueue } from "@/lib/pour-queue";
+
+const RETRY_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Number of pours waiting to sync for this staff member. While mounted, the queue is
+ * replayed when the browser comes back online or the staff member signs in again,
+ * and retried every 30 seconds.
+ */
+export function usePourQueue(staffId: string | undefined) {
+  const [count, setCount] = React.useState(0);
+
+  React.useEffect(() => {
+    if (!staffId) return;
+
+    const refresh = () => setCount(getQueuedPours(staffId).length);
+    const sync = async () => {
+      if (!navigator.onLine || getQueuedPours(staffId).length === 0) return;
+      const { synced, conflicts, blocked } = await syncPourQueue(staffId);
+      if (synced > 0) {
+        toast.success(`Synced ${synced} offline pour${synced > 1 ? "s" : ""}`);
+      }
+      if (conflicts > 0) {
+        toast.warning(`${conflicts} offline pour${conflicts > 1 ? "s" : ""} could not be recorded and were sent to a manager`);
+      }
+      if (blocked) {
+        toast.warning("Offline pours are waiting to sync. Sign in again if your session has expired.", {
+          id: "pour-queue-blocked",
+        });
+      }
+    };
+
+    refresh();
+    sync();
+
+    const interval = setInterval(sync, RETRY_INTERVAL_MS);
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event) => {
+      if (event === "SIGNED_IN" || event === "TOKEN_REFRESHED") sync();
+    });
+    window.addEventListener(POUR_QUEUE_EVENT, refresh);
+    window.addEventListener("storage", refresh);
+    window.addEventListener("online", sync);
+    return () => {
+      clearInterval(interval);
+      subscription.unsubscribe();
+      window.removeEventListener(POUR_QUEUE_EVENT, refresh);
+      window.removeEventListener("storage", refresh);
+      window.removeEventListener("online", sync);
+    };
+  }, [staffId]);
+
+  return count;
+}
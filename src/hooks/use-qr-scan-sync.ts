@@ -0,0 +1,38 @@
+import * as React from "react";
+import { toast } from "sonner";
+import { getQueuedQrScans, refreshQrPublicKeys, syncQrScanQueue } from "@/lib/qr-offline";
+
+const RETRY_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Keeps this device ready to verify QR codes offline: refreshes the cached signing keys and,
+ * when the browser is online, reconciles scans accepted offline with the server.
+ */
+export function useQrScanSync(staffId: string | undefined) {
+  React.useEffect(() => {
+    if (!staffId) return;
+
+    const sync = async () => {
+      if (!navigator.onLine) return;
+      await refreshQrPublicKeys();
+      if (getQueuedQrScans(staffId).length === 0) return;
+
+      const { replayed, rejected } = await syncQrScanQueue(staffId);
+      if (replayed.length > 0) {
+        toast.warning(`Offline scan reused an already-scanned QR code: ${replayed.join(", ")}`, { duration: 10000 });
+      }
+      if (rejected.length > 0) {
+        toast.warning(`Offline scan could not be verified: ${rejected.join(", ")}`, { duration: 10000 });
+      }
+    };
+
+    sync();
+
+    const interval = setInterval(sync, RETRY_INTERVAL_MS);
+    window.addEventListener("online", sync);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener("online", sync);
+    };
+  }, [staffId]);
+}
@@ -24,6 +24,9 @@ export type Database = {
           pours_balance: number
           preferences: Json | null
           qr_code_url: string | null
+          qr_suspended_at: string | null
+          qr_suspended_by: string | null
+          qr_suspended_reason: string | null
           secondary_user_id: string | null
           signed_up_by_staff_id: string | null
           status: Database["public"]["Enums"]["customer_status"]
@@ -41,6 +44,9 @@ export type Database = {
           pours_balance?: number
           preferences?: Json | null
           qr_code_url?: string | null
+          qr_suspended_at?: string | null
+          qr_suspended_by?: string | null
+          qr_suspended_reason?: string | null
           secondary_user_id?: string | null
           signed_up_by_staff_id?: string | null
           status?: Database["public"]["Enums"]["customer_status"]
@@ -58,6 +64,9 @@ export type Database = {
           pours_balance?: number
           preferences?: Json | null
           qr_code_url?: string | null
+          qr_suspended_at?: string | null
+          qr_suspended_by?: string | null
+          qr_suspended_reason?: string | null
           secondary_user_id?: string | null
           signed_up_by_staff_id?: string | null
           status?: Database["public"]["Enums"]["customer_status"]
@@ -67,6 +76,13 @@ export type Database = {
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "customers_qr_suspended_by_fkey"
+            columns: ["qr_suspended_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "customers_signed_up_by_staff_id_fkey"
             columns: ["signed_up_by_staff_id"]
@@ -184,6 +200,45 @@ export type Database = {
         }
         Relationships: []
       }
+      locations: {
+        Row: {
+          closes_at: string | null
+          created_at: string
+          daily_pour_limit: number | null
+          id: string
+          is_active: boolean
+          limit_window_hours: number | null
+          name: string
+          opens_at: string | null
+          updated_at: string
+          window_pour_limit: number | null
+        }
+        Insert: {
+          closes_at?: string | null
+          created_at?: string
+          daily_pour_limit?: number | null
+          id?: string
+          is_active?: boolean
+          limit_window_hours?: number | null
+          name: string
+          opens_at?: string | null
+          updated_at?: string
+          window_pour_limit?: number | null
+        }
+        Update: {
+          closes_at?: string | null
+          created_at?: string
+          daily_pour_limit?: number | null
+          id?: string
+          is_active?: boolean
+          limit_window_hours?: number | null
+          name?: string
+          opens_at?: string | null
+          updated_at?: string
+          window_pour_limit?: number | null
+        }
+        Relationships: []
+      }
       membership_applications: {
         Row: {
           created_at: string | null
@@ -232,55 +287,142 @@ export type Database = {
         }
         Relationships: []
       }
+      membership_pauses: {
+        Row: {
+          created_at: string
+          customer_id: string
+          id: string
+          membership_id: string
+          resumed_at: string | null
+          resumes_at: string
+          started_at: string
+        }
+        Insert: {
+          created_at?: string
+          customer_id: string
+          id?: string
+          membership_id: string
+          resumed_at?: string | null
+          resumes_at: string
+          started_at?: string
+        }
+        Update: {
+          created_at?: string
+          customer_id?: string
+          id?: string
+          membership_id?: string
+          resumed_at?: string | null
+          resumes_at?: string
+          started_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "membership_pauses_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "membership_pauses_membership_id_fkey"
+            columns: ["membership_id"]
+            isOneToOne: false
+            referencedRelation: "memberships"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       memberships: {
         Row: {
+          billing_interval: string
           billing_period_end: string | null
           billing_period_start: string | null
           created_at: string | null
           customer_id: string
+          dunning_reminders_sent: number
+          grace_period_ends_at: string | null
           id: string
+          last_dunning_reminder_at: string | null
           monthly_price: number
           notes: string | null
+          past_due_invoice_url: string | null
+          past_due_since: string | null
+          pause_resumes_at: string | null
+          paused_at: string | null
           recorded_by_staff_id: string | null
+          redemptions_suspended_at: string | null
+          scheduled_tier: Database["public"]["Enums"]["customer_tier"] | null
+          scheduled_tier_at: string | null
           start_date: string
           status: Database["public"]["Enums"]["membership_status"]
           stripe_customer_id: string | null
           stripe_subscription_id: string | null
+          subscription_period_end: string | null
+          subscription_period_start: string | null
           tier: Database["public"]["Enums"]["customer_tier"]
+          tier_price_id: string | null
           toast_reference_number: string
           updated_at: string | null
         }
         Insert: {
+          billing_interval?: string
           billing_period_end?: string | null
           billing_period_start?: string | null
           created_at?: string | null
           customer_id: string
+          dunning_reminders_sent?: number
+          grace_period_ends_at?: string | null
           id?: string
+          last_dunning_reminder_at?: string | null
           monthly_price: number
           notes?: string | null
+          past_due_invoice_url?: string | null
+          past_due_since?: string | null
+          pause_resumes_at?: string | null
+          paused_at?: string | null
           recorded_by_staff_id?: string | null
+          redemptions_suspended_at?: string | null
+          scheduled_tier?: Database["public"]["Enums"]["customer_tier"] | null
+          scheduled_tier_at?: string | null
           start_date?: string
           status?: Database["public"]["Enums"]["membership_status"]
           stripe_customer_id?: string | null
           stripe_subscription_id?: string | null
+          subscription_period_end?: string | null
+          subscription_period_start?: string | null
           tier: Database["public"]["Enums"]["customer_tier"]
+          tier_price_id?: string | null
           toast_reference_number: string
           updated_at?: string | null
         }
         Update: {
+          billing_interval?: string
           billing_period_end?: string | null
           billing_period_start?: string | null
           created_at?: string | null
           customer_id?: string
+          dunning_reminders_sent?: number
+          grace_period_ends_at?: string | null
           id?: string
+          last_dunning_reminder_at?: string | null
           monthly_price?: number
           notes?: string | null
+          past_due_invoice_url?: string | null
+          past_due_since?: string | null
+          pause_resumes_at?: string | null
+          paused_at?: string | null
           recorded_by_staff_id?: string | null
+          redemptions_suspended_at?: string | null
+          scheduled_tier?: Database["public"]["Enums"]["customer_tier"] | null
+          scheduled_tier_at?: string | null
           start_date?: string
           status?: Database["public"]["Enums"]["membership_status"]
           stripe_customer_id?: string | null
           stripe_subscription_id?: string | null
+          subscription_period_end?: string | null
+          subscription_period_start?: string | null
           tier?: Database["public"]["Enums"]["customer_tier"]
+          tier_price_id?: string | null
           toast_reference_number?: string
           updated_at?: string | null
         }
@@ -313,44 +455,380 @@ export type Database = {
             referencedRelation: "staff_profile_view"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "memberships_tier_price_id_fkey"
+            columns: ["tier_price_id"]
+            isOneToOne: false
+            referencedRelation: "tier_prices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pour_limit_overrides: {
+        Row: {
+          created_at: string
+          customer_id: string
+          id: string
+          limit_status: Json
+          overridden_by: string
+          pour_id: string
+          reason: string
+        }
+        Insert: {
+          created_at?: string
+          customer_id: string
+          id?: string
+          limit_status: Json
+          overridden_by: string
+          pour_id: string
+          reason: string
+        }
+        Update: {
+          created_at?: string
+          customer_id?: string
+          id?: string
+          limit_status?: Json
+          overridden_by?: string
+          pour_id?: string
+          reason?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pour_limit_overrides_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pour_limit_overrides_overridden_by_fkey"
+            columns: ["overridden_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pour_limit_overrides_pour_id_fkey"
+            columns: ["pour_id"]
+            isOneToOne: false
+            referencedRelation: "pours"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pour_reversals: {
+        Row: {
+          created_at: string
+          customer_id: string
+          id: string
+          pour_id: string
+          quantity: number
+          reason: string
+          requested_by: string
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          customer_id: string
+          id?: string
+          pour_id: string
+          quantity: number
+          reason: string
+          requested_by: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          customer_id?: string
+          id?: string
+          pour_id?: string
+          quantity?: number
+          reason?: string
+          requested_by?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pour_reversals_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pour_reversals_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers_public"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pour_reversals_pour_id_fkey"
+            columns: ["pour_id"]
+            isOneToOne: false
+            referencedRelation: "pours"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pour_rollovers: {
+        Row: {
+          created_at: string
+          customer_id: string
+          id: string
+          periods_remaining: number
+          pours_granted: number
+          pours_remaining: number
+          source_period_end: string
+          source_period_start: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          customer_id: string
+          id?: string
+          periods_remaining?: number
+          pours_granted?: number
+          pours_remaining?: number
+          source_period_end: string
+          source_period_start: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          customer_id?: string
+          id?: string
+          periods_remaining?: number
+          pours_granted?: number
+          pours_remaining?: number
+          source_period_end?: string
+          source_period_start?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pour_rollovers_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pour_rollovers_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers_public"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pour_sizes: {
+        Row: {
+          allowance_cost: number
+          created_at: string
+          id: string
+          is_active: boolean
+          is_default: boolean
+          location_id: string
+          name: string
+          sort_order: number
+          updated_at: string
+          volume_ml: number | null
+        }
+        Insert: {
+          allowance_cost?: number
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          is_default?: boolean
+          location_id: string
+          name: string
+          sort_order?: number
+          updated_at?: string
+          volume_ml?: number | null
+        }
+        Update: {
+          allowance_cost?: number
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          is_default?: boolean
+          location_id?: string
+          name?: string
+          sort_order?: number
+          updated_at?: string
+          volume_ml?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pour_sizes_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pour_sync_conflicts: {
+        Row: {
+          captured_at: string
+          created_at: string
+          customer_id: string
+          id: string
+          idempotency_key: string
+          payload: Json
+          reason: string
+          resolution_note: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          staff_id: string
+          status: string
+        }
+        Insert: {
+          captured_at: string
+          created_at?: string
+          customer_id: string
+          id?: string
+          idempotency_key: string
+          payload: Json
+          reason: string
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          staff_id: string
+          status?: string
+        }
+        Update: {
+          captured_at?: string
+          created_at?: string
+          customer_id?: string
+          id?: string
+          idempotency_key?: string
+          payload?: Json
+          reason?: string
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          staff_id?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pour_sync_conflicts_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pour_sync_conflicts_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers_public"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pour_sync_conflicts_resolved_by_fkey"
+            columns: ["resolved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pour_sync_conflicts_resolved_by_fkey"
+            columns: ["resolved_by"]
+            isOneToOne: false
+            referencedRelation: "staff_profile_view"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pour_sync_conflicts_staff_id_fkey"
+            columns: ["staff_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pour_sync_conflicts_staff_id_fkey"
+            columns: ["staff_id"]
+            isOneToOne: false
+            referencedRelation: "staff_profile_view"
+            referencedColumns: ["id"]
+          },
         ]
       }
       pours: {
         Row: {
+          allowance_cost: number
+          captured_at: string | null
           created_at: string | null
           customer_id: string
+          expires_at: string | null
+          guest_email: string | null
+          guest_name: string | null
           id: string
-          location: Database["public"]["Enums"]["location_type"]
+          idempotency_key: string | null
+          is_guest: boolean
+          location_id: string
           notes: string | null
+          pour_size_id: string | null
           quantity: number
           recorded_by_staff_id: string | null
           status: Database["public"]["Enums"]["pour_status"]
           toast_reference_number: string
           updated_at: string | null
+          wine_id: string | null
         }
         Insert: {
+          allowance_cost: number
+          captured_at?: string | null
           created_at?: string | null
           customer_id: string
+          expires_at?: string | null
+          guest_email?: string | null
+          guest_name?: string | null
           id?: string
-          location: Database["public"]["Enums"]["location_type"]
+          idempotency_key?: string | null
+          is_guest?: boolean
+          location_id: string
           notes?: string | null
+          pour_size_id?: string | null
           quantity?: number
           recorded_by_staff_id?: string | null
           status?: Database["public"]["Enums"]["pour_status"]
           toast_reference_number: string
           updated_at?: string | null
+          wine_id?: string | null
         }
         Update: {
+          allowance_cost?: number
+          captured_at?: string | null
           created_at?: string | null
           customer_id?: string
+          expires_at?: string | null
+          guest_email?: string | null
+          guest_name?: string | null
           id?: string
-          location?: Database["public"]["Enums"]["location_type"]
+          idempotency_key?: string | null
+          is_guest?: boolean
+          location_id?: string
           notes?: string | null
+          pour_size_id?: string | null
           quantity?: number
           recorded_by_staff_id?: string | null
           status?: Database["public"]["Enums"]["pour_status"]
           toast_reference_number?: string
           updated_at?: string | null
+          wine_id?: string | null
         }
         Relationships: [
           {
@@ -367,6 +845,20 @@ export type Database = {
             referencedRelation: "customers_public"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "pours_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pours_pour_size_id_fkey"
+            columns: ["pour_size_id"]
+            isOneToOne: false
+            referencedRelation: "pour_sizes"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "pours_recorded_by_staff_id_fkey"
             columns: ["recorded_by_staff_id"]
@@ -381,11 +873,19 @@ export type Database = {
             referencedRelation: "staff_profile_view"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "pours_wine_id_fkey"
+            columns: ["wine_id"]
+            isOneToOne: false
+            referencedRelation: "wines"
+            referencedColumns: ["id"]
+          },
         ]
       }
       profiles: {
         Row: {
           created_at: string | null
+          default_location_id: string | null
           email: string
           first_name: string | null
           id: string
@@ -397,6 +897,7 @@ export type Database = {
         }
         Insert: {
           created_at?: string | null
+          default_location_id?: string | null
           email: string
           first_name?: string | null
           id: string
@@ -408,6 +909,7 @@ export type Database = {
         }
         Update: {
           created_at?: string | null
+          default_location_id?: string | null
           email?: string
           first_name?: string | null
           id?: string
@@ -417,7 +919,15 @@ export type Database = {
           phone?: string | null
           updated_at?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "profiles_default_location_id_fkey"
+            columns: ["default_location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       promotional_accounts: {
         Row: {
@@ -453,41 +963,235 @@ export type Database = {
           updated_at?: string
         }
         Update: {
-          created_at?: string
-          created_by?: string
+          created_at?: string
+          created_by?: string
+          customer_id?: string
+          email?: string
+          expires_at?: string
+          id?: string
+          membership_id?: string
+          months_remaining?: number
+          notes?: string | null
+          started_at?: string
+          status?: string
+          tier?: Database["public"]["Enums"]["customer_tier"]
+          total_months?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "promotional_accounts_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "promotional_accounts_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers_public"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "promotional_accounts_membership_id_fkey"
+            columns: ["membership_id"]
+            isOneToOne: false
+            referencedRelation: "memberships"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      qr_anomaly_flags: {
+        Row: {
+          created_at: string
+          customer_id: string | null
+          details: Json
+          event_count: number
+          fingerprint: string
+          id: string
+          ip_address: string | null
+          kind: string
+          reviewed_at: string | null
+          reviewed_by: string | null
+          staff_id: string | null
+          status: string
+          window_end: string
+          window_start: string
+        }
+        Insert: {
+          created_at?: string
+          customer_id?: string | null
+          details?: Json
+          event_count: number
+          fingerprint: string
+          id?: string
+          ip_address?: string | null
+          kind: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          staff_id?: string | null
+          status?: string
+          window_end: string
+          window_start: string
+        }
+        Update: {
+          created_at?: string
+          customer_id?: string | null
+          details?: Json
+          event_count?: number
+          fingerprint?: string
+          id?: string
+          ip_address?: string | null
+          kind?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          staff_id?: string | null
+          status?: string
+          window_end?: string
+          window_start?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "qr_anomaly_flags_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "qr_anomaly_flags_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "qr_anomaly_flags_staff_id_fkey"
+            columns: ["staff_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      qr_short_codes: {
+        Row: {
+          code: string
+          created_at: string
+          customer_id: string
+          expires_at: string
+          token: string
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          customer_id: string
+          expires_at: string
+          token: string
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          customer_id?: string
+          expires_at?: string
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "qr_short_codes_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      qr_signing_keys: {
+        Row: {
+          activates_at: string
+          created_at: string
+          kid: string
+          private_jwk: Json
+          public_jwk: Json
+        }
+        Insert: {
+          activates_at: string
+          created_at?: string
+          kid: string
+          private_jwk: Json
+          public_jwk: Json
+        }
+        Update: {
+          activates_at?: string
+          created_at?: string
+          kid?: string
+          private_jwk?: Json
+          public_jwk?: Json
+        }
+        Relationships: []
+      }
+      qr_token_uses: {
+        Row: {
+          customer_id: string
+          expires_at: string
+          jti: string
+          used_at: string
+          used_by: string
+        }
+        Insert: {
+          customer_id: string
+          expires_at: string
+          jti: string
+          used_at?: string
+          used_by: string
+        }
+        Update: {
           customer_id?: string
-          email?: string
           expires_at?: string
-          id?: string
-          membership_id?: string
-          months_remaining?: number
-          notes?: string | null
-          started_at?: string
-          status?: string
-          tier?: Database["public"]["Enums"]["customer_tier"]
-          total_months?: number
-          updated_at?: string
+          jti?: string
+          used_at?: string
+          used_by?: string
         }
         Relationships: [
           {
-            foreignKeyName: "promotional_accounts_customer_id_fkey"
+            foreignKeyName: "qr_token_uses_customer_id_fkey"
             columns: ["customer_id"]
             isOneToOne: false
             referencedRelation: "customers"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "promotional_accounts_customer_id_fkey"
-            columns: ["customer_id"]
+            foreignKeyName: "qr_token_uses_used_by_fkey"
+            columns: ["used_by"]
             isOneToOne: false
-            referencedRelation: "customers_public"
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+        ]
+      }
+      qr_totp_secrets: {
+        Row: {
+          created_at: string
+          secret: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          secret: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          secret?: string
+          user_id?: string
+        }
+        Relationships: [
           {
-            foreignKeyName: "promotional_accounts_membership_id_fkey"
-            columns: ["membership_id"]
-            isOneToOne: false
-            referencedRelation: "memberships"
+            foreignKeyName: "qr_totp_secrets_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
         ]
@@ -495,27 +1199,33 @@ export type Database = {
       qr_verification_logs: {
         Row: {
           created_at: string
-          customer_id: string
+          customer_id: string | null
           id: string
           ip_address: string | null
+          member_user_id: string | null
+          scanned_at: string | null
           staff_id: string
           token_jti: string | null
           verification_result: string
         }
         Insert: {
           created_at?: string
-          customer_id: string
+          customer_id?: string | null
           id?: string
           ip_address?: string | null
+          member_user_id?: string | null
+          scanned_at?: string | null
           staff_id: string
           token_jti?: string | null
           verification_result: string
         }
         Update: {
           created_at?: string
-          customer_id?: string
+          customer_id?: string | null
           id?: string
           ip_address?: string | null
+          member_user_id?: string | null
+          scanned_at?: string | null
           staff_id?: string
           token_jti?: string | null
           verification_result?: string
@@ -549,6 +1259,42 @@ export type Database = {
         }
         Relationships: []
       }
+      stripe_events: {
+        Row: {
+          attempts: number
+          id: string
+          last_attempt_at: string | null
+          last_error: string | null
+          payload: Json
+          processed_at: string | null
+          received_at: string
+          status: string
+          type: string
+        }
+        Insert: {
+          attempts?: number
+          id: string
+          last_attempt_at?: string | null
+          last_error?: string | null
+          payload: Json
+          processed_at?: string | null
+          received_at?: string
+          status?: string
+          type: string
+        }
+        Update: {
+          attempts?: number
+          id?: string
+          last_attempt_at?: string | null
+          last_error?: string | null
+          payload?: Json
+          processed_at?: string | null
+          received_at?: string
+          status?: string
+          type?: string
+        }
+        Relationships: []
+      }
       suppressed_emails: {
         Row: {
           created_at: string
@@ -629,40 +1375,97 @@ export type Database = {
       }
       tier_definitions: {
         Row: {
+          daily_pour_limit: number | null
           description: string | null
           display_name: string
           features: Json | null
           id: string
           is_active: boolean | null
+          limit_window_hours: number | null
+          max_pause_days: number
+          max_pauses_per_year: number
           max_subscriptions: number | null
+          monthly_guest_pours: number
           monthly_pours: number
           monthly_price: number
+          rollover_expiry_periods: number
+          rollover_max_pours: number
           stripe_price_id: string | null
           tier_name: Database["public"]["Enums"]["customer_tier"]
+          window_pour_limit: number | null
         }
         Insert: {
+          daily_pour_limit?: number | null
           description?: string | null
           display_name: string
           features?: Json | null
           id?: string
           is_active?: boolean | null
+          limit_window_hours?: number | null
+          max_pause_days?: number
+          max_pauses_per_year?: number
           max_subscriptions?: number | null
+          monthly_guest_pours?: number
           monthly_pours: number
           monthly_price: number
+          rollover_expiry_periods?: number
+          rollover_max_pours?: number
           stripe_price_id?: string | null
           tier_name: Database["public"]["Enums"]["customer_tier"]
+          window_pour_limit?: number | null
         }
         Update: {
+          daily_pour_limit?: number | null
           description?: string | null
           display_name?: string
           features?: Json | null
           id?: string
           is_active?: boolean | null
+          limit_window_hours?: number | null
+          max_pause_days?: number
+          max_pauses_per_year?: number
           max_subscriptions?: number | null
+          monthly_guest_pours?: number
           monthly_pours?: number
           monthly_price?: number
+          rollover_expiry_periods?: number
+          rollover_max_pours?: number
           stripe_price_id?: string | null
           tier_name?: Database["public"]["Enums"]["customer_tier"]
+          window_pour_limit?: number | null
+        }
+        Relationships: []
+      }
+      tier_prices: {
+        Row: {
+          amount: number
+          created_at: string
+          id: string
+          interval: string
+          is_active: boolean
+          stripe_price_id: string
+          tier_name: Database["public"]["Enums"]["customer_tier"]
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          id?: string
+          interval: string
+          is_active?: boolean
+          stripe_price_id: string
+          tier_name: Database["public"]["Enums"]["customer_tier"]
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          id?: string
+          interval?: string
+          is_active?: boolean
+          stripe_price_id?: string
+          tier_name?: Database["public"]["Enums"]["customer_tier"]
+          updated_at?: string
         }
         Relationships: []
       }
@@ -690,6 +1493,208 @@ export type Database = {
         }
         Relationships: []
       }
+      wallet_pass_scans: {
+        Row: {
+          customer_id: string
+          id: string
+          scanned_at: string
+          scanned_by: string
+          serial: string
+        }
+        Insert: {
+          customer_id: string
+          id?: string
+          scanned_at?: string
+          scanned_by: string
+          serial: string
+        }
+        Update: {
+          customer_id?: string
+          id?: string
+          scanned_at?: string
+          scanned_by?: string
+          serial?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "wallet_pass_scans_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "wallet_pass_scans_scanned_by_fkey"
+            columns: ["scanned_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "wallet_pass_scans_serial_fkey"
+            columns: ["serial"]
+            isOneToOne: false
+            referencedRelation: "wallet_passes"
+            referencedColumns: ["serial"]
+          },
+        ]
+      }
+      wallet_passes: {
+        Row: {
+          created_at: string
+          customer_id: string
+          platform: string
+          revoked_at: string | null
+          secret: string
+          serial: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          customer_id: string
+          platform: string
+          revoked_at?: string | null
+          secret: string
+          serial?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          customer_id?: string
+          platform?: string
+          revoked_at?: string | null
+          secret?: string
+          serial?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "wallet_passes_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "wallet_passes_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      wine_stock_movements: {
+        Row: {
+          bottles_change: number
+          change_ml: number
+          created_at: string
+          created_by: string | null
+          id: string
+          kind: string
+          note: string | null
+          pour_id: string | null
+          wine_id: string
+        }
+        Insert: {
+          bottles_change?: number
+          change_ml?: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          kind: string
+          note?: string | null
+          pour_id?: string | null
+          wine_id: string
+        }
+        Update: {
+          bottles_change?: number
+          change_ml?: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          kind?: string
+          note?: string | null
+          pour_id?: string | null
+          wine_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "wine_stock_movements_pour_id_fkey"
+            columns: ["pour_id"]
+            isOneToOne: false
+            referencedRelation: "pours"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "wine_stock_movements_wine_id_fkey"
+            columns: ["wine_id"]
+            isOneToOne: false
+            referencedRelation: "wines"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      wines: {
+        Row: {
+          bottle_size_ml: number
+          bottles_on_hand: number
+          created_at: string
+          freshness_days: number
+          glass_price: number | null
+          id: string
+          is_active: boolean
+          low_stock_threshold: number
+          name: string
+          open_bottle_ml: number
+          open_bottle_opened_at: string | null
+          pour_size_ml: number
+          producer: string | null
+          region: string | null
+          updated_at: string
+          varietal: string | null
+          vintage: number | null
+        }
+        Insert: {
+          bottle_size_ml?: number
+          bottles_on_hand?: number
+          created_at?: string
+          freshness_days?: number
+          glass_price?: number | null
+          id?: string
+          is_active?: boolean
+          low_stock_threshold?: number
+          name: string
+          open_bottle_ml?: number
+          open_bottle_opened_at?: string | null
+          pour_size_ml?: number
+          producer?: string | null
+          region?: string | null
+          updated_at?: string
+          varietal?: string | null
+          vintage?: number | null
+        }
+        Update: {
+          bottle_size_ml?: number
+          bottles_on_hand?: number
+          created_at?: string
+          freshness_days?: number
+          glass_price?: number | null
+          id?: string
+          is_active?: boolean
+          low_stock_threshold?: number
+          name?: string
+          open_bottle_ml?: number
+          open_bottle_opened_at?: string | null
+          pour_size_ml?: number
+          producer?: string | null
+          region?: string | null
+          updated_at?: string
+          varietal?: string | null
+          vintage?: number | null
+        }
+        Relationships: []
+      }
     }
     Views: {
       customers_public: {
@@ -787,15 +1792,91 @@ export type Database = {
       }
     }
     Functions: {
+      adjust_wine_stock: {
+        Args: {
+          _action: string
+          _bottles?: number
+          _note?: string
+          _wine_id: string
+        }
+        Returns: Json
+      }
+      advance_pour_allowance_periods: { Args: never; Returns: number }
+      apply_pour_reversal: { Args: { _pour_id: string }; Returns: number }
+      apply_pour_rollover: {
+        Args: {
+          _customer_id: string
+          _period_end: string
+          _period_start: string
+          _tier: Database["public"]["Enums"]["customer_tier"]
+        }
+        Returns: Json
+      }
+      apply_tier_change: {
+        Args: {
+          _membership_id: string
+          _monthly_price: number
+          _tier: Database["public"]["Enums"]["customer_tier"]
+        }
+        Returns: Json
+      }
+      claim_stripe_event: {
+        Args: { _event_id: string; _payload: Json; _type: string }
+        Returns: Json
+      }
+      claim_wallet_pass_scan: {
+        Args: { _scanned_at?: string; _serial: string; _staff_id: string }
+        Returns: Json
+      }
       cleanup_old_rate_limits: { Args: never; Returns: undefined }
+      clear_membership_past_due: {
+        Args: { _membership_id: string }
+        Returns: Json
+      }
+      consume_qr_token: {
+        Args: {
+          _customer_id: string
+          _expires_at: string
+          _jti: string
+          _staff_id: string
+        }
+        Returns: Json
+      }
+      create_pour_preorder: {
+        Args: {
+          _customer_id: string
+          _location_id: string
+          _notes?: string
+          _quantity: number
+        }
+        Returns: Json
+      }
       delete_email: {
         Args: { message_id: number; queue_name: string }
         Returns: boolean
       }
+      deplete_wine_stock: {
+        Args: {
+          _ml: number
+          _pour_id: string
+          _wine_id: string
+        }
+        Returns: undefined
+      }
+      detect_qr_anomalies: { Args: never; Returns: number }
+      end_membership_pause: {
+        Args: { _discard?: boolean; _membership_id: string }
+        Returns: Json
+      }
       enqueue_email: {
         Args: { payload: Json; queue_name: string }
         Returns: number
       }
+      expire_pending_pours: { Args: never; Returns: number }
+      get_available_guest_pours: {
+        Args: { customer_uuid: string }
+        Returns: number
+      }
       get_available_pours: { Args: { customer_uuid: string }; Returns: number }
       get_family_customer_data: {
         Args: { p_secondary_user_id: string }
@@ -814,6 +1895,26 @@ export type Database = {
           user_id: string
         }[]
       }
+      get_membership_paused_until: {
+        Args: { _customer_id: string }
+        Returns: string
+      }
+      get_my_billing_status: { Args: never; Returns: Json }
+      get_my_qr_token_use: { Args: { _jti: string }; Returns: Json }
+      get_pour_limit_status: {
+        Args: { _at?: string; _customer_id: string; _location_id?: string }
+        Returns: Json
+      }
+      get_pour_totals_by_location: {
+        Args: { _since: string }
+        Returns: {
+          glasses: number
+          location_id: string
+          location_name: string
+          pour_count: number
+        }[]
+      }
+      get_rollover_pours: { Args: { customer_uuid: string }; Returns: number }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -822,6 +1923,10 @@ export type Database = {
         Returns: boolean
       }
       is_admin: { Args: { _user_id: string }; Returns: boolean }
+      mark_membership_past_due: {
+        Args: { _invoice_url: string; _membership_id: string }
+        Returns: Json
+      }
       move_to_dlq: {
         Args: {
           dlq_name: string
@@ -839,6 +1944,25 @@ export type Database = {
           read_ct: number
         }[]
       }
+      redeem_pours: {
+        Args: {
+          _captured_at?: string
+          _customer_id: string
+          _guest_email?: string
+          _guest_name?: string
+          _idempotency_key?: string
+          _is_guest?: boolean
+          _location_id: string
+          _notes?: string
+          _override_reason?: string
+          _pour_size_id?: string
+          _quantity: number
+          _reference?: string
+          _staff_id: string
+          _wine_id?: string
+        }
+        Returns: Json
+      }
       reserve_tier_slot: {
         Args: {
           _tier_name: Database["public"]["Enums"]["customer_tier"]
@@ -846,14 +1970,63 @@ export type Database = {
         }
         Returns: Json
       }
+      resolve_pour_preorder: {
+        Args: {
+          _confirm: boolean
+          _override_reason?: string
+          _pour_id: string
+          _reason?: string
+          _staff_id?: string
+        }
+        Returns: Json
+      }
+      restore_wine_stock: {
+        Args: {
+          _pour_id: string
+          _wine_id: string
+        }
+        Returns: undefined
+      }
+      reverse_pour: {
+        Args: {
+          _bypass_window?: boolean
+          _pour_id: string
+          _reason: string
+          _staff_id: string
+        }
+        Returns: Json
+      }
+      review_pour_reversal: {
+        Args: {
+          _admin_id: string
+          _approve: boolean
+          _reversal_id: string
+        }
+        Returns: Json
+      }
+      review_qr_anomaly: {
+        Args: { _action: string; _flag_id: string; _reason?: string }
+        Returns: Json
+      }
+      set_customer_qr_suspension: {
+        Args: { _customer_id: string; _reason?: string; _suspend: boolean }
+        Returns: Json
+      }
+      start_membership_pause: {
+        Args: { _membership_id: string; _resumes_at: string }
+        Returns: Json
+      }
+      suspend_past_due_membership: {
+        Args: { _membership_id: string }
+        Returns: Json
+      }
     }
     Enums: {
       app_role: "customer" | "staff" | "admin"
       customer_status: "active" | "inactive" | "suspended"
       customer_tier: "select" | "premier" | "elite" | "household"
-      location_type: "main_bar" | "tasting_room" | "private_event"
-      membership_status: "active" | "expired" | "cancelled"
-      pour_status: "redeemed" | "pending" | "reversed"
+      membership_status: "active" | "expired" | "cancelled" | "past_due"
+      pour_status: "redeemed" | "pending" | "reversed" | "cancelled" | "expired"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -984,9 +2157,8 @@ export const Constants = {
       app_role: ["customer", "staff", "admin"],
       customer_status: ["active", "inactive", "suspended"],
       customer_tier: ["select", "premier", "elite", "household"],
-      location_type: ["main_bar", "tasting_room", "private_event"],
-      membership_status: ["active", "expired", "cancelled"],
-      pour_status: ["redeemed", "pending", "reversed"],
+      membership_status: ["active", "expired", "cancelled", "past_due"],
+      pour_status: ["redeemed", "pending", "reversed", "cancelled", "expired"],
     },
   },
 } as const
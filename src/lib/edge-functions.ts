@@ -0,0 +1,16 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+
+/**
+ * Reads the JSON body of a non-2xx edge function response so callers can show
+ * the server's message (e.g. "Only 1 pours available") instead of a generic one.
+ */
+export async function readFunctionErrorBody<T extends { error?: string } = { error?: string }>(
+  error: unknown,
+): Promise<T | null> {
+  if (!(error instanceof FunctionsHttpError)) return null;
+  try {
+    return (await error.context.json()) as T;
+  } catch {
+    return null;
+  }
+}
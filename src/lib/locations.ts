@@ -0,0 +1,52 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type PourLocation = Tables<"locations">;
+
+function formatTime(time: string): string {
+  const [hours, minutes] = time.split(":").map(Number);
+  const suffix = hours >= 12 ? "PM" : "AM";
+  return `${hours % 12 || 12}:${minutes.toString().padStart(2, "0")} ${suffix}`;
+}
+
+/** Opening hours label, e.g. "4:00 PM – 11:00 PM", or null when no hours are set. */
+export function formatLocationHours(location: Pick<PourLocation, "opens_at" | "closes_at">): string | null {
+  if (!location.opens_at || !location.closes_at) return null;
+  return `${formatTime(location.opens_at)} – ${formatTime(location.closes_at)}`;
+}
+
+/** Active locations for the pour pickers, alphabetical. */
+export async function fetchActiveLocations(): Promise<PourLocation[]> {
+  const { data, error } = await supabase
+    .from("locations")
+    .select("*")
+    .eq("is_active", true)
+    .order("name", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching locations:", error);
+    return [];
+  }
+  return data || [];
+}
+
+/**
+ * Active locations plus the staff member's default, so pour forms can pre-select it.
+ * The default is dropped if that location has since been deactivated.
+ */
+export async function fetchPourLocationChoices(
+  staffId: string | undefined
+): Promise<{ locations: PourLocation[]; defaultLocationId: string | null }> {
+  const [locations, profile] = await Promise.all([
+    fetchActiveLocations(),
+    staffId
+      ? supabase.from("profiles").select("default_location_id").eq("id", staffId).maybeSingle()
+      : Promise.resolve({ data: null }),
+  ]);
+
+  const defaultLocationId = profile.data?.default_location_id ?? null;
+  return {
+    locations,
+    defaultLocationId: locations.some((l) => l.id === defaultLocationId) ? defaultLocationId : null,
+  };
+}
@@ -0,0 +1,14 @@
+// Short numeric codes staff can type in place of scanning the QR. Must match
+// supabase/functions/_shared/member-code.ts.
+export const MEMBER_CODE_LENGTH = 8;
+
+/** The code with spaces and dashes removed, or null if the input is not a member code. */
+export function normalizeMemberCode(input: string): string | null {
+  const code = input.replace(/[\s-]/g, "");
+  return new RegExp(`^[0-9]{${MEMBER_CODE_LENGTH}}$`).test(code) ? code : null;
+}
+
+/** Split into two groups of four so it is easy to read out at the bar. */
+export function formatMemberCode(code: string): string {
+  return `${code.slice(0, 4)} ${code.slice(4)}`;
+}
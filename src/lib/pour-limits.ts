@@ -0,0 +1,45 @@
+import { supabase } from "@/integrations/supabase/client";
+import { formatPours } from "@/lib/pour-sizes";
+
+/** Where a member stands against the responsible-service caps, as returned by get_pour_limit_status. */
+export interface PourLimitStatus {
+  daily_limit: number | null;
+  daily_used: number;
+  day_started_at: string;
+  window_limit: number | null;
+  window_hours: number | null;
+  window_used: number | null;
+  /** Allowance units still servable; null when no cap applies. */
+  remaining: number | null;
+  limited_by: "day" | "window" | null;
+}
+
+/** Usage lines for the pour forms, e.g. ["Today: 2 of 4", "Last 3h: 1½ of 2"]. */
+export function describePourLimits(limits: PourLimitStatus): string[] {
+  const lines: string[] = [];
+  if (limits.daily_limit !== null) {
+    lines.push(`Today: ${formatPours(limits.daily_used)} of ${formatPours(limits.daily_limit)}`);
+  }
+  if (limits.window_limit !== null) {
+    lines.push(`Last ${limits.window_hours}h: ${formatPours(limits.window_used ?? 0)} of ${formatPours(limits.window_limit)}`);
+  }
+  return lines;
+}
+
+/** True when serving `cost` more would pass a cap. */
+export function exceedsPourLimits(limits: PourLimitStatus | null, cost: number): boolean {
+  return limits?.remaining != null && cost > limits.remaining;
+}
+
+/** Caps for a member at a location, via get-available-pours. */
+export async function fetchPourLimits(customerId: string, locationId: string): Promise<PourLimitStatus | null> {
+  const { data, error } = await supabase.functions.invoke("get-available-pours", {
+    body: { customer_id: customerId, location_id: locationId },
+  });
+
+  if (error) {
+    console.error("Error fetching pour limits:", error);
+    return null;
+  }
+  return data?.limits ?? null;
+}
@@ -0,0 +1,191 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { readFunctionErrorBody } from "@/lib/edge-functions";
+import type { PourLimitStatus } from "@/lib/pour-limits";
+
+/** Body accepted by the redeem-pours edge function, minus the queue bookkeeping fields. */
+export interface RedeemPourPayload {
+  customer_id: string;
+  quantity: number;
+  location_id: string;
+  pour_size_id?: string;
+  wine_id?: string;
+  notes?: string;
+  source: "qr" | "manual";
+  is_guest?: boolean;
+  guest_name?: string;
+  guest_email?: string;
+  override_reason?: string;
+}
+
+export interface QueuedPour {
+  idempotency_key: string;
+  captured_at: string;
+  member_name: string;
+  payload: RedeemPourPayload;
+  attempts: number;
+  last_error?: string;
+}
+
+export interface RedeemPourResponse {
+  success: boolean;
+  pour_id: string;
+  allowance_cost: number | null;
+  available_pours: number;
+  available_guest_pours: number | null;
+  duplicate: boolean;
+  limit_overridden: boolean;
+}
+
+export interface RedeemPourErrorBody {
+  error?: string;
+  available_pours?: number | null;
+  available_guest_pours?: number | null;
+  limit_exceeded?: boolean;
+  limits?: PourLimitStatus | null;
+  conflict_logged?: boolean;
+}
+
+export type SubmitPourResult =
+  | { status: "recorded"; data: RedeemPourResponse }
+  | { status: "rejected"; body: RedeemPourErrorBody | null }
+  | { status: "held"; httpStatus: number; body: RedeemPourErrorBody | null }
+  | { status: "queued" };
+
+// The session or role has lapsed, or the server is throttling: every other queued pour would get
+// the same answer, so they wait until the staff member signs in again or the next retry
+const ACCOUNT_BLOCKED_STATUSES = [401, 403, 429];
+
+/** Fired on window whenever a queue changes, so the header badge can refresh. */
+export const POUR_QUEUE_EVENT = "pour-queue-change";
+
+// Queues are per staff member so a shared tablet never syncs one person's pours under another's login
+const storageKey = (staffId: string) => `pour-queue:${staffId}`;
+
+export function getQueuedPours(staffId: string): QueuedPour[] {
+  try {
+    return JSON.parse(localStorage.getItem(storageKey(staffId)) || "[]");
+  } catch {
+    return [];
+  }
+}
+
+function saveQueue(staffId: string, queue: QueuedPour[]) {
+  if (queue.length > 0) {
+    localStorage.setItem(storageKey(staffId), JSON.stringify(queue));
+  } else {
+    localStorage.removeItem(storageKey(staffId));
+  }
+  window.dispatchEvent(new Event(POUR_QUEUE_EVENT));
+}
+
+function updateQueue(staffId: string, update: (queue: QueuedPour[]) => QueuedPour[]) {
+  saveQueue(staffId, update(getQueuedPours(staffId)));
+}
+
+/** Persist a pour locally before any network call, so a dropped connection cannot lose it. */
+export function enqueuePour(staffId: string, payload: RedeemPourPayload, memberName: string): QueuedPour {
+  const entry: QueuedPour = {
+    idempotency_key: crypto.randomUUID(),
+    captured_at: new Date().toISOString(),
+    member_name: memberName,
+    payload,
+    attempts: 0,
+  };
+  updateQueue(staffId, (queue) => [...queue, entry]);
+  return entry;
+}
+
+/**
+ * Send one queued pour. It leaves the queue once it is recorded, or once the server has rejected
+ * it with a 409 that somebody will see: the staff member at the bar, or for a background resync
+ * a manager through the logged conflict. Anything else keeps it queued for the next sync.
+ * `offlineSync` marks background resyncs so the server logs rejections for a manager.
+ */
+export async function submitQueuedPour(
+  staffId: string,
+  entry: QueuedPour,
+  offlineSync: boolean,
+): Promise<SubmitPourResult> {
+  const { data, error } = await supabase.functions.invoke("redeem-pours", {
+    body: {
+      ...entry.payload,
+      idempotency_key: entry.idempotency_key,
+      captured_at: entry.captured_at,
+      offline_sync: offlineSync,
+    },
+  });
+
+  if (!error) {
+    updateQueue(staffId, (queue) => queue.filter((q) => q.idempotency_key !== entry.idempotency_key));
+    return { status: "recorded", data };
+  }
+
+  if (error instanceof FunctionsHttpError && error.context.status < 500) {
+    const httpStatus: number = error.context.status;
+    const body = await readFunctionErrorBody<RedeemPourErrorBody>(error);
+
+    if (httpStatus === 409 && (!offlineSync || body?.conflict_logged)) {
+      updateQueue(staffId, (queue) => queue.filter((q) => q.idempotency_key !== entry.idempotency_key));
+      return { status: "rejected", body };
+    }
+
+    markAttempt(staffId, entry, body?.error || error.message);
+    return { status: "held", httpStatus, body };
+  }
+
+  markAttempt(staffId, entry, error.message);
+  return { status: "queued" };
+}
+
+function markAttempt(staffId: string, entry: QueuedPour, lastError: string) {
+  updateQueue(staffId, (queue) =>
+    queue.map((q) =>
+      q.idempotency_key === entry.idempotency_key
+        ? { ...q, attempts: q.attempts + 1, last_error: lastError }
+        : q,
+    ),
+  );
+}
+
+/** Whether a held pour is waiting on the staff member's session rather than on the pour itself. */
+export function isAccountBlocked(result: SubmitPourResult): boolean {
+  return result.status === "held" && ACCOUNT_BLOCKED_STATUSES.includes(result.httpStatus);
+}
+
+export interface PourQueueSyncResult {
+  synced: number;
+  conflicts: number;
+  /** Set when the staff member has to sign in again before the rest can sync. */
+  blocked: boolean;
+}
+
+let activeSync: Promise<PourQueueSyncResult> | null = null;
+
+/** Replay the queue oldest-first. Concurrent callers share the same run. */
+export function syncPourQueue(staffId: string): Promise<PourQueueSyncResult> {
+  if (activeSync) return activeSync;
+
+  activeSync = (async () => {
+    let synced = 0;
+    let conflicts = 0;
+    let blocked = false;
+    for (const entry of getQueuedPours(staffId)) {
+      const result = await submitQueuedPour(staffId, entry, true);
+      if (result.status === "recorded") synced++;
+      else if (result.status === "rejected") conflicts++;
+      else if (isAccountBlocked(result)) {
+        blocked = true;
+        break;
+      }
+      // Still offline; the rest would fail the same way
+      else if (result.status === "queued") break;
+      // Any other held pour stays queued without holding up the ones behind it
+    }
+    return { synced, conflicts, blocked };
+  })().finally(() => {
+    activeSync = null;
+  });
+
+  return activeSync;
+}
@@ -0,0 +1,48 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type PourSize = Tables<"pour_sizes">;
+
+const FRACTIONS: Record<number, string> = { 25: "¼", 50: "½", 75: "¾" };
+
+/**
+ * Allowance amount for display: whole numbers stay whole, common fractions use
+ * glyphs ("2½", "¾") and anything else keeps up to two decimals.
+ */
+export function formatPours(value: number): string {
+  const hundredths = Math.round(value * 100);
+  const whole = Math.trunc(hundredths / 100);
+  const remainder = Math.abs(hundredths % 100);
+  if (remainder === 0) return whole.toString();
+  const fraction = FRACTIONS[remainder];
+  if (fraction) return `${hundredths < 0 ? "-" : ""}${whole === 0 ? "" : Math.abs(whole)}${fraction}`;
+  return (hundredths / 100).toString();
+}
+
+/** e.g. "1 pour", "½ pour", "2½ pours". */
+export function formatPourCount(value: number): string {
+  return `${formatPours(value)} pour${value > 0 && value <= 1 ? "" : "s"}`;
+}
+
+/** Picker label, e.g. "Taste (60ml) · ½ pour". */
+export function formatPourSize(size: Pick<PourSize, "name" | "volume_ml" | "allowance_cost">): string {
+  const volume = size.volume_ml ? ` (${size.volume_ml}ml)` : "";
+  return `${size.name}${volume} · ${formatPourCount(Number(size.allowance_cost))}`;
+}
+
+/** Active sizes served at a location, in menu order. */
+export async function fetchPourSizes(locationId: string): Promise<PourSize[]> {
+  const { data, error } = await supabase
+    .from("pour_sizes")
+    .select("*")
+    .eq("location_id", locationId)
+    .eq("is_active", true)
+    .order("sort_order", { ascending: true })
+    .order("name", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching pour sizes:", error);
+    return [];
+  }
+  return data || [];
+}
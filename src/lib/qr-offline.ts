@@ -0,0 +1,196 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { readFunctionErrorBody } from "@/lib/edge-functions";
+import { base64UrlDecode, parseQrValue, QR_TOTP_DRIFT_STEPS, QR_TOTP_PERIOD_SECONDS, totpStep } from "@/lib/qr-totp";
+import { isWalletPassValue } from "@/lib/wallet-pass";
+
+/** Member details carried in a membership QR token, readable without a connection. */
+export interface QrTokenClaims {
+  customer_id: string;
+  tier: "select" | "premier" | "elite" | "household";
+  is_secondary: boolean;
+  first_name: string | null;
+  last_name: string | null;
+  exp: number;
+  jti?: string;
+}
+
+export type LocalQrResult =
+  | { status: "valid"; claims: QrTokenClaims }
+  | { status: "expired"; claims: QrTokenClaims }
+  // Genuine, but the rotating code is from an earlier time step: a screenshot or photo
+  | { status: "stale"; claims: QrTokenClaims; shown_at: string }
+  | { status: "invalid" }
+  // Signed with a key this device has not downloaded yet, or a wallet pass
+  | { status: "unverifiable" };
+
+type QrPublicKey = JsonWebKey & { kid: string };
+
+interface CachedQrKeys {
+  fetched_at: string;
+  keys: QrPublicKey[];
+}
+
+export interface QueuedQrScan {
+  token: string;
+  scanned_at: string;
+  member_name: string;
+}
+
+const KEYS_STORAGE_KEY = "qr-public-keys";
+// The server publishes the next key a week ahead, so hourly refreshes keep well inside that
+const KEYS_MAX_AGE_MS = 60 * 60 * 1000;
+const CLOCK_SKEW_MS = 60 * 1000;
+
+// Per staff member, like the pour queue, so a shared tablet reconciles scans under the right login
+const scanQueueKey = (staffId: string) => `qr-scan-queue:${staffId}`;
+
+function decodeJsonSegment<T>(segment: string): T {
+  return JSON.parse(new TextDecoder().decode(base64UrlDecode(segment)));
+}
+
+function getCachedQrKeys(): CachedQrKeys | null {
+  try {
+    return JSON.parse(localStorage.getItem(KEYS_STORAGE_KEY) || "null");
+  } catch {
+    return null;
+  }
+}
+
+/** Download the published QR keys unless the cached copy is recent. Returns false if that failed. */
+export async function refreshQrPublicKeys(force = false): Promise<boolean> {
+  const cached = getCachedQrKeys();
+  if (!force && cached && Date.now() - Date.parse(cached.fetched_at) < KEYS_MAX_AGE_MS) return true;
+
+  const { data, error } = await supabase.functions.invoke("qr-public-keys");
+  if (error || !Array.isArray(data?.keys)) {
+    console.error("Error fetching QR public keys:", error);
+    return false;
+  }
+
+  const entry: CachedQrKeys = { fetched_at: new Date().toISOString(), keys: data.keys };
+  localStorage.setItem(KEYS_STORAGE_KEY, JSON.stringify(entry));
+  return true;
+}
+
+/**
+ * Check a scanned membership code's ES256 signature and expiry against the cached public keys,
+ * and whether its rotating code's time step is current. The code itself needs the member's
+ * secret, so it and single use are only confirmed once the scan reaches the server.
+ */
+export async function verifyQrTokenLocally(qrValue: string): Promise<LocalQrResult> {
+  // Wallet passes carry a secret only the server can check
+  if (isWalletPassValue(qrValue)) return { status: "unverifiable" };
+
+  const { token, step } = parseQrValue(qrValue);
+  if (step === null) return { status: "invalid" };
+
+  const parts = token.split(".");
+  if (parts.length !== 3) return { status: "invalid" };
+
+  let header: { alg?: string; kid?: string };
+  let claims: QrTokenClaims;
+  try {
+    header = decodeJsonSegment(parts[0]);
+    claims = decodeJsonSegment(parts[1]);
+  } catch {
+    return { status: "invalid" };
+  }
+
+  if (header.alg !== "ES256") return { status: "invalid" };
+
+  const jwk = getCachedQrKeys()?.keys.find((k) => k.kid === header.kid);
+  if (!jwk) return { status: "unverifiable" };
+
+  try {
+    const key = await crypto.subtle.importKey(
+      "jwk",
+      { kty: jwk.kty, crv: jwk.crv, x: jwk.x, y: jwk.y },
+      { name: "ECDSA", namedCurve: "P-256" },
+      false,
+      ["verify"],
+    );
+    const valid = await crypto.subtle.verify(
+      { name: "ECDSA", hash: "SHA-256" },
+      key,
+      base64UrlDecode(parts[2]),
+      new TextEncoder().encode(`${parts[0]}.${parts[1]}`),
+    );
+    if (!valid) return { status: "invalid" };
+  } catch {
+    return { status: "invalid" };
+  }
+
+  if (typeof claims.exp !== "number" || claims.exp * 1000 < Date.now() - CLOCK_SKEW_MS) {
+    return { status: "expired", claims };
+  }
+
+  const stepsBehind = totpStep() - step;
+  if (stepsBehind < -QR_TOTP_DRIFT_STEPS) return { status: "invalid" };
+  if (stepsBehind > QR_TOTP_DRIFT_STEPS) {
+    return { status: "stale", claims, shown_at: new Date(step * QR_TOTP_PERIOD_SECONDS * 1000).toISOString() };
+  }
+  return { status: "valid", claims };
+}
+
+export function getQueuedQrScans(staffId: string): QueuedQrScan[] {
+  try {
+    return JSON.parse(localStorage.getItem(scanQueueKey(staffId)) || "[]");
+  } catch {
+    return [];
+  }
+}
+
+function saveScanQueue(staffId: string, queue: QueuedQrScan[]) {
+  if (queue.length > 0) {
+    localStorage.setItem(scanQueueKey(staffId), JSON.stringify(queue));
+  } else {
+    localStorage.removeItem(scanQueueKey(staffId));
+  }
+}
+
+/** Remember a scan accepted offline so the server can consume and log it later. */
+export function enqueueQrScan(staffId: string, token: string, memberName: string) {
+  const entry: QueuedQrScan = { token, scanned_at: new Date().toISOString(), member_name: memberName };
+  saveScanQueue(staffId, [...getQueuedQrScans(staffId), entry]);
+}
+
+let activeScanSync: Promise<{ verified: number; replayed: string[]; rejected: string[] }> | null = null;
+
+/**
+ * Send offline scans to verify-qr-token, oldest first. Each leaves the queue once the server
+ * has answered; replayed and rejected scans are returned by member name for the staff member.
+ */
+export function syncQrScanQueue(staffId: string): Promise<{ verified: number; replayed: string[]; rejected: string[] }> {
+  if (activeScanSync) return activeScanSync;
+
+  activeScanSync = (async () => {
+    let verified = 0;
+    const replayed: string[] = [];
+    const rejected: string[] = [];
+
+    for (const entry of getQueuedQrScans(staffId)) {
+      const { error } = await supabase.functions.invoke("verify-qr-token", {
+        body: { token: entry.token, scanned_at: entry.scanned_at },
+      });
+
+      if (error) {
+        // Offline, rate limited or a server fault; try the rest later
+        if (!(error instanceof FunctionsHttpError) || error.context.status === 429 || error.context.status >= 500) break;
+
+        const body = await readFunctionErrorBody<{ error?: string; already_used?: boolean }>(error);
+        (body?.already_used ? replayed : rejected).push(entry.member_name);
+      } else {
+        verified++;
+      }
+
+      saveScanQueue(staffId, getQueuedQrScans(staffId).filter((q) => q.token !== entry.token));
+    }
+
+    return { verified, replayed, rejected };
+  })().finally(() => {
+    activeScanSync = null;
+  });
+
+  return activeScanSync;
+}
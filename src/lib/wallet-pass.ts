@@ -0,0 +1,42 @@
+import { supabase } from "@/integrations/supabase/client";
+import { readFunctionErrorBody } from "@/lib/edge-functions";
+
+// Barcode value on a wallet pass: a fixed prefix, the pass serial and its secret.
+// Must match supabase/functions/_shared/wallet-pass.ts.
+export const WALLET_PASS_PREFIX = "VSWP:";
+
+export type WalletPlatform = "apple" | "google";
+
+export function isWalletPassValue(value: string): boolean {
+  return value.startsWith(WALLET_PASS_PREFIX);
+}
+
+async function requestWalletPass(platform: WalletPlatform) {
+  const { data, error } = await supabase.functions.invoke("wallet-pass", { body: { platform } });
+  if (error) {
+    const body = await readFunctionErrorBody(error);
+    throw new Error(body?.error || "Failed to create wallet pass");
+  }
+  return data;
+}
+
+/**
+ * Hand the member's pass to the phone's wallet: an Apple pass is downloaded as a .pkpass file,
+ * which iOS offers to add, and a Google pass opens its "Save to Google Wallet" page.
+ */
+export async function addToWallet(platform: WalletPlatform): Promise<void> {
+  const data = await requestWalletPass(platform);
+
+  if (platform === "google") {
+    window.location.href = data.save_url;
+    return;
+  }
+
+  const pass = new Blob([data as Blob], { type: "application/vnd.apple.pkpass" });
+  const url = URL.createObjectURL(pass);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = "membership.pkpass";
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 60 * 1000);
+}
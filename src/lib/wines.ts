@@ -0,0 +1,27 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type Wine = Tables<"wines">;
+
+/**
+ * Display label for a wine, e.g. "Ridge Monte Bello 2019".
+ * Falls back to the bare name when producer or vintage are unknown.
+ */
+export function formatWineName(wine: Pick<Wine, "name" | "producer" | "vintage">): string {
+  return [wine.producer, wine.name, wine.vintage].filter(Boolean).join(" ");
+}
+
+/** Active wines for the pour pickers, alphabetical. */
+export async function fetchActiveWines(): Promise<Wine[]> {
+  const { data, error } = await supabase
+    .from("wines")
+    .select("*")
+    .eq("is_active", true)
+    .order("name", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching wines:", error);
+    return [];
+  }
+  return data || [];
+}
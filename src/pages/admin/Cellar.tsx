@@ -0,0 +1,451 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { AlertTriangle, Clock, PackagePlus, Settings2, Trash2, Warehouse, ClipboardCheck } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'react-hot-toast';
+import { StaffAdminHeader } from '@/components/StaffAdminHeader';
+import { formatWineName, type Wine } from '@/lib/wines';
+
+type StockAction = 'restock' | 'count' | 'discard';
+
+interface StockDialogState {
+  wine: Wine;
+  action: StockAction;
+}
+
+const isLowStock = (wine: Wine) => wine.bottles_on_hand <= wine.low_stock_threshold;
+
+const isStale = (wine: Wine) =>
+  !!wine.open_bottle_opened_at &&
+  wine.open_bottle_ml > 0 &&
+  Date.now() - new Date(wine.open_bottle_opened_at).getTime() > wine.freshness_days * 24 * 60 * 60 * 1000;
+
+export default function Cellar() {
+  const [wines, setWines] = useState<Wine[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [stockDialog, setStockDialog] = useState<StockDialogState | null>(null);
+  const [bottles, setBottles] = useState('');
+  const [note, setNote] = useState('');
+  const [settingsWine, setSettingsWine] = useState<Wine | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchWines();
+  }, []);
+
+  const fetchWines = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('wines')
+        .select('*')
+        .eq('is_active', true)
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      setWines(data || []);
+    } catch (error) {
+      console.error('Error fetching cellar:', error);
+      toast.error('Failed to load cellar');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openStockDialog = (wine: Wine, action: StockAction) => {
+    setStockDialog({ wine, action });
+    setBottles(action === 'count' ? wine.bottles_on_hand.toString() : '');
+    setNote('');
+  };
+
+  const handleStockAction = async () => {
+    if (!stockDialog) return;
+
+    setSaving(true);
+    try {
+      const { data, error } = await supabase.rpc('adjust_wine_stock', {
+        _wine_id: stockDialog.wine.id,
+        _action: stockDialog.action,
+        _bottles: parseInt(bottles, 10) || 0,
+        _note: note.trim() || null,
+      });
+
+      if (error) throw error;
+
+      const result = data as { success: boolean; message: string };
+      if (!result.success) {
+        toast.error(result.message);
+        return;
+      }
+
+      toast.success(result.message);
+      setStockDialog(null);
+      fetchWines();
+    } catch (error) {
+      console.error('Error adjusting stock:', error);
+      toast.error('Failed to update stock');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveSettings = async () => {
+    if (!settingsWine) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('wines')
+        .update({
+          bottle_size_ml: settingsWine.bottle_size_ml,
+          pour_size_ml: settingsWine.pour_size_ml,
+          low_stock_threshold: settingsWine.low_stock_threshold,
+          freshness_days: settingsWine.freshness_days,
+        })
+        .eq('id', settingsWine.id);
+
+      if (error) throw error;
+
+      toast.success('Stock settings updated');
+      setSettingsWine(null);
+      fetchWines();
+    } catch (error) {
+      console.error('Error updating stock settings:', error);
+      toast.error('Failed to update stock settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
+      </div>
+    );
+  }
+
+  const reorderWines = wines.filter(isLowStock);
+  const staleWines = wines.filter(isStale);
+
+  const dialogCopy: Record<StockAction, { title: string; description: string; confirm: string }> = {
+    restock: {
+      title: 'Receive Bottles',
+      description: 'Add sealed bottles from a delivery.',
+      confirm: 'Add Bottles',
+    },
+    count: {
+      title: 'Record Physical Count',
+      description: 'Set sealed bottles to what is on the shelf. Clears any negative open-bottle balance.',
+      confirm: 'Save Count',
+    },
+    discard: {
+      title: 'Discard Open Bottle',
+      description: 'Pour out what is left in the open bottle and log it as waste.',
+      confirm: 'Discard',
+    },
+  };
+
+  return (
+    <div className="min-h-screen">
+      <StaffAdminHeader />
+      <div className="p-4 md:p-8">
+        <div className="max-w-4xl mx-auto space-y-6">
+          {/* Header */}
+          <div>
+            <h1 className="text-2xl font-serif flex items-center gap-2">
+              <Warehouse className="h-6 w-6" />
+              Cellar
+            </h1>
+            <p className="text-muted-foreground">Bottle stock for active wines, depleted automatically by pours</p>
+          </div>
+
+          {/* Alerts */}
+          <div className="grid md:grid-cols-2 gap-4">
+            <Card className={reorderWines.length > 0 ? 'border-destructive/50' : ''}>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <AlertTriangle className="h-5 w-5 text-destructive" />
+                  Reorder
+                </CardTitle>
+                <CardDescription>At or below the low-stock threshold</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {reorderWines.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">All wines are stocked</p>
+                ) : (
+                  <ul className="space-y-1 text-sm">
+                    {reorderWines.map(wine => (
+                      <li key={wine.id} className="flex justify-between">
+                        <span>{formatWineName(wine)}</span>
+                        <span className="text-muted-foreground">{wine.bottles_on_hand} left</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+            <Card className={staleWines.length > 0 ? 'border-amber-500/50' : ''}>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <Clock className="h-5 w-5 text-amber-500" />
+                  Past Freshness
+                </CardTitle>
+                <CardDescription>Open bottles older than their freshness window</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {staleWines.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No stale open bottles</p>
+                ) : (
+                  <ul className="space-y-1 text-sm">
+                    {staleWines.map(wine => (
+                      <li key={wine.id} className="flex justify-between">
+                        <span>{formatWineName(wine)}</span>
+                        <span className="text-muted-foreground">
+                          opened {formatDistanceToNow(new Date(wine.open_bottle_opened_at!), { addSuffix: true })}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Wine Stock */}
+          {wines.length === 0 ? (
+            <Card>
+              <CardContent className="p-6 text-center text-muted-foreground">
+                No active wines. Add wines in the <Link to="/admin/wines" className="underline">wine catalog</Link> first.
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="grid gap-4">
+              {wines.map((wine) => {
+                const openPercentage = Math.max(0, Math.min(100, (wine.open_bottle_ml / wine.bottle_size_ml) * 100));
+                const poursLeft = Math.floor(
+                  (wine.bottles_on_hand * wine.bottle_size_ml + Math.max(0, wine.open_bottle_ml)) / wine.pour_size_ml
+                );
+
+                return (
+                  <Card key={wine.id}>
+                    <CardContent className="pt-6">
+                      <div className="grid md:grid-cols-3 gap-6">
+                        {/* Wine Info */}
+                        <div className="space-y-2">
+                          <h3 className="font-semibold">{formatWineName(wine)}</h3>
+                          <div className="flex flex-wrap gap-1">
+                            {isLowStock(wine) && <Badge variant="destructive">Reorder</Badge>}
+                            {isStale(wine) && <Badge className="bg-amber-500">Past freshness</Badge>}
+                            {wine.open_bottle_ml < 0 && <Badge variant="outline">Recount needed</Badge>}
+                          </div>
+                          <p className="text-sm text-muted-foreground">
+                            ~{poursLeft} pours left at {wine.pour_size_ml}ml
+                          </p>
+                        </div>
+
+                        {/* Stock */}
+                        <div className="space-y-2 text-sm">
+                          <div className="flex justify-between">
+                            <span>Sealed bottles</span>
+                            <span className="font-semibold">{wine.bottles_on_hand}</span>
+                          </div>
+                          <div className="flex justify-between">
+                            <span>Open bottle</span>
+                            <span>{Math.round(wine.open_bottle_ml)} / {wine.bottle_size_ml}ml</span>
+                          </div>
+                          <Progress value={openPercentage} className="h-2" />
+                          {wine.open_bottle_opened_at && wine.open_bottle_ml > 0 && (
+                            <p className="text-xs text-muted-foreground">
+                              Opened {formatDistanceToNow(new Date(wine.open_bottle_opened_at), { addSuffix: true })}
+                              {' '}· fresh for {wine.freshness_days} day{wine.freshness_days > 1 ? 's' : ''}
+                            </p>
+                          )}
+                        </div>
+
+                        {/* Actions */}
+                        <div className="flex flex-wrap md:flex-col gap-2 md:items-end">
+                          <Button size="sm" onClick={() => openStockDialog(wine, 'restock')}>
+                            <PackagePlus className="h-4 w-4 mr-2" />
+                            Receive
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => openStockDialog(wine, 'count')}>
+                            <ClipboardCheck className="h-4 w-4 mr-2" />
+                            Count
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => openStockDialog(wine, 'discard')}
+                            disabled={wine.open_bottle_ml <= 0}
+                          >
+                            <Trash2 className="h-4 w-4 mr-2" />
+                            Discard Open
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => setSettingsWine(wine)}>
+                            <Settings2 className="h-4 w-4 mr-2" />
+                            Settings
+                          </Button>
+                        </div>
+                      </div>
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+          )}
+
+          {/* Info Note */}
+          <Card className="bg-muted/50">
+            <CardContent className="pt-4">
+              <p className="text-sm text-muted-foreground">
+                <strong>Note:</strong> Each redeemed pour takes its pour size from the open bottle, opening a sealed
+                bottle when needed. Voided pours put the volume back. Pours are never blocked by stock levels, so a
+                negative open bottle means the shelf count needs checking.
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      {/* Stock action dialog */}
+      <Dialog open={!!stockDialog} onOpenChange={(open) => !open && setStockDialog(null)}>
+        <DialogContent>
+          {stockDialog && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{dialogCopy[stockDialog.action].title}</DialogTitle>
+                <DialogDescription>
+                  {formatWineName(stockDialog.wine)}. {dialogCopy[stockDialog.action].description}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4">
+                {stockDialog.action !== 'discard' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="stock-bottles">
+                      {stockDialog.action === 'restock' ? 'Bottles received' : 'Sealed bottles on the shelf'}
+                    </Label>
+                    <Input
+                      id="stock-bottles"
+                      type="number"
+                      min={stockDialog.action === 'restock' ? 1 : 0}
+                      value={bottles}
+                      onChange={(e) => setBottles(e.target.value)}
+                    />
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="stock-note">Note (Optional)</Label>
+                  <Input
+                    id="stock-note"
+                    placeholder={stockDialog.action === 'restock' ? 'Supplier, invoice #...' : 'Reason...'}
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                  />
+                </div>
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setStockDialog(null)} disabled={saving}>
+                  Cancel
+                </Button>
+                <Button
+                  variant={stockDialog.action === 'discard' ? 'destructive' : 'default'}
+                  onClick={handleStockAction}
+                  disabled={saving}
+                >
+                  {saving ? 'Saving...' : dialogCopy[stockDialog.action].confirm}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Stock settings dialog */}
+      <Dialog open={!!settingsWine} onOpenChange={(open) => !open && setSettingsWine(null)}>
+        <DialogContent>
+          {settingsWine && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Stock Settings</DialogTitle>
+                <DialogDescription>{formatWineName(settingsWine)}</DialogDescription>
+              </DialogHeader>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="bottle-size">Bottle Size (ml)</Label>
+                  <Input
+                    id="bottle-size"
+                    type="number"
+                    min="1"
+                    value={settingsWine.bottle_size_ml}
+                    onChange={(e) => setSettingsWine({ ...settingsWine, bottle_size_ml: parseInt(e.target.value) || 0 })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="pour-size">Pour Size (ml)</Label>
+                  <Input
+                    id="pour-size"
+                    type="number"
+                    min="1"
+                    value={settingsWine.pour_size_ml}
+                    onChange={(e) => setSettingsWine({ ...settingsWine, pour_size_ml: parseInt(e.target.value) || 0 })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="low-stock">Reorder At (bottles)</Label>
+                  <Input
+                    id="low-stock"
+                    type="number"
+                    min="0"
+                    value={settingsWine.low_stock_threshold}
+                    onChange={(e) => setSettingsWine({ ...settingsWine, low_stock_threshold: parseInt(e.target.value) || 0 })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="freshness">Fresh After Opening (days)</Label>
+                  <Input
+                    id="freshness"
+                    type="number"
+                    min="1"
+                    value={settingsWine.freshness_days}
+                    onChange={(e) => setSettingsWine({ ...settingsWine, freshness_days: parseInt(e.target.value) || 0 })}
+                  />
+                </div>
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setSettingsWine(null)} disabled={saving}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleSaveSettings}
+                  disabled={
+                    saving ||
+                    settingsWine.bottle_size_ml < 1 ||
+                    settingsWine.pour_size_ml < 1 ||
+                    settingsWine.freshness_days < 1
+                  }
+                >
+                  {saving ? 'Saving...' : 'Save'}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -4,11 +4,17 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Users, UserCheck, Wine, Settings, Shield, Package, AlertTriangle, QrCode, ScanLine } from 'lucide-react';
+import { Users, UserCheck, Wine, Settings, Shield, Package, AlertTriangle, QrCode, ScanLine, Receipt } from 'lucide-react';
 import { useEffect, useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { StaffAdminHeader } from '@/components/StaffAdminHeader';
 import { PromotionalAccountsSection } from '@/components/admin/PromotionalAccountsSection';
+import { PourVoidRequestsSection } from '@/components/admin/PourVoidRequestsSection';
+import { PoursByLocationSection } from '@/components/admin/PoursByLocationSection';
+import { PourSyncConflictsSection } from '@/components/admin/PourSyncConflictsSection';
+import { PourLimitOverridesSection } from '@/components/admin/PourLimitOverridesSection';
+import { QrAnomaliesSection } from '@/components/admin/QrAnomaliesSection';
+import { QrVerificationBadge } from '@/components/admin/QrVerificationBadge';
 import { format } from 'date-fns';
 
 interface DashboardStats {
@@ -29,7 +35,7 @@ interface TierInventory {
 
 interface QRVerificationLog {
   id: string;
-  customer_id: string;
+  customer_id: string | null;
   staff_id: string;
   verification_result: string;
   created_at: string;
@@ -110,7 +116,7 @@ export default function AdminDashboard() {
       
       if (logs && logs.length > 0) {
         // Fetch customer and staff names
-        const customerIds = [...new Set(logs.map(l => l.customer_id))];
+        const customerIds = [...new Set(logs.map(l => l.customer_id).filter(Boolean))];
         const staffIds = [...new Set(logs.map(l => l.staff_id))];
         
         const [{ data: customers }, { data: profiles }] = await Promise.all([
@@ -124,7 +130,7 @@ export default function AdminDashboard() {
         
         const enrichedLogs = logs.map(log => ({
           ...log,
-          customer_name: profileMap.get(customerUserMap.get(log.customer_id) || '') || 'Unknown',
+          customer_name: profileMap.get(customerUserMap.get(log.customer_id || '') || '') || 'Unknown',
           staff_name: profileMap.get(log.staff_id) || 'Unknown',
         }));
         
@@ -145,15 +151,6 @@ export default function AdminDashboard() {
     }
   };
 
-  const getVerificationBadge = (result: string) => {
-    switch (result) {
-      case 'success': return <Badge className="bg-green-500">Success</Badge>;
-      case 'failed': return <Badge variant="destructive">Failed</Badge>;
-      case 'expired': return <Badge variant="secondary" className="bg-amber-500 text-white">Expired</Badge>;
-      default: return <Badge variant="outline">{result}</Badge>;
-    }
-  };
-
   const hasInventoryAlert = inventory.some(t => ['sold_out', 'critical', 'low'].includes(t.status));
 
   const statCards = [
@@ -168,6 +165,7 @@ export default function AdminDashboard() {
     { title: 'Manage Customers', description: 'View and edit customer accounts', icon: Users, link: '/admin/customers' },
     { title: 'Tier Settings', description: 'Configure membership tiers', icon: Settings, link: '/admin/tiers' },
     { title: 'Inventory', description: 'Manage subscription availability', icon: Package, link: '/admin/inventory', alert: hasInventoryAlert },
+    { title: 'Stripe Events', description: 'Review billing webhooks and re-run failures', icon: Receipt, link: '/admin/stripe-events' },
   ];
 
   return (
@@ -183,6 +181,18 @@ export default function AdminDashboard() {
         {/* Promotional Accounts - Top of Dashboard */}
         <PromotionalAccountsSection />
 
+        {/* Pour voids awaiting approval */}
+        <PourVoidRequestsSection />
+
+        {/* Offline pours rejected at sync time */}
+        <PourSyncConflictsSection />
+
+        {/* Pours served past a service limit */}
+        <PourLimitOverridesSection />
+
+        {/* Suspicious QR scan patterns */}
+        <QrAnomaliesSection />
+
         {/* Stats Grid */}
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
           {statCards.map((stat) => (
@@ -214,6 +224,9 @@ export default function AdminDashboard() {
           ))}
         </div>
 
+        {/* Redeemed pours per location */}
+        <PoursByLocationSection />
+
         {/* Menu Grid */}
         <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-4">
           {menuItems.map((item) => (
@@ -305,7 +318,7 @@ export default function AdminDashboard() {
                     }`}
                   >
                     <div className="flex items-center gap-3">
-                      {getVerificationBadge(log.verification_result)}
+                      <QrVerificationBadge result={log.verification_result} />
                       <span className="font-medium">{log.customer_name}</span>
                       <span className="text-muted-foreground">by {log.staff_name}</span>
                     </div>
@@ -0,0 +1,355 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { GlassWater, MapPin, Pencil, Plus, Save } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'react-hot-toast';
+import { StaffAdminHeader } from '@/components/StaffAdminHeader';
+import { PourSizesDialog } from '@/components/admin/PourSizesDialog';
+import { formatLocationHours, type PourLocation } from '@/lib/locations';
+
+interface LocationForm {
+  name: string;
+  opens_at: string;
+  closes_at: string;
+  daily_pour_limit: string;
+  window_pour_limit: string;
+  limit_window_hours: string;
+  is_active: boolean;
+}
+
+const emptyForm: LocationForm = {
+  name: '',
+  opens_at: '',
+  closes_at: '',
+  daily_pour_limit: '',
+  window_pour_limit: '',
+  limit_window_hours: '',
+  is_active: true,
+};
+
+// Blank limit fields mean the venue adds no cap of its own
+const parseLimit = (value: string): number | null =>
+  value === '' ? null : Math.max(0, Math.round(Number(value) * 100) / 100);
+
+export default function Locations() {
+  const [locations, setLocations] = useState<PourLocation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<PourLocation | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState<LocationForm>(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [sizesLocation, setSizesLocation] = useState<PourLocation | null>(null);
+
+  useEffect(() => {
+    fetchLocations();
+  }, []);
+
+  const fetchLocations = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('locations')
+        .select('*')
+        .order('is_active', { ascending: false })
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      setLocations(data || []);
+    } catch (error) {
+      console.error('Error fetching locations:', error);
+      toast.error('Failed to load locations');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(emptyForm);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (location: PourLocation) => {
+    setEditing(location);
+    setForm({
+      name: location.name,
+      // Postgres returns "HH:MM:SS"; time inputs want "HH:MM"
+      opens_at: location.opens_at?.slice(0, 5) || '',
+      closes_at: location.closes_at?.slice(0, 5) || '',
+      daily_pour_limit: location.daily_pour_limit?.toString() ?? '',
+      window_pour_limit: location.window_pour_limit?.toString() ?? '',
+      limit_window_hours: location.limit_window_hours?.toString() ?? '',
+      is_active: location.is_active,
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      toast.error('Location name is required');
+      return;
+    }
+
+    if (!!form.opens_at !== !!form.closes_at) {
+      toast.error('Set both opening and closing times, or neither');
+      return;
+    }
+
+    if (!!form.window_pour_limit !== !!form.limit_window_hours) {
+      toast.error('Set both the rolling limit and its window, or neither');
+      return;
+    }
+
+    const payload = {
+      name: form.name.trim(),
+      opens_at: form.opens_at || null,
+      closes_at: form.closes_at || null,
+      daily_pour_limit: parseLimit(form.daily_pour_limit),
+      window_pour_limit: parseLimit(form.window_pour_limit),
+      limit_window_hours: form.limit_window_hours
+        ? Math.min(24, Math.max(1, parseInt(form.limit_window_hours) || 1))
+        : null,
+      is_active: form.is_active,
+    };
+
+    setSaving(true);
+    try {
+      const { error } = editing
+        ? await supabase.from('locations').update(payload).eq('id', editing.id)
+        : await supabase.from('locations').insert(payload);
+
+      if (error) {
+        if (error.code === '23505') {
+          toast.error('A location with that name already exists');
+          return;
+        }
+        throw error;
+      }
+
+      toast.success(editing ? 'Location updated' : 'Location added');
+      setDialogOpen(false);
+      fetchLocations();
+    } catch (error) {
+      console.error('Error saving location:', error);
+      toast.error('Failed to save location');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = async (location: PourLocation) => {
+    const { error } = await supabase
+      .from('locations')
+      .update({ is_active: !location.is_active })
+      .eq('id', location.id);
+
+    if (error) {
+      console.error('Error updating location:', error);
+      toast.error('Failed to update location');
+      return;
+    }
+
+    setLocations(prev => prev.map(l => l.id === location.id ? { ...l, is_active: !location.is_active } : l));
+  };
+
+  return (
+    <div className="min-h-screen">
+      <StaffAdminHeader />
+      <div className="p-4 md:p-8">
+        <div className="max-w-4xl mx-auto space-y-6">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <h1 className="text-2xl font-serif flex items-center gap-2">
+                <MapPin className="h-6 w-6" />
+                Locations
+              </h1>
+              <p className="text-muted-foreground">Rooms and venues where pours are served</p>
+            </div>
+            <Button onClick={openCreate}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Location
+            </Button>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">
+                {locations.filter(l => l.is_active).length} active of {locations.length} locations
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <p className="text-muted-foreground text-center py-8">Loading...</p>
+              ) : locations.length === 0 ? (
+                <p className="text-muted-foreground text-center py-8">
+                  No locations yet. Add one so staff can record pours.
+                </p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Location</TableHead>
+                        <TableHead>Hours</TableHead>
+                        <TableHead className="text-center">Active</TableHead>
+                        <TableHead />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {locations.map((location) => (
+                        <TableRow key={location.id} className={location.is_active ? '' : 'opacity-60'}>
+                          <TableCell className="font-medium">
+                            {location.name}
+                            {!location.is_active && <Badge variant="outline" className="ml-2">Inactive</Badge>}
+                          </TableCell>
+                          <TableCell>{formatLocationHours(location) || '—'}</TableCell>
+                          <TableCell className="text-center">
+                            <Switch
+                              checked={location.is_active}
+                              onCheckedChange={() => toggleActive(location)}
+                              aria-label={`Toggle ${location.name}`}
+                            />
+                          </TableCell>
+                          <TableCell className="text-right whitespace-nowrap">
+                            <Button variant="ghost" size="icon" onClick={() => setSizesLocation(location)} aria-label={`Pour sizes for ${location.name}`}>
+                              <GlassWater className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="icon" onClick={() => openEdit(location)} aria-label={`Edit ${location.name}`}>
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="bg-muted/50">
+            <CardContent className="pt-4">
+              <p className="text-sm text-muted-foreground">
+                <strong>Note:</strong> Locations with pour history cannot be deleted. Switch them off instead to
+                remove them from the pour forms while keeping past reports intact. Use the glass icon to set the
+                pour sizes served at each location and how much allowance each one uses.
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Location' : 'Add Location'}</DialogTitle>
+          </DialogHeader>
+          <div className="grid md:grid-cols-2 gap-4">
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="location-name">Name</Label>
+              <Input
+                id="location-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g. Garden Room"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="location-opens">Opens</Label>
+              <Input
+                id="location-opens"
+                type="time"
+                value={form.opens_at}
+                onChange={(e) => setForm({ ...form, opens_at: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="location-closes">Closes</Label>
+              <Input
+                id="location-closes"
+                type="time"
+                value={form.closes_at}
+                onChange={(e) => setForm({ ...form, closes_at: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="location-daily-limit">Daily Pour Limit</Label>
+              <Input
+                id="location-daily-limit"
+                type="number"
+                min="0"
+                step="0.5"
+                placeholder="Tier limit only"
+                value={form.daily_pour_limit}
+                onChange={(e) => setForm({ ...form, daily_pour_limit: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="location-window-limit">Rolling Pour Limit</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  id="location-window-limit"
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  placeholder="Tier limit only"
+                  value={form.window_pour_limit}
+                  onChange={(e) => setForm({ ...form, window_pour_limit: e.target.value })}
+                />
+                <span className="text-sm text-muted-foreground whitespace-nowrap">per</span>
+                <Input
+                  id="location-window-hours"
+                  type="number"
+                  min="1"
+                  max="24"
+                  placeholder="Hours"
+                  aria-label="Rolling window hours"
+                  value={form.limit_window_hours}
+                  onChange={(e) => setForm({ ...form, limit_window_hours: e.target.value })}
+                />
+                <span className="text-sm text-muted-foreground">h</span>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground md:col-span-2">
+              Where both the member's tier and this location set a limit, the lower one applies.
+            </p>
+            <div className="flex items-center gap-3 md:col-span-2">
+              <Switch
+                id="location-active"
+                checked={form.is_active}
+                onCheckedChange={(checked) => setForm({ ...form, is_active: checked })}
+              />
+              <Label htmlFor="location-active">Available for pours</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              <Save className="h-4 w-4 mr-2" />
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <PourSizesDialog
+        location={sizesLocation}
+        onOpenChange={(open) => !open && setSizesLocation(null)}
+      />
+    </div>
+  );
+}
@@ -1,10 +1,9 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
 import {
   AlertDialog,
@@ -17,7 +16,17 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 import { TierBadge } from '@/components/TierBadge';
+import { WineSelect } from '@/components/WineSelect';
+import { LocationSelect } from '@/components/LocationSelect';
+import { PourSizeSelect } from '@/components/PourSizeSelect';
+import { PourLimitNotice } from '@/components/PourLimitNotice';
+import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
+import { readFunctionErrorBody } from '@/lib/edge-functions';
+import { fetchActiveWines, formatWineName, type Wine as CatalogWine } from '@/lib/wines';
+import { fetchPourLocationChoices, type PourLocation } from '@/lib/locations';
+import { fetchPourSizes, formatPourCount, type PourSize } from '@/lib/pour-sizes';
+import { exceedsPourLimits, fetchPourLimits, type PourLimitStatus } from '@/lib/pour-limits';
 import { Loader2, Search, Wine, ArrowLeft, User } from 'lucide-react';
 import { toast } from 'sonner';
 import { StaffAdminHeader } from '@/components/StaffAdminHeader';
@@ -37,6 +46,7 @@ export default function ManualPour() {
   const navigate = useNavigate();
   const location = useLocation();
   const isStaffRoute = location.pathname.startsWith('/staff');
+  const { user, userRole } = useAuth();
   const [searchQuery, setSearchQuery] = useState('');
   const [searching, setSearching] = useState(false);
   const [customers, setCustomers] = useState<CustomerResult[]>([]);
@@ -44,10 +54,53 @@ export default function ManualPour() {
   
   // Pour form state
   const [quantity, setQuantity] = useState('1');
-  const [locationValue, setLocationValue] = useState<string>('');
+  const [locationId, setLocationId] = useState('');
+  const [defaultLocationId, setDefaultLocationId] = useState('');
+  const [locations, setLocations] = useState<PourLocation[]>([]);
+  const [loadingLocations, setLoadingLocations] = useState(true);
+  const [pourSizeId, setPourSizeId] = useState('');
+  const [pourSizes, setPourSizes] = useState<PourSize[]>([]);
+  const [wineId, setWineId] = useState('');
+  const [wines, setWines] = useState<CatalogWine[]>([]);
+  const [loadingWines, setLoadingWines] = useState(true);
   const [notes, setNotes] = useState('');
   const [submitting, setSubmitting] = useState(false);
   const [showConfirmDialog, setShowConfirmDialog] = useState(false);
+  const [limits, setLimits] = useState<PourLimitStatus | null>(null);
+  const [overrideReason, setOverrideReason] = useState('');
+
+  useEffect(() => {
+    fetchActiveWines().then((data) => {
+      setWines(data);
+      setLoadingWines(false);
+    });
+  }, []);
+
+  useEffect(() => {
+    fetchPourLocationChoices(user?.id).then(({ locations, defaultLocationId }) => {
+      setLocations(locations);
+      if (defaultLocationId) {
+        setDefaultLocationId(defaultLocationId);
+        setLocationId(defaultLocationId);
+      }
+      setLoadingLocations(false);
+    });
+  }, [user?.id]);
+
+  useEffect(() => {
+    if (!locationId) return;
+    fetchPourSizes(locationId).then((sizes) => {
+      setPourSizes(sizes);
+      setPourSizeId(sizes.find((s) => s.is_default)?.id ?? sizes[0]?.id ?? '');
+    });
+  }, [locationId]);
+
+  const selectedCustomerId = selectedCustomer?.id;
+  useEffect(() => {
+    setLimits(null);
+    if (!selectedCustomerId || !locationId) return;
+    fetchPourLimits(selectedCustomerId, locationId).then(setLimits);
+  }, [selectedCustomerId, locationId]);
 
   const handleSearch = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -125,19 +178,34 @@ export default function ManualPour() {
   const handleSelectCustomer = (customer: CustomerResult) => {
     setSelectedCustomer(customer);
     setQuantity('1');
-    setLocationValue('');
+    setLocationId(defaultLocationId);
+    setWineId('');
     setNotes('');
+    setOverrideReason('');
   };
 
+  const selectedWine = wines.find(w => w.id === wineId);
+  const selectedSize = pourSizes.find(s => s.id === pourSizeId);
+  // Locations without sizes count one pour per glass
+  const unitCost = Number(selectedSize?.allowance_cost ?? 1);
+  const cost = (parseInt(quantity) || 0) * unitCost;
+  const overLimit = exceedsPourLimits(limits, cost);
+  const canOverride = userRole === 'admin';
+
   const handleFormSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
     if (!selectedCustomer) return;
     
-    if (!locationValue) {
+    if (!locationId) {
       toast.error('Please select a location');
       return;
     }
+
+    if (wines.length > 0 && !wineId) {
+      toast.error('Please select a wine');
+      return;
+    }
     
     // Show confirmation dialog instead of submitting directly
     setShowConfirmDialog(true);
@@ -150,59 +218,35 @@ export default function ManualPour() {
     setSubmitting(true);
     try {
       const qty = parseInt(quantity);
-      
-      // Verify available pours before recording
-      const { data: availableData, error: availableError } = await supabase.functions.invoke(
-        'get-available-pours',
-        { body: { customer_id: selectedCustomer.id } }
-      );
-
-      if (availableError || !availableData) {
-        throw new Error('Failed to verify available pours');
-      }
-
-      if (availableData.available_pours < qty) {
-        toast.error(`Only ${availableData.available_pours} pours available in current billing period`);
-        setSubmitting(false);
-        return;
-      }
-      
-      // Insert pour record
-      const locationMap: Record<string, 'main_bar' | 'private_event' | 'tasting_room'> = {
-        'bar': 'main_bar',
-        'restaurant': 'main_bar',
-        'event': 'private_event',
-        'tasting_room': 'tasting_room'
-      };
 
-      const { error: pourError } = await supabase
-        .from('pours')
-        .insert([{
+      // Allowance check, pour insert and counter updates happen atomically server-side
+      const { error } = await supabase.functions.invoke('redeem-pours', {
+        body: {
           customer_id: selectedCustomer.id,
           quantity: qty,
-          location: locationMap[locationValue] || 'main_bar',
+          location_id: locationId,
+          pour_size_id: pourSizeId || undefined,
+          wine_id: wineId || undefined,
           notes: notes ? `[Manual redemption] ${notes}` : '[Manual redemption by admin]',
-          toast_reference_number: `MANUAL-${Date.now()}`,
-          status: 'redeemed' as const
-        }]);
+          source: 'manual',
+          override_reason: overLimit ? overrideReason.trim() : undefined,
+        },
+      });
 
-      if (pourError) throw pourError;
-
-      // Update total lifetime pours
-      const { data: currentCustomer } = await supabase
-        .from('customers')
-        .select('total_pours_lifetime')
-        .eq('id', selectedCustomer.id)
-        .single();
-
-      if (currentCustomer) {
-        await supabase
-          .from('customers')
-          .update({ 
-            total_pours_lifetime: currentCustomer.total_pours_lifetime + qty,
-            last_activity: new Date().toISOString()
-          })
-          .eq('id', selectedCustomer.id);
+      if (error) {
+        const body = await readFunctionErrorBody<{
+          error?: string;
+          available_pours?: number | null;
+          limits?: PourLimitStatus | null;
+        }>(error);
+        if (typeof body?.available_pours === 'number') {
+          setSelectedCustomer({ ...selectedCustomer, available_pours: body.available_pours });
+        }
+        if (body?.limits) {
+          setLimits(body.limits);
+        }
+        toast.error(body?.error || 'Failed to record pour');
+        return;
       }
 
       toast.success(`${qty} pour${qty > 1 ? 's' : ''} redeemed for ${selectedCustomer.first_name || 'member'}!`);
@@ -288,7 +332,7 @@ export default function ManualPour() {
                               <div className="text-right">
                                 <TierBadge tier={customer.tier} />
                                 <p className="text-sm text-muted-foreground mt-1">
-                                  {customer.available_pours} pours available
+                                  {formatPourCount(customer.available_pours)} available
                                 </p>
                               </div>
                             </div>
@@ -317,7 +361,7 @@ export default function ManualPour() {
                       <div className="text-right">
                         <TierBadge tier={selectedCustomer.tier} />
                         <p className="text-sm font-medium mt-1">
-                          {selectedCustomer.available_pours} pours available
+                          {formatPourCount(selectedCustomer.available_pours)} available
                         </p>
                       </div>
                     </div>
@@ -339,33 +383,60 @@ export default function ManualPour() {
                         id="quantity"
                         type="number"
                         min="1"
-                        max={selectedCustomer.available_pours}
+                        max={Math.max(1, Math.floor(selectedCustomer.available_pours / unitCost))}
                         value={quantity}
                         onChange={(e) => setQuantity(e.target.value)}
                         required
                       />
                     </div>
 
+                    <div className="space-y-2">
+                      <Label htmlFor="wine">Wine</Label>
+                      <WineSelect
+                        id="wine"
+                        wines={wines}
+                        loading={loadingWines}
+                        value={wineId}
+                        onValueChange={setWineId}
+                      />
+                    </div>
+
                     <div className="space-y-2">
                       <Label htmlFor="location">Location</Label>
-                      <Select value={locationValue} onValueChange={setLocationValue} required>
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select location" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="bar">Bar</SelectItem>
-                          <SelectItem value="restaurant">Restaurant</SelectItem>
-                          <SelectItem value="event">Event</SelectItem>
-                          <SelectItem value="tasting_room">Tasting Room</SelectItem>
-                        </SelectContent>
-                      </Select>
+                      <LocationSelect
+                        id="location"
+                        locations={locations}
+                        loading={loadingLocations}
+                        value={locationId}
+                        onValueChange={setLocationId}
+                      />
                     </div>
 
+                    {pourSizes.length > 0 && (
+                      <div className="space-y-2">
+                        <Label htmlFor="pour-size">Pour Size</Label>
+                        <PourSizeSelect
+                          id="pour-size"
+                          sizes={pourSizes}
+                          value={pourSizeId}
+                          onValueChange={setPourSizeId}
+                        />
+                      </div>
+                    )}
+
+                    <PourLimitNotice
+                      limits={limits}
+                      cost={cost}
+                      canOverride={canOverride}
+                      overrideReason={overrideReason}
+                      onOverrideReasonChange={setOverrideReason}
+                    />
+
                     <div className="space-y-2">
                       <Label htmlFor="notes">Notes (Optional)</Label>
                       <Textarea
                         id="notes"
-                        placeholder="Reason for manual redemption, wine selection, etc..."
+                        placeholder="Reason for manual redemption, etc..."
                         value={notes}
                         onChange={(e) => setNotes(e.target.value)}
                         rows={3}
@@ -375,7 +446,10 @@ export default function ManualPour() {
                     <Button
                       type="submit"
                       className="w-full"
-                      disabled={submitting || parseInt(quantity) > selectedCustomer.available_pours || selectedCustomer.available_pours === 0}
+                      disabled={
+                        submitting || cost > selectedCustomer.available_pours || selectedCustomer.available_pours === 0
+                        || (overLimit && (!canOverride || !overrideReason.trim()))
+                      }
                     >
                       {submitting ? (
                         <>
@@ -406,8 +480,15 @@ export default function ManualPour() {
               <p>You are about to redeem:</p>
               <div className="bg-muted p-3 rounded-md mt-2">
                 <p className="font-semibold">{quantity} pour{parseInt(quantity) > 1 ? 's' : ''}</p>
+                {selectedSize && (
+                  <p className="text-sm">Size: {selectedSize.name} · uses {formatPourCount(cost)}</p>
+                )}
                 <p className="text-sm">For: {selectedCustomer?.first_name} {selectedCustomer?.last_name}</p>
-                <p className="text-sm">Location: {locationValue}</p>
+                {selectedWine && <p className="text-sm">Wine: {formatWineName(selectedWine)}</p>}
+                <p className="text-sm">Location: {locations.find(l => l.id === locationId)?.name}</p>
+                {overLimit && (
+                  <p className="text-sm text-destructive">Past the service limit · override: {overrideReason.trim()}</p>
+                )}
               </div>
               <p className="text-sm mt-2">This action cannot be undone.</p>
             </AlertDialogDescription>
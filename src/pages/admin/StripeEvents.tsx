@@ -0,0 +1,229 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { FileJson, Receipt, RotateCcw } from 'lucide-react';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'react-hot-toast';
+import { StaffAdminHeader } from '@/components/StaffAdminHeader';
+import { readFunctionErrorBody } from '@/lib/edge-functions';
+import type { Tables } from '@/integrations/supabase/types';
+
+type StripeEvent = Tables<'stripe_events'>;
+type StatusFilter = 'all' | 'failed' | 'processing' | 'processed';
+
+const statusFilters: { value: StatusFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'failed', label: 'Failed' },
+  { value: 'processing', label: 'Processing' },
+  { value: 'processed', label: 'Processed' },
+];
+
+function StatusBadge({ status }: { status: string }) {
+  switch (status) {
+    case 'processed': return <Badge className="bg-green-500">Processed</Badge>;
+    case 'processing': return <Badge variant="secondary">Processing</Badge>;
+    case 'failed': return <Badge variant="destructive">Failed</Badge>;
+    default: return <Badge variant="outline">{status}</Badge>;
+  }
+}
+
+export default function StripeEvents() {
+  const [events, setEvents] = useState<StripeEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<StatusFilter>('all');
+  const [payloadEvent, setPayloadEvent] = useState<StripeEvent | null>(null);
+  const [replayEvent, setReplayEvent] = useState<StripeEvent | null>(null);
+  const [replaying, setReplaying] = useState(false);
+
+  useEffect(() => {
+    fetchEvents(filter);
+  }, [filter]);
+
+  const fetchEvents = async (status: StatusFilter) => {
+    setLoading(true);
+    try {
+      let query = supabase
+        .from('stripe_events')
+        .select('*')
+        .order('received_at', { ascending: false })
+        .limit(100);
+
+      if (status !== 'all') {
+        query = query.eq('status', status);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      setEvents(data || []);
+    } catch (error) {
+      console.error('Error fetching Stripe events:', error);
+      toast.error('Failed to load Stripe events');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReplay = async () => {
+    if (!replayEvent) return;
+
+    setReplaying(true);
+    try {
+      const { error } = await supabase.functions.invoke('replay-stripe-event', {
+        body: { event_id: replayEvent.id },
+      });
+
+      if (error) {
+        const body = await readFunctionErrorBody(error);
+        throw new Error(body?.error || 'Re-run failed');
+      }
+
+      toast.success(`Re-ran ${replayEvent.type}`);
+      setReplayEvent(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Re-run failed');
+    } finally {
+      setReplaying(false);
+      fetchEvents(filter);
+    }
+  };
+
+  return (
+    <div className="min-h-screen">
+      <StaffAdminHeader />
+      <div className="p-4 md:p-8">
+        <div className="max-w-6xl mx-auto space-y-6">
+          <div>
+            <h1 className="text-2xl font-serif flex items-center gap-2">
+              <Receipt className="h-6 w-6" />
+              Stripe Events
+            </h1>
+            <p className="text-muted-foreground">Webhook deliveries from Stripe and how each was handled</p>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {statusFilters.map(({ value, label }) => (
+              <Button
+                key={value}
+                variant={filter === value ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setFilter(value)}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">
+                {loading ? 'Loading...' : `${events.length} most recent event${events.length === 1 ? '' : 's'}`}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <p className="text-muted-foreground text-center py-8">Loading...</p>
+              ) : events.length === 0 ? (
+                <p className="text-muted-foreground text-center py-8">No Stripe events recorded</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Received</TableHead>
+                        <TableHead>Type</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead className="text-center">Attempts</TableHead>
+                        <TableHead>Last Error</TableHead>
+                        <TableHead />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {events.map((event) => (
+                        <TableRow key={event.id}>
+                          <TableCell className="whitespace-nowrap text-sm">
+                            {format(new Date(event.received_at), 'MMM d, h:mm:ss a')}
+                          </TableCell>
+                          <TableCell>
+                            <p className="font-medium">{event.type}</p>
+                            <p className="text-xs text-muted-foreground font-mono">{event.id}</p>
+                          </TableCell>
+                          <TableCell><StatusBadge status={event.status} /></TableCell>
+                          <TableCell className="text-center">{event.attempts}</TableCell>
+                          <TableCell className="text-sm text-destructive max-w-xs truncate" title={event.last_error || undefined}>
+                            {event.last_error || ''}
+                          </TableCell>
+                          <TableCell className="text-right whitespace-nowrap">
+                            <Button variant="ghost" size="icon" onClick={() => setPayloadEvent(event)} aria-label={`View payload of ${event.id}`}>
+                              <FileJson className="h-4 w-4" />
+                            </Button>
+                            {event.status !== 'processed' && (
+                              <Button variant="ghost" size="icon" onClick={() => setReplayEvent(event)} aria-label={`Re-run ${event.id}`}>
+                                <RotateCcw className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="bg-muted/50">
+            <CardContent className="pt-4">
+              <p className="text-sm text-muted-foreground">
+                <strong>Note:</strong> Stripe retries failed deliveries on its own for several days. Re-run a failed
+                event here once the cause of its failure is fixed. Processed events cannot be re-run, as applying them
+                twice would repeat their effects.
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <Dialog open={!!payloadEvent} onOpenChange={(open) => !open && setPayloadEvent(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{payloadEvent?.type}</DialogTitle>
+            <DialogDescription className="font-mono">{payloadEvent?.id}</DialogDescription>
+          </DialogHeader>
+          <pre className="max-h-[60vh] overflow-auto rounded bg-muted p-3 text-xs">
+            {payloadEvent && JSON.stringify(payloadEvent.payload, null, 2)}
+          </pre>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!replayEvent} onOpenChange={(open) => !open && setReplayEvent(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Re-run {replayEvent?.type}?</DialogTitle>
+            <DialogDescription>
+              The stored event is handled again exactly as if Stripe had just delivered it.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReplayEvent(null)} disabled={replaying}>
+              Cancel
+            </Button>
+            <Button onClick={handleReplay} disabled={replaying}>
+              {replaying ? 'Running...' : 'Re-run Event'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -3,7 +3,11 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Save } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CreditCard, Plus, Save } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'react-hot-toast';
 import { TierBadge } from '@/components/TierBadge';
@@ -16,17 +20,53 @@ interface TierDefinition {
   description: string | null;
   monthly_price: number;
   monthly_pours: number;
+  monthly_guest_pours: number;
+  rollover_max_pours: number;
+  rollover_expiry_periods: number;
+  daily_pour_limit: number | null;
+  window_pour_limit: number | null;
+  limit_window_hours: number | null;
+  max_pause_days: number;
+  max_pauses_per_year: number;
   is_active: boolean;
-  stripe_price_id: string | null;
 }
 
+interface TierPrice {
+  id: string;
+  tier_name: TierDefinition['tier_name'];
+  interval: 'month' | 'year';
+  amount: number;
+  stripe_price_id: string;
+  is_active: boolean;
+}
+
+interface NewPriceForm {
+  interval: TierPrice['interval'];
+  amount: string;
+  stripe_price_id: string;
+}
+
+const EMPTY_PRICE_FORM: NewPriceForm = { interval: 'month', amount: '', stripe_price_id: '' };
+
+// Blank limit fields mean no cap
+const parseLimit = (value: string): number | null =>
+  value === '' ? null : Math.max(0, Math.round(Number(value) * 100) / 100);
+
 export default function TierSettings() {
   const [tiers, setTiers] = useState<TierDefinition[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState<string | null>(null);
+  const [prices, setPrices] = useState<TierPrice[]>([]);
+  const [priceForms, setPriceForms] = useState<Record<string, NewPriceForm>>({});
+  const [addingPrice, setAddingPrice] = useState<string | null>(null);
+  const [graceDays, setGraceDays] = useState('7');
+  const [reminderDays, setReminderDays] = useState('3');
+  const [savingDunning, setSavingDunning] = useState(false);
 
   useEffect(() => {
     fetchTiers();
+    fetchPrices();
+    fetchDunningSettings();
   }, []);
 
   const fetchTiers = async () => {
@@ -47,6 +87,11 @@ export default function TierSettings() {
   };
 
   const updateTier = async (tier: TierDefinition) => {
+    if ((tier.window_pour_limit === null) !== (tier.limit_window_hours === null)) {
+      toast.error('Set both the rolling limit and its window, or neither');
+      return;
+    }
+
     setSaving(tier.id);
     try {
       const { error } = await supabase
@@ -56,6 +101,14 @@ export default function TierSettings() {
           description: tier.description,
           monthly_price: tier.monthly_price,
           monthly_pours: tier.monthly_pours,
+          monthly_guest_pours: tier.monthly_guest_pours,
+          rollover_max_pours: tier.rollover_max_pours,
+          rollover_expiry_periods: tier.rollover_expiry_periods,
+          daily_pour_limit: tier.daily_pour_limit,
+          window_pour_limit: tier.window_pour_limit,
+          limit_window_hours: tier.limit_window_hours,
+          max_pause_days: tier.max_pause_days,
+          max_pauses_per_year: tier.max_pauses_per_year,
           is_active: tier.is_active,
         })
         .eq('id', tier.id);
@@ -70,7 +123,131 @@ export default function TierSettings() {
     }
   };
 
-  const handleTierChange = (id: string, field: keyof TierDefinition, value: string | number | boolean) => {
+  const fetchPrices = async () => {
+    const { data, error } = await supabase
+      .from('tier_prices')
+      .select('id, tier_name, interval, amount, stripe_price_id, is_active')
+      .order('is_active', { ascending: false })
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching tier prices:', error);
+      toast.error('Failed to load tier prices');
+      return;
+    }
+
+    setPrices((data || []) as TierPrice[]);
+  };
+
+  const priceFormFor = (tierName: string) => priceForms[tierName] ?? EMPTY_PRICE_FORM;
+
+  const handlePriceFormChange = (tierName: string, field: keyof NewPriceForm, value: string) => {
+    setPriceForms(prev => ({ ...prev, [tierName]: { ...priceFormFor(tierName), [field]: value } }));
+  };
+
+  // Stripe prices cannot be edited, so a new price is added and the old one retired
+  const addPrice = async (tier: TierDefinition) => {
+    const form = priceFormFor(tier.tier_name);
+    const amount = parseFloat(form.amount);
+    if (isNaN(amount) || amount < 0) {
+      toast.error('Enter the price amount');
+      return;
+    }
+    if (!form.stripe_price_id.trim().startsWith('price_')) {
+      toast.error('Enter the Stripe Price ID (price_...)');
+      return;
+    }
+
+    setAddingPrice(tier.tier_name);
+
+    // Only one price per interval is on sale, so the one being replaced is retired first
+    const replaced = prices.find(p => p.tier_name === tier.tier_name && p.interval === form.interval && p.is_active);
+    if (replaced) {
+      const { error } = await supabase.from('tier_prices').update({ is_active: false }).eq('id', replaced.id);
+      if (error) {
+        console.error('Error retiring tier price:', error);
+        toast.error('Failed to add price');
+        setAddingPrice(null);
+        return;
+      }
+    }
+
+    const { error } = await supabase.from('tier_prices').insert({
+      tier_name: tier.tier_name,
+      interval: form.interval,
+      amount,
+      stripe_price_id: form.stripe_price_id.trim(),
+    });
+
+    if (error) {
+      console.error('Error adding tier price:', error);
+      toast.error(error.code === '23505' ? 'That Stripe Price ID is already in use' : 'Failed to add price');
+    } else {
+      toast.success(`${form.interval === 'year' ? 'Annual' : 'Monthly'} price added for ${tier.display_name}`);
+      setPriceForms(prev => ({ ...prev, [tier.tier_name]: EMPTY_PRICE_FORM }));
+    }
+
+    await fetchPrices();
+    setAddingPrice(null);
+  };
+
+  const togglePriceActive = async (price: TierPrice) => {
+    const { error } = await supabase
+      .from('tier_prices')
+      .update({ is_active: !price.is_active })
+      .eq('id', price.id);
+
+    if (error) {
+      console.error('Error updating tier price:', error);
+      toast.error(error.code === '23505'
+        ? `Retire the current ${price.interval === 'year' ? 'annual' : 'monthly'} price first`
+        : 'Failed to update price');
+      return;
+    }
+
+    setPrices(prev => prev.map(p => p.id === price.id ? { ...p, is_active: !price.is_active } : p));
+  };
+
+  const fetchDunningSettings = async () => {
+    const { data } = await supabase
+      .from('system_settings')
+      .select('value')
+      .eq('key', 'dunning')
+      .maybeSingle();
+    const value = data?.value as { grace_days?: number; reminder_interval_days?: number } | null;
+    setGraceDays(String(value?.grace_days ?? 7));
+    setReminderDays(String(value?.reminder_interval_days ?? 3));
+  };
+
+  // Applies to memberships whose payment fails from now on; a running grace period keeps its end date
+  const saveDunningSettings = async () => {
+    const grace = parseInt(graceDays);
+    const reminder = parseInt(reminderDays);
+    if (isNaN(grace) || grace < 0 || grace > 60) {
+      toast.error('Grace period must be 0 to 60 days');
+      return;
+    }
+    if (isNaN(reminder) || reminder < 1 || reminder > 30) {
+      toast.error('Reminder interval must be 1 to 30 days');
+      return;
+    }
+
+    setSavingDunning(true);
+    try {
+      const { error } = await supabase
+        .from('system_settings')
+        .upsert({ key: 'dunning', value: { grace_days: grace, reminder_interval_days: reminder } });
+      if (error) throw error;
+      toast.success('Failed payment settings updated');
+    } catch (error) {
+      console.error('Error saving failed payment settings:', error);
+      toast.error('Failed to save failed payment settings');
+    } finally {
+      setSavingDunning(false);
+    }
+  };
+
+  const handleTierChange = (id: string, field: keyof TierDefinition, value: string | number | boolean | null) => {
     setTiers(prev => prev.map(tier => 
       tier.id === id ? { ...tier, [field]: value } : tier
     ));
@@ -114,7 +291,7 @@ export default function TierSettings() {
                       />
                     </div>
                     <div className="space-y-2">
-                      <Label htmlFor={`price-${tier.id}`}>Monthly Price ($)</Label>
+                      <Label htmlFor={`price-${tier.id}`}>Listed Monthly Price ($)</Label>
                       <Input
                         id={`price-${tier.id}`}
                         type="number"
@@ -122,6 +299,7 @@ export default function TierSettings() {
                         value={tier.monthly_price}
                         onChange={(e) => handleTierChange(tier.id, 'monthly_price', parseFloat(e.target.value) || 0)}
                       />
+                      <p className="text-xs text-muted-foreground">Orders the tiers; members are charged the prices below</p>
                     </div>
                     <div className="space-y-2">
                       <Label htmlFor={`pours-${tier.id}`}>Monthly Pours</Label>
@@ -132,13 +310,188 @@ export default function TierSettings() {
                         onChange={(e) => handleTierChange(tier.id, 'monthly_pours', parseInt(e.target.value) || 0)}
                       />
                     </div>
+                    <div className="space-y-2">
+                      <Label htmlFor={`guest-pours-${tier.id}`}>Monthly Guest Pours</Label>
+                      <Input
+                        id={`guest-pours-${tier.id}`}
+                        type="number"
+                        min="0"
+                        value={tier.monthly_guest_pours}
+                        onChange={(e) => handleTierChange(tier.id, 'monthly_guest_pours', Math.max(0, parseInt(e.target.value) || 0))}
+                      />
+                      <p className="text-xs text-muted-foreground">Pours a member may give to guests, separate from their own</p>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor={`rollover-max-${tier.id}`}>Max Rollover Pours</Label>
+                      <Input
+                        id={`rollover-max-${tier.id}`}
+                        type="number"
+                        min="0"
+                        value={tier.rollover_max_pours}
+                        onChange={(e) => handleTierChange(tier.id, 'rollover_max_pours', Math.max(0, parseInt(e.target.value) || 0))}
+                      />
+                      <p className="text-xs text-muted-foreground">Unused pours carried into the next period (0 = no rollover)</p>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor={`rollover-expiry-${tier.id}`}>Rollover Valid For (periods)</Label>
+                      <Input
+                        id={`rollover-expiry-${tier.id}`}
+                        type="number"
+                        min="1"
+                        value={tier.rollover_expiry_periods}
+                        onChange={(e) => handleTierChange(tier.id, 'rollover_expiry_periods', Math.max(1, parseInt(e.target.value) || 1))}
+                        disabled={tier.rollover_max_pours === 0}
+                      />
+                      <p className="text-xs text-muted-foreground">Billing periods a carried-over pour stays usable</p>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor={`daily-limit-${tier.id}`}>Daily Pour Limit</Label>
+                      <Input
+                        id={`daily-limit-${tier.id}`}
+                        type="number"
+                        min="0"
+                        step="0.5"
+                        placeholder="No limit"
+                        value={tier.daily_pour_limit ?? ''}
+                        onChange={(e) => handleTierChange(tier.id, 'daily_pour_limit', parseLimit(e.target.value))}
+                      />
+                      <p className="text-xs text-muted-foreground">Most pours served per service day (blank = no limit)</p>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor={`window-limit-${tier.id}`}>Rolling Pour Limit</Label>
+                      <div className="flex items-center gap-2">
+                        <Input
+                          id={`window-limit-${tier.id}`}
+                          type="number"
+                          min="0"
+                          step="0.5"
+                          placeholder="No limit"
+                          value={tier.window_pour_limit ?? ''}
+                          onChange={(e) => handleTierChange(tier.id, 'window_pour_limit', parseLimit(e.target.value))}
+                        />
+                        <span className="text-sm text-muted-foreground whitespace-nowrap">per</span>
+                        <Input
+                          id={`window-hours-${tier.id}`}
+                          type="number"
+                          min="1"
+                          max="24"
+                          placeholder="Hours"
+                          aria-label="Rolling window hours"
+                          value={tier.limit_window_hours ?? ''}
+                          onChange={(e) => handleTierChange(
+                            tier.id,
+                            'limit_window_hours',
+                            e.target.value === '' ? null : Math.min(24, Math.max(1, parseInt(e.target.value) || 1))
+                          )}
+                        />
+                        <span className="text-sm text-muted-foreground">h</span>
+                      </div>
+                      <p className="text-xs text-muted-foreground">Most pours in any rolling window (blank = no limit)</p>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor={`pause-days-${tier.id}`}>Max Pause Length (days)</Label>
+                      <Input
+                        id={`pause-days-${tier.id}`}
+                        type="number"
+                        min="0"
+                        value={tier.max_pause_days}
+                        onChange={(e) => handleTierChange(tier.id, 'max_pause_days', Math.max(0, parseInt(e.target.value) || 0))}
+                      />
+                      <p className="text-xs text-muted-foreground">Longest vacation hold a member can choose (0 = no pausing)</p>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor={`pauses-per-year-${tier.id}`}>Pauses Per Year</Label>
+                      <Input
+                        id={`pauses-per-year-${tier.id}`}
+                        type="number"
+                        min="0"
+                        value={tier.max_pauses_per_year}
+                        onChange={(e) => handleTierChange(tier.id, 'max_pauses_per_year', Math.max(0, parseInt(e.target.value) || 0))}
+                        disabled={tier.max_pause_days === 0}
+                      />
+                      <p className="text-xs text-muted-foreground">Holds a member may start in any 12 months</p>
+                    </div>
                   </div>
                   
-                  {tier.stripe_price_id && (
+                  <div className="space-y-2">
+                    <Label>Prices</Label>
+                    {prices.some(p => p.tier_name === tier.tier_name) ? (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Billing</TableHead>
+                            <TableHead>Amount</TableHead>
+                            <TableHead>Stripe Price ID</TableHead>
+                            <TableHead className="text-center">On Sale</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {prices.filter(p => p.tier_name === tier.tier_name).map((price) => (
+                            <TableRow key={price.id} className={price.is_active ? '' : 'opacity-60'}>
+                              <TableCell>
+                                {price.interval === 'year' ? 'Annual' : 'Monthly'}
+                                {!price.is_active && <Badge variant="outline" className="ml-2">Retired</Badge>}
+                              </TableCell>
+                              <TableCell>${Number(price.amount).toFixed(2)}</TableCell>
+                              <TableCell className="font-mono text-xs">{price.stripe_price_id}</TableCell>
+                              <TableCell className="text-center">
+                                <Switch
+                                  checked={price.is_active}
+                                  onCheckedChange={() => togglePriceActive(price)}
+                                  aria-label={`Toggle ${price.interval === 'year' ? 'annual' : 'monthly'} price ${price.stripe_price_id}`}
+                                />
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">No prices yet, so this tier cannot be joined</p>
+                    )}
+                    <div className="flex flex-wrap items-end gap-2">
+                      <Select
+                        value={priceFormFor(tier.tier_name).interval}
+                        onValueChange={(value) => handlePriceFormChange(tier.tier_name, 'interval', value)}
+                      >
+                        <SelectTrigger className="w-32" aria-label="Billing interval">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="month">Monthly</SelectItem>
+                          <SelectItem value="year">Annual</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        className="w-32"
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        placeholder="Amount ($)"
+                        aria-label="Amount"
+                        value={priceFormFor(tier.tier_name).amount}
+                        onChange={(e) => handlePriceFormChange(tier.tier_name, 'amount', e.target.value)}
+                      />
+                      <Input
+                        className="flex-1 min-w-48 font-mono"
+                        placeholder="price_..."
+                        aria-label="Stripe Price ID"
+                        value={priceFormFor(tier.tier_name).stripe_price_id}
+                        onChange={(e) => handlePriceFormChange(tier.tier_name, 'stripe_price_id', e.target.value)}
+                      />
+                      <Button
+                        variant="outline"
+                        onClick={() => addPrice(tier)}
+                        disabled={addingPrice === tier.tier_name}
+                      >
+                        <Plus className="h-4 w-4 mr-2" />
+                        {addingPrice === tier.tier_name ? 'Adding...' : 'Add Price'}
+                      </Button>
+                    </div>
                     <p className="text-xs text-muted-foreground">
-                      Stripe Price ID: {tier.stripe_price_id}
+                      Adding a price replaces the one on sale for that billing interval. Members already on a retired
+                      price keep paying it.
                     </p>
-                  )}
+                  </div>
 
                   <div className="flex justify-end">
                     <Button 
@@ -155,11 +508,56 @@ export default function TierSettings() {
           </div>
         )}
 
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <CreditCard className="h-5 w-5" />
+                Failed Payments
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                When a renewal payment fails, the member keeps their benefits for the grace period and is emailed
+                reminders to update their payment method. Redemptions pause when it ends and resume once a payment succeeds.
+              </p>
+              <div className="grid md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="grace-days">Grace Period (days)</Label>
+                  <Input
+                    id="grace-days"
+                    type="number"
+                    min="0"
+                    max="60"
+                    value={graceDays}
+                    onChange={(e) => setGraceDays(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="reminder-days">Remind Every (days)</Label>
+                  <Input
+                    id="reminder-days"
+                    type="number"
+                    min="1"
+                    max="30"
+                    value={reminderDays}
+                    onChange={(e) => setReminderDays(e.target.value)}
+                  />
+                </div>
+              </div>
+              <div className="flex justify-end">
+                <Button onClick={saveDunningSettings} disabled={savingDunning}>
+                  <Save className="h-4 w-4 mr-2" />
+                  {savingDunning ? 'Saving...' : 'Save Changes'}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
           <Card className="bg-muted/50">
             <CardContent className="p-4">
               <p className="text-sm text-muted-foreground">
-                <strong>Note:</strong> Changing prices here will only affect new subscriptions. 
-                To update Stripe prices for existing subscriptions, you'll need to update them directly in Stripe.
+                <strong>Note:</strong> Changing prices here will only affect new subscriptions.
+                To move existing subscriptions to a new Stripe price, you'll need to update them directly in Stripe.
               </p>
             </CardContent>
           </Card>
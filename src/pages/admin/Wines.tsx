@@ -0,0 +1,316 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Grape, Pencil, Plus, Save } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'react-hot-toast';
+import { StaffAdminHeader } from '@/components/StaffAdminHeader';
+import { formatWineName, type Wine } from '@/lib/wines';
+
+interface WineForm {
+  name: string;
+  producer: string;
+  vintage: string;
+  varietal: string;
+  region: string;
+  glass_price: string;
+  is_active: boolean;
+}
+
+const emptyForm: WineForm = {
+  name: '',
+  producer: '',
+  vintage: '',
+  varietal: '',
+  region: '',
+  glass_price: '',
+  is_active: true,
+};
+
+export default function Wines() {
+  const [wines, setWines] = useState<Wine[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<Wine | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState<WineForm>(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchWines();
+  }, []);
+
+  const fetchWines = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('wines')
+        .select('*')
+        .order('is_active', { ascending: false })
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      setWines(data || []);
+    } catch (error) {
+      console.error('Error fetching wines:', error);
+      toast.error('Failed to load wine catalog');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(emptyForm);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (wine: Wine) => {
+    setEditing(wine);
+    setForm({
+      name: wine.name,
+      producer: wine.producer || '',
+      vintage: wine.vintage?.toString() || '',
+      varietal: wine.varietal || '',
+      region: wine.region || '',
+      glass_price: wine.glass_price?.toString() || '',
+      is_active: wine.is_active,
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      toast.error('Wine name is required');
+      return;
+    }
+
+    const vintage = form.vintage ? parseInt(form.vintage, 10) : null;
+    const glassPrice = form.glass_price ? parseFloat(form.glass_price) : null;
+
+    if (vintage !== null && (isNaN(vintage) || vintage < 1800 || vintage > 2200)) {
+      toast.error('Please enter a valid vintage year');
+      return;
+    }
+    if (glassPrice !== null && (isNaN(glassPrice) || glassPrice < 0)) {
+      toast.error('Please enter a valid glass price');
+      return;
+    }
+
+    const payload = {
+      name: form.name.trim(),
+      producer: form.producer.trim() || null,
+      vintage,
+      varietal: form.varietal.trim() || null,
+      region: form.region.trim() || null,
+      glass_price: glassPrice,
+      is_active: form.is_active,
+    };
+
+    setSaving(true);
+    try {
+      const { error } = editing
+        ? await supabase.from('wines').update(payload).eq('id', editing.id)
+        : await supabase.from('wines').insert(payload);
+
+      if (error) throw error;
+
+      toast.success(editing ? 'Wine updated' : 'Wine added to catalog');
+      setDialogOpen(false);
+      fetchWines();
+    } catch (error) {
+      console.error('Error saving wine:', error);
+      toast.error('Failed to save wine');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = async (wine: Wine) => {
+    const { error } = await supabase
+      .from('wines')
+      .update({ is_active: !wine.is_active })
+      .eq('id', wine.id);
+
+    if (error) {
+      console.error('Error updating wine:', error);
+      toast.error('Failed to update wine');
+      return;
+    }
+
+    setWines(prev => prev.map(w => w.id === wine.id ? { ...w, is_active: !wine.is_active } : w));
+  };
+
+  return (
+    <div className="min-h-screen">
+      <StaffAdminHeader />
+      <div className="p-4 md:p-8">
+        <div className="max-w-5xl mx-auto space-y-6">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <h1 className="text-2xl font-serif flex items-center gap-2">
+                <Grape className="h-6 w-6" />
+                Wine Catalog
+              </h1>
+              <p className="text-muted-foreground">Wines staff can select when recording pours</p>
+            </div>
+            <Button onClick={openCreate}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Wine
+            </Button>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">
+                {wines.filter(w => w.is_active).length} active of {wines.length} wines
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <p className="text-muted-foreground text-center py-8">Loading...</p>
+              ) : wines.length === 0 ? (
+                <p className="text-muted-foreground text-center py-8">
+                  No wines yet. Add the first wine to start tracking what members drink.
+                </p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Wine</TableHead>
+                        <TableHead>Varietal</TableHead>
+                        <TableHead>Region</TableHead>
+                        <TableHead className="text-right">Glass Price</TableHead>
+                        <TableHead className="text-center">Active</TableHead>
+                        <TableHead />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {wines.map((wine) => (
+                        <TableRow key={wine.id} className={wine.is_active ? '' : 'opacity-60'}>
+                          <TableCell className="font-medium">
+                            {formatWineName(wine)}
+                            {!wine.is_active && <Badge variant="outline" className="ml-2">Inactive</Badge>}
+                          </TableCell>
+                          <TableCell>{wine.varietal || '—'}</TableCell>
+                          <TableCell>{wine.region || '—'}</TableCell>
+                          <TableCell className="text-right">
+                            {wine.glass_price !== null ? `$${Number(wine.glass_price).toFixed(2)}` : '—'}
+                          </TableCell>
+                          <TableCell className="text-center">
+                            <Switch
+                              checked={wine.is_active}
+                              onCheckedChange={() => toggleActive(wine)}
+                              aria-label={`Toggle ${wine.name}`}
+                            />
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button variant="ghost" size="icon" onClick={() => openEdit(wine)} aria-label={`Edit ${wine.name}`}>
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Wine' : 'Add Wine'}</DialogTitle>
+          </DialogHeader>
+          <div className="grid md:grid-cols-2 gap-4">
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="wine-name">Name</Label>
+              <Input
+                id="wine-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g. Monte Bello"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="wine-producer">Producer</Label>
+              <Input
+                id="wine-producer"
+                value={form.producer}
+                onChange={(e) => setForm({ ...form, producer: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="wine-vintage">Vintage</Label>
+              <Input
+                id="wine-vintage"
+                type="number"
+                placeholder="NV"
+                value={form.vintage}
+                onChange={(e) => setForm({ ...form, vintage: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="wine-varietal">Varietal</Label>
+              <Input
+                id="wine-varietal"
+                value={form.varietal}
+                onChange={(e) => setForm({ ...form, varietal: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="wine-region">Region</Label>
+              <Input
+                id="wine-region"
+                value={form.region}
+                onChange={(e) => setForm({ ...form, region: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="wine-price">Glass Price ($)</Label>
+              <Input
+                id="wine-price"
+                type="number"
+                step="0.01"
+                min="0"
+                value={form.glass_price}
+                onChange={(e) => setForm({ ...form, glass_price: e.target.value })}
+              />
+            </div>
+            <div className="flex items-center gap-3 pt-6">
+              <Switch
+                id="wine-active"
+                checked={form.is_active}
+                onCheckedChange={(checked) => setForm({ ...form, is_active: checked })}
+              />
+              <Label htmlFor="wine-active">Available for pours</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              <Save className="h-4 w-4 mr-2" />
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -4,10 +4,14 @@ import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { TierBadge } from '@/components/TierBadge';
 import { FamilyMemberManager } from '@/components/FamilyMemberManager';
-import { ArrowLeft, CreditCard, Calendar, AlertCircle } from 'lucide-react';
+import { InvoiceHistory } from '@/components/InvoiceHistory';
+import { ArrowLeft, CreditCard, Calendar, AlertCircle, ArrowUpDown, PauseCircle, ExternalLink, Receipt } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { readFunctionErrorBody } from '@/lib/edge-functions';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -38,9 +42,16 @@ interface SubscriptionDetails {
   current_period_end: number;
   current_period_start: number;
   cancel_at_period_end: boolean;
+  cancel_at: number | null;
   canceled_at: number | null;
   tier: string;
+  scheduled_tier: string | null;
+  scheduled_tier_at: string | null;
+  paused_until: string | null;
+  max_pause_days: number;
+  pauses_remaining: number;
   amount: number;
+  interval: 'month' | 'year';
   currency: string;
   payment_method: {
     brand: string;
@@ -50,6 +61,36 @@ interface SubscriptionDetails {
   } | null;
 }
 
+interface TierOption {
+  tier_name: ProfileData['tier'];
+  display_name: string;
+  monthly_price: number;
+  monthly_pours: number;
+  prices: { id: string; interval: 'month' | 'year'; amount: number }[];
+  status: 'available' | 'limited' | 'low' | 'critical' | 'sold_out';
+}
+
+interface TierChangePreview {
+  direction: 'upgrade' | 'downgrade' | 'keep';
+  tier: ProfileData['tier'];
+  display_name?: string;
+  monthly_pours?: number;
+  current_monthly_pours?: number;
+  amount_due: number;
+  currency: string;
+  effective_at?: number;
+  proration_date?: number;
+}
+
+const formatLongDate = (date: Date) =>
+  date.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
+
+// yyyy-MM-dd in local time, as used by date inputs
+const toDateInputValue = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+
 export default function Account() {
   const { user, signOut } = useAuth();
   const { toast } = useToast();
@@ -57,10 +98,19 @@ export default function Account() {
   const [subscription, setSubscription] = useState<SubscriptionDetails | null>(null);
   const [loading, setLoading] = useState(true);
   const [cancellingSubscription, setCancellingSubscription] = useState(false);
+  const [reactivatingSubscription, setReactivatingSubscription] = useState(false);
+  const [openingBillingPortal, setOpeningBillingPortal] = useState(false);
+  const [tierOptions, setTierOptions] = useState<TierOption[]>([]);
+  const [tierPreview, setTierPreview] = useState<TierChangePreview | null>(null);
+  const [previewingTier, setPreviewingTier] = useState<string | null>(null);
+  const [changingTier, setChangingTier] = useState(false);
+  const [pauseResumeDate, setPauseResumeDate] = useState('');
+  const [updatingPause, setUpdatingPause] = useState(false);
 
   useEffect(() => {
     fetchProfileData();
     fetchSubscriptionDetails();
+    fetchTierOptions();
   }, [user]);
 
   const fetchProfileData = async () => {
@@ -136,6 +186,151 @@ export default function Account() {
     }
   };
 
+  const fetchTierOptions = async () => {
+    try {
+      const { data, error } = await supabase.functions.invoke('check-tier-availability');
+      if (error) throw error;
+      setTierOptions(data?.tiers || []);
+    } catch (error) {
+      console.error('Error fetching tier options:', error);
+    }
+  };
+
+  const invokeChangeTier = async (body: { tier: string; confirm?: boolean; proration_date?: number }) => {
+    const { data, error } = await supabase.functions.invoke('change-tier', {
+      headers: {
+        Authorization: `Bearer ${(await supabase.auth.getSession()).data.session?.access_token}`,
+      },
+      body,
+    });
+
+    if (error) {
+      const errorBody = await readFunctionErrorBody(error);
+      throw new Error(errorBody?.error || 'Failed to change tier. Please try again.');
+    }
+
+    return data;
+  };
+
+  const handlePreviewTierChange = async (tier: string) => {
+    setPreviewingTier(tier);
+
+    try {
+      setTierPreview(await invokeChangeTier({ tier }));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to change tier. Please try again.',
+        variant: "destructive",
+      });
+    } finally {
+      setPreviewingTier(null);
+    }
+  };
+
+  const handleConfirmTierChange = async () => {
+    if (!tierPreview) return;
+    setChangingTier(true);
+
+    try {
+      await invokeChangeTier({
+        tier: tierPreview.tier,
+        confirm: true,
+        proration_date: tierPreview.proration_date,
+      });
+
+      toast({
+        title: tierPreview.direction === 'upgrade'
+          ? `Upgraded to ${tierPreview.display_name}`
+          : tierPreview.direction === 'downgrade'
+            ? 'Tier Change Scheduled'
+            : 'Tier Change Cancelled',
+        description: tierPreview.direction === 'upgrade'
+          ? 'Your new pour allowance is available now.'
+          : tierPreview.direction === 'downgrade'
+            ? `You'll move to ${tierPreview.display_name} on ${formatLongDate(new Date((tierPreview.effective_at ?? 0) * 1000))}.`
+            : "You'll stay on your current tier.",
+      });
+
+      setTierPreview(null);
+      await Promise.all([fetchProfileData(), fetchSubscriptionDetails()]);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to change tier. Please try again.',
+        variant: "destructive",
+      });
+    } finally {
+      setChangingTier(false);
+    }
+  };
+
+  const invokePauseMembership = async (body: { action: 'pause'; resume_date: string } | { action: 'resume' }) => {
+    const { data, error } = await supabase.functions.invoke('pause-membership', {
+      headers: {
+        Authorization: `Bearer ${(await supabase.auth.getSession()).data.session?.access_token}`,
+      },
+      body,
+    });
+
+    if (error) {
+      const errorBody = await readFunctionErrorBody(error);
+      throw new Error(errorBody?.error || 'Failed to update your membership. Please try again.');
+    }
+
+    return data;
+  };
+
+  const handlePauseMembership = async () => {
+    if (!pauseResumeDate) return;
+    setUpdatingPause(true);
+
+    try {
+      // Resume at the start of the chosen day, local time
+      const resumeDate = new Date(`${pauseResumeDate}T00:00:00`);
+      await invokePauseMembership({ action: 'pause', resume_date: resumeDate.toISOString() });
+
+      toast({
+        title: "Membership Paused",
+        description: `You won't be billed until your membership resumes on ${formatLongDate(resumeDate)}.`,
+      });
+
+      setPauseResumeDate('');
+      await fetchSubscriptionDetails();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to pause membership. Please try again.',
+        variant: "destructive",
+      });
+    } finally {
+      setUpdatingPause(false);
+    }
+  };
+
+  const handleResumeMembership = async () => {
+    setUpdatingPause(true);
+
+    try {
+      await invokePauseMembership({ action: 'resume' });
+
+      toast({
+        title: "Welcome Back",
+        description: "Your membership is active again and billing has resumed.",
+      });
+
+      await fetchSubscriptionDetails();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to resume membership. Please try again.',
+        variant: "destructive",
+      });
+    } finally {
+      setUpdatingPause(false);
+    }
+  };
+
   const handleCancelSubscription = async () => {
     setCancellingSubscription(true);
     
@@ -167,6 +362,64 @@ export default function Account() {
     }
   };
 
+  const handleReactivateSubscription = async () => {
+    setReactivatingSubscription(true);
+
+    try {
+      const { data, error } = await supabase.functions.invoke('reactivate-subscription', {
+        headers: {
+          Authorization: `Bearer ${(await supabase.auth.getSession()).data.session?.access_token}`,
+        },
+      });
+
+      if (error) {
+        const errorBody = await readFunctionErrorBody(error);
+        throw new Error(errorBody?.error || 'Failed to keep your membership. Please try again.');
+      }
+
+      toast({
+        title: "Membership Kept",
+        description: `Your membership will renew on ${formatLongDate(new Date(data.current_period_end * 1000))}.`,
+      });
+
+      await fetchSubscriptionDetails();
+    } catch (error) {
+      console.error('Error reactivating subscription:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to keep your membership. Please try again.',
+        variant: "destructive",
+      });
+    } finally {
+      setReactivatingSubscription(false);
+    }
+  };
+
+  const handleOpenBillingPortal = async () => {
+    setOpeningBillingPortal(true);
+
+    try {
+      const { data, error } = await supabase.functions.invoke('create-billing-portal-session', {
+        headers: {
+          Authorization: `Bearer ${(await supabase.auth.getSession()).data.session?.access_token}`,
+        },
+      });
+
+      if (error) throw error;
+
+      // Stripe returns the member to /account when they are done
+      window.location.href = data.url;
+    } catch (error) {
+      console.error('Error opening billing portal:', error);
+      toast({
+        title: "Error",
+        description: "Failed to open billing settings. Please try again.",
+        variant: "destructive",
+      });
+      setOpeningBillingPortal(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex min-h-screen items-center justify-center">
@@ -261,16 +514,30 @@ export default function Account() {
                       <p className="font-medium capitalize">{subscription.status}</p>
                       {subscription.cancel_at_period_end && (
                         <span className="text-xs bg-orange-100 dark:bg-orange-900/30 text-orange-800 dark:text-orange-300 px-2 py-1 rounded">
-                          Cancels at period end
+                          {subscription.cancel_at
+                            ? `Cancels ${formatLongDate(new Date(subscription.cancel_at * 1000))}`
+                            : 'Cancels at period end'}
                         </span>
                       )}
                     </div>
                   </div>
 
+                  {subscription.cancel_at_period_end && (
+                    <div className="rounded-md border border-orange-200 dark:border-orange-900/50 p-3 space-y-2">
+                      <p className="text-sm">
+                        Changed your mind? Keep your membership and it will renew as usual, with your tier and
+                        benefits unchanged.
+                      </p>
+                      <Button size="sm" onClick={handleReactivateSubscription} disabled={reactivatingSubscription}>
+                        {reactivatingSubscription ? 'Updating...' : 'Keep My Membership'}
+                      </Button>
+                    </div>
+                  )}
+
                   <div>
                     <p className="text-sm text-muted-foreground">
                       <Calendar className="inline-block mr-1 h-3 w-3" />
-                      Next Billing Date
+                      {subscription.cancel_at_period_end ? 'Membership Ends' : 'Next Billing Date'}
                     </p>
                     <p className="font-medium">
                       {new Date(subscription.current_period_end * 1000).toLocaleDateString('en-US', {
@@ -284,7 +551,7 @@ export default function Account() {
                   <div>
                     <p className="text-sm text-muted-foreground">Amount</p>
                     <p className="font-medium">
-                      ${(subscription.amount / 100).toFixed(2)} / month
+                      ${(subscription.amount / 100).toFixed(2)} / {subscription.interval}
                     </p>
                   </div>
 
@@ -300,6 +567,127 @@ export default function Account() {
                     </div>
                   )}
 
+                  <Button variant="secondary" className="w-full" onClick={handleOpenBillingPortal} disabled={openingBillingPortal}>
+                    <ExternalLink className="mr-2 h-4 w-4" />
+                    {openingBillingPortal ? 'Opening...' : 'Update Card & Billing Details'}
+                  </Button>
+
+                  {subscription.paused_until && (
+                    <div>
+                      <p className="text-sm text-muted-foreground">
+                        <PauseCircle className="inline-block mr-1 h-3 w-3" />
+                        Paused
+                      </p>
+                      <p className="font-medium">Until {formatLongDate(new Date(subscription.paused_until))}</p>
+                      <p className="text-xs text-muted-foreground">
+                        Billing and pour redemptions resume on that date.
+                      </p>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="mt-2"
+                        onClick={handleResumeMembership}
+                        disabled={updatingPause}
+                      >
+                        {updatingPause ? 'Resuming...' : 'Resume Now'}
+                      </Button>
+                    </div>
+                  )}
+
+                  {!subscription.cancel_at_period_end && !subscription.paused_until && subscription.status === 'active' && tierOptions.length > 0 && (
+                    <div>
+                      <p className="text-sm text-muted-foreground">
+                        <ArrowUpDown className="inline-block mr-1 h-3 w-3" />
+                        Change Tier
+                      </p>
+                      {subscription.scheduled_tier && subscription.scheduled_tier_at && (
+                        <div className="mt-1 flex flex-wrap items-center gap-2">
+                          <p className="text-sm">
+                            Moving to{' '}
+                            <span className="font-medium">
+                              {tierOptions.find((t) => t.tier_name === subscription.scheduled_tier)?.display_name ?? subscription.scheduled_tier}
+                            </span>{' '}
+                            on {formatLongDate(new Date(subscription.scheduled_tier_at))}
+                          </p>
+                          <Button
+                            variant="link"
+                            size="sm"
+                            className="h-auto p-0"
+                            onClick={() => handlePreviewTierChange(subscription.tier)}
+                            disabled={!!previewingTier}
+                          >
+                            Keep current tier
+                          </Button>
+                        </div>
+                      )}
+                      <div className="mt-2 grid gap-2 sm:grid-cols-2">
+                        {tierOptions
+                          .filter((t) => t.tier_name !== subscription.tier && t.tier_name !== subscription.scheduled_tier)
+                          .map((t) => {
+                            // A tier change keeps the member's billing interval
+                            const price = t.prices?.find((p) => p.interval === subscription.interval);
+                            return (
+                              <Button
+                                key={t.tier_name}
+                                variant="outline"
+                                className="justify-between"
+                                onClick={() => handlePreviewTierChange(t.tier_name)}
+                                disabled={!!previewingTier || t.status === 'sold_out' || !price}
+                              >
+                                <span>{previewingTier === t.tier_name ? 'Checking...' : t.display_name}</span>
+                                <span className="text-muted-foreground">
+                                  {t.status === 'sold_out'
+                                    ? 'Sold out'
+                                    : price
+                                      ? `$${price.amount.toFixed(2)}/${subscription.interval === 'year' ? 'yr' : 'mo'}`
+                                      : 'Not available'}
+                                </span>
+                              </Button>
+                            );
+                          })}
+                      </div>
+                    </div>
+                  )}
+
+                  {!subscription.cancel_at_period_end && !subscription.paused_until && subscription.status === 'active' && subscription.max_pause_days > 0 && (
+                    <AlertDialog onOpenChange={(open) => !open && setPauseResumeDate('')}>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="outline" className="w-full" disabled={subscription.pauses_remaining === 0}>
+                          <PauseCircle className="mr-2 h-4 w-4" />
+                          {subscription.pauses_remaining === 0 ? 'No Pauses Left This Year' : 'Pause Membership'}
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Pause Membership?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            Going away? Put your membership on hold for up to {subscription.max_pause_days} days. You
+                            won't be billed and can't redeem pours while it's paused, and your place in your tier is
+                            kept for you. You can pause {subscription.pauses_remaining} more time
+                            {subscription.pauses_remaining === 1 ? '' : 's'} this year.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <div className="space-y-2">
+                          <Label htmlFor="pause-resume-date">Resume on</Label>
+                          <Input
+                            id="pause-resume-date"
+                            type="date"
+                            value={pauseResumeDate}
+                            min={toDateInputValue(addDays(new Date(), 2))}
+                            max={toDateInputValue(addDays(new Date(), subscription.max_pause_days))}
+                            onChange={(e) => setPauseResumeDate(e.target.value)}
+                          />
+                        </div>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel disabled={updatingPause}>Never Mind</AlertDialogCancel>
+                          <AlertDialogAction onClick={handlePauseMembership} disabled={!pauseResumeDate || updatingPause}>
+                            {updatingPause ? 'Pausing...' : 'Pause Membership'}
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  )}
+
                   {!subscription.cancel_at_period_end && (
                     <AlertDialog>
                       <AlertDialogTrigger asChild>
@@ -338,6 +726,80 @@ export default function Account() {
               </div>
             )}
 
+            <AlertDialog open={!!tierPreview} onOpenChange={(open) => !open && !changingTier && setTierPreview(null)}>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>
+                    {tierPreview?.direction === 'keep'
+                      ? 'Keep Your Current Tier?'
+                      : `${tierPreview?.direction === 'upgrade' ? 'Upgrade' : 'Switch'} to ${tierPreview?.display_name}?`}
+                  </AlertDialogTitle>
+                  <AlertDialogDescription asChild>
+                    <div className="space-y-2">
+                      {tierPreview?.direction === 'upgrade' && (
+                        <>
+                          <p>
+                            You'll be charged{' '}
+                            <span className="font-medium text-foreground">
+                              ${(tierPreview.amount_due / 100).toFixed(2)}
+                            </span>{' '}
+                            today for the rest of this billing period, and the new price from your next billing date.
+                          </p>
+                          <p>
+                            Your allowance goes up to {tierPreview.monthly_pours} pours this period right away. Pours
+                            you've already used still count.
+                          </p>
+                        </>
+                      )}
+                      {tierPreview?.direction === 'downgrade' && (
+                        <>
+                          <p>
+                            Nothing changes until{' '}
+                            {formatLongDate(new Date((tierPreview.effective_at ?? 0) * 1000))}. You keep your{' '}
+                            {tierPreview.current_monthly_pours} pours until then.
+                          </p>
+                          <p>
+                            From that date you'll pay the new price and receive {tierPreview.monthly_pours} pours each
+                            period.
+                          </p>
+                        </>
+                      )}
+                      {tierPreview?.direction === 'keep' && (
+                        <p>Your scheduled tier change will be cancelled and your membership will renew as it is.</p>
+                      )}
+                    </div>
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel disabled={changingTier}>Never Mind</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={(e) => {
+                      e.preventDefault();
+                      handleConfirmTierChange();
+                    }}
+                    disabled={changingTier}
+                  >
+                    {changingTier
+                      ? 'Updating...'
+                      : tierPreview?.direction === 'upgrade'
+                        ? 'Pay & Upgrade'
+                        : 'Confirm'}
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+
+            {/* Invoices stay available after a membership ends */}
+            {profileData && !profileData.is_secondary && (
+              <div className="border-t pt-6">
+                <h3 className="text-sm font-medium text-muted-foreground mb-3">
+                  <Receipt className="inline-block mr-2 h-4 w-4" />
+                  Invoice History
+                </h3>
+                <InvoiceHistory />
+              </div>
+            )}
+
             <div className="border-t pt-6">
               <h3 className="text-sm font-medium text-muted-foreground mb-3">Support</h3>
               <p className="text-sm text-muted-foreground mb-4">
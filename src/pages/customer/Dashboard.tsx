@@ -7,15 +7,28 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
-import { QrCode, History, User, Calendar, LogOut, CreditCard, Users } from 'lucide-react';
+import { PourPreorderCard } from '@/components/PourPreorderCard';
+import { PaymentIssueBanner } from '@/components/PaymentIssueBanner';
+import { MembershipPausedNotice } from '@/components/MembershipPausedNotice';
+import { formatPours } from '@/lib/pour-sizes';
+import { QrCode, History, User, Calendar, LogOut, CreditCard, Users, UserPlus } from 'lucide-react';
 
 interface CustomerData {
+  id: string;
   tier: 'select' | 'premier' | 'elite' | 'household';
   available_pours: number;
   pours_used: number;
+  pours_held: number;
+  carried_pours: number;
+  carried_remaining: number;
+  fresh_remaining: number;
+  guest_pours_max: number;
+  guest_pours_used: number;
+  available_guest_pours: number;
   total_pours_lifetime: number;
   member_since: string;
   tier_max_pours: number;
+  paused_until: string | null;
 }
 
 interface FamilyMemberData {
@@ -25,6 +38,7 @@ interface FamilyMemberData {
   pours_used: number;
   tier_max_pours: number;
   member_since: string;
+  paused_until: string | null;
 }
 
 interface SecondaryMemberInfo {
@@ -149,12 +163,21 @@ export default function Dashboard() {
         }
 
         setCustomerData({
+          id: customer.id,
           tier: customer.tier,
           available_pours: poursData?.available_pours || 0,
           pours_used: poursData?.pours_used || 0,
+          pours_held: poursData?.pours_held || 0,
+          carried_pours: poursData?.carried_pours || 0,
+          carried_remaining: poursData?.carried_remaining || 0,
+          fresh_remaining: poursData?.fresh_remaining || 0,
+          guest_pours_max: poursData?.guest_pours_max || 0,
+          guest_pours_used: poursData?.guest_pours_used || 0,
+          available_guest_pours: poursData?.available_guest_pours || 0,
           total_pours_lifetime: customer.total_pours_lifetime,
           member_since: customer.member_since,
           tier_max_pours: poursData?.tier_max || 0,
+          paused_until: poursData?.paused_until ?? null,
         });
       } else {
         // Check if user is a secondary/family member using SECURITY DEFINER function
@@ -193,6 +216,7 @@ export default function Dashboard() {
             pours_used: poursData?.pours_used || 0,
             tier_max_pours: poursData?.tier_max || 0,
             member_since: familyCustomer.member_since,
+            paused_until: poursData?.paused_until ?? null,
           });
         } else {
           // Check if user has ever had a customer record (even if inactive)
@@ -283,16 +307,18 @@ export default function Dashboard() {
             </CardContent>
           </Card>
 
+          {familyMemberData.paused_until && <MembershipPausedNotice pausedUntil={familyMemberData.paused_until} />}
+
           {/* Pours Counter */}
           <Card className="border-2 border-primary/20">
             <CardContent className="pt-6 space-y-4">
               <div className="text-center">
                 <p className="text-sm font-serif text-muted-foreground mb-2">Household Pours This Month</p>
                 <p className="text-6xl md:text-7xl font-serif text-primary">
-                  {familyMemberData.available_pours} <span className="text-muted-foreground">/ {familyMemberData.tier_max_pours}</span>
+                  {formatPours(familyMemberData.available_pours)} <span className="text-muted-foreground">/ {familyMemberData.tier_max_pours}</span>
                 </p>
                 <p className="text-sm text-muted-foreground mt-3">
-                  {familyMemberData.pours_used} used this billing period
+                  {formatPours(familyMemberData.pours_used)} used this billing period
                 </p>
               </div>
               <Progress value={poursPercentage} className="h-2" />
@@ -369,7 +395,12 @@ export default function Dashboard() {
 
   if (!customerData) {
     return (
-      <div className="flex min-h-screen items-center justify-center p-4">
+      <div className="flex min-h-screen flex-col items-center justify-center gap-4 p-4">
+        {hasHadMembershipBefore && (
+          <div className="w-full max-w-md">
+            <PaymentIssueBanner />
+          </div>
+        )}
         <Card className="max-w-md">
           <CardHeader>
             <CardTitle>
@@ -452,7 +483,9 @@ export default function Dashboard() {
     );
   }
 
-  const poursPercentage = (customerData.pours_used / customerData.tier_max_pours) * 100;
+  // Carried-over pours extend this period's allowance on top of the tier's monthly pours
+  const totalAllowance = customerData.tier_max_pours + customerData.carried_pours;
+  const poursPercentage = (customerData.pours_used / totalAllowance) * 100;
 
   return (
     <div className="min-h-screen pb-20 md:pb-8">
@@ -488,25 +521,68 @@ export default function Dashboard() {
       </div>
 
       <div className="max-w-2xl mx-auto px-4 py-6 space-y-6">
+        <PaymentIssueBanner />
+
+        {customerData.paused_until && <MembershipPausedNotice pausedUntil={customerData.paused_until} canResume />}
+
         {/* Pours Counter - Most Important */}
         <Card className="border-2 border-primary/20">
           <CardContent className="pt-6 space-y-4">
             <div className="text-center">
               <p className="text-sm font-serif text-muted-foreground mb-2">Pours This Month</p>
               <p className="text-6xl md:text-7xl font-serif text-primary">
-                {customerData.available_pours} <span className="text-muted-foreground">/ {customerData.tier_max_pours}</span>
+                {formatPours(customerData.available_pours)} <span className="text-muted-foreground">/ {formatPours(totalAllowance)}</span>
               </p>
               <p className="text-sm text-muted-foreground mt-3">
-                {customerData.pours_used} used this billing period
+                {formatPours(customerData.pours_used)} used this billing period
+                {customerData.pours_held > 0 && ` · ${formatPours(customerData.pours_held)} held for pre-order`}
               </p>
+              {customerData.carried_pours > 0 && (
+                <div className="flex justify-center gap-2 mt-3">
+                  <Badge variant="secondary">{formatPours(customerData.carried_remaining)} carried over</Badge>
+                  <Badge variant="outline">{formatPours(customerData.fresh_remaining)} fresh</Badge>
+                </div>
+              )}
             </div>
             <Progress value={poursPercentage} className="h-2" />
             <p className="text-xs text-muted-foreground text-center">
-              Resets on your monthly billing date
+              {customerData.carried_pours > 0
+                ? 'Carried-over pours are used first and expire per your tier\'s rollover policy'
+                : 'Resets on your monthly billing date'}
             </p>
           </CardContent>
         </Card>
 
+        {/* Guest allowance - separate from the member's own pours */}
+        {customerData.guest_pours_max > 0 && (
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex items-center justify-between gap-4">
+                <div className="flex items-center gap-3">
+                  <UserPlus className="w-5 h-5 text-muted-foreground" />
+                  <div>
+                    <p className="font-medium">Guest Pours</p>
+                    <p className="text-sm text-muted-foreground">
+                      {formatPours(customerData.guest_pours_used)} poured for guests this billing period
+                    </p>
+                  </div>
+                </div>
+                <p className="text-2xl font-serif text-primary">
+                  {formatPours(customerData.available_guest_pours)}
+                  <span className="text-base text-muted-foreground"> / {customerData.guest_pours_max}</span>
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Pre-order - holds allowance until staff pour it */}
+        <PourPreorderCard
+          customerId={customerData.id}
+          availablePours={customerData.available_pours}
+          onChange={fetchCustomerData}
+        />
+
         {/* Family Member Card - Only for household tier */}
         {customerData.tier === 'household' && (
           <Card className="border-primary/20">
@@ -9,6 +9,7 @@ import { Label } from '@/components/ui/label';
 import { Slider } from '@/components/ui/slider';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
 import { ChevronLeft, ChevronRight, Wine, AlertTriangle, Flame, XCircle } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
@@ -26,12 +27,21 @@ const preferencesSchema = z.object({
 
 type PreferencesFormData = z.infer<typeof preferencesSchema>;
 
+type BillingInterval = 'month' | 'year';
+
+interface TierPriceOption {
+  id: string;
+  interval: BillingInterval;
+  amount: number;
+}
+
 interface TierAvailability {
   tier_name: string;
   display_name: string;
   monthly_price: number;
   monthly_pours: number;
   description: string | null;
+  prices: TierPriceOption[];
   available: number | null;
   status: 'available' | 'limited' | 'low' | 'critical' | 'sold_out';
   urgency_message: string | null;
@@ -48,6 +58,7 @@ export default function JoinMembership() {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [tierOptions, setTierOptions] = useState<TierAvailability[]>([]);
   const [isLoadingTiers, setIsLoadingTiers] = useState(true);
+  const [billingInterval, setBillingInterval] = useState<BillingInterval>('month');
   const navigate = useNavigate();
   const { user } = useAuth();
   
@@ -132,6 +143,12 @@ export default function JoinMembership() {
       return;
     }
 
+    const price = selectedTier?.prices.find(p => p.interval === billingInterval);
+    if (!price) {
+      toast.error(`This membership tier is not available with ${billingInterval === 'year' ? 'annual' : 'monthly'} billing.`);
+      return;
+    }
+
     setIsSubmitting(true);
     try {
       const preferences = watch();
@@ -141,6 +158,7 @@ export default function JoinMembership() {
         body: {
           tierName,
           userId: user?.id,
+          priceId: price.id,
           preferences, // Pass preferences directly
         }
       });
@@ -171,6 +189,9 @@ export default function JoinMembership() {
     }
   };
 
+  // Annual billing is only offered once at least one tier has an annual price
+  const offersAnnual = tierOptions.some(t => t.prices.some(p => p.interval === 'year'));
+
   const nextStep = () => {
     if (step >= totalSteps) return;
     const newStep = step + 1;
@@ -288,6 +309,19 @@ export default function JoinMembership() {
                     </p>
                   </div>
 
+                  {offersAnnual && (
+                    <ToggleGroup
+                      type="single"
+                      variant="outline"
+                      value={billingInterval}
+                      onValueChange={(value) => value && setBillingInterval(value as BillingInterval)}
+                      className="justify-start"
+                    >
+                      <ToggleGroupItem value="month">Monthly</ToggleGroupItem>
+                      <ToggleGroupItem value="year">Annual</ToggleGroupItem>
+                    </ToggleGroup>
+                  )}
+
                   {isSubmitting && (
                     <div className="absolute inset-0 bg-background/80 backdrop-blur-sm flex items-center justify-center z-50 rounded-lg">
                       <div className="text-center space-y-4">
@@ -304,18 +338,24 @@ export default function JoinMembership() {
                   ) : (
                     <div className="grid gap-4 relative">
                       {tierOptions.map((tier) => {
+                        const price = tier.prices.find(p => p.interval === billingInterval);
+                        const monthlyPrice = tier.prices.find(p => p.interval === 'month');
                         const isSoldOut = tier.status === 'sold_out';
+                        const isUnavailable = isSoldOut || !price;
                         const hasUrgency = tier.urgency_message && !isSoldOut;
+                        const annualSaving = billingInterval === 'year' && price && monthlyPrice
+                          ? monthlyPrice.amount * 12 - price.amount
+                          : 0;
                         
                         return (
                           <Card 
                             key={tier.tier_name}
                             className={`transition-all ${
-                              isSoldOut 
+                              isUnavailable
                                 ? 'opacity-60 cursor-not-allowed border-muted' 
                                 : 'hover:border-primary hover:shadow-lg cursor-pointer'
                             } ${hasUrgency ? 'border-amber-500/50' : ''}`}
-                            onClick={() => !isSubmitting && !isSoldOut && handleTierSelection(tier.tier_name as 'select' | 'premier' | 'elite' | 'household')}
+                            onClick={() => !isSubmitting && !isUnavailable && handleTierSelection(tier.tier_name as 'select' | 'premier' | 'elite' | 'household')}
                           >
                             <CardContent className="flex items-start gap-4 p-6">
                               <div className="flex-1 space-y-2">
@@ -350,8 +390,23 @@ export default function JoinMembership() {
                                       </Badge>
                                     )}
                                     <div className="text-right">
-                                      <p className="text-2xl font-bold">${tier.monthly_price}</p>
-                                      <p className="text-xs text-muted-foreground">per month</p>
+                                      {price ? (
+                                        <>
+                                          <p className="text-2xl font-bold">${price.amount}</p>
+                                          <p className="text-xs text-muted-foreground">
+                                            {price.interval === 'year' ? 'per year' : 'per month'}
+                                          </p>
+                                          {annualSaving > 0 && (
+                                            <p className="text-xs font-medium text-green-600">
+                                              Save ${annualSaving.toFixed(0)} a year
+                                            </p>
+                                          )}
+                                        </>
+                                      ) : (
+                                        <p className="text-sm text-muted-foreground">
+                                          {billingInterval === 'year' ? 'Monthly only' : 'Annual only'}
+                                        </p>
+                                      )}
                                     </div>
                                   </div>
                                 </div>
@@ -364,7 +419,7 @@ export default function JoinMembership() {
                                     {tier.description}
                                   </p>
                                 )}
-                                {!isSoldOut && (
+                                {!isUnavailable && (
                                   <p className="text-sm text-primary font-medium pt-2">
                                     Continue to Payment →
                                   </p>
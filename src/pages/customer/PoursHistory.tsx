@@ -4,16 +4,24 @@ import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { ArrowLeft } from 'lucide-react';
+import { formatWineName } from '@/lib/wines';
+import { formatPourCount } from '@/lib/pour-sizes';
 
 interface Pour {
   id: string;
-  location: string;
   quantity: number;
+  allowance_cost: number;
   status: string;
   created_at: string;
   notes?: string;
+  is_guest: boolean;
+  guest_name: string | null;
+  wines: { name: string; producer: string | null; vintage: number | null } | null;
+  locations: { name: string } | null;
+  pour_sizes: { name: string } | null;
 }
 
 export default function PoursHistory() {
@@ -39,7 +47,7 @@ export default function PoursHistory() {
 
       const { data: poursData, error } = await supabase
         .from('pours')
-        .select('*')
+        .select('*, wines(name, producer, vintage), locations(name), pour_sizes(name)')
         .eq('customer_id', customer.id)
         .order('created_at', { ascending: false })
         .limit(50);
@@ -53,13 +61,6 @@ export default function PoursHistory() {
     }
   };
 
-  const formatLocation = (location: string) => {
-    return location
-      .split('_')
-      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
-      .join(' ');
-  };
-
   return (
     <div className="min-h-screen p-4 md:p-8">
       <div className="max-w-4xl mx-auto space-y-6">
@@ -89,6 +90,7 @@ export default function PoursHistory() {
                   <TableHeader>
                     <TableRow>
                       <TableHead>Date</TableHead>
+                      <TableHead>Wine</TableHead>
                       <TableHead>Location</TableHead>
                       <TableHead className="text-center">Quantity</TableHead>
                       <TableHead className="text-center">Status</TableHead>
@@ -104,8 +106,25 @@ export default function PoursHistory() {
                             year: 'numeric',
                           })}
                         </TableCell>
-                        <TableCell>{formatLocation(pour.location)}</TableCell>
-                        <TableCell className="text-center">{pour.quantity}</TableCell>
+                        <TableCell>
+                          {pour.wines ? formatWineName(pour.wines) : (
+                            <span className="text-muted-foreground">—</span>
+                          )}
+                          {pour.is_guest && (
+                            <Badge variant="outline" className="ml-2">
+                              Guest{pour.guest_name ? `: ${pour.guest_name}` : ''}
+                            </Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>{pour.locations?.name || '—'}</TableCell>
+                        <TableCell className="text-center">
+                          {pour.quantity}
+                          {pour.pour_sizes && (
+                            <span className="block text-xs text-muted-foreground">
+                              {pour.pour_sizes.name} · {formatPourCount(pour.allowance_cost)}
+                            </span>
+                          )}
+                        </TableCell>
                         <TableCell className="text-center">
                           {pour.status === 'redeemed' ? (
                             <span className="text-success">✓</span>
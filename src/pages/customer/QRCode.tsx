@@ -1,12 +1,19 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
 import { QRCodeSVG } from 'qrcode.react';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
 import { TierBadge } from '@/components/TierBadge';
-import { ArrowLeft, Download, Printer } from 'lucide-react';
+import { readFunctionErrorBody } from '@/lib/edge-functions';
+import { formatMemberCode } from '@/lib/member-code';
+import { formatPourCount } from '@/lib/pour-sizes';
+import { composeQrValue, QR_TOTP_PERIOD_SECONDS, totpCode, totpSecondsLeft, totpStep } from '@/lib/qr-totp';
+import { addToWallet, type WalletPlatform } from '@/lib/wallet-pass';
+import { ArrowLeft, Download, Loader2, Printer, RefreshCw, ShieldX, Wallet } from 'lucide-react';
+import { toast } from 'sonner';
 
 interface CustomerData {
   id: string;
@@ -22,33 +29,88 @@ export default function QRCodePage() {
   const [loading, setLoading] = useState(true);
   const [hasPendingApplication, setHasPendingApplication] = useState(false);
   const [qrToken, setQrToken] = useState<string>('');
+  const [tokenJti, setTokenJti] = useState<string | null>(null);
   const [tokenExpiry, setTokenExpiry] = useState<Date | null>(null);
+  const [totpSecret, setTotpSecret] = useState<string | null>(null);
+  const [memberCode, setMemberCode] = useState<string | null>(null);
+  const [liveCode, setLiveCode] = useState<{ step: number; code: string } | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(totpSecondsLeft());
+  const [availablePours, setAvailablePours] = useState<number | null>(null);
+  const [qrSuspended, setQrSuspended] = useState(false);
+  const [addingToWallet, setAddingToWallet] = useState<WalletPlatform | null>(null);
 
   useEffect(() => {
     fetchCustomerData();
   }, [user]);
 
-  useEffect(() => {
-    if (customerData && !hasPendingApplication) {
-      generateToken();
-      // Refresh token every 8 minutes (before 10 minute expiry)
-      const interval = setInterval(generateToken, 8 * 60 * 1000);
-      return () => clearInterval(interval);
-    }
-  }, [customerData, hasPendingApplication]);
-
-  const generateToken = async () => {
+  const generateToken = useCallback(async () => {
     try {
       const { data, error } = await supabase.functions.invoke('generate-qr-token');
       
-      if (error) throw error;
+      if (error) {
+        const body = await readFunctionErrorBody<{ error?: string; qr_suspended?: boolean }>(error);
+        if (body?.qr_suspended) {
+          setQrSuspended(true);
+          setQrToken('');
+          setTokenJti(null);
+          setTotpSecret(null);
+          setMemberCode(null);
+          return;
+        }
+        throw error;
+      }
       
+      setQrSuspended(false);
       setQrToken(data.token);
+      setTokenJti(data.jti ?? null);
       setTokenExpiry(new Date(data.expires_at));
+      setTotpSecret(data.totp?.secret ?? null);
+      setMemberCode(data.short_code ?? null);
     } catch (error) {
       // Token generation failed - will retry on next interval
     }
-  };
+  }, []);
+
+  useEffect(() => {
+    if (customerData && !hasPendingApplication) {
+      generateToken();
+      // Refresh token every 8 minutes (before 10 minute expiry)
+      const interval = setInterval(generateToken, 8 * 60 * 1000);
+      return () => clearInterval(interval);
+    }
+  }, [customerData, hasPendingApplication, generateToken]);
+
+  // The code on screen changes every 30 seconds, so a screenshot is stale almost at once
+  useEffect(() => {
+    if (!totpSecret) return;
+    let shownStep = -1;
+    const tick = () => {
+      setSecondsLeft(totpSecondsLeft());
+      const step = totpStep();
+      if (step === shownStep) return;
+      shownStep = step;
+      totpCode(totpSecret, step).then((code) => setLiveCode({ step, code }));
+    };
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [totpSecret]);
+
+  // Each code scans once, so once staff have scanned it the screen moves on to a fresh one
+  useEffect(() => {
+    if (!tokenJti) return;
+    const checkUsed = async () => {
+      if (document.hidden) return;
+      const { data } = await supabase.rpc('get_my_qr_token_use', { _jti: tokenJti });
+      const use = data as { used: boolean } | null;
+      if (use?.used) {
+        setTokenJti(null);
+        generateToken();
+      }
+    };
+    const interval = setInterval(checkUsed, 5000);
+    return () => clearInterval(interval);
+  }, [tokenJti, generateToken]);
 
   const fetchCustomerData = async () => {
     if (!user) return;
@@ -82,6 +144,12 @@ export default function QRCodePage() {
         .single();
 
       if (resolvedCustomer && profile) {
+        // Live balance so staff and member see the same number at the bar
+        const { data: poursData } = await supabase.functions.invoke('get-available-pours', {
+          body: { customer_id: resolvedCustomer.id },
+        });
+        setAvailablePours(poursData?.available_pours ?? null);
+
         setCustomerData({
           id: resolvedCustomer.id,
           tier: resolvedCustomer.tier,
@@ -144,6 +212,17 @@ export default function QRCodePage() {
     window.print();
   };
 
+  const handleAddToWallet = async (platform: WalletPlatform) => {
+    setAddingToWallet(platform);
+    try {
+      await addToWallet(platform);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create wallet pass');
+    } finally {
+      setAddingToWallet(null);
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex min-h-screen items-center justify-center">
@@ -172,7 +251,9 @@ export default function QRCodePage() {
     );
   }
 
-  const qrValue = hasPendingApplication ? user?.id || '' : qrToken;
+  const qrValue = hasPendingApplication
+    ? user?.id || ''
+    : qrToken && liveCode ? composeQrValue(qrToken, liveCode.step, liveCode.code) : '';
 
   return (
     <div className="min-h-screen p-4 md:p-8">
@@ -196,44 +277,98 @@ export default function QRCodePage() {
             )}
           </CardHeader>
           <CardContent className="space-y-6">
-            <div className="flex justify-center">
-              <div className="p-6 bg-card rounded-lg border">
-                <QRCodeSVG
-                  id="qr-code-svg"
-                  value={qrValue}
-                  size={300}
-                  level="H"
-                  includeMargin={true}
-                  bgColor="#ffffff"
-                  fgColor="#000000"
-                />
+            {qrSuspended ? (
+              <div className="flex flex-col items-center gap-3 py-8 text-center">
+                <ShieldX className="h-12 w-12 text-destructive" />
+                <p className="font-medium">Your membership QR code is suspended</p>
+                <p className="text-sm text-muted-foreground max-w-sm">
+                  We noticed unusual activity on your code. Please speak to a member of staff to have it restored.
+                </p>
               </div>
-            </div>
+            ) : (
+              <>
+                <div className="flex justify-center">
+                  <div className="p-6 bg-card rounded-lg border">
+                    <QRCodeSVG
+                      id="qr-code-svg"
+                      value={qrValue}
+                      size={300}
+                      level="H"
+                      includeMargin={true}
+                      bgColor="#ffffff"
+                      fgColor="#000000"
+                    />
+                  </div>
+                </div>
 
-            <div className="text-center space-y-1">
-              <p className="text-muted-foreground">
-                {hasPendingApplication 
-                  ? 'Show this to staff to verify your pending application'
-                  : 'Show this to staff for quick lookup'
-                }
-              </p>
-              {!hasPendingApplication && tokenExpiry && (
-                <p className="text-xs text-muted-foreground">
-                  Token refreshes automatically every 8 minutes
-                </p>
-              )}
-            </div>
+                <div className="text-center space-y-1">
+                  <p className="text-muted-foreground">
+                    {hasPendingApplication 
+                      ? 'Show this to staff to verify your pending application'
+                      : 'Show this to staff for quick lookup'
+                    }
+                  </p>
+                  {!hasPendingApplication && tokenExpiry && (
+                    <div className="max-w-xs mx-auto space-y-2 pt-2">
+                      <Progress value={(secondsLeft / QR_TOTP_PERIOD_SECONDS) * 100} className="h-1" />
+                      <p className="text-xs text-muted-foreground">
+                        Code changes in {secondsLeft}s. Screenshots and printouts will not scan; each code works for one scan and is replaced once scanned.
+                      </p>
+                    </div>
+                  )}
+                  {!hasPendingApplication && memberCode && (
+                    <div className="pt-4">
+                      <p className="font-mono text-2xl font-semibold tracking-widest">{formatMemberCode(memberCode)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        Member code. Read it out if the QR will not scan; it changes with each new code.
+                      </p>
+                    </div>
+                  )}
+                </div>
 
-            <div className="flex gap-4 justify-center">
-              <Button onClick={handleDownload} variant="secondary">
-                <Download className="mr-2 h-4 w-4" />
-                Download QR
-              </Button>
-              <Button onClick={handlePrint} variant="secondary">
-                <Printer className="mr-2 h-4 w-4" />
-                Print Card
-              </Button>
-            </div>
+                <div className="flex gap-4 justify-center">
+                  {/* A live code cannot be saved, so only the application QR can be downloaded or printed */}
+                  {hasPendingApplication ? (
+                    <>
+                      <Button onClick={handleDownload} variant="secondary">
+                        <Download className="mr-2 h-4 w-4" />
+                        Download QR
+                      </Button>
+                      <Button onClick={handlePrint} variant="secondary">
+                        <Printer className="mr-2 h-4 w-4" />
+                        Print Card
+                      </Button>
+                    </>
+                  ) : (
+                    <Button onClick={generateToken} variant="secondary">
+                      <RefreshCw className="mr-2 h-4 w-4" />
+                      New Code
+                    </Button>
+                  )}
+                </div>
+
+                {/* A wallet pass keeps a fixed barcode, so it is offered alongside the live code rather than replacing it */}
+                {!hasPendingApplication && (
+                  <div className="flex flex-wrap gap-2 justify-center">
+                    {(['apple', 'google'] as const).map((platform) => (
+                      <Button
+                        key={platform}
+                        variant="outline"
+                        onClick={() => handleAddToWallet(platform)}
+                        disabled={!!addingToWallet}
+                      >
+                        {addingToWallet === platform ? (
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        ) : (
+                          <Wallet className="mr-2 h-4 w-4" />
+                        )}
+                        Add to {platform === 'apple' ? 'Apple' : 'Google'} Wallet
+                      </Button>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
 
             <div className="border-t pt-6 space-y-2">
               <h3 className="font-serif text-lg mb-4">
@@ -259,6 +394,12 @@ export default function QRCodePage() {
                         })}
                       </p>
                     </div>
+                    {availablePours !== null && (
+                      <div>
+                        <p className="text-sm text-muted-foreground">Available This Month</p>
+                        <p className="font-medium">{formatPourCount(availablePours)}</p>
+                      </div>
+                    )}
                   </>
                 )}
                 {hasPendingApplication && (
@@ -4,12 +4,23 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
 import { TierBadge } from '@/components/TierBadge';
+import { WineSelect } from '@/components/WineSelect';
+import { LocationSelect } from '@/components/LocationSelect';
+import { PourSizeSelect } from '@/components/PourSizeSelect';
+import { PourLimitNotice } from '@/components/PourLimitNotice';
+import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
+import { enqueuePour, submitQueuedPour } from '@/lib/pour-queue';
+import { fetchActiveWines, type Wine } from '@/lib/wines';
+import { fetchPourLocationChoices, type PourLocation } from '@/lib/locations';
+import { fetchPourSizes, formatPourCount, formatPours, type PourSize } from '@/lib/pour-sizes';
+import { exceedsPourLimits, fetchPourLimits, type PourLimitStatus } from '@/lib/pour-limits';
 import { Loader2 } from 'lucide-react';
 import { toast } from 'sonner';
+import { z } from 'zod';
 import { StaffAdminHeader } from '@/components/StaffAdminHeader';
 import { Skeleton } from '@/components/ui/skeleton';
 
@@ -17,14 +28,58 @@ export default function AddPour() {
   const { id } = useParams();
   const location = useLocation();
   const navigate = useNavigate();
+  const { user, userRole } = useAuth();
   const customer = location.state?.customer;
 
   const [quantity, setQuantity] = useState('1');
-  const [locationValue, setLocationValue] = useState<string>('');
+  const [locationId, setLocationId] = useState('');
+  const [locations, setLocations] = useState<PourLocation[]>([]);
+  const [loadingLocations, setLoadingLocations] = useState(true);
+  const [pourSizeId, setPourSizeId] = useState('');
+  const [pourSizes, setPourSizes] = useState<PourSize[]>([]);
+  const [wineId, setWineId] = useState('');
+  const [wines, setWines] = useState<Wine[]>([]);
+  const [loadingWines, setLoadingWines] = useState(true);
   const [notes, setNotes] = useState('');
   const [submitting, setSubmitting] = useState(false);
   const [availablePours, setAvailablePours] = useState<number | null>(null);
+  const [availableGuestPours, setAvailableGuestPours] = useState(0);
+  const [isGuest, setIsGuest] = useState(false);
+  const [guestName, setGuestName] = useState('');
+  const [guestEmail, setGuestEmail] = useState('');
   const [loadingPours, setLoadingPours] = useState(true);
+  // The QR verify result carries the caps at the staff member's default location
+  const [limits, setLimits] = useState<PourLimitStatus | null>(customer?.pour_limits ?? null);
+  const [overrideReason, setOverrideReason] = useState('');
+
+  useEffect(() => {
+    fetchActiveWines().then((data) => {
+      setWines(data);
+      setLoadingWines(false);
+    });
+  }, []);
+
+  useEffect(() => {
+    fetchPourLocationChoices(user?.id).then(({ locations, defaultLocationId }) => {
+      setLocations(locations);
+      if (defaultLocationId) setLocationId(defaultLocationId);
+      setLoadingLocations(false);
+    });
+  }, [user?.id]);
+
+  // Sizes are per location; pre-select the location's default
+  useEffect(() => {
+    if (!locationId) return;
+    fetchPourSizes(locationId).then((sizes) => {
+      setPourSizes(sizes);
+      setPourSizeId(sizes.find((s) => s.is_default)?.id ?? sizes[0]?.id ?? '');
+    });
+  }, [locationId]);
+
+  useEffect(() => {
+    if (!id || !locationId) return;
+    fetchPourLimits(id, locationId).then(setLimits);
+  }, [id, locationId]);
 
   // Fetch live available pours on mount
   useEffect(() => {
@@ -36,83 +91,91 @@ export default function AddPour() {
         });
         if (error || !data) throw new Error('Failed to fetch available pours');
         setAvailablePours(data.available_pours);
+        setAvailableGuestPours(data.available_guest_pours ?? 0);
       } catch {
-        // Fall back to route state if edge function fails
-        setAvailablePours(customer?.pours_balance ?? 0);
+        // Fall back to route state if edge function fails; a code scanned offline carries no balance
+        setAvailablePours(customer?.verified_offline ? null : customer?.pours_balance ?? 0);
       } finally {
         setLoadingPours(false);
       }
     };
     fetchAvailablePours();
-  }, [id, customer?.pours_balance]);
+  }, [id, customer?.pours_balance, customer?.verified_offline]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!locationValue) {
+    if (!locationId) {
       toast.error('Please select a location');
       return;
     }
 
+    if (wines.length > 0 && !wineId) {
+      toast.error('Please select a wine');
+      return;
+    }
+
+    if (isGuest && guestEmail.trim() && !z.string().email().safeParse(guestEmail.trim()).success) {
+      toast.error('Please enter a valid guest email');
+      return;
+    }
+
+    if (!user || !id) return;
+
     setSubmitting(true);
     try {
-      const qty = parseInt(quantity);
-      
-      // Verify available pours before recording
-      const { data: availableData, error: availableError } = await supabase.functions.invoke(
-        'get-available-pours',
-        { body: { customer_id: id } }
-      );
+      // Saved on the device first; the idempotency key makes later resyncs safe
+      const entry = enqueuePour(user.id, {
+        customer_id: id,
+        quantity: parseInt(quantity),
+        location_id: locationId,
+        pour_size_id: pourSizeId || undefined,
+        wine_id: wineId || undefined,
+        notes: notes || undefined,
+        source: 'qr',
+        is_guest: isGuest,
+        guest_name: isGuest ? guestName.trim() || undefined : undefined,
+        guest_email: isGuest ? guestEmail.trim() || undefined : undefined,
+        override_reason: overLimit ? overrideReason.trim() : undefined,
+      }, `${customer.first_name || ''} ${customer.last_name || ''}`.trim());
+
+      // Allowance check, pour insert and counter updates happen atomically server-side
+      const result = await submitQueuedPour(user.id, entry, false);
 
-      if (availableError || !availableData) {
-        throw new Error('Failed to verify available pours');
+      if (result.status === 'queued') {
+        toast.warning('No connection. Pour saved on this device and will sync automatically.');
+        navigate(`/staff/customers/${id}`);
+        return;
       }
 
-      if (availableData.available_pours < qty) {
-        toast.error(`Only ${availableData.available_pours} pours available in current billing period`);
-        setSubmitting(false);
+      // Not recorded, but kept on the device to retry, e.g. once an expired session is renewed
+      if (result.status === 'held') {
+        toast.warning(`${result.body?.error || 'Pour not recorded yet'}. Saved on this device and will retry automatically.`);
+        navigate(`/staff/customers/${id}`);
         return;
       }
-      
-      // Insert pour record with proper location enum value
-      const locationMap: Record<string, 'main_bar' | 'private_event' | 'tasting_room'> = {
-        'bar': 'main_bar',
-        'restaurant': 'main_bar',
-        'event': 'private_event',
-        'tasting_room': 'tasting_room'
-      };
-
-      const { error: pourError } = await supabase
-        .from('pours')
-        .insert([{
-          customer_id: id!,
-          quantity: qty,
-          location: locationMap[locationValue] || 'main_bar',
-          notes: notes || undefined,
-          toast_reference_number: `POUR-${Date.now()}`,
-          status: 'redeemed' as const
-        }]);
-
-      if (pourError) throw pourError;
-
-      // Update total lifetime pours only
-      const { data: currentCustomer } = await supabase
-        .from('customers')
-        .select('total_pours_lifetime')
-        .eq('id', id)
-        .single();
-
-      if (currentCustomer) {
-        await supabase
-          .from('customers')
-          .update({ 
-            total_pours_lifetime: currentCustomer.total_pours_lifetime + qty,
-            last_activity: new Date().toISOString()
-          })
-          .eq('id', id);
+
+      if (result.status === 'rejected') {
+        const body = result.body;
+        if (typeof body?.available_pours === 'number') {
+          setAvailablePours(body.available_pours);
+        }
+        if (typeof body?.available_guest_pours === 'number') {
+          setAvailableGuestPours(body.available_guest_pours);
+        }
+        if (body?.limits) {
+          setLimits(body.limits);
+        }
+        toast.error(body?.error || 'Failed to record pour');
+        return;
       }
 
-      toast.success('Pour recorded successfully!');
+      setAvailablePours(result.data.available_pours);
+      toast.success(
+        isGuest ? 'Guest pour recorded successfully!'
+          : result.data.limit_overridden ? 'Pour recorded with manager override'
+          : 'Pour recorded successfully!'
+      );
       navigate(`/staff/customers/${id}`);
     } catch (error) {
       toast.error('Failed to record pour');
@@ -121,6 +184,16 @@ export default function AddPour() {
     }
   };
 
+  // Unknown until back online; the server checks the allowance when the queued pour syncs
+  const balanceUnknown = !loadingPours && availablePours === null;
+  const allowance = isGuest ? availableGuestPours : availablePours ?? 0;
+  // Locations without sizes count one pour per glass
+  const unitCost = Number(pourSizes.find((s) => s.id === pourSizeId)?.allowance_cost ?? 1);
+  const cost = (parseInt(quantity) || 0) * unitCost;
+  // Guests are not the member, so their pours sit outside the member's service caps
+  const overLimit = !isGuest && exceedsPourLimits(limits, cost);
+  const canOverride = userRole === 'admin';
+
   if (!customer) {
     return (
       <div className="min-h-screen">
@@ -167,7 +240,9 @@ export default function AddPour() {
                     <Skeleton className="h-4 w-32 mt-1" />
                   ) : (
                     <p className="text-sm text-muted-foreground">
-                      Available: {availablePours ?? 0} pours
+                      {balanceUnknown
+                        ? 'Verified offline · allowance checked when back online'
+                        : `Available: ${formatPourCount(availablePours ?? 0)} · ${formatPours(availableGuestPours)} guest`}
                     </p>
                   )}
                 </div>
@@ -182,33 +257,105 @@ export default function AddPour() {
                   id="quantity"
                   type="number"
                   min="1"
-                  max={availablePours ?? 0}
+                  max={balanceUnknown ? undefined : Math.max(1, Math.floor(allowance / unitCost))}
                   value={quantity}
                   onChange={(e) => setQuantity(e.target.value)}
                   required
                 />
               </div>
 
+              <div className="space-y-3 rounded-lg border p-3">
+                <div className="flex items-center justify-between gap-2">
+                  <div>
+                    <Label htmlFor="guest-pour">Guest pour</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Draws from the member's guest allowance instead of their own
+                    </p>
+                  </div>
+                  <Switch
+                    id="guest-pour"
+                    checked={isGuest}
+                    onCheckedChange={setIsGuest}
+                    disabled={availableGuestPours <= 0 && !isGuest}
+                  />
+                </div>
+                {isGuest && (
+                  <div className="grid sm:grid-cols-2 gap-3">
+                    <div className="space-y-2">
+                      <Label htmlFor="guest-name">Guest Name (Optional)</Label>
+                      <Input
+                        id="guest-name"
+                        value={guestName}
+                        onChange={(e) => setGuestName(e.target.value)}
+                        maxLength={200}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="guest-email">Guest Email (Optional)</Label>
+                      <Input
+                        id="guest-email"
+                        type="email"
+                        value={guestEmail}
+                        onChange={(e) => setGuestEmail(e.target.value)}
+                        maxLength={255}
+                      />
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="wine">Wine</Label>
+                <WineSelect
+                  id="wine"
+                  wines={wines}
+                  loading={loadingWines}
+                  value={wineId}
+                  onValueChange={setWineId}
+                />
+              </div>
+
               <div className="space-y-2">
                 <Label htmlFor="location">Location</Label>
-                <Select value={locationValue} onValueChange={setLocationValue} required>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select location" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="bar">Bar</SelectItem>
-                    <SelectItem value="restaurant">Restaurant</SelectItem>
-                    <SelectItem value="event">Event</SelectItem>
-                    <SelectItem value="tasting_room">Tasting Room</SelectItem>
-                  </SelectContent>
-                </Select>
+                <LocationSelect
+                  id="location"
+                  locations={locations}
+                  loading={loadingLocations}
+                  value={locationId}
+                  onValueChange={setLocationId}
+                />
               </div>
 
+              {pourSizes.length > 0 && (
+                <div className="space-y-2">
+                  <Label htmlFor="pour-size">Pour Size</Label>
+                  <PourSizeSelect
+                    id="pour-size"
+                    sizes={pourSizes}
+                    value={pourSizeId}
+                    onValueChange={setPourSizeId}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Uses {formatPourCount(cost)} of {formatPours(allowance)} remaining{isGuest ? ' guest allowance' : ''}
+                  </p>
+                </div>
+              )}
+
+              {!isGuest && (
+                <PourLimitNotice
+                  limits={limits}
+                  cost={cost}
+                  canOverride={canOverride}
+                  overrideReason={overrideReason}
+                  onOverrideReasonChange={setOverrideReason}
+                />
+              )}
+
               <div className="space-y-2">
                 <Label htmlFor="notes">Notes (Optional)</Label>
                 <Textarea
                   id="notes"
-                  placeholder="Wine selection, preferences, etc..."
+                  placeholder="Preferences, special requests, etc..."
                   value={notes}
                   onChange={(e) => setNotes(e.target.value)}
                   rows={3}
@@ -218,7 +365,10 @@ export default function AddPour() {
               <Button
                 type="submit"
                 className="w-full"
-                disabled={submitting || loadingPours || parseInt(quantity) > (availablePours ?? 0)}
+                disabled={
+                  submitting || loadingPours || (!balanceUnknown && cost > allowance)
+                  || (overLimit && (!canOverride || !overrideReason.trim()))
+                }
               >
                 {submitting ? (
                   <>
@@ -226,7 +376,7 @@ export default function AddPour() {
                     Recording...
                   </>
                 ) : (
-                  'Record Pour'
+                  isGuest ? 'Record Guest Pour' : overLimit ? 'Override Limit & Record Pour' : 'Record Pour'
                 )}
               </Button>
             </form>
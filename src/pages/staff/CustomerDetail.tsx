@@ -3,12 +3,17 @@ import { useParams, Link } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Wine, Calendar, Sparkles } from 'lucide-react';
+import { Wine, Calendar, Sparkles, Undo2, ShieldX, Loader2, Receipt } from 'lucide-react';
 import { TierBadge } from '@/components/TierBadge';
 import { Badge } from '@/components/ui/badge';
 import { format } from 'date-fns';
 import { useAuth } from '@/contexts/AuthContext';
 import { StaffAdminHeader } from '@/components/StaffAdminHeader';
+import { VoidPourDialog } from '@/components/VoidPourDialog';
+import { InvoiceHistory } from '@/components/InvoiceHistory';
+import { formatWineName } from '@/lib/wines';
+import { formatPourCount, formatPours } from '@/lib/pour-sizes';
+import { toast } from 'sonner';
 interface CustomerData {
   id: string;
   user_id: string;
@@ -19,6 +24,8 @@ interface CustomerData {
   member_since: string;
   preferences: any;
   secondary_user_id: string | null;
+  qr_suspended_at: string | null;
+  qr_suspended_reason: string | null;
   profiles: {
     first_name: string;
     last_name: string;
@@ -33,14 +40,28 @@ interface CustomerData {
 
 interface MembershipData {
   status: string;
+  grace_period_ends_at: string | null;
+  redemptions_suspended_at: string | null;
+  paused_at: string | null;
+  pause_resumes_at: string | null;
+  /** Unix time a cancellation the member scheduled takes effect, from Stripe */
+  cancel_at: number | null;
 }
 
 interface PourRecord {
   id: string;
   created_at: string;
   quantity: number;
-  location: string;
+  allowance_cost: number;
   notes: string;
+  status: string;
+  wines: { name: string; producer: string | null; vintage: number | null } | null;
+  locations: { name: string } | null;
+  pour_sizes: { name: string } | null;
+  is_guest: boolean;
+  guest_name: string | null;
+  guest_email: string | null;
+  void_pending?: boolean;
 }
 
 export default function CustomerDetail() {
@@ -52,6 +73,8 @@ export default function CustomerDetail() {
   const [profileSummary, setProfileSummary] = useState<string | null>(null);
   const [summaryLoading, setSummaryLoading] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [voidTarget, setVoidTarget] = useState<PourRecord | null>(null);
+  const [restoringQr, setRestoringQr] = useState(false);
 
   const dashboardPath = userRole === 'admin' ? '/admin/dashboard' : '/staff/dashboard';
   useEffect(() => {
@@ -67,7 +90,7 @@ export default function CustomerDetail() {
       // Fetch customer by route param (supports both user_id and customer id)
       const { data: byUser } = await supabase
         .from('customers')
-        .select('id, user_id, tier, status, total_pours_lifetime, member_since, preferences, secondary_user_id')
+        .select('id, user_id, tier, status, total_pours_lifetime, member_since, preferences, secondary_user_id, qr_suspended_at, qr_suspended_reason')
         .eq('user_id', routeId)
         .maybeSingle();
 
@@ -75,7 +98,7 @@ export default function CustomerDetail() {
       if (!baseCustomer) {
         const { data: byId } = await supabase
           .from('customers')
-          .select('id, user_id, tier, status, total_pours_lifetime, member_since, preferences, secondary_user_id')
+          .select('id, user_id, tier, status, total_pours_lifetime, member_since, preferences, secondary_user_id, qr_suspended_at, qr_suspended_reason')
           .eq('id', routeId)
           .maybeSingle();
         baseCustomer = byId as any;
@@ -120,6 +143,8 @@ export default function CustomerDetail() {
         member_since: baseCustomer.member_since,
         preferences: baseCustomer.preferences,
         secondary_user_id: baseCustomer.secondary_user_id,
+        qr_suspended_at: baseCustomer.qr_suspended_at,
+        qr_suspended_reason: baseCustomer.qr_suspended_reason,
         profiles: {
           first_name: (profile as any)?.first_name || '',
           last_name: (profile as any)?.last_name || '',
@@ -134,22 +159,40 @@ export default function CustomerDetail() {
       // Fetch membership data
       const { data: membershipData } = await supabase
         .from('memberships')
-        .select('status')
+        .select('status, grace_period_ends_at, redemptions_suspended_at, paused_at, pause_resumes_at')
         .eq('customer_id', baseCustomer.id)
-        .eq('status', 'active')
+        .in('status', ['active', 'past_due'])
         .maybeSingle();
 
-      setMembership(membershipData);
+      // A pending cancellation is only recorded in Stripe
+      let cancelAt: number | null = null;
+      if (membershipData) {
+        const { data: subscriptionData } = await supabase.functions.invoke(
+          'get-subscription-details',
+          { body: { customer_id: baseCustomer.id } }
+        );
+        cancelAt = subscriptionData?.subscription?.cancel_at ?? null;
+      }
+
+      setMembership(membershipData ? { ...membershipData, cancel_at: cancelAt } : null);
 
       // Fetch pour history
       const { data: poursData } = await supabase
         .from('pours')
-        .select('id, created_at, quantity, location, notes')
+        .select('id, created_at, quantity, allowance_cost, notes, status, is_guest, guest_name, guest_email, wines(name, producer, vintage), locations(name), pour_sizes(name)')
         .eq('customer_id', baseCustomer.id)
         .order('created_at', { ascending: false })
         .limit(10);
 
-      setPours(poursData || []);
+      // Flag pours with a void request awaiting admin approval
+      const { data: pendingVoids } = await supabase
+        .from('pour_reversals')
+        .select('pour_id')
+        .eq('customer_id', baseCustomer.id)
+        .eq('status', 'pending');
+      const pendingPourIds = new Set(pendingVoids?.map(v => v.pour_id) || []);
+
+      setPours((poursData || []).map(pour => ({ ...pour, void_pending: pendingPourIds.has(pour.id) })));
 
       // Generate AI summary if preferences exist
       if (baseCustomer.preferences) {
@@ -196,6 +239,34 @@ export default function CustomerDetail() {
     }
   };
 
+  const handleRestoreQr = async () => {
+    if (!customer) return;
+
+    setRestoringQr(true);
+    try {
+      const { data, error } = await supabase.rpc('set_customer_qr_suspension', {
+        _customer_id: customer.id,
+        _suspend: false,
+      });
+
+      if (error) throw error;
+
+      const result = data as { success: boolean; message?: string };
+      if (!result.success) {
+        toast.error(result.message || 'Failed to restore QR code');
+        return;
+      }
+
+      toast.success('QR code restored');
+      setCustomer({ ...customer, qr_suspended_at: null, qr_suspended_reason: null });
+    } catch (error) {
+      console.error('Error restoring QR code:', error);
+      toast.error('Failed to restore QR code');
+    } finally {
+      setRestoringQr(false);
+    }
+  };
+
   const getStatusConfig = () => {
     if (customer?.status === 'inactive') {
       return {
@@ -206,6 +277,48 @@ export default function CustomerDetail() {
       };
     }
     
+    // Payment failed: benefits continue until the grace period ends, then redemptions are paused
+    if (membership?.status === 'past_due') {
+      return membership.redemptions_suspended_at
+        ? {
+            color: 'bg-destructive',
+            label: 'Payment Overdue',
+            date: null,
+            dateLabel: `Redemptions paused since ${format(new Date(membership.redemptions_suspended_at), 'MMM dd, yyyy')}`
+          }
+        : {
+            color: 'bg-amber-500',
+            label: 'Past Due',
+            date: null,
+            dateLabel: membership.grace_period_ends_at
+              ? `Payment failed. Redemptions pause ${format(new Date(membership.grace_period_ends_at), 'MMM dd, yyyy')}`
+              : 'Payment failed'
+          };
+    }
+
+    // Vacation hold chosen by the member; redemptions resume on the date they picked
+    if (
+      membership?.paused_at &&
+      membership.pause_resumes_at &&
+      new Date(membership.pause_resumes_at).getTime() > Date.now()
+    ) {
+      return {
+        color: 'bg-blue-500',
+        label: 'Paused',
+        date: null,
+        dateLabel: `Paused until ${format(new Date(membership.pause_resumes_at), 'MMM dd, yyyy')}`
+      };
+    }
+
+    if (membership?.cancel_at) {
+      return {
+        color: 'bg-orange-500',
+        label: 'Cancelling',
+        date: null,
+        dateLabel: `Cancels ${format(new Date(membership.cancel_at * 1000), 'MMM dd, yyyy')}`
+      };
+    }
+
     if (membership?.status === 'active') {
       return {
         color: 'bg-green-500',
@@ -277,7 +390,7 @@ export default function CustomerDetail() {
           <CardContent>
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <div className="text-center p-4 bg-muted rounded-lg">
-                <p className="text-3xl font-bold">{customer.available_pours}</p>
+                <p className="text-3xl font-bold">{formatPours(customer.available_pours)}</p>
                 <p className="text-sm text-muted-foreground">Available Pours</p>
               </div>
               <div className="text-center p-4 bg-muted rounded-lg">
@@ -311,6 +424,27 @@ export default function CustomerDetail() {
                 )}
               </div>
             </div>
+            {customer.qr_suspended_at && (
+              <div className="mt-4 p-3 border border-destructive/50 rounded-lg flex items-start justify-between gap-4">
+                <div className="flex items-start gap-2">
+                  <ShieldX className="h-4 w-4 mt-0.5 text-destructive" />
+                  <div>
+                    <p className="text-sm font-medium">
+                      QR code suspended {format(new Date(customer.qr_suspended_at), 'MMM dd, yyyy')}
+                    </p>
+                    {customer.qr_suspended_reason && (
+                      <p className="text-sm text-muted-foreground">{customer.qr_suspended_reason}</p>
+                    )}
+                  </div>
+                </div>
+                {userRole === 'admin' && (
+                  <Button variant="outline" size="sm" onClick={handleRestoreQr} disabled={restoringQr}>
+                    {restoringQr && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Restore QR
+                  </Button>
+                )}
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -390,21 +524,70 @@ export default function CustomerDetail() {
                         </p>
                       </div>
                       <p className="text-sm text-muted-foreground mt-1">
-                        Location: {pour.location}
+                        Location: {pour.locations?.name || 'Unknown'}
+                        {pour.pour_sizes && ` · ${pour.pour_sizes.name} (${formatPourCount(pour.allowance_cost)})`}
                       </p>
-                      {pour.notes && (
+                      {pour.wines ? (
+                        <p className="text-sm mt-1 flex items-center gap-1">
+                          <Wine className="h-3 w-3" />
+                          {formatWineName(pour.wines)}
+                        </p>
+                      ) : pour.notes && (
                         <p className="text-sm mt-1">{pour.notes}</p>
                       )}
+                      {pour.is_guest && (
+                        <p className="text-sm text-muted-foreground mt-1">
+                          Guest: {[pour.guest_name, pour.guest_email].filter(Boolean).join(' · ') || 'not recorded'}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex flex-col items-end gap-2">
+                      <Badge variant="outline" className={pour.status === 'reversed' ? 'line-through' : ''}>
+                        {pour.quantity} {pour.is_guest ? 'guest ' : ''}pour{pour.quantity > 1 ? 's' : ''}
+                      </Badge>
+                      {pour.status === 'reversed' ? (
+                        <Badge variant="secondary">Voided</Badge>
+                      ) : pour.void_pending ? (
+                        <Badge variant="secondary" className="bg-amber-500 text-white">Void pending approval</Badge>
+                      ) : pour.status === 'redeemed' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 text-xs text-destructive hover:text-destructive"
+                          onClick={() => setVoidTarget(pour)}
+                        >
+                          <Undo2 className="mr-1 h-3 w-3" />
+                          Void
+                        </Button>
+                      )}
                     </div>
-                    <Badge variant="outline">{pour.quantity} pour{pour.quantity > 1 ? 's' : ''}</Badge>
                   </div>
                 ))}
               </div>
             )}
           </CardContent>
         </Card>
+
+        {/* Billing History - Stripe invoices, for billing questions */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Receipt className="h-5 w-5" />
+              Invoices
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <InvoiceHistory customerId={customer.id} />
+          </CardContent>
+        </Card>
         </div>
       </div>
+
+      <VoidPourDialog
+        pour={voidTarget}
+        onOpenChange={(open) => { if (!open) setVoidTarget(null); }}
+        onVoided={() => id && fetchCustomerData(id)}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -7,6 +7,7 @@ import { supabase } from '@/integrations/supabase/client';
 import { Input } from '@/components/ui/input';
 import { TierBadge } from '@/components/TierBadge';
 import { StaffAdminHeader } from '@/components/StaffAdminHeader';
+import { PreorderQueue } from '@/components/PreorderQueue';
 
 interface CustomerResult {
   id: string;
@@ -139,6 +140,8 @@ export default function StaffDashboard() {
           </Button>
         </div>
 
+        <PreorderQueue />
+
         <Card>
           <CardHeader>
             <CardTitle>
@@ -1,34 +1,145 @@
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { QRScanner } from '@/components/QRScanner';
+import { RedeemSheet, type ScannedMember } from '@/components/RedeemSheet';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
-import { Loader2 } from 'lucide-react';
+import { readFunctionErrorBody } from '@/lib/edge-functions';
+import { enqueueQrScan, verifyQrTokenLocally, type LocalQrResult } from '@/lib/qr-offline';
+import { MEMBER_CODE_LENGTH, normalizeMemberCode } from '@/lib/member-code';
+import { Loader2, ShieldX } from 'lucide-react';
+import { format } from 'date-fns';
 import { toast } from 'sonner';
 import { StaffAdminHeader } from '@/components/StaffAdminHeader';
 
+interface VerifyErrorBody {
+  error?: string;
+  already_used?: boolean;
+  stale_capture?: boolean;
+  wallet_pass_limit?: boolean;
+  qr_suspended?: boolean;
+  shown_at?: string;
+  used_at?: string | null;
+  used_by_name?: string | null;
+}
+
+interface ReplayedScan {
+  used_at: string | null;
+  used_by_name: string | null;
+}
+
 export default function StaffSearch() {
   const navigate = useNavigate();
+  const { user } = useAuth();
   const [showScanner, setShowScanner] = useState(true);
   const [manualCode, setManualCode] = useState('');
   const [verifying, setVerifying] = useState(false);
+  const [replayedScan, setReplayedScan] = useState<ReplayedScan | null>(null);
+  // When the rotating code on a captured image was live
+  const [staleShownAt, setStaleShownAt] = useState<string | null>(null);
+  const [scannedMember, setScannedMember] = useState<ScannedMember | null>(null);
+  // Bumped to remount the scanner, which stops its camera after each read
+  const [scannerKey, setScannerKey] = useState(0);
+
+  const returnToScanner = () => {
+    setScannedMember(null);
+    setManualCode('');
+    setShowScanner(true);
+    setScannerKey((key) => key + 1);
+  };
+
+  // Without a connection, a locally verified code is accepted now and checked with the server on reconnect
+  const acceptOfflineScan = (token: string, local: LocalQrResult) => {
+    // Member codes are looked up on the server, so only the QR itself works offline
+    if (normalizeMemberCode(token)) {
+      toast.error('No connection. Member codes need a connection, so please scan the QR instead.');
+      return;
+    }
+
+    if (local.status === 'stale') {
+      setStaleShownAt(local.shown_at);
+      toast.error('Old capture, not a live screen');
+      return;
+    }
+
+    if (local.status !== 'valid' || !user) {
+      toast.error(
+        local.status === 'expired' ? 'This QR code has expired'
+          : local.status === 'unverifiable' ? 'No connection, and this device cannot verify the code offline yet'
+          : 'Invalid QR code'
+      );
+      return;
+    }
 
-  const verifyToken = async (token: string) => {
+    const { claims } = local;
+    const name = `${claims.first_name || ''} ${claims.last_name || ''}`.trim();
+    enqueueQrScan(user.id, token, name);
+    toast.warning(`Offline: ${name || 'member'} verified on this device`, {
+      description: 'The scan will be checked with the server when back online.',
+    });
+    setScannedMember({
+      id: claims.customer_id,
+      tier: claims.tier,
+      first_name: claims.first_name,
+      last_name: claims.last_name,
+      is_secondary: claims.is_secondary,
+      verified_offline: true,
+      live_code: true,
+    });
+  };
+
+  const verifyToken = async (token: string, local?: LocalQrResult) => {
     setVerifying(true);
+    setReplayedScan(null);
+    setStaleShownAt(null);
     try {
+      const localResult = local ?? await verifyQrTokenLocally(token);
+      if (!navigator.onLine) {
+        acceptOfflineScan(token, localResult);
+        return;
+      }
+
       const { data, error } = await supabase.functions.invoke('verify-qr-token', {
         body: { token }
       });
 
-      if (error) throw error;
+      if (error) {
+        if (!(error instanceof FunctionsHttpError)) {
+          acceptOfflineScan(token, localResult);
+          return;
+        }
+
+        const body = await readFunctionErrorBody<VerifyErrorBody>(error);
+        // A code that was already scanned is likely a shared screenshot, so keep the warning on screen
+        if (body?.already_used) {
+          setReplayedScan({ used_at: body.used_at ?? null, used_by_name: body.used_by_name ?? null });
+          toast.error('This QR code has already been used');
+          return;
+        }
+        if (body?.stale_capture) {
+          setStaleShownAt(body.shown_at ?? null);
+          toast.error('Old capture, not a live screen');
+          return;
+        }
+        if (body?.qr_suspended) {
+          toast.error(body.error || 'This member\'s QR code is suspended');
+          return;
+        }
+        if (body?.wallet_pass_limit) {
+          toast.error(body.error || 'This wallet pass cannot be scanned again today');
+          return;
+        }
+        throw error;
+      }
 
       if (data.valid) {
-        toast.success(`Found: ${data.customer.first_name} ${data.customer.last_name}`);
-        navigate(`/staff/customers/${data.customer.id}/add-pour`, {
-          state: { customer: data.customer }
-        });
+        // The verify result carries the live balance and limits, so the pour is taken right here
+        setScannedMember(data.customer);
       } else {
         toast.error('Invalid or expired QR code');
       }
@@ -41,8 +152,9 @@ export default function StaffSearch() {
 
   const handleManualSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (manualCode.trim()) {
-      verifyToken(manualCode.trim());
+    const code = normalizeMemberCode(manualCode);
+    if (code) {
+      verifyToken(code);
     }
   };
 
@@ -52,9 +164,34 @@ export default function StaffSearch() {
       <div className="p-4 md:p-8">
         <div className="max-w-2xl mx-auto space-y-6">
 
+        {staleShownAt && (
+          <Alert variant="destructive">
+            <ShieldX className="h-4 w-4" />
+            <AlertTitle>Old capture, not a live screen</AlertTitle>
+            <AlertDescription>
+              The code on this image was showing at {format(new Date(staleShownAt), 'h:mm:ss a')}. Member codes
+              change every 30 seconds — ask the member to open their card in the app.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {replayedScan && (
+          <Alert variant="destructive">
+            <ShieldX className="h-4 w-4" />
+            <AlertTitle>QR code already used</AlertTitle>
+            <AlertDescription>
+              This code was scanned
+              {replayedScan.used_at && ` at ${format(new Date(replayedScan.used_at), 'h:mm a')}`}
+              {replayedScan.used_by_name && ` by ${replayedScan.used_by_name}`}. Each code works once — ask
+              the member to show the live code from their app.
+            </AlertDescription>
+          </Alert>
+        )}
+
         {showScanner ? (
           <>
             <QRScanner
+              key={scannerKey}
               onScan={verifyToken}
               onClose={() => navigate('/staff/dashboard')}
             />
@@ -71,20 +208,27 @@ export default function StaffSearch() {
         ) : (
           <Card>
             <CardHeader>
-              <CardTitle>Enter QR Code Manually</CardTitle>
+              <CardTitle>Enter Member Code</CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
               <form onSubmit={handleManualSubmit} className="space-y-4">
                 <Input
-                  placeholder="Paste QR code here..."
+                  placeholder="1234 5678"
+                  inputMode="numeric"
+                  autoComplete="off"
+                  maxLength={MEMBER_CODE_LENGTH + 2}
                   value={manualCode}
                   onChange={(e) => setManualCode(e.target.value)}
                   disabled={verifying}
+                  className="font-mono text-lg tracking-widest"
                 />
+                <p className="text-xs text-muted-foreground">
+                  The {MEMBER_CODE_LENGTH}-digit code under the member's QR in their app.
+                </p>
                 <div className="flex gap-2">
                   <Button
                     type="submit"
-                    disabled={!manualCode.trim() || verifying}
+                    disabled={!normalizeMemberCode(manualCode) || verifying}
                     className="flex-1"
                   >
                     {verifying ? (
@@ -110,6 +254,15 @@ export default function StaffSearch() {
         )}
         </div>
       </div>
+
+      <RedeemSheet
+        member={scannedMember}
+        onOpenChange={(open) => !open && returnToScanner()}
+        onRedeemed={returnToScanner}
+        onMoreOptions={(member) => navigate(`/staff/customers/${member.id}/add-pour`, {
+          state: { customer: member },
+        })}
+      />
     </div>
   );
 }
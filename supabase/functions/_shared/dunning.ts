@@ -0,0 +1,76 @@
+import * as React from 'npm:react@18.3.1';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+import { PaymentPastDueEmail } from './email-templates/payment-past-due.tsx';
+import { enqueueTransactionalEmail, SITE_NAME, SITE_URL } from './transactional-email.ts';
+
+/**
+ * Emails the member behind a past-due membership: a reminder to update their payment method while
+ * the grace period runs, or a notice that redemptions are paused once it has ended. Records the
+ * reminder so process-dunning can space out the next one.
+ */
+export async function sendPastDueEmail(
+  supabase: SupabaseClient,
+  membershipId: string,
+  suspended: boolean,
+): Promise<boolean> {
+  const { data: membership, error: membershipError } = await supabase
+    .from('memberships')
+    .select('id, customer_id, tier, grace_period_ends_at, past_due_invoice_url, dunning_reminders_sent')
+    .eq('id', membershipId)
+    .single();
+
+  if (membershipError || !membership) {
+    console.error('Past-due membership not found:', membershipId);
+    return false;
+  }
+
+  const { data: customer } = await supabase
+    .from('customers')
+    .select('user_id')
+    .eq('id', membership.customer_id)
+    .single();
+
+  const { data: profile } = customer
+    ? await supabase.from('profiles').select('email').eq('id', customer.user_id).single()
+    : { data: null };
+
+  if (!profile?.email) {
+    console.error('No email address for past-due membership:', membershipId);
+    return false;
+  }
+
+  const { data: tierDef } = await supabase
+    .from('tier_definitions')
+    .select('display_name')
+    .eq('tier_name', membership.tier)
+    .single();
+
+  const graceEndsOn = membership.grace_period_ends_at
+    ? new Date(membership.grace_period_ends_at).toLocaleDateString('en-US', { month: 'long', day: 'numeric' })
+    : '';
+
+  const queued = await enqueueTransactionalEmail(supabase, {
+    to: profile.email,
+    subject: suspended ? 'Your pours are paused' : 'Action needed: update your payment method',
+    label: suspended ? 'payment_suspended' : 'payment_past_due',
+    element: React.createElement(PaymentPastDueEmail, {
+      siteName: SITE_NAME,
+      tierDisplayName: tierDef?.display_name || membership.tier,
+      updatePaymentUrl: membership.past_due_invoice_url || `${SITE_URL}/account`,
+      graceEndsOn,
+      suspended,
+    }),
+  });
+
+  if (queued) {
+    await supabase
+      .from('memberships')
+      .update({
+        dunning_reminders_sent: membership.dunning_reminders_sent + 1,
+        last_dunning_reminder_at: new Date().toISOString(),
+      })
+      .eq('id', membershipId);
+  }
+
+  return queued;
+}
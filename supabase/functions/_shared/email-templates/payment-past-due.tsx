@@ -0,0 +1,133 @@
+/// <reference types="npm:@types/react@18.3.1" />
+
+import * as React from 'npm:react@18.3.1'
+
+import {
+  Body,
+  Button,
+  Container,
+  Head,
+  Heading,
+  Html,
+  Img,
+  Preview,
+  Section,
+  Text,
+} from 'npm:@react-email/components@0.0.22'
+
+interface PaymentPastDueEmailProps {
+  siteName: string
+  tierDisplayName: string
+  updatePaymentUrl: string
+  graceEndsOn: string
+  suspended: boolean
+}
+
+export const PaymentPastDueEmail = ({
+  siteName = 'The Reserve Club',
+  tierDisplayName = 'Select',
+  updatePaymentUrl = '#',
+  graceEndsOn = 'March 14',
+  suspended = false,
+}: PaymentPastDueEmailProps) => (
+  <Html lang="en" dir="ltr">
+    <Head />
+    <Preview>
+      {suspended
+        ? `Your ${siteName} pours are paused until your payment goes through`
+        : `We couldn't process your ${siteName} membership payment`}
+    </Preview>
+    <Body style={main}>
+      <Container style={container}>
+        <Section style={logoSection}>
+          <Img
+            src="https://qqacjsczbrzerilgapqa.supabase.co/storage/v1/object/public/email-assets/vino-logo-trans.png"
+            width="80"
+            height="80"
+            alt="The Reserve Club"
+            style={logo}
+          />
+        </Section>
+
+        <Heading style={h1}>{suspended ? 'Your Pours Are Paused' : 'Payment Unsuccessful'}</Heading>
+
+        {suspended ? (
+          <Text style={text}>
+            We still haven't been able to collect payment for your <strong>{tierDisplayName} membership</strong>,
+            so pour redemptions are paused for now. Your membership and its history are safe.
+          </Text>
+        ) : (
+          <Text style={text}>
+            We tried to renew your <strong>{tierDisplayName} membership</strong>, but the payment didn't go
+            through. This usually means a card has expired or been replaced.
+          </Text>
+        )}
+
+        <Section style={highlightBox}>
+          <Text style={highlightDetail}>
+            {suspended
+              ? 'Update your payment method and your pours will be available again as soon as the payment succeeds.'
+              : <>Your benefits continue until <strong>{graceEndsOn}</strong>. Please update your payment method before then to keep enjoying your pours.</>}
+          </Text>
+        </Section>
+
+        <Section style={buttonSection}>
+          <Button style={button} href={updatePaymentUrl}>
+            Update Payment Method
+          </Button>
+        </Section>
+
+        <Text style={footer}>
+          Already updated your card? You can ignore this email. We'll retry the payment automatically.
+        </Text>
+        <Text style={brand}>The Reserve Club by Vino Sabor</Text>
+      </Container>
+    </Body>
+  </Html>
+)
+
+export default PaymentPastDueEmail
+
+const main = { backgroundColor: '#ffffff', fontFamily: "'Inter', Arial, sans-serif" }
+const container = { padding: '40px 30px', maxWidth: '480px', margin: '0 auto' }
+const logoSection = { textAlign: 'center' as const, marginBottom: '24px' }
+const logo = { margin: '0 auto', borderRadius: '8px' }
+const h1 = {
+  fontSize: '24px',
+  fontWeight: 'bold' as const,
+  fontFamily: "'Playfair Display', Georgia, serif",
+  color: '#1a1a1a',
+  margin: '0 0 20px',
+  textAlign: 'center' as const,
+}
+const text = {
+  fontSize: '15px',
+  color: '#555555',
+  lineHeight: '1.6',
+  margin: '0 0 20px',
+}
+const highlightBox = {
+  backgroundColor: '#fdf8ef',
+  border: '1px solid hsl(43, 74%, 52%)',
+  borderRadius: '8px',
+  padding: '20px',
+  margin: '24px 0',
+}
+const highlightDetail = {
+  fontSize: '15px',
+  color: '#333333',
+  margin: '0',
+  lineHeight: '1.5',
+}
+const buttonSection = { textAlign: 'center' as const, margin: '28px 0' }
+const button = {
+  backgroundColor: 'hsl(43, 74%, 52%)',
+  color: '#0a0a0a',
+  fontSize: '15px',
+  fontWeight: '600' as const,
+  borderRadius: '8px',
+  padding: '14px 28px',
+  textDecoration: 'none',
+}
+const footer = { fontSize: '12px', color: '#999999', margin: '30px 0 0', textAlign: 'center' as const }
+const brand = { fontSize: '11px', color: '#bbbbbb', textAlign: 'center' as const, margin: '8px 0 0' }
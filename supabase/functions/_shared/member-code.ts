@@ -0,0 +1,13 @@
+// Short numeric codes staff can type in place of scanning the QR. Must match src/lib/member-code.ts in the app.
+export const MEMBER_CODE_LENGTH = 8;
+
+export function generateMemberCode(): string {
+  const digits = crypto.getRandomValues(new Uint32Array(MEMBER_CODE_LENGTH));
+  return Array.from(digits, (d) => (d % 10).toString()).join('');
+}
+
+/** The code with spaces and dashes removed, or null if the input is not a member code. */
+export function normalizeMemberCode(input: string): string | null {
+  const code = input.replace(/[\s-]/g, '');
+  return new RegExp(`^[0-9]{${MEMBER_CODE_LENGTH}}$`).test(code) ? code : null;
+}
@@ -0,0 +1,79 @@
+import * as jose from 'https://deno.land/x/jose@v5.2.0/index.ts';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// A key signs for 30 days. Its successor is published a week before it takes over, so a
+// staff device that refreshed its key cache in the last week can still verify offline.
+const ROTATION_MS = 30 * 24 * 60 * 60 * 1000;
+const PUBLISH_AHEAD_MS = 7 * 24 * 60 * 60 * 1000;
+// Superseded keys stay published for as long as verify-qr-token reconciles offline scans (7 days),
+// with a day's margin, so a scan made just before a rotation still verifies when it syncs
+const RETIRED_GRACE_MS = 8 * 24 * 60 * 60 * 1000;
+
+export const QR_TOKEN_ALG = 'ES256';
+
+interface QrSigningKeyRow {
+  kid: string;
+  public_jwk: jose.JWK;
+  private_jwk: jose.JWK;
+  activates_at: string;
+}
+
+export interface QrKeySet {
+  signing: QrSigningKeyRow;
+  /** Public JWKs a token may have been signed with: the signing key, the next one and recently retired ones. */
+  published: jose.JWK[];
+}
+
+async function createKey(supabaseAdmin: SupabaseClient, activatesAt: Date): Promise<QrSigningKeyRow> {
+  const { publicKey, privateKey } = await jose.generateKeyPair(QR_TOKEN_ALG, { extractable: true });
+  const kid = crypto.randomUUID();
+  const row: QrSigningKeyRow = {
+    kid,
+    public_jwk: { ...(await jose.exportJWK(publicKey)), kid, alg: QR_TOKEN_ALG, use: 'sig' },
+    private_jwk: { ...(await jose.exportJWK(privateKey)), kid, alg: QR_TOKEN_ALG },
+    activates_at: activatesAt.toISOString(),
+  };
+
+  const { error } = await supabaseAdmin.from('qr_signing_keys').insert(row);
+  if (error) throw error;
+
+  console.log(`QR signing key created: kid=${kid}, activates_at=${row.activates_at}`);
+  return row;
+}
+
+/**
+ * Current QR keys, rotating as a side effect: creates the first key, and the next key once the
+ * current one is within a week of its rotation date. Concurrent callers may each create a key;
+ * the extra one is simply published too.
+ */
+export async function loadQrKeys(supabaseAdmin: SupabaseClient): Promise<QrKeySet> {
+  const { data, error } = await supabaseAdmin
+    .from('qr_signing_keys')
+    .select('kid, public_jwk, private_jwk, activates_at')
+    .order('activates_at', { ascending: true });
+  if (error) throw error;
+
+  const now = Date.now();
+  const keys: QrSigningKeyRow[] = data || [];
+  const activeIndex = keys.map((k) => Date.parse(k.activates_at) <= now).lastIndexOf(true);
+
+  let signing = activeIndex >= 0 ? keys[activeIndex] : null;
+  if (!signing) {
+    signing = await createKey(supabaseAdmin, new Date(now));
+    keys.push(signing);
+  }
+
+  const rotatesAt = Date.parse(signing.activates_at) + ROTATION_MS;
+  const hasSuccessor = keys.some((k) => Date.parse(k.activates_at) > now);
+  if (!hasSuccessor && rotatesAt - now <= PUBLISH_AHEAD_MS) {
+    keys.push(await createKey(supabaseAdmin, new Date(Math.max(rotatesAt, now + PUBLISH_AHEAD_MS))));
+  }
+
+  keys.sort((a, b) => Date.parse(a.activates_at) - Date.parse(b.activates_at));
+  const published = keys.filter((_, i) => {
+    const successor = keys[i + 1];
+    return !successor || Date.parse(successor.activates_at) > now - RETIRED_GRACE_MS;
+  });
+
+  return { signing, published: published.map((k) => k.public_jwk) };
+}
@@ -0,0 +1,51 @@
+// RFC 6238 codes for the rotating membership QR. Must match src/lib/qr-totp.ts in the app.
+export const QR_TOTP_PERIOD_SECONDS = 30;
+const DIGITS = 6;
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlDecode(input: string): Uint8Array {
+  const base64 = input.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(input.length / 4) * 4, '=');
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+export function generateTotpSecret(): string {
+  return base64UrlEncode(crypto.getRandomValues(new Uint8Array(20)));
+}
+
+export function totpStep(atMs: number): number {
+  return Math.floor(atMs / 1000 / QR_TOTP_PERIOD_SECONDS);
+}
+
+export async function totpCode(secret: string, step: number): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    base64UrlDecode(secret),
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign'],
+  );
+  const counter = new DataView(new ArrayBuffer(8));
+  counter.setUint32(0, Math.floor(step / 2 ** 32));
+  counter.setUint32(4, step >>> 0);
+
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, counter.buffer));
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = ((hmac[offset] & 0x7f) << 24)
+    | (hmac[offset + 1] << 16)
+    | (hmac[offset + 2] << 8)
+    | hmac[offset + 3];
+  return (binary % 10 ** DIGITS).toString().padStart(DIGITS, '0');
+}
+
+/** Splits a scanned QR value into the signed token and the rotating code shown with it. */
+export function parseQrValue(value: string): { token: string; step: number | null; code: string | null } {
+  const [token, step, code] = value.split('~');
+  return {
+    token,
+    step: step && /^\d+$/.test(step) ? Number(step) : null,
+    code: code && /^\d{6}$/.test(code) ? code : null,
+  };
+}
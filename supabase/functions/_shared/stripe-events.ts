@@ -0,0 +1,549 @@
+import Stripe from 'https://esm.sh/stripe@14.21.0';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { sendPastDueEmail } from './dunning.ts';
+import { firstAllowancePeriodEnd, resolveStripePrice } from './tier-prices.ts';
+
+// Event handling shared by stripe-webhook and replay-stripe-event, so a stored event re-runs
+// exactly as it was first handled.
+
+// Define validation schemas - no longer requires applicationId
+const metadataSchema = z.object({
+  userId: z.string().uuid('Invalid user ID format'),
+  tierName: z.enum(['select', 'premier', 'elite', 'household'], {
+    errorMap: () => ({ message: 'Invalid tier name' })
+  }),
+  preferences: z.string().optional() // JSON string of preferences
+});
+
+const stripeIdSchema = z.string().min(1, 'Invalid Stripe ID');
+
+/** Acts on one Stripe event. Throws if it could not be handled, so the event is recorded as failed. */
+export async function processStripeEvent(
+  event: Stripe.Event,
+  stripe: Stripe,
+  supabase: SupabaseClient,
+): Promise<void> {
+  switch (event.type) {
+    case 'checkout.session.completed': {
+      const session = event.data.object as Stripe.Checkout.Session;
+      console.log('Checkout completed:', session.id);
+
+      // Validate metadata
+      const metadataResult = metadataSchema.safeParse(session.metadata);
+      if (!metadataResult.success) {
+        console.error('Metadata validation failed');
+        throw new Error('Invalid session metadata');
+      }
+
+      const { userId, tierName, preferences: preferencesJson } = metadataResult.data;
+
+      // Parse preferences from JSON string
+      let preferences = null;
+      if (preferencesJson) {
+        try {
+          preferences = JSON.parse(preferencesJson);
+        } catch (e) {
+          console.warn('Failed to parse preferences JSON:', e);
+        }
+      }
+
+      // Validate and retrieve subscription ID from session
+      const subscriptionIdResult = stripeIdSchema.safeParse(session.subscription);
+      const customerIdResult = stripeIdSchema.safeParse(session.customer);
+      
+      if (!subscriptionIdResult.success || !customerIdResult.success) {
+        throw new Error('Invalid Stripe subscription or customer ID');
+      }
+      
+      const subscriptionId = subscriptionIdResult.data;
+      const customerId = customerIdResult.data;
+
+      // A session already turned into a membership is not applied again, so re-running the event
+      // cannot cancel the member's current membership or reset their account
+      const { data: existingMembership, error: existingError } = await supabase
+        .from('memberships')
+        .select('id')
+        .eq('stripe_subscription_id', subscriptionId)
+        .limit(1)
+        .maybeSingle();
+
+      if (existingError) {
+        throw new Error(`Failed to check for an existing membership: ${existingError.message}`);
+      }
+
+      if (existingMembership) {
+        console.log(`Subscription ${subscriptionId} already has membership ${existingMembership.id}, nothing to do`);
+        break;
+      }
+
+      // Fetch tier definition for monthly_pours, monthly_price, and max_subscriptions
+      const { data: tier, error: tierError } = await supabase
+        .from('tier_definitions')
+        .select('monthly_pours, monthly_price, max_subscriptions')
+        .eq('tier_name', tierName)
+        .single();
+
+      if (tierError || !tier) {
+        console.error('Tier fetch failed');
+        throw new Error('Membership tier not found');
+      }
+
+      // Use atomic inventory locking for defense-in-depth check
+      const { data: reserveResult, error: reserveError } = await supabase
+        .rpc('reserve_tier_slot', { 
+          _tier_name: tierName, 
+          _user_id: userId 
+        });
+
+      if (reserveError) {
+        console.error('Error checking inventory with atomic lock:', reserveError);
+        // Continue processing - user already paid
+        console.warn('ALERT: Could not verify inventory - manual review may be needed');
+      } else if (!reserveResult.success) {
+        console.error(`Tier ${tierName} is at capacity (atomic check): ${reserveResult.current}/${reserveResult.max}`);
+        // Log but still process - user already paid. Admin will need to handle.
+        console.warn('ALERT: Subscription created for sold-out tier - manual review needed');
+      }
+
+      // Upsert customer record with preferences (handles both new signups and renewals).
+      // total_pours_lifetime is left out so a returning member keeps their history.
+      const { data: customer, error: customerError } = await supabase
+        .from('customers')
+        .upsert({
+          user_id: userId,
+          tier: tierName,
+          member_since: new Date().toISOString().split('T')[0],
+          pours_balance: tier.monthly_pours,
+          status: 'active',
+          preferences: preferences, // Store wine preferences directly on customer
+        }, {
+          onConflict: 'user_id',
+          ignoreDuplicates: false
+        })
+        .select()
+        .single();
+
+      if (customerError) {
+        console.error('Failed to upsert customer:', customerError);
+        throw new Error('Failed to create/update customer record');
+      }
+
+      console.log('Customer upserted:', customer.id);
+
+      // Cancel any existing active memberships for this customer
+      const { error: cancelError } = await supabase
+        .from('memberships')
+        .update({ status: 'cancelled' })
+        .eq('customer_id', customer.id)
+        .in('status', ['active', 'past_due']);
+
+      if (cancelError) {
+        throw new Error(`Failed to cancel previous membership: ${cancelError.message}`);
+      }
+
+      // Get subscription to extract billing period and the price that was bought
+      const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+
+      const stripePriceId = subscription.items.data[0]?.price.id;
+      const price = stripePriceId ? await resolveStripePrice(supabase, stripePriceId) : null;
+      if (!price) {
+        console.warn(`No tier price found for stripe_price_id=${stripePriceId}, assuming a monthly plan`);
+      }
+
+      const interval = price?.interval ?? 'month';
+      const termStart = new Date(subscription.current_period_start * 1000);
+      const termEnd = new Date(subscription.current_period_end * 1000);
+
+      // Create new membership record; the allowance period is the first month of the paid term
+      const { error: membershipError } = await supabase
+        .from('memberships')
+        .insert({
+          customer_id: customer.id,
+          tier: tierName,
+          monthly_price: price?.monthly_price ?? tier.monthly_price,
+          billing_interval: interval,
+          tier_price_id: price?.id ?? null,
+          status: 'active',
+          start_date: new Date().toISOString().split('T')[0],
+          stripe_subscription_id: subscriptionId,
+          stripe_customer_id: customerId,
+          toast_reference_number: subscriptionId,
+          subscription_period_start: termStart.toISOString(),
+          subscription_period_end: termEnd.toISOString(),
+          billing_period_start: termStart.toISOString(),
+          billing_period_end: firstAllowancePeriodEnd(termStart, termEnd, interval).toISOString()
+        });
+
+      if (membershipError) {
+        console.error('Failed to create membership:', membershipError);
+        throw new Error('Failed to create membership record');
+      }
+
+      console.log('Membership activated successfully for user:', userId);
+      break;
+    }
+
+    case 'customer.subscription.deleted': {
+      const subscription = event.data.object as Stripe.Subscription;
+      
+      // Validate subscription ID
+      const subIdResult = stripeIdSchema.safeParse(subscription.id);
+      if (!subIdResult.success) {
+        console.error('Invalid subscription ID');
+        break;
+      }
+      
+      console.log('Subscription cancelled:', subscription.id);
+
+      // Find membership by stripe_subscription_id
+      const { data: membership, error: fetchError } = await supabase
+        .from('memberships')
+        .select('customer_id')
+        .eq('stripe_subscription_id', subscription.id)
+        .single();
+
+      // Thrown rather than skipped so Stripe retries, e.g. when the checkout has not been handled yet
+      if (fetchError || !membership) {
+        throw new Error(`Membership not found for subscription ${subscription.id}`);
+      }
+
+      // Update membership status
+      const { error: membershipError } = await supabase
+        .from('memberships')
+        .update({ status: 'cancelled' })
+        .eq('stripe_subscription_id', subscription.id);
+
+      if (membershipError) {
+        throw new Error(`Failed to update membership status: ${membershipError.message}`);
+      }
+
+      // Update customer status
+      const { error: customerError } = await supabase
+        .from('customers')
+        .update({ status: 'inactive' })
+        .eq('id', membership.customer_id);
+
+      if (customerError) {
+        throw new Error(`Failed to update customer status: ${customerError.message}`);
+      }
+
+      console.log('Membership cancelled successfully');
+      break;
+    }
+
+    case 'invoice.payment_succeeded': {
+      const invoice = event.data.object as Stripe.Invoice;
+      console.log('Payment succeeded for invoice:', invoice.id);
+
+      // Validate subscription ID
+      const subIdResult = stripeIdSchema.safeParse(invoice.subscription);
+      if (!subIdResult.success) {
+        console.error('Invalid subscription ID in invoice');
+        break;
+      }
+      
+      const subscriptionId = subIdResult.data;
+
+      // Get subscription to extract billing period and current price
+      const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+
+      // Find and update membership with new billing period (also fetch tier)
+      const { data: membership, error: fetchError } = await supabase
+        .from('memberships')
+        .select('id, customer_id, tier, status, billing_interval, billing_period_start, billing_period_end')
+        .eq('stripe_subscription_id', subscriptionId)
+        .in('status', ['active', 'past_due'])
+        .single();
+
+      // The first invoice can arrive before checkout.session.completed; failing lets Stripe retry it
+      if (fetchError || !membership) {
+        throw new Error(`Membership not found for subscription ${subscriptionId}`);
+      }
+
+      // Every paid invoice, a proration included, ends dunning and lifts a suspension it caused
+      if (membership.status === 'past_due') {
+        const { data: cleared, error: clearError } = await supabase.rpc('clear_membership_past_due', {
+          _membership_id: membership.id,
+        });
+
+        if (clearError || !cleared?.success) {
+          throw new Error(`Failed to clear past-due state: ${clearError?.message || cleared?.message}`);
+        }
+
+        console.log(`Membership ${membership.id} back in good standing${cleared.restored ? ', redemptions restored' : ''}`);
+      }
+
+      // A mid-period upgrade is invoiced for the prorated difference. That is not a renewal, so the
+      // period and pour allowance stay as they are; customer.subscription.updated applies the tier.
+      if (invoice.billing_reason === 'subscription_update') {
+        console.log(`Proration invoice ${invoice.id} paid for membership ${membership.id}, not a renewal`);
+        break;
+      }
+
+      // Detect tier change: compare Stripe's current price against tier_prices
+      const stripePriceId = subscription.items.data[0]?.price.id;
+      const price = stripePriceId ? await resolveStripePrice(supabase, stripePriceId) : null;
+      let resolvedTier = membership.tier;
+
+      if (stripePriceId && !price) {
+        console.warn(`No tier price found for stripe_price_id=${stripePriceId}. Falling back to existing tier.`);
+      } else if (price && price.tier_name !== membership.tier) {
+        // Tier changed in Stripe! Update membership and customer
+        console.log(`Tier change detected: ${membership.tier} → ${price.tier_name} (price_id=${stripePriceId})`);
+        resolvedTier = price.tier_name;
+
+        // Update membership tier; a downgrade scheduled for this renewal is now done
+        const { error: tierUpdateError } = await supabase
+          .from('memberships')
+          .update({
+            tier: price.tier_name,
+            scheduled_tier: null,
+            scheduled_tier_at: null,
+          })
+          .eq('id', membership.id);
+
+        if (tierUpdateError) {
+          throw new Error(`Failed to update membership tier: ${tierUpdateError.message}`);
+        }
+
+        // Update customer tier
+        const { error: customerTierError } = await supabase
+          .from('customers')
+          .update({ tier: price.tier_name })
+          .eq('id', membership.customer_id);
+
+        if (customerTierError) {
+          throw new Error(`Failed to update customer tier: ${customerTierError.message}`);
+        }
+      }
+
+      // Fetch tier definition for monthly_pours (use resolved tier in case it changed)
+      const { data: tierDef, error: tierError } = await supabase
+        .from('tier_definitions')
+        .select('monthly_pours')
+        .eq('tier_name', resolvedTier)
+        .single();
+
+      if (tierError || !tierDef) {
+        throw new Error(`Tier definition not found for tier ${resolvedTier}`);
+      }
+
+      const interval = price?.interval ?? membership.billing_interval;
+      const termStart = new Date(subscription.current_period_start * 1000);
+      const termEnd = new Date(subscription.current_period_end * 1000);
+      const newPeriodStart = termStart.toISOString();
+      const newPeriodEnd = firstAllowancePeriodEnd(termStart, termEnd, interval).toISOString();
+
+      // Close out the previous period under its tier's rollover policy before moving on.
+      // The first invoice of a subscription does not start a new period, so nothing rolls.
+      if (
+        membership.billing_period_start &&
+        membership.billing_period_end &&
+        new Date(newPeriodStart).getTime() > new Date(membership.billing_period_start).getTime()
+      ) {
+        const { data: rollover, error: rolloverError } = await supabase.rpc('apply_pour_rollover', {
+          _customer_id: membership.customer_id,
+          _tier: membership.tier,
+          _period_start: membership.billing_period_start,
+          _period_end: membership.billing_period_end,
+        });
+
+        if (rolloverError || !rollover?.success) {
+          throw new Error(`Failed to apply pour rollover: ${rolloverError?.message || rollover?.message}`);
+        }
+
+        console.log(`Rollover for customer ${membership.customer_id}: ${rollover.rolled_over ?? 0} rolled over`);
+      }
+
+      // Read separately rather than taken from the rollover: a retry after the membership already moved
+      // to the new period skips the rollover above, but the pours it carried are still there to add
+      const { data: carried, error: carriedError } = await supabase.rpc('get_rollover_pours', {
+        customer_uuid: membership.customer_id,
+      });
+
+      if (carriedError) {
+        throw new Error(`Failed to read carried-over pours: ${carriedError.message}`);
+      }
+
+      const carriedPours = Number(carried ?? 0);
+
+      // Update membership with the term Stripe billed for and the allowance period within it.
+      // The price also records a switch between monthly and annual billing.
+      const membershipUpdate: Record<string, unknown> = {
+        subscription_period_start: termStart.toISOString(),
+        subscription_period_end: termEnd.toISOString(),
+        billing_period_start: newPeriodStart,
+        billing_period_end: newPeriodEnd,
+      };
+      if (price) {
+        membershipUpdate.billing_interval = price.interval;
+        membershipUpdate.tier_price_id = price.id;
+        membershipUpdate.monthly_price = price.monthly_price;
+      }
+
+      const { error: membershipError } = await supabase
+        .from('memberships')
+        .update(membershipUpdate)
+        .eq('id', membership.id);
+
+      if (membershipError) {
+        throw new Error(`Failed to update membership billing period: ${membershipError.message}`);
+      }
+
+      // Reset pours_balance (fresh allowance plus carried-over pours) and update last activity
+      const { error: balanceError } = await supabase
+        .from('customers')
+        .update({
+          pours_balance: tierDef.monthly_pours + carriedPours,
+          last_activity: new Date().toISOString(),
+        })
+        .eq('id', membership.customer_id);
+
+      if (balanceError) {
+        throw new Error(`Failed to reset pours balance: ${balanceError.message}`);
+      }
+
+      console.log(`Renewal processed for customer ${membership.customer_id}: tier=${resolvedTier}, pours_balance reset to ${tierDef.monthly_pours + carriedPours}, period=${newPeriodStart} to ${newPeriodEnd}`);
+      break;
+    }
+
+    case 'invoice.payment_failed': {
+      const invoice = event.data.object as Stripe.Invoice;
+      console.log('Payment failed for invoice:', invoice.id);
+
+      const subIdResult = stripeIdSchema.safeParse(invoice.subscription);
+      if (!subIdResult.success) {
+        console.error('Invalid subscription ID in invoice');
+        break;
+      }
+
+      const { data: membership, error: fetchError } = await supabase
+        .from('memberships')
+        .select('id')
+        .eq('stripe_subscription_id', subIdResult.data)
+        .in('status', ['active', 'past_due'])
+        .single();
+
+      if (fetchError || !membership) {
+        throw new Error(`Membership not found for subscription ${subIdResult.data}`);
+      }
+
+      // Starts the grace period on the first failure; Stripe's retries keep the original deadline
+      const { data: pastDue, error: pastDueError } = await supabase.rpc('mark_membership_past_due', {
+        _membership_id: membership.id,
+        _invoice_url: invoice.hosted_invoice_url ?? null,
+      });
+
+      if (pastDueError || !pastDue?.success) {
+        console.error('Error marking membership past due:', pastDueError || pastDue?.message);
+        throw new Error('Failed to mark membership past due');
+      }
+
+      console.log(`Membership ${membership.id} past due, grace period ends ${pastDue.grace_period_ends_at}`);
+
+      // Every failed attempt is worth telling the member about; process-dunning fills in between
+      await sendPastDueEmail(supabase, membership.id, false);
+      break;
+    }
+
+    case 'customer.subscription.updated': {
+      const subscription = event.data.object as Stripe.Subscription;
+      console.log('Subscription updated:', subscription.id);
+
+      const stripePriceId = subscription.items.data[0]?.price.id;
+      if (!stripePriceId) {
+        console.warn('No price ID found on updated subscription');
+        break;
+      }
+
+      // Look up the tier matching this Stripe price
+      const matchedTier = await resolveStripePrice(supabase, stripePriceId);
+
+      if (!matchedTier) {
+        console.warn(`No tier price found for stripe_price_id=${stripePriceId}`);
+        break;
+      }
+
+      // Find active membership by stripe_subscription_id
+      const { data: membership, error: membershipError } = await supabase
+        .from('memberships')
+        .select('id, customer_id, tier, billing_period_start, subscription_period_start, paused_at')
+        .eq('stripe_subscription_id', subscription.id)
+        .in('status', ['active', 'past_due'])
+        .single();
+
+      if (membershipError || !membership) {
+        console.warn('No active membership found for subscription:', subscription.id);
+        break;
+      }
+
+      // Stripe clears pause_collection on the resume date, or when the pause is ended in Stripe
+      if (membership.paused_at && !subscription.pause_collection) {
+        const { error: resumeError } = await supabase.rpc('end_membership_pause', {
+          _membership_id: membership.id,
+        });
+
+        if (resumeError) {
+          throw new Error(`Failed to end membership pause: ${resumeError.message}`);
+        }
+
+        console.log(`Membership ${membership.id} resumed from pause`);
+      }
+
+      // Only update if tier actually changed
+      if (matchedTier.tier_name === membership.tier) {
+        console.log('Tier unchanged, skipping update');
+        break;
+      }
+
+      // A price change that starts a new period (a scheduled downgrade taking effect) is applied by
+      // invoice.payment_succeeded together with the fresh allowance
+      const stripePeriodStart = new Date(subscription.current_period_start * 1000).getTime();
+      const termStart = membership.subscription_period_start ?? membership.billing_period_start;
+      if (termStart && stripePeriodStart !== new Date(termStart).getTime()) {
+        console.log(`Tier change to ${matchedTier.tier_name} starts a new period, leaving it to the renewal`);
+        break;
+      }
+
+      console.log(`Tier change detected: ${membership.tier} → ${matchedTier.tier_name}`);
+
+      // Mid-period change: pours already used this period count against the new allowance
+      const { data: change, error: changeError } = await supabase.rpc('apply_tier_change', {
+        _membership_id: membership.id,
+        _tier: matchedTier.tier_name,
+        _monthly_price: matchedTier.monthly_price,
+      });
+
+      if (changeError || !change?.success) {
+        throw new Error(`Failed to apply tier change: ${changeError?.message || change?.message}`);
+      }
+
+      console.log(`Subscription ${subscription.id} synced: tier=${matchedTier.tier_name}, pours_balance=${change.available_pours}`);
+      break;
+    }
+
+    default:
+      console.log('Unhandled event type:', event.type);
+  }
+}
+
+/** Records the outcome of processing an event claimed through claim_stripe_event. */
+export async function recordStripeEventOutcome(
+  supabase: SupabaseClient,
+  eventId: string,
+  error: unknown,
+): Promise<void> {
+  const update = error
+    ? { status: 'failed', last_error: error instanceof Error ? error.message : String(error) }
+    : { status: 'processed', last_error: null, processed_at: new Date().toISOString() };
+
+  const { error: updateError } = await supabase
+    .from('stripe_events')
+    .update(update)
+    .eq('id', eventId);
+
+  if (updateError) {
+    console.error(`Failed to record outcome of Stripe event ${eventId}:`, updateError);
+  }
+}
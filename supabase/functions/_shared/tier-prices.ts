@@ -0,0 +1,77 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+
+// A tier can be sold on more than one billing interval. The Stripe price a subscription is on
+// identifies both, and the pour allowance stays monthly whichever interval is paid.
+
+export type BillingInterval = 'month' | 'year';
+
+export interface ResolvedTierPrice {
+  id: string;
+  tier_name: string;
+  interval: BillingInterval;
+  amount: number;
+  /** What the plan costs per month, which is what memberships.monthly_price records. */
+  monthly_price: number;
+  monthly_pours: number;
+}
+
+/** Finds the tier and interval behind a Stripe price, including retired prices. */
+export async function resolveStripePrice(
+  supabase: SupabaseClient,
+  stripePriceId: string,
+): Promise<ResolvedTierPrice | null> {
+  const { data: price, error } = await supabase
+    .from('tier_prices')
+    .select('id, tier_name, interval, amount')
+    .eq('stripe_price_id', stripePriceId)
+    .maybeSingle();
+
+  if (error || !price) {
+    return null;
+  }
+
+  const { data: tier } = await supabase
+    .from('tier_definitions')
+    .select('monthly_pours')
+    .eq('tier_name', price.tier_name)
+    .single();
+
+  const amount = Number(price.amount);
+
+  return {
+    id: price.id,
+    tier_name: price.tier_name,
+    interval: price.interval,
+    amount,
+    monthly_price: monthlyEquivalent(amount, price.interval),
+    monthly_pours: tier?.monthly_pours ?? 0,
+  };
+}
+
+export function monthlyEquivalent(amount: number, interval: BillingInterval): number {
+  return interval === 'year' ? Math.round((amount / 12) * 100) / 100 : amount;
+}
+
+/** Adds calendar months, keeping to the last day of a shorter month as Postgres does. */
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date.getTime());
+  const day = result.getUTCDate();
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  const daysInMonth = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+  result.setUTCDate(Math.min(day, daysInMonth));
+  return result;
+}
+
+/**
+ * End of the first allowance period of a paid term. Monthly terms are one period; an annual term
+ * is split into months that advance_pour_allowance_periods moves through.
+ */
+export function firstAllowancePeriodEnd(termStart: Date, termEnd: Date, interval: BillingInterval): Date {
+  if (interval !== 'year') {
+    return termEnd;
+  }
+
+  const monthEnd = addMonths(termStart, 1);
+  return monthEnd < termEnd ? monthEnd : termEnd;
+}
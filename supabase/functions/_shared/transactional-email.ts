@@ -0,0 +1,82 @@
+import * as React from 'npm:react@18.3.1';
+import { renderAsync } from 'npm:@react-email/components@0.0.22';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+
+// Must match the sender configuration in auth-email-hook
+export const SITE_NAME = 'The Reserve Club';
+export const SITE_URL = 'https://vinosaborapp.com';
+const SENDER_DOMAIN = 'notify.vinosaborapp.com';
+const FROM_DOMAIN = 'notify.vinosaborapp.com';
+
+interface TransactionalEmail {
+  to: string;
+  subject: string;
+  /** Template name, recorded in email_send_log. */
+  label: string;
+  element: React.ReactElement;
+}
+
+/**
+ * Renders an email and queues it on transactional_emails for process-email-queue to send.
+ * Addresses that bounced, complained or unsubscribed are skipped. Returns whether it was queued.
+ */
+export async function enqueueTransactionalEmail(
+  supabase: SupabaseClient,
+  { to, subject, label, element }: TransactionalEmail,
+): Promise<boolean> {
+  const recipient = to.toLowerCase();
+
+  const { data: suppressed } = await supabase
+    .from('suppressed_emails')
+    .select('id')
+    .eq('email', recipient)
+    .maybeSingle();
+
+  if (suppressed) {
+    console.log('Skipping suppressed recipient', { label, recipient });
+    return false;
+  }
+
+  const html = await renderAsync(element);
+  const text = await renderAsync(element, { plainText: true });
+  const messageId = crypto.randomUUID();
+
+  // Log pending BEFORE enqueue so we have a record even if enqueue crashes
+  await supabase.from('email_send_log').insert({
+    message_id: messageId,
+    template_name: label,
+    recipient_email: recipient,
+    status: 'pending',
+  });
+
+  const { error: enqueueError } = await supabase.rpc('enqueue_email', {
+    queue_name: 'transactional_emails',
+    payload: {
+      message_id: messageId,
+      to: recipient,
+      from: `${SITE_NAME} <noreply@${FROM_DOMAIN}>`,
+      sender_domain: SENDER_DOMAIN,
+      subject,
+      html,
+      text,
+      purpose: 'transactional',
+      label,
+      idempotency_key: messageId,
+      queued_at: new Date().toISOString(),
+    },
+  });
+
+  if (enqueueError) {
+    console.error('Failed to enqueue transactional email', { label, error: enqueueError });
+    await supabase.from('email_send_log').insert({
+      message_id: messageId,
+      template_name: label,
+      recipient_email: recipient,
+      status: 'failed',
+      error_message: 'Failed to enqueue email',
+    });
+    return false;
+  }
+
+  return true;
+}
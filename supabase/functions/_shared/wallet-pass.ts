@@ -0,0 +1,14 @@
+// Barcode value on a wallet pass: a fixed prefix, the pass serial and its secret.
+// Must match src/lib/wallet-pass.ts in the app.
+export const WALLET_PASS_PREFIX = 'VSWP:';
+
+export function composeWalletPassValue(serial: string, secret: string): string {
+  return `${WALLET_PASS_PREFIX}${serial}:${secret}`;
+}
+
+export function parseWalletPassValue(value: string): { serial: string; secret: string } | null {
+  if (!value.startsWith(WALLET_PASS_PREFIX)) return null;
+  const [serial, secret] = value.slice(WALLET_PASS_PREFIX.length).split(':');
+  if (!/^[0-9a-f-]{36}$/i.test(serial ?? '') || !secret) return null;
+  return { serial, secret };
+}
@@ -53,13 +53,23 @@ serve(async (req) => {
       .from('memberships')
       .select('stripe_subscription_id, id')
       .eq('customer_id', customer.id)
-      .eq('status', 'active')
+      .in('status', ['active', 'past_due'])
       .single();
 
     if (!membership?.stripe_subscription_id) {
       throw new Error('No active subscription found');
     }
 
+    // A scheduled tier change would otherwise renew the subscription into its next phase
+    const current = await stripe.subscriptions.retrieve(membership.stripe_subscription_id);
+    if (current.schedule) {
+      await stripe.subscriptionSchedules.release(current.schedule as string);
+      await supabase
+        .from('memberships')
+        .update({ scheduled_tier: null, scheduled_tier_at: null })
+        .eq('id', membership.id);
+    }
+
     // Cancel subscription at period end in Stripe
     const subscription = await stripe.subscriptions.update(
       membership.stripe_subscription_id,
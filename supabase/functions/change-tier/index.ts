@@ -0,0 +1,304 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import Stripe from 'https://esm.sh/stripe@14.21.0';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { monthlyEquivalent } from '../_shared/tier-prices.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const requestSchema = z.object({
+  tier: z.enum(['select', 'premier', 'elite', 'household']),
+  // Without confirm the change is only previewed
+  confirm: z.boolean().optional(),
+  // The proration date of the preview being confirmed, so the charge matches what was shown
+  proration_date: z.number().int().positive().optional(),
+});
+
+// How long a previewed proration stays valid for confirmation
+const PRORATION_QUOTE_SECONDS = 60 * 60;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Lets a member move their own subscription to another tier. Upgrades are charged the prorated
+// difference and take effect immediately; downgrades take effect when the current period ends.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const stripeKey = Deno.env.get('STRIPE_SECRET_KEY');
+    if (!stripeKey) {
+      throw new Error('STRIPE_SECRET_KEY not configured');
+    }
+
+    const stripe = new Stripe(stripeKey, {
+      apiVersion: '2023-10-16',
+    });
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: 'Missing authorization header' }, 401);
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    );
+
+    if (authError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const parsed = requestSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return jsonResponse({ error: 'Invalid tier' }, 400);
+    }
+
+    const { tier: targetTier, confirm, proration_date } = parsed.data;
+
+    // Only the primary member manages billing
+    const { data: customer } = await supabase
+      .from('customers')
+      .select('id, tier, secondary_user_id')
+      .eq('user_id', user.id)
+      .single();
+
+    if (!customer) {
+      return jsonResponse({ error: 'Customer not found' }, 404);
+    }
+
+    const { data: membership } = await supabase
+      .from('memberships')
+      .select('id, tier, status, billing_interval, stripe_subscription_id, stripe_customer_id, scheduled_tier, paused_at')
+      .eq('customer_id', customer.id)
+      .in('status', ['active', 'past_due'])
+      .single();
+
+    if (!membership?.stripe_subscription_id) {
+      return jsonResponse({ error: 'No active subscription found' }, 404);
+    }
+
+    if (membership.status === 'past_due') {
+      return jsonResponse({ error: 'Please update your payment method before changing tier' }, 409);
+    }
+
+    if (membership.paused_at) {
+      return jsonResponse({ error: 'Resume your membership before changing tier' }, 409);
+    }
+
+    const subscription = await stripe.subscriptions.retrieve(membership.stripe_subscription_id);
+    const currentItem = subscription.items.data[0];
+
+    if (subscription.cancel_at_period_end) {
+      return jsonResponse({ error: 'Your membership is set to cancel. Resume it before changing tier.' }, 409);
+    }
+
+    // Choosing the current tier again calls off a scheduled downgrade
+    if (targetTier === membership.tier) {
+      if (!membership.scheduled_tier) {
+        return jsonResponse({ error: 'You are already on this tier' }, 400);
+      }
+
+      if (!confirm) {
+        return jsonResponse({ direction: 'keep', tier: targetTier, amount_due: 0, currency: subscription.currency });
+      }
+
+      if (subscription.schedule) {
+        await stripe.subscriptionSchedules.release(subscription.schedule as string);
+      }
+
+      const { error: keepError } = await supabase
+        .from('memberships')
+        .update({ scheduled_tier: null, scheduled_tier_at: null })
+        .eq('id', membership.id);
+
+      if (keepError) {
+        console.error('Failed to clear scheduled tier change:', keepError);
+        return jsonResponse({ error: 'Your scheduled tier change could not be cancelled. Please try again.' }, 500);
+      }
+
+      console.log(`Scheduled tier change cancelled for membership ${membership.id}`);
+      return jsonResponse({ success: true, direction: 'keep', tier: targetTier });
+    }
+
+    const { data: tiers, error: tiersError } = await supabase
+      .from('tier_definitions')
+      .select('tier_name, display_name, monthly_price, monthly_pours, is_active')
+      .in('tier_name', [membership.tier, targetTier]);
+
+    if (tiersError || !tiers) {
+      throw new Error('Failed to fetch tier definitions');
+    }
+
+    const currentTierDef = tiers.find((t) => t.tier_name === membership.tier);
+    const targetTierDef = tiers.find((t) => t.tier_name === targetTier);
+
+    // The new tier is billed on the same interval as the current one
+    const { data: targetPrice } = await supabase
+      .from('tier_prices')
+      .select('amount, interval, stripe_price_id')
+      .eq('tier_name', targetTier)
+      .eq('interval', membership.billing_interval)
+      .eq('is_active', true)
+      .maybeSingle();
+
+    if (!targetTierDef || !targetTierDef.is_active || !targetPrice) {
+      return jsonResponse({ error: 'That tier is not available' }, 400);
+    }
+
+    const targetMonthlyPrice = monthlyEquivalent(Number(targetPrice.amount), targetPrice.interval);
+
+    if (membership.tier === 'household' && customer.secondary_user_id) {
+      return jsonResponse({ error: 'Remove your household member before leaving the Household tier' }, 409);
+    }
+
+    // A downgrade takes its slot in the lower tier now: reserve_tier_slot counts scheduled moves, so the
+    // tier cannot fill up before the move at the end of the period
+    const { data: slot, error: slotError } = await supabase.rpc('reserve_tier_slot', {
+      _tier_name: targetTier,
+      _user_id: user.id,
+    });
+
+    if (slotError) {
+      throw new Error('Failed to check tier availability');
+    }
+
+    if (!slot.success) {
+      return jsonResponse({ error: `${targetTierDef.display_name} is sold out` }, 409);
+    }
+
+    const isUpgrade = Number(targetTierDef.monthly_price) > Number(currentTierDef?.monthly_price ?? 0);
+    const details = {
+      direction: isUpgrade ? 'upgrade' : 'downgrade',
+      tier: targetTier,
+      display_name: targetTierDef.display_name,
+      monthly_price: targetMonthlyPrice,
+      price: Number(targetPrice.amount),
+      interval: targetPrice.interval,
+      monthly_pours: targetTierDef.monthly_pours,
+      current_monthly_pours: currentTierDef?.monthly_pours ?? 0,
+      currency: subscription.currency,
+    };
+
+    if (isUpgrade) {
+      const now = Math.floor(Date.now() / 1000);
+      const prorationDate = proration_date && now - proration_date < PRORATION_QUOTE_SECONDS ? proration_date : now;
+
+      if (!confirm) {
+        const upcoming = await stripe.invoices.retrieveUpcoming({
+          customer: subscription.customer as string,
+          subscription: subscription.id,
+          subscription_items: [{ id: currentItem.id, price: targetPrice.stripe_price_id }],
+          subscription_proration_behavior: 'always_invoice',
+          subscription_proration_date: prorationDate,
+        });
+
+        const amountDue = upcoming.lines.data
+          .filter((line) => line.proration)
+          .reduce((sum, line) => sum + line.amount, 0);
+
+        return jsonResponse({
+          ...details,
+          amount_due: Math.max(0, amountDue),
+          proration_date: prorationDate,
+          effective_at: prorationDate,
+        });
+      }
+
+      // A pending downgrade is superseded by the upgrade
+      if (subscription.schedule) {
+        await stripe.subscriptionSchedules.release(subscription.schedule as string);
+      }
+
+      try {
+        await stripe.subscriptions.update(subscription.id, {
+          items: [{ id: currentItem.id, price: targetPrice.stripe_price_id }],
+          proration_behavior: 'always_invoice',
+          proration_date: prorationDate,
+          payment_behavior: 'error_if_incomplete',
+        });
+      } catch (stripeError) {
+        console.error('Upgrade payment failed:', stripeError);
+        return jsonResponse({ error: 'The upgrade payment could not be processed. Please check your payment method.' }, 402);
+      }
+
+      const { data: change, error: changeError } = await supabase.rpc('apply_tier_change', {
+        _membership_id: membership.id,
+        _tier: targetTier,
+        _monthly_price: targetMonthlyPrice,
+      });
+
+      if (changeError || !change?.success) {
+        // Stripe has the new price, so customer.subscription.updated will apply it if this did not
+        console.error('Failed to apply tier change locally:', changeError || change?.message);
+      }
+
+      console.log(`Membership ${membership.id} upgraded ${membership.tier} → ${targetTier}`);
+      return jsonResponse({
+        success: true,
+        ...details,
+        effective_at: prorationDate,
+        available_pours: change?.available_pours ?? null,
+      });
+    }
+
+    // Downgrade: the current price runs to the end of the period, then the new one starts
+    const effectiveAt = subscription.current_period_end;
+
+    if (!confirm) {
+      return jsonResponse({ ...details, amount_due: 0, effective_at: effectiveAt });
+    }
+
+    const schedule = subscription.schedule
+      ? await stripe.subscriptionSchedules.retrieve(subscription.schedule as string)
+      : await stripe.subscriptionSchedules.create({ from_subscription: subscription.id });
+
+    await stripe.subscriptionSchedules.update(schedule.id, {
+      end_behavior: 'release',
+      proration_behavior: 'none',
+      phases: [
+        {
+          items: [{ price: currentItem.price.id, quantity: 1 }],
+          start_date: schedule.current_phase?.start_date ?? subscription.current_period_start,
+          end_date: effectiveAt,
+        },
+        {
+          items: [{ price: targetPrice.stripe_price_id, quantity: 1 }],
+          iterations: 1,
+        },
+      ],
+    });
+
+    const { error: scheduleError } = await supabase
+      .from('memberships')
+      .update({
+        scheduled_tier: targetTier,
+        scheduled_tier_at: new Date(effectiveAt * 1000).toISOString(),
+      })
+      .eq('id', membership.id);
+
+    // Stripe already has the schedule; retrying updates it in place and records it here
+    if (scheduleError) {
+      console.error('Failed to record scheduled tier change:', scheduleError);
+      return jsonResponse({ error: 'Your downgrade could not be saved. Please try again.' }, 500);
+    }
+
+    console.log(`Membership ${membership.id} downgrade to ${targetTier} scheduled for ${new Date(effectiveAt * 1000).toISOString()}`);
+    return jsonResponse({ success: true, ...details, effective_at: effectiveAt });
+  } catch (error) {
+    console.error('Error changing tier:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 400);
+  }
+});
@@ -6,12 +6,20 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+interface TierPriceOption {
+  id: string;
+  interval: 'month' | 'year';
+  amount: number;
+}
+
 interface TierAvailability {
   tier_name: string;
   display_name: string;
   monthly_price: number;
   monthly_pours: number;
   description: string | null;
+  // Prices on sale, one per billing interval; Stripe price IDs stay server-side
+  prices: TierPriceOption[];
   // Removed: max_subscriptions, current_subscriptions - business intelligence
   available: number | null;
   status: 'available' | 'limited' | 'low' | 'critical' | 'sold_out';
@@ -40,11 +48,21 @@ serve(async (req) => {
       throw new Error('Failed to fetch tier definitions');
     }
 
-    // Count active subscriptions per tier
+    const { data: prices, error: pricesError } = await supabase
+      .from('tier_prices')
+      .select('id, tier_name, interval, amount')
+      .eq('is_active', true);
+
+    if (pricesError) {
+      console.error('Error fetching tier prices:', pricesError);
+      throw new Error('Failed to fetch tier prices');
+    }
+
+    // Count active subscriptions per tier; a scheduled downgrade already holds its slot in the lower tier
     const { data: subscriptionCounts, error: countError } = await supabase
       .from('memberships')
-      .select('tier')
-      .eq('status', 'active');
+      .select('tier, scheduled_tier')
+      .in('status', ['active', 'past_due']);
 
     if (countError) {
       console.error('Error counting subscriptions:', countError);
@@ -55,6 +73,9 @@ serve(async (req) => {
     const tierCounts: Record<string, number> = {};
     subscriptionCounts?.forEach((sub) => {
       tierCounts[sub.tier] = (tierCounts[sub.tier] || 0) + 1;
+      if (sub.scheduled_tier) {
+        tierCounts[sub.scheduled_tier] = (tierCounts[sub.scheduled_tier] || 0) + 1;
+      }
     });
 
     // Build availability response
@@ -91,6 +112,9 @@ serve(async (req) => {
         monthly_price: tier.monthly_price,
         monthly_pours: tier.monthly_pours,
         description: tier.description,
+        prices: (prices || [])
+          .filter((price) => price.tier_name === tier.tier_name)
+          .map((price) => ({ id: price.id, interval: price.interval, amount: Number(price.amount) })),
         // Note: max_subscriptions, current_subscriptions excluded for security
         // Only expose availability status and urgency messaging
         available,
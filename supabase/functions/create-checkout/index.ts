@@ -108,6 +108,7 @@ serve(async (req) => {
     const requestSchema = z.object({
       tierName: z.enum(['select', 'premier', 'elite', 'household']),
       userId: z.string().uuid(),
+      priceId: z.string().uuid().optional(), // tier_prices row; the tier's monthly price when omitted
       preferences: z.record(z.any()).optional() // Optional wine preferences
     });
 
@@ -122,7 +123,7 @@ serve(async (req) => {
       );
     }
 
-    const { tierName, userId, preferences } = validationResult.data;
+    const { tierName, userId, priceId, preferences } = validationResult.data;
 
     // Verify user owns this request
     if (user.id !== userId) {
@@ -132,10 +133,10 @@ serve(async (req) => {
       );
     }
 
-    // Fetch tier definition to get stripe_price_id and max_subscriptions
+    // Fetch tier definition to confirm the tier exists
     const { data: tier, error: tierError } = await supabaseAdmin
       .from('tier_definitions')
-      .select('stripe_price_id, display_name, monthly_price, max_subscriptions')
+      .select('display_name, max_subscriptions')
       .eq('tier_name', tierName)
       .single();
 
@@ -147,8 +148,20 @@ serve(async (req) => {
       );
     }
 
-    if (!tier.stripe_price_id) {
-      console.error('Missing Stripe Price ID for tier:', tierName);
+    // Resolve the chosen price; it must be on sale and belong to the tier being joined
+    const priceQuery = supabaseAdmin
+      .from('tier_prices')
+      .select('id, interval, stripe_price_id')
+      .eq('tier_name', tierName)
+      .eq('is_active', true);
+
+    const { data: price } = await (priceId
+      ? priceQuery.eq('id', priceId)
+      : priceQuery.eq('interval', 'month')
+    ).maybeSingle();
+
+    if (!price) {
+      console.error('No active price for tier:', tierName, priceId ?? 'month');
       return new Response(
         JSON.stringify({ error: 'Membership tier not available' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -202,7 +215,7 @@ serve(async (req) => {
       mode: 'subscription',
       line_items: [
         {
-          price: tier.stripe_price_id,
+          price: price.stripe_price_id,
           quantity: 1,
         },
       ],
@@ -210,6 +223,7 @@ serve(async (req) => {
       metadata: {
         userId,
         tierName,
+        tierPriceId: price.id,
         // Store preferences as JSON string in metadata (Stripe has 500 char limit per value)
         preferences: preferences ? JSON.stringify(preferences).substring(0, 500) : '',
       },
@@ -110,7 +110,7 @@ serve(async (req) => {
         .from('memberships')
         .update({ status: 'cancelled', updated_at: new Date().toISOString() })
         .eq('customer_id', customerId)
-        .eq('status', 'active');
+        .in('status', ['active', 'past_due']);
 
     } else {
       // Create new account from scratch
@@ -1,6 +1,9 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
 import * as jose from 'https://deno.land/x/jose@v5.2.0/index.ts';
+import { loadQrKeys, QR_TOKEN_ALG } from '../_shared/qr-signing-keys.ts';
+import { generateTotpSecret, QR_TOTP_PERIOD_SECONDS } from '../_shared/qr-totp.ts';
+import { generateMemberCode } from '../_shared/member-code.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -40,7 +43,7 @@ serve(async (req) => {
     // First try as primary user
     const { data: primaryCustomer, error: primaryError } = await supabaseClient
       .from('customers')
-      .select('id, tier, user_id, secondary_user_id')
+      .select('id, tier, user_id, secondary_user_id, qr_suspended_at')
       .eq('user_id', user.id)
       .maybeSingle();
     
@@ -50,7 +53,7 @@ serve(async (req) => {
       // Try as secondary user
       const { data: secondaryCustomer, error: secondaryError } = await supabaseClient
         .from('customers')
-        .select('id, tier, user_id, secondary_user_id')
+        .select('id, tier, user_id, secondary_user_id, qr_suspended_at')
         .eq('secondary_user_id', user.id)
         .maybeSingle();
       
@@ -66,29 +69,89 @@ serve(async (req) => {
       });
     }
 
-    // Generate JWT token with 10 minute expiry
-    const secret = new TextEncoder().encode(
-      Deno.env.get('SUPABASE_JWT_SECRET') ?? Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    // No new codes while an admin has the member's QR suspended
+    if (customer.qr_suspended_at) {
+      return new Response(JSON.stringify({ error: 'QR code suspended', qr_suspended: true }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     );
 
+    // The name travels in the token so a staff device can show who it is without a connection
+    const { data: profile } = await supabaseAdmin
+      .from('profiles')
+      .select('first_name, last_name')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    // Generate an ES256 JWT with 10 minute expiry; the jti lets verify-qr-token accept it only once
+    const { signing } = await loadQrKeys(supabaseAdmin);
+    const privateKey = await jose.importJWK(signing.private_jwk, QR_TOKEN_ALG);
+    const jti = crypto.randomUUID();
+
     const token = await new jose.SignJWT({
       customer_id: customer.id,
       tier: customer.tier,
       user_id: user.id,
       is_secondary: customer.is_secondary,
+      first_name: profile?.first_name ?? null,
+      last_name: profile?.last_name ?? null,
     })
-      .setProtectedHeader({ alg: 'HS256' })
+      .setProtectedHeader({ alg: QR_TOKEN_ALG, kid: signing.kid })
       .setIssuedAt()
       .setExpirationTime('10m')
       .setSubject(customer.id)
-      .sign(secret);
+      .setJti(jti)
+      .sign(privateKey);
+    const expiresAt = new Date(Date.now() + 10 * 60 * 1000);
+
+    // A short code staff can type instead of scanning; it stands in for this token until it expires.
+    // Codes are random, so a clash with a live one is retried; long-expired ones are cleared first.
+    await supabaseAdmin
+      .from('qr_short_codes')
+      .delete()
+      .lt('expires_at', new Date(Date.now() - 60 * 60 * 1000).toISOString());
+
+    let shortCode: string | null = null;
+    for (let attempt = 0; attempt < 5 && !shortCode; attempt++) {
+      const code = generateMemberCode();
+      const { error: codeError } = await supabaseAdmin
+        .from('qr_short_codes')
+        .insert({ code, token, customer_id: customer.id, expires_at: expiresAt.toISOString() });
+      if (!codeError) {
+        shortCode = code;
+      } else if (codeError.code !== '23505') {
+        throw codeError;
+      }
+    }
+
+    // The app shows a code derived from this secret next to the token, rotating every 30 seconds
+    const { error: secretError } = await supabaseAdmin
+      .from('qr_totp_secrets')
+      .upsert({ user_id: user.id, secret: generateTotpSecret() }, { onConflict: 'user_id', ignoreDuplicates: true });
+    if (secretError) throw secretError;
+
+    const { data: totp, error: totpError } = await supabaseAdmin
+      .from('qr_totp_secrets')
+      .select('secret')
+      .eq('user_id', user.id)
+      .single();
+    if (totpError) throw totpError;
 
     return new Response(
       JSON.stringify({ 
         token,
-        expires_at: new Date(Date.now() + 10 * 60 * 1000).toISOString(),
+        jti,
+        expires_at: expiresAt.toISOString(),
+        short_code: shortCode,
         customer_id: customer.id,
-        is_secondary: customer.is_secondary
+        is_secondary: customer.is_secondary,
+        totp: { secret: totp.secret, period: QR_TOTP_PERIOD_SECONDS },
       }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -38,11 +38,13 @@ Deno.serve(async (req) => {
       });
     }
 
-    // Parse request body for optional customer_id (staff use case)
+    // Parse request body for optional customer_id (staff use case) and the location being poured at
     let requestedCustomerId: string | null = null;
+    let requestedLocationId: string | null = null;
     try {
       const body = await req.json();
       requestedCustomerId = body.customer_id || null;
+      requestedLocationId = body.location_id || null;
     } catch {
       // No body or invalid JSON - that's fine
     }
@@ -123,39 +125,83 @@ Deno.serve(async (req) => {
       .select(`
         tier,
         billing_period_start,
-        billing_period_end
+        billing_period_end,
+        paused_at,
+        pause_resumes_at
       `)
       .eq('customer_id', customer_id)
-      .eq('status', 'active')
+      .in('status', ['active', 'past_due'])
       .single();
 
     // Get tier definition
     const { data: tierDef } = await supabase
       .from('tier_definitions')
-      .select('monthly_pours')
+      .select('monthly_pours, monthly_guest_pours')
       .eq('tier_name', membership?.tier)
       .single();
 
-    // Count pours in current period
+    // Allowance used in current period (a taste may cost half a pour); guest pours have their own allowance
     let poursUsed = 0;
+    let guestPoursUsed = 0;
     if (membership?.billing_period_start) {
       const { data: pours } = await supabase
         .from('pours')
-        .select('quantity')
+        .select('allowance_cost, is_guest')
         .eq('customer_id', customer_id)
         .gte('created_at', membership.billing_period_start)
         .eq('status', 'redeemed');
       
-      poursUsed = pours?.reduce((sum, pour) => sum + pour.quantity, 0) || 0;
+      poursUsed = pours?.filter(pour => !pour.is_guest).reduce((sum, pour) => sum + Number(pour.allowance_cost), 0) || 0;
+      guestPoursUsed = pours?.filter(pour => pour.is_guest).reduce((sum, pour) => sum + Number(pour.allowance_cost), 0) || 0;
     }
 
+    const { data: availableGuestPours } = await supabase.rpc('get_available_guest_pours', {
+      customer_uuid: customer_id
+    });
+
+    // Pre-orders still holding allowance
+    const { data: heldPours } = await supabase
+      .from('pours')
+      .select('allowance_cost')
+      .eq('customer_id', customer_id)
+      .eq('status', 'pending')
+      .gt('expires_at', new Date().toISOString());
+
+    const poursHeld = heldPours?.reduce((sum, pour) => sum + Number(pour.allowance_cost), 0) || 0;
+
+    // Carried-over pours are used before fresh ones
+    const { data: carriedPours } = await supabase.rpc('get_rollover_pours', {
+      customer_uuid: customer_id
+    });
+    const carried = carriedPours || 0;
+
+    // Responsible-service caps; without a location only the tier's caps apply
+    const { data: limits } = await supabase.rpc('get_pour_limit_status', {
+      _customer_id: customer_id,
+      _location_id: requestedLocationId,
+    });
+    const carriedRemaining = Math.max(0, carried - poursUsed);
+
     return new Response(
       JSON.stringify({
         available_pours: data,
         tier_max: tierDef?.monthly_pours || 0,
         pours_used: poursUsed,
+        pours_held: poursHeld,
+        carried_pours: carried,
+        carried_remaining: Math.min(carriedRemaining, data ?? 0),
+        fresh_remaining: Math.max(0, (data ?? 0) - carriedRemaining),
+        guest_pours_max: tierDef?.monthly_guest_pours || 0,
+        guest_pours_used: guestPoursUsed,
+        available_guest_pours: availableGuestPours ?? 0,
+        limits: limits ?? null,
         billing_period_start: membership?.billing_period_start,
-        billing_period_end: membership?.billing_period_end
+        billing_period_end: membership?.billing_period_end,
+        // Redemptions are refused until then
+        paused_until: membership?.paused_at && membership.pause_resumes_at &&
+          new Date(membership.pause_resumes_at).getTime() > Date.now()
+          ? membership.pause_resumes_at
+          : null
       }),
       {
         status: 200,
@@ -0,0 +1,125 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import Stripe from 'https://esm.sh/stripe@14.21.0';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const INVOICE_LIMIT = 24;
+
+// Lists a member's Stripe invoices, newest first, for their Account page or for staff
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY') || '', {
+      apiVersion: '2023-10-16',
+    });
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    // Verify user authentication
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('No authorization header');
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    );
+
+    if (authError || !user) {
+      throw new Error('Unauthorized');
+    }
+
+    // Staff may look up a member's invoices by customer_id
+    let requestedCustomerId: string | null = null;
+    try {
+      const body = await req.json();
+      requestedCustomerId = body.customer_id || null;
+    } catch {
+      // No body - the member is fetching their own invoices
+    }
+
+    if (requestedCustomerId) {
+      const { data: isStaff } = await supabase.rpc('has_role', {
+        _user_id: user.id,
+        _role: 'staff',
+      });
+
+      if (!isStaff) {
+        throw new Error('Unauthorized');
+      }
+    }
+
+    const customerQuery = supabase.from('customers').select('id');
+    const { data: customer } = await (requestedCustomerId
+      ? customerQuery.eq('id', requestedCustomerId)
+      : customerQuery.eq('user_id', user.id)
+    ).single();
+
+    if (!customer) {
+      throw new Error('Customer not found');
+    }
+
+    // The most recent Stripe customer, so history stays visible after a membership ends
+    const { data: membership } = await supabase
+      .from('memberships')
+      .select('stripe_customer_id')
+      .eq('customer_id', customer.id)
+      .not('stripe_customer_id', 'is', null)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (!membership?.stripe_customer_id) {
+      return new Response(
+        JSON.stringify({ invoices: [] }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const list = await stripe.invoices.list({
+      customer: membership.stripe_customer_id,
+      limit: INVOICE_LIMIT,
+    });
+
+    // Drafts can still change, so only finalized invoices are listed
+    const invoices = list.data
+      .filter((invoice) => invoice.status !== 'draft')
+      .map((invoice) => ({
+        id: invoice.id,
+        number: invoice.number,
+        created: invoice.created,
+        amount_due: invoice.amount_due,
+        amount_paid: invoice.amount_paid,
+        total: invoice.total,
+        currency: invoice.currency,
+        status: invoice.status,
+        billing_reason: invoice.billing_reason,
+        hosted_invoice_url: invoice.hosted_invoice_url,
+        invoice_pdf: invoice.invoice_pdf,
+      }));
+
+    console.log(`Retrieved ${invoices.length} invoices for customer:`, customer.id);
+
+    return new Response(
+      JSON.stringify({ invoices }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Error fetching invoices:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+    );
+  }
+});
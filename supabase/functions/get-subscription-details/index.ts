@@ -36,14 +36,34 @@ serve(async (req) => {
       throw new Error('Unauthorized');
     }
 
-    console.log('Fetching subscription for user:', user.id);
+    // Staff may look up a member's subscription by customer_id
+    let requestedCustomerId: string | null = null;
+    try {
+      const body = await req.json();
+      requestedCustomerId = body.customer_id || null;
+    } catch {
+      // No body - the member is fetching their own subscription
+    }
+
+    if (requestedCustomerId) {
+      const { data: isStaff } = await supabase.rpc('has_role', {
+        _user_id: user.id,
+        _role: 'staff',
+      });
+
+      if (!isStaff) {
+        throw new Error('Unauthorized');
+      }
+    }
+
+    console.log('Fetching subscription for', requestedCustomerId ? `customer: ${requestedCustomerId}` : `user: ${user.id}`);
 
     // Get customer and membership data
-    const { data: customer } = await supabase
-      .from('customers')
-      .select('id')
-      .eq('user_id', user.id)
-      .single();
+    const customerQuery = supabase.from('customers').select('id');
+    const { data: customer } = await (requestedCustomerId
+      ? customerQuery.eq('id', requestedCustomerId)
+      : customerQuery.eq('user_id', user.id)
+    ).single();
 
     if (!customer) {
       throw new Error('Customer not found');
@@ -51,9 +71,9 @@ serve(async (req) => {
 
     const { data: membership } = await supabase
       .from('memberships')
-      .select('stripe_subscription_id, stripe_customer_id, tier, status')
+      .select('id, stripe_subscription_id, stripe_customer_id, tier, status, scheduled_tier, scheduled_tier_at, paused_at, pause_resumes_at')
       .eq('customer_id', customer.id)
-      .eq('status', 'active')
+      .in('status', ['active', 'past_due'])
       .single();
 
     if (!membership?.stripe_subscription_id) {
@@ -85,15 +105,43 @@ serve(async (req) => {
       }
     }
 
+    // How long and how often this tier allows pausing, and how many pauses are left this year
+    const { data: tierDef } = await supabase
+      .from('tier_definitions')
+      .select('max_pause_days, max_pauses_per_year')
+      .eq('tier_name', membership.tier)
+      .single();
+
+    const { count: pausesThisYear } = await supabase
+      .from('membership_pauses')
+      .select('id', { count: 'exact', head: true })
+      .eq('membership_id', membership.id)
+      .gt('started_at', new Date(Date.now() - 365 * 24 * 60 * 60 * 1000).toISOString());
+
+    const pausedUntil = membership.paused_at && membership.pause_resumes_at &&
+      new Date(membership.pause_resumes_at).getTime() > Date.now()
+      ? membership.pause_resumes_at
+      : null;
+
     const subscriptionDetails = {
       id: subscription.id,
       status: subscription.status,
       current_period_end: subscription.current_period_end,
       current_period_start: subscription.current_period_start,
       cancel_at_period_end: subscription.cancel_at_period_end,
+      // When a scheduled cancellation takes effect; null unless one is pending
+      cancel_at: subscription.cancel_at_period_end
+        ? subscription.cancel_at ?? subscription.current_period_end
+        : null,
       canceled_at: subscription.canceled_at,
       tier: membership.tier,
+      scheduled_tier: membership.scheduled_tier,
+      scheduled_tier_at: membership.scheduled_tier_at,
+      paused_until: pausedUntil,
+      max_pause_days: tierDef?.max_pause_days ?? 0,
+      pauses_remaining: Math.max(0, (tierDef?.max_pauses_per_year ?? 0) - (pausesThisYear ?? 0)),
       amount: subscription.items.data[0]?.price.unit_amount || 0,
+      interval: subscription.items.data[0]?.price.recurring?.interval ?? 'month',
       currency: subscription.currency,
       payment_method: paymentMethod,
     };
@@ -0,0 +1,154 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import Stripe from 'https://esm.sh/stripe@14.21.0';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const requestSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('pause'),
+    resume_date: z.string().datetime({ offset: true }),
+  }),
+  z.object({
+    action: z.literal('resume'),
+  }),
+]);
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Puts a member's subscription on hold until a chosen date, or ends the hold early. Stripe stops
+// collecting payment for the pause and resumes billing on the resume date by itself.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const stripeKey = Deno.env.get('STRIPE_SECRET_KEY');
+    if (!stripeKey) {
+      throw new Error('STRIPE_SECRET_KEY not configured');
+    }
+
+    const stripe = new Stripe(stripeKey, {
+      apiVersion: '2023-10-16',
+    });
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: 'Missing authorization header' }, 401);
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    );
+
+    if (authError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const parsed = requestSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return jsonResponse({ error: 'Invalid request' }, 400);
+    }
+
+    // Only the primary member manages billing
+    const { data: customer } = await supabase
+      .from('customers')
+      .select('id')
+      .eq('user_id', user.id)
+      .single();
+
+    if (!customer) {
+      return jsonResponse({ error: 'Customer not found' }, 404);
+    }
+
+    const { data: membership } = await supabase
+      .from('memberships')
+      .select('id, status, stripe_subscription_id, paused_at, pause_resumes_at')
+      .eq('customer_id', customer.id)
+      .in('status', ['active', 'past_due'])
+      .single();
+
+    if (!membership?.stripe_subscription_id) {
+      return jsonResponse({ error: 'No active subscription found' }, 404);
+    }
+
+    if (parsed.data.action === 'resume') {
+      if (!membership.paused_at) {
+        return jsonResponse({ error: 'Membership is not paused' }, 400);
+      }
+
+      await stripe.subscriptions.update(membership.stripe_subscription_id, {
+        pause_collection: '',
+      });
+
+      const { data: resumed, error: resumeError } = await supabase.rpc('end_membership_pause', {
+        _membership_id: membership.id,
+      });
+
+      if (resumeError || !resumed?.success) {
+        throw new Error('Failed to resume membership');
+      }
+
+      console.log(`Membership ${membership.id} resumed early`);
+      return jsonResponse({ success: true });
+    }
+
+    const subscription = await stripe.subscriptions.retrieve(membership.stripe_subscription_id);
+
+    if (subscription.cancel_at_period_end) {
+      return jsonResponse({ error: 'Your membership is set to cancel and cannot be paused' }, 409);
+    }
+
+    const resumesAt = new Date(parsed.data.resume_date);
+
+    // Checks the tier's limits and records the pause
+    const { data: pause, error: pauseError } = await supabase.rpc('start_membership_pause', {
+      _membership_id: membership.id,
+      _resumes_at: resumesAt.toISOString(),
+    });
+
+    if (pauseError) {
+      throw new Error('Failed to pause membership');
+    }
+
+    if (!pause.success) {
+      return jsonResponse({ error: pause.message }, 409);
+    }
+
+    try {
+      await stripe.subscriptions.update(subscription.id, {
+        pause_collection: {
+          behavior: 'void',
+          resumes_at: Math.floor(resumesAt.getTime() / 1000),
+        },
+      });
+    } catch (stripeError) {
+      console.error('Failed to pause collection in Stripe:', stripeError);
+      await supabase.rpc('end_membership_pause', {
+        _membership_id: membership.id,
+        _discard: true,
+      });
+      throw new Error('Failed to pause membership');
+    }
+
+    console.log(`Membership ${membership.id} paused until ${resumesAt.toISOString()}`);
+    return jsonResponse({ success: true, paused_until: resumesAt.toISOString() });
+  } catch (error) {
+    console.error('Error pausing membership:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 400);
+  }
+});
@@ -0,0 +1,182 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const requestSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('create'),
+    quantity: z.number().int().min(1).max(10),
+    location_id: z.string().uuid(),
+    notes: z.string().trim().max(500).optional(),
+  }),
+  z.object({
+    action: z.literal('cancel'),
+    pour_id: z.string().uuid(),
+  }),
+  z.object({
+    action: z.enum(['confirm', 'reject']),
+    pour_id: z.string().uuid(),
+    reason: z.string().trim().max(500).optional(),
+    // Lets a manager confirm past the member's service limits
+    override_reason: z.string().trim().max(500).optional(),
+  }),
+]);
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    // Verify user authentication
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    );
+
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const validationResult = requestSchema.safeParse(await req.json());
+    if (!validationResult.success) {
+      console.error('Validation failed:', validationResult.error.format());
+      return new Response(JSON.stringify({ error: 'Invalid request data' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const body = validationResult.data;
+    let result;
+
+    if (body.action === 'create' || body.action === 'cancel') {
+      // Members can only pre-order against (and withdraw) their own allowance
+      const { data: customer } = await supabaseAdmin
+        .from('customers')
+        .select('id')
+        .eq('user_id', user.id)
+        .eq('status', 'active')
+        .maybeSingle();
+
+      if (!customer) {
+        return new Response(JSON.stringify({ error: 'No active membership found' }), {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      if (body.action === 'create') {
+        const { data, error } = await supabaseAdmin.rpc('create_pour_preorder', {
+          _customer_id: customer.id,
+          _quantity: body.quantity,
+          _location_id: body.location_id,
+          _notes: body.notes || null,
+        });
+        if (error) throw error;
+        result = data;
+      } else {
+        const { data: pour } = await supabaseAdmin
+          .from('pours')
+          .select('customer_id')
+          .eq('id', body.pour_id)
+          .maybeSingle();
+
+        if (!pour || pour.customer_id !== customer.id) {
+          return new Response(JSON.stringify({ error: 'Pre-order not found' }), {
+            status: 404,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+
+        const { data, error } = await supabaseAdmin.rpc('resolve_pour_preorder', {
+          _pour_id: body.pour_id,
+          _confirm: false,
+          _reason: 'Withdrawn by member',
+        });
+        if (error) throw error;
+        result = data;
+      }
+    } else {
+      // Confirming or rejecting from the bar queue is staff-only
+      const { data: isStaff } = await supabaseAdmin.rpc('has_role', {
+        _user_id: user.id,
+        _role: 'staff',
+      });
+
+      if (!isStaff) {
+        return new Response(JSON.stringify({ error: 'Access denied' }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const overrideReason = body.action === 'confirm' ? body.override_reason || null : null;
+      if (overrideReason) {
+        const { data: isAdmin } = await supabaseAdmin.rpc('is_admin', { _user_id: user.id });
+        if (!isAdmin) {
+          console.warn('Non-manager pour limit override attempt:', user.id);
+          return new Response(JSON.stringify({ error: 'Only a manager can override service limits' }), {
+            status: 403,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+      }
+
+      const { data, error } = await supabaseAdmin.rpc('resolve_pour_preorder', {
+        _pour_id: body.pour_id,
+        _confirm: body.action === 'confirm',
+        _staff_id: user.id,
+        _reason: body.reason || null,
+        _override_reason: overrideReason,
+      });
+      if (error) throw error;
+      result = data;
+    }
+
+    if (!result.success) {
+      console.log(`Pre-order ${body.action} rejected: ${result.message}`);
+      return new Response(
+        JSON.stringify({
+          error: result.message,
+          available_pours: result.available_pours ?? null,
+          limit_exceeded: result.limit_exceeded ?? false,
+          limits: result.limits ?? null,
+        }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.log(`Pre-order ${body.action}: by=${user.id}`);
+
+    return new Response(JSON.stringify(result), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error in pour-preorders:', error);
+    return new Response(JSON.stringify({ error: 'Unable to process request' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
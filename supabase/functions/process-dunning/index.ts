@@ -0,0 +1,132 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+import { sendPastDueEmail } from '../_shared/dunning.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const DEFAULT_REMINDER_INTERVAL_DAYS = 3;
+
+interface DunningSummary {
+  past_due: number;
+  reminded: number;
+  suspended: number;
+  errored: number;
+}
+
+// Runs on a schedule: reminds past-due members to update their payment method and suspends
+// redemptions for those whose grace period has ended.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+  const anonKey = Deno.env.get('SUPABASE_ANON_KEY') ?? '';
+  const supabaseAdmin = createClient(supabaseUrl, serviceRoleKey);
+
+  // AuthZ: require either the service role bearer (used by pg_cron) or an approved admin JWT.
+  const authHeader = req.headers.get('Authorization') ?? '';
+  const token = authHeader.replace('Bearer ', '').trim();
+  let authorized = false;
+
+  if (token && serviceRoleKey && token === serviceRoleKey) {
+    authorized = true;
+  } else if (token) {
+    try {
+      const userClient = createClient(supabaseUrl, anonKey, {
+        global: { headers: { Authorization: `Bearer ${token}` } },
+      });
+      const { data: userData } = await userClient.auth.getUser();
+      if (userData?.user) {
+        const { data: roleRow } = await supabaseAdmin
+          .from('user_roles')
+          .select('role, is_approved')
+          .eq('user_id', userData.user.id)
+          .eq('role', 'admin')
+          .eq('is_approved', true)
+          .maybeSingle();
+        if (roleRow) authorized = true;
+      }
+    } catch (_) {
+      // fall through to 401
+    }
+  }
+
+  if (!authorized) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      status: 401,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+
+  const summary: DunningSummary = { past_due: 0, reminded: 0, suspended: 0, errored: 0 };
+
+  try {
+    const { data: settings } = await supabaseAdmin
+      .from('system_settings')
+      .select('value')
+      .eq('key', 'dunning')
+      .maybeSingle();
+
+    const reminderIntervalDays =
+      (settings?.value as { reminder_interval_days?: number } | null)?.reminder_interval_days ?? DEFAULT_REMINDER_INTERVAL_DAYS;
+    const reminderDueBefore = Date.now() - reminderIntervalDays * 24 * 60 * 60 * 1000;
+
+    // Members already suspended have had their notice; the next word is a successful payment
+    const { data: memberships, error: fetchError } = await supabaseAdmin
+      .from('memberships')
+      .select('id, grace_period_ends_at, last_dunning_reminder_at')
+      .eq('status', 'past_due')
+      .is('redemptions_suspended_at', null);
+
+    if (fetchError) throw fetchError;
+
+    for (const membership of memberships || []) {
+      summary.past_due++;
+      try {
+        if (membership.grace_period_ends_at && new Date(membership.grace_period_ends_at).getTime() <= Date.now()) {
+          const { data: suspension, error: suspendError } = await supabaseAdmin.rpc('suspend_past_due_membership', {
+            _membership_id: membership.id,
+          });
+
+          if (suspendError) throw suspendError;
+          if (!suspension?.success) {
+            console.log(`Membership ${membership.id} not suspended: ${suspension?.message}`);
+            continue;
+          }
+
+          summary.suspended++;
+          await sendPastDueEmail(supabaseAdmin, membership.id, true);
+          continue;
+        }
+
+        if (
+          !membership.last_dunning_reminder_at ||
+          new Date(membership.last_dunning_reminder_at).getTime() <= reminderDueBefore
+        ) {
+          if (await sendPastDueEmail(supabaseAdmin, membership.id, false)) {
+            summary.reminded++;
+          }
+        }
+      } catch (membershipError) {
+        summary.errored++;
+        console.error(`Dunning failed for membership ${membership.id}:`, membershipError);
+      }
+    }
+
+    console.log('Dunning complete:', JSON.stringify(summary));
+    return new Response(JSON.stringify({ summary }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : String(error);
+    console.error('Dunning run failed:', errMsg);
+    return new Response(JSON.stringify({ error: errMsg, summary }), {
+      status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
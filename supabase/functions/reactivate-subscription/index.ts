@@ -0,0 +1,99 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import Stripe from 'https://esm.sh/stripe@14.21.0';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Undoes cancel-subscription while the cancellation is still pending, so the membership renews
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY') || '', {
+      apiVersion: '2023-10-16',
+    });
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    // Verify user authentication
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('No authorization header');
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    );
+
+    if (authError || !user) {
+      throw new Error('Unauthorized');
+    }
+
+    console.log('Reactivating subscription for user:', user.id);
+
+    // Get customer and membership data
+    const { data: customer } = await supabase
+      .from('customers')
+      .select('id')
+      .eq('user_id', user.id)
+      .single();
+
+    if (!customer) {
+      throw new Error('Customer not found');
+    }
+
+    const { data: membership } = await supabase
+      .from('memberships')
+      .select('stripe_subscription_id, id')
+      .eq('customer_id', customer.id)
+      .in('status', ['active', 'past_due'])
+      .single();
+
+    if (!membership?.stripe_subscription_id) {
+      throw new Error('No active subscription found');
+    }
+
+    const current = await stripe.subscriptions.retrieve(membership.stripe_subscription_id);
+
+    // Once the period has ended the subscription is gone and the member has to join again
+    if (current.status === 'canceled') {
+      throw new Error('This subscription has already ended');
+    }
+
+    if (!current.cancel_at_period_end) {
+      throw new Error('Subscription is not set to cancel');
+    }
+
+    const subscription = await stripe.subscriptions.update(
+      membership.stripe_subscription_id,
+      {
+        cancel_at_period_end: false,
+      }
+    );
+
+    console.log('Scheduled cancellation cleared:', subscription.id);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        current_period_end: subscription.current_period_end,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Error reactivating subscription:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+    );
+  }
+});
@@ -0,0 +1,195 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const requestSchema = z.object({
+  customer_id: z.string().uuid(),
+  quantity: z.number().int().min(1),
+  location_id: z.string().uuid(),
+  // Omitted by older clients; the location's default size is used
+  pour_size_id: z.string().uuid().optional(),
+  wine_id: z.string().uuid().optional(),
+  notes: z.string().max(1000).optional(),
+  source: z.enum(['qr', 'manual']).default('qr'),
+  is_guest: z.boolean().default(false),
+  guest_name: z.string().trim().max(200).optional(),
+  guest_email: z.string().trim().email().max(255).optional(),
+  // Set by the staff device's offline queue; rejections are then logged for a manager
+  idempotency_key: z.string().uuid().optional(),
+  captured_at: z.string().datetime().optional(),
+  offline_sync: z.boolean().default(false),
+  // Manager override of the responsible-service caps; logged with the caller
+  override_reason: z.string().trim().min(1).max(500).optional(),
+});
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    // Verify user authentication
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    );
+
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Only approved staff (or admins) may redeem pours
+    const { data: isStaff } = await supabaseAdmin.rpc('has_role', {
+      _user_id: user.id,
+      _role: 'staff',
+    });
+
+    if (!isStaff) {
+      console.warn('Non-staff pour redemption attempt:', user.id);
+      return new Response(JSON.stringify({ error: 'Access denied' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const validationResult = requestSchema.safeParse(await req.json());
+    if (!validationResult.success) {
+      console.error('Validation failed:', validationResult.error.format());
+      return new Response(JSON.stringify({ error: 'Invalid request data' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const {
+      customer_id, quantity, location_id, pour_size_id, wine_id, notes, source, is_guest, guest_name, guest_email,
+      idempotency_key, captured_at, offline_sync, override_reason,
+    } = validationResult.data;
+
+    if (override_reason) {
+      const { data: isAdmin } = await supabaseAdmin.rpc('is_admin', { _user_id: user.id });
+      if (!isAdmin) {
+        console.warn('Non-manager pour limit override attempt:', user.id);
+        return new Response(JSON.stringify({ error: 'Only a manager can override service limits' }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+    }
+    const referencePrefix = source === 'manual' ? 'MANUAL' : is_guest ? 'GUEST' : 'POUR';
+
+    // Lock, re-check the allowance and record the pour in a single transaction
+    const { data: result, error: redeemError } = await supabaseAdmin.rpc('redeem_pours', {
+      _customer_id: customer_id,
+      _quantity: quantity,
+      _location_id: location_id,
+      _staff_id: user.id,
+      _notes: notes || null,
+      _reference: `${referencePrefix}-${Date.now()}`,
+      _wine_id: wine_id || null,
+      _is_guest: is_guest,
+      _guest_name: is_guest ? guest_name || null : null,
+      _guest_email: is_guest ? guest_email || null : null,
+      _idempotency_key: idempotency_key || null,
+      _captured_at: captured_at || null,
+      _pour_size_id: pour_size_id || null,
+      _override_reason: override_reason || null,
+    });
+
+    if (redeemError) {
+      console.error('Error redeeming pours:', redeemError);
+      return new Response(JSON.stringify({ error: 'Failed to record pour' }), {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (!result.success) {
+      console.log(`Pour redemption rejected for customer=${customer_id}: ${result.message}`);
+
+      // Nobody is at the bar to see an error from a background resync, so hand it to a manager
+      let conflictLogged = false;
+      if (offline_sync && idempotency_key) {
+        const { error: conflictError } = await supabaseAdmin
+          .from('pour_sync_conflicts')
+          .upsert({
+            idempotency_key,
+            customer_id,
+            staff_id: user.id,
+            payload: validationResult.data,
+            reason: result.message,
+            captured_at: captured_at || new Date().toISOString(),
+          }, { onConflict: 'idempotency_key', ignoreDuplicates: true });
+
+        if (conflictError) {
+          console.error('Error logging pour sync conflict:', conflictError);
+        } else {
+          conflictLogged = true;
+        }
+      }
+
+      return new Response(
+        JSON.stringify({
+          error: result.message,
+          available_pours: result.available_pours ?? null,
+          available_guest_pours: result.available_guest_pours ?? null,
+          limit_exceeded: result.limit_exceeded ?? false,
+          limits: result.limits ?? null,
+          conflict_logged: conflictLogged,
+        }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // A manager retrying a logged conflict settles it
+    if (idempotency_key) {
+      await supabaseAdmin
+        .from('pour_sync_conflicts')
+        .update({ status: 'resolved', resolved_by: user.id, resolved_at: new Date().toISOString() })
+        .eq('idempotency_key', idempotency_key)
+        .eq('status', 'open');
+    }
+
+    console.log(`Pour redeemed: customer=${customer_id}, staff=${user.id}, quantity=${quantity}, cost=${result.allowance_cost ?? 'n/a'}, wine=${wine_id ?? 'none'}, guest=${is_guest}, override=${result.limit_overridden ?? false}`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        pour_id: result.pour_id,
+        allowance_cost: result.allowance_cost ?? null,
+        available_pours: result.available_pours,
+        available_guest_pours: result.available_guest_pours ?? null,
+        duplicate: result.duplicate ?? false,
+        limit_overridden: result.limit_overridden ?? false,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in redeem-pours:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
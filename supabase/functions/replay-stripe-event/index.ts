@@ -0,0 +1,130 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import Stripe from 'https://esm.sh/stripe@14.21.0';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+import { processStripeEvent, recordStripeEventOutcome } from '../_shared/stripe-events.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version',
+};
+
+// Re-runs one stored Stripe webhook event for an admin, using the payload recorded when it was received
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: req.headers.get('Authorization')! } } }
+    );
+
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    // Verify admin role
+    const { data: roleData } = await supabaseAdmin
+      .from('user_roles')
+      .select('role, is_approved')
+      .eq('user_id', user.id)
+      .single();
+
+    if (!roleData || roleData.role !== 'admin' || !roleData.is_approved) {
+      return new Response(JSON.stringify({ error: 'Admin access required' }), {
+        status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const stripeKey = Deno.env.get('STRIPE_SECRET_KEY');
+    if (!stripeKey) {
+      throw new Error('STRIPE_SECRET_KEY not configured');
+    }
+
+    const stripe = new Stripe(stripeKey, {
+      apiVersion: '2023-10-16',
+    });
+
+    const { event_id } = await req.json();
+    if (!event_id || typeof event_id !== 'string') {
+      return new Response(JSON.stringify({ error: 'event_id is required' }), {
+        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { data: stored, error: storedError } = await supabaseAdmin
+      .from('stripe_events')
+      .select('id, type, payload, status')
+      .eq('id', event_id)
+      .single();
+
+    if (storedError || !stored) {
+      return new Response(JSON.stringify({ error: 'Stripe event not found' }), {
+        status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Handlers are not safe to apply twice (a renewal resets the pour balance), so only an event
+    // that did not finish is re-run
+    if (stored.status === 'processed') {
+      return new Response(JSON.stringify({ error: 'This event was already processed. Only failed events can be re-run.' }), {
+        status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Claims a failed event, or one whose processing stopped without an outcome; one still in progress is left alone
+    const { data: claim, error: claimError } = await supabaseAdmin.rpc('claim_stripe_event', {
+      _event_id: stored.id,
+      _type: stored.type,
+      _payload: stored.payload,
+    });
+
+    if (claimError) {
+      console.error('Failed to claim Stripe event:', claimError);
+      throw new Error('Failed to claim event');
+    }
+
+    if (!claim.claimed) {
+      const message = claim.status === 'processed'
+        ? 'This event was already processed. Only failed events can be re-run.'
+        : 'This event is being processed right now. Try again in a few minutes.';
+      return new Response(JSON.stringify({ error: message }), {
+        status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    console.log(`Admin ${user.id} re-running Stripe event ${stored.id} (${stored.type}), attempt ${claim.attempts}`);
+
+    try {
+      await processStripeEvent(stored.payload as Stripe.Event, stripe, supabaseAdmin);
+    } catch (processError) {
+      await recordStripeEventOutcome(supabaseAdmin, stored.id, processError);
+      const errorMessage = processError instanceof Error ? processError.message : 'Unknown error';
+      return new Response(JSON.stringify({ success: false, error: errorMessage }), {
+        status: 422, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    await recordStripeEventOutcome(supabaseAdmin, stored.id, null);
+
+    return new Response(JSON.stringify({ success: true, attempts: claim.attempts }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error in replay-stripe-event:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
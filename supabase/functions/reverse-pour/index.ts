@@ -0,0 +1,124 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const requestSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('request'),
+    pour_id: z.string().uuid(),
+    reason: z.string().trim().min(1).max(500),
+  }),
+  z.object({
+    action: z.enum(['approve', 'reject']),
+    reversal_id: z.string().uuid(),
+  }),
+]);
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    // Verify user authentication
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    );
+
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const [{ data: isStaff }, { data: isAdmin }] = await Promise.all([
+      supabaseAdmin.rpc('has_role', { _user_id: user.id, _role: 'staff' }),
+      supabaseAdmin.rpc('is_admin', { _user_id: user.id }),
+    ]);
+
+    if (!isStaff) {
+      return new Response(JSON.stringify({ error: 'Access denied' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const validationResult = requestSchema.safeParse(await req.json());
+    if (!validationResult.success) {
+      console.error('Validation failed:', validationResult.error.format());
+      return new Response(JSON.stringify({ error: 'Invalid request data' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const body = validationResult.data;
+    let result;
+
+    if (body.action === 'request') {
+      // Admins void immediately; staff are limited to the configured window
+      const { data, error } = await supabaseAdmin.rpc('reverse_pour', {
+        _pour_id: body.pour_id,
+        _staff_id: user.id,
+        _reason: body.reason,
+        _bypass_window: !!isAdmin,
+      });
+      if (error) throw error;
+      result = data;
+    } else {
+      if (!isAdmin) {
+        return new Response(JSON.stringify({ error: 'Admin access required' }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const { data, error } = await supabaseAdmin.rpc('review_pour_reversal', {
+        _reversal_id: body.reversal_id,
+        _admin_id: user.id,
+        _approve: body.action === 'approve',
+      });
+      if (error) throw error;
+      result = data;
+    }
+
+    if (!result.success) {
+      console.log(`Pour reversal ${body.action} rejected: ${result.message}`);
+      return new Response(JSON.stringify({ error: result.message }), {
+        status: 409,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    console.log(`Pour reversal ${body.action}: status=${result.status}, by=${user.id}`);
+
+    return new Response(JSON.stringify(result), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error in reverse-pour:', error);
+    return new Response(JSON.stringify({ error: 'Unable to process request' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
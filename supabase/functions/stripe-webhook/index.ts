@@ -1,7 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import Stripe from 'https://esm.sh/stripe@14.21.0';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
-import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { processStripeEvent, recordStripeEventOutcome } from '../_shared/stripe-events.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -63,364 +63,47 @@ serve(async (req) => {
       );
     }
 
-    console.log('Processing webhook event:', event.type);
+    console.log('Processing webhook event:', event.type, event.id);
 
-    // Define validation schemas - no longer requires applicationId
-    const metadataSchema = z.object({
-      userId: z.string().uuid('Invalid user ID format'),
-      tierName: z.enum(['select', 'premier', 'elite', 'household'], {
-        errorMap: () => ({ message: 'Invalid tier name' })
-      }),
-      preferences: z.string().optional() // JSON string of preferences
+    // Stripe retries deliveries and may send the same event more than once. Record it and act
+    // on it only if it has not already been handled.
+    const { data: claim, error: claimError } = await supabase.rpc('claim_stripe_event', {
+      _event_id: event.id,
+      _type: event.type,
+      _payload: event,
     });
 
-    const stripeIdSchema = z.string().min(1, 'Invalid Stripe ID');
-
-    switch (event.type) {
-      case 'checkout.session.completed': {
-        const session = event.data.object as Stripe.Checkout.Session;
-        console.log('Checkout completed:', session.id);
-
-        // Validate metadata
-        const metadataResult = metadataSchema.safeParse(session.metadata);
-        if (!metadataResult.success) {
-          console.error('Metadata validation failed');
-          throw new Error('Invalid session metadata');
-        }
-
-        const { userId, tierName, preferences: preferencesJson } = metadataResult.data;
-
-        // Parse preferences from JSON string
-        let preferences = null;
-        if (preferencesJson) {
-          try {
-            preferences = JSON.parse(preferencesJson);
-          } catch (e) {
-            console.warn('Failed to parse preferences JSON:', e);
-          }
-        }
-
-        // Validate and retrieve subscription ID from session
-        const subscriptionIdResult = stripeIdSchema.safeParse(session.subscription);
-        const customerIdResult = stripeIdSchema.safeParse(session.customer);
-        
-        if (!subscriptionIdResult.success || !customerIdResult.success) {
-          throw new Error('Invalid Stripe subscription or customer ID');
-        }
-        
-        const subscriptionId = subscriptionIdResult.data;
-        const customerId = customerIdResult.data;
-
-        // Fetch tier definition for monthly_pours, monthly_price, and max_subscriptions
-        const { data: tier, error: tierError } = await supabase
-          .from('tier_definitions')
-          .select('monthly_pours, monthly_price, max_subscriptions')
-          .eq('tier_name', tierName)
-          .single();
-
-        if (tierError || !tier) {
-          console.error('Tier fetch failed');
-          throw new Error('Membership tier not found');
-        }
-
-        // Use atomic inventory locking for defense-in-depth check
-        const { data: reserveResult, error: reserveError } = await supabase
-          .rpc('reserve_tier_slot', { 
-            _tier_name: tierName, 
-            _user_id: userId 
-          });
-
-        if (reserveError) {
-          console.error('Error checking inventory with atomic lock:', reserveError);
-          // Continue processing - user already paid
-          console.warn('ALERT: Could not verify inventory - manual review may be needed');
-        } else if (!reserveResult.success) {
-          console.error(`Tier ${tierName} is at capacity (atomic check): ${reserveResult.current}/${reserveResult.max}`);
-          // Log but still process - user already paid. Admin will need to handle.
-          console.warn('ALERT: Subscription created for sold-out tier - manual review needed');
-        }
-
-        // Upsert customer record with preferences (handles both new signups and renewals)
-        const { data: customer, error: customerError } = await supabase
-          .from('customers')
-          .upsert({
-            user_id: userId,
-            tier: tierName,
-            member_since: new Date().toISOString().split('T')[0],
-            pours_balance: tier.monthly_pours,
-            status: 'active',
-            total_pours_lifetime: 0,
-            preferences: preferences, // Store wine preferences directly on customer
-          }, {
-            onConflict: 'user_id',
-            ignoreDuplicates: false
-          })
-          .select()
-          .single();
-
-        if (customerError) {
-          console.error('Failed to upsert customer:', customerError);
-          throw new Error('Failed to create/update customer record');
-        }
-
-        console.log('Customer upserted:', customer.id);
-
-        // Cancel any existing active memberships for this customer
-        await supabase
-          .from('memberships')
-          .update({ status: 'cancelled' })
-          .eq('customer_id', customer.id)
-          .eq('status', 'active');
-
-        // Get subscription to extract billing period
-        const subscription = await stripe.subscriptions.retrieve(subscriptionId);
-
-        // Create new membership record with billing period
-        const { error: membershipError } = await supabase
-          .from('memberships')
-          .insert({
-            customer_id: customer.id,
-            tier: tierName,
-            monthly_price: tier.monthly_price,
-            status: 'active',
-            start_date: new Date().toISOString().split('T')[0],
-            stripe_subscription_id: subscriptionId,
-            stripe_customer_id: customerId,
-            toast_reference_number: subscriptionId,
-            billing_period_start: new Date(subscription.current_period_start * 1000).toISOString(),
-            billing_period_end: new Date(subscription.current_period_end * 1000).toISOString()
-          });
-
-        if (membershipError) {
-          console.error('Failed to create membership:', membershipError);
-          throw new Error('Failed to create membership record');
-        }
-
-        console.log('Membership activated successfully for user:', userId);
-        break;
-      }
-
-      case 'customer.subscription.deleted': {
-        const subscription = event.data.object as Stripe.Subscription;
-        
-        // Validate subscription ID
-        const subIdResult = stripeIdSchema.safeParse(subscription.id);
-        if (!subIdResult.success) {
-          console.error('Invalid subscription ID');
-          break;
-        }
-        
-        console.log('Subscription cancelled:', subscription.id);
-
-        // Find membership by stripe_subscription_id
-        const { data: membership, error: fetchError } = await supabase
-          .from('memberships')
-          .select('customer_id')
-          .eq('stripe_subscription_id', subscription.id)
-          .single();
-
-        if (fetchError || !membership) {
-          console.error('Membership not found for subscription:', subscription.id);
-          break;
-        }
-
-        // Update membership status
-        const { error: membershipError } = await supabase
-          .from('memberships')
-          .update({ status: 'cancelled' })
-          .eq('stripe_subscription_id', subscription.id);
-
-        if (membershipError) {
-          console.error('Failed to update membership status:', membershipError);
-        }
-
-        // Update customer status
-        const { error: customerError } = await supabase
-          .from('customers')
-          .update({ status: 'inactive' })
-          .eq('id', membership.customer_id);
-
-        if (customerError) {
-          console.error('Failed to update customer status:', customerError);
-        }
-
-        console.log('Membership cancelled successfully');
-        break;
-      }
-
-      case 'invoice.payment_succeeded': {
-        const invoice = event.data.object as Stripe.Invoice;
-        console.log('Payment succeeded for invoice:', invoice.id);
-
-        // Validate subscription ID
-        const subIdResult = stripeIdSchema.safeParse(invoice.subscription);
-        if (!subIdResult.success) {
-          console.error('Invalid subscription ID in invoice');
-          break;
-        }
-        
-        const subscriptionId = subIdResult.data;
-
-        // Get subscription to extract billing period and current price
-        const subscription = await stripe.subscriptions.retrieve(subscriptionId);
-
-        // Find and update membership with new billing period (also fetch tier)
-        const { data: membership, error: fetchError } = await supabase
-          .from('memberships')
-          .select('id, customer_id, tier')
-          .eq('stripe_subscription_id', subscriptionId)
-          .eq('status', 'active')
-          .single();
-
-        if (fetchError || !membership) {
-          console.error('Membership not found for subscription:', subscriptionId);
-          break;
-        }
-
-        // Detect tier change: compare Stripe's current price ID against tier_definitions
-        const stripePriceId = subscription.items.data[0]?.price.id;
-        let resolvedTier = membership.tier;
-
-        if (stripePriceId) {
-          const { data: matchedTier, error: tierLookupError } = await supabase
-            .from('tier_definitions')
-            .select('tier_name, monthly_pours, monthly_price')
-            .eq('stripe_price_id', stripePriceId)
-            .single();
-
-          if (tierLookupError || !matchedTier) {
-            console.warn(`No tier_definition found for stripe_price_id=${stripePriceId}. Falling back to existing tier.`);
-          } else if (matchedTier.tier_name !== membership.tier) {
-            // Tier changed in Stripe! Update membership and customer
-            console.log(`Tier change detected: ${membership.tier} → ${matchedTier.tier_name} (price_id=${stripePriceId})`);
-            resolvedTier = matchedTier.tier_name;
-
-            // Update membership tier and price
-            await supabase
-              .from('memberships')
-              .update({ tier: matchedTier.tier_name, monthly_price: matchedTier.monthly_price })
-              .eq('id', membership.id);
-
-            // Update customer tier
-            await supabase
-              .from('customers')
-              .update({ tier: matchedTier.tier_name })
-              .eq('id', membership.customer_id);
-          }
-        }
-
-        // Fetch tier definition for monthly_pours (use resolved tier in case it changed)
-        const { data: tierDef, error: tierError } = await supabase
-          .from('tier_definitions')
-          .select('monthly_pours')
-          .eq('tier_name', resolvedTier)
-          .single();
-
-        if (tierError || !tierDef) {
-          console.error('Tier definition not found for tier:', resolvedTier);
-        }
-
-        const newPeriodStart = new Date(subscription.current_period_start * 1000).toISOString();
-        const newPeriodEnd = new Date(subscription.current_period_end * 1000).toISOString();
-
-        // Update membership with billing period from Stripe
-        const { error: membershipError } = await supabase
-          .from('memberships')
-          .update({
-            billing_period_start: newPeriodStart,
-            billing_period_end: newPeriodEnd
-          })
-          .eq('id', membership.id);
-
-        if (membershipError) {
-          console.error('Error updating membership billing period:', membershipError);
-        }
-
-        // Reset pours_balance and update last activity
-        const customerUpdate: Record<string, unknown> = { last_activity: new Date().toISOString() };
-        if (tierDef) {
-          customerUpdate.pours_balance = tierDef.monthly_pours;
-        }
-
-        await supabase
-          .from('customers')
-          .update(customerUpdate)
-          .eq('id', membership.customer_id);
-
-        console.log(`Renewal processed for customer ${membership.customer_id}: tier=${resolvedTier}, pours_balance reset to ${tierDef?.monthly_pours ?? 'unknown'}, period=${newPeriodStart} to ${newPeriodEnd}`);
-        break;
-      }
+    if (claimError) {
+      console.error('Failed to record Stripe event:', claimError);
+      throw new Error('Failed to record event');
+    }
 
-      case 'invoice.payment_failed': {
-        const invoice = event.data.object as Stripe.Invoice;
-        console.log('Payment failed for invoice:', invoice.id);
-        // Log for now - future: send notification to customer
-        break;
+    if (!claim.claimed) {
+      if (claim.status === 'processing') {
+        // Another delivery is handling it; Stripe will retry if that one fails
+        console.log(`Event ${event.id} is already being processed`);
+        return new Response(
+          JSON.stringify({ error: 'Event is already being processed' }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
       }
 
-      case 'customer.subscription.updated': {
-        const subscription = event.data.object as Stripe.Subscription;
-        console.log('Subscription updated:', subscription.id);
-
-        const stripePriceId = subscription.items.data[0]?.price.id;
-        if (!stripePriceId) {
-          console.warn('No price ID found on updated subscription');
-          break;
-        }
-
-        // Look up the tier matching this Stripe price
-        const { data: matchedTier, error: tierLookupError } = await supabase
-          .from('tier_definitions')
-          .select('tier_name, monthly_pours, monthly_price')
-          .eq('stripe_price_id', stripePriceId)
-          .single();
-
-        if (tierLookupError || !matchedTier) {
-          console.warn(`No tier_definition found for stripe_price_id=${stripePriceId}`);
-          break;
-        }
-
-        // Find active membership by stripe_subscription_id
-        const { data: membership, error: membershipError } = await supabase
-          .from('memberships')
-          .select('id, customer_id, tier')
-          .eq('stripe_subscription_id', subscription.id)
-          .eq('status', 'active')
-          .single();
-
-        if (membershipError || !membership) {
-          console.warn('No active membership found for subscription:', subscription.id);
-          break;
-        }
-
-        // Only update if tier actually changed
-        if (matchedTier.tier_name === membership.tier) {
-          console.log('Tier unchanged, skipping update');
-          break;
-        }
-
-        console.log(`Tier change detected: ${membership.tier} → ${matchedTier.tier_name}`);
-
-        // Update membership tier and price
-        await supabase
-          .from('memberships')
-          .update({ tier: matchedTier.tier_name, monthly_price: matchedTier.monthly_price })
-          .eq('id', membership.id);
-
-        // Update customer tier and reset pours to new allocation
-        await supabase
-          .from('customers')
-          .update({ tier: matchedTier.tier_name, pours_balance: matchedTier.monthly_pours })
-          .eq('id', membership.customer_id);
-
-        console.log(`Subscription ${subscription.id} synced: tier=${matchedTier.tier_name}, pours_balance=${matchedTier.monthly_pours}`);
-        break;
-      }
+      console.log(`Event ${event.id} already processed, skipping duplicate delivery`);
+      return new Response(
+        JSON.stringify({ received: true, duplicate: true }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
 
-      default:
-        console.log('Unhandled event type:', event.type);
+    try {
+      await processStripeEvent(event, stripe, supabase);
+    } catch (processError) {
+      await recordStripeEventOutcome(supabase, event.id, processError);
+      throw processError;
     }
 
+    await recordStripeEventOutcome(supabase, event.id, null);
+
     return new Response(
       JSON.stringify({ received: true }),
       {
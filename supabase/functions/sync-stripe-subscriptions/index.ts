@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { firstAllowancePeriodEnd, monthlyEquivalent, type BillingInterval } from '../_shared/tier-prices.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -14,6 +15,10 @@ interface SyncSummary {
   details: string[];
 }
 
+// Postgres and Stripe format the same timestamp differently, so compare instants
+const sameInstant = (stored: string | null, stripe: string) =>
+  stored !== null && new Date(stored).getTime() === new Date(stripe).getTime();
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -70,12 +75,12 @@ serve(async (req) => {
   const summary: SyncSummary = { processed: 0, updated: 0, skipped: 0, errored: 0, details: [] };
 
   try {
-    // Get all active memberships with a Stripe subscription ID
+    // Get all current (active or past-due) memberships with a Stripe subscription ID
     const { data: memberships, error: fetchError } = await supabaseAdmin
       .from('memberships')
-      .select('id, customer_id, tier, monthly_price, billing_period_start, billing_period_end, stripe_subscription_id, status')
+      .select('id, customer_id, tier, monthly_price, billing_interval, tier_price_id, billing_period_start, billing_period_end, subscription_period_start, subscription_period_end, stripe_subscription_id, status')
       .not('stripe_subscription_id', 'is', null)
-      .eq('status', 'active');
+      .in('status', ['active', 'past_due']);
 
     if (fetchError) throw fetchError;
     if (!memberships || memberships.length === 0) {
@@ -89,20 +94,19 @@ serve(async (req) => {
       });
     }
 
-    // Get tier definitions for price_id -> tier mapping
-    const { data: tierDefs } = await supabaseAdmin
-      .from('tier_definitions')
-      .select('tier_name, monthly_pours, monthly_price, stripe_price_id');
-
-    const priceIdToTier = new Map<string, { tier_name: string; monthly_pours: number; monthly_price: number }>();
-    for (const td of tierDefs || []) {
-      if (td.stripe_price_id) {
-        priceIdToTier.set(td.stripe_price_id, {
-          tier_name: td.tier_name,
-          monthly_pours: td.monthly_pours,
-          monthly_price: Number(td.monthly_price),
-        });
-      }
+    // Get tier prices for price_id -> tier mapping, including retired prices still being billed
+    const { data: tierPrices } = await supabaseAdmin
+      .from('tier_prices')
+      .select('id, tier_name, interval, amount, stripe_price_id');
+
+    const priceIdToTier = new Map<string, { id: string; tier_name: string; interval: BillingInterval; monthly_price: number }>();
+    for (const tp of tierPrices || []) {
+      priceIdToTier.set(tp.stripe_price_id, {
+        id: tp.id,
+        tier_name: tp.tier_name,
+        interval: tp.interval,
+        monthly_price: monthlyEquivalent(Number(tp.amount), tp.interval),
+      });
     }
 
     // Process each membership
@@ -144,29 +148,52 @@ serve(async (req) => {
         const stripePriceId = sub.items?.data?.[0]?.price?.id;
         const stripeStatus = sub.status;
 
-        // Check billing period
-        if (stripePeriodStart && membership.billing_period_start !== stripePeriodStart) {
-          changes.billing_period_start = { old: membership.billing_period_start, new: stripePeriodStart };
-        }
-        if (stripePeriodEnd && membership.billing_period_end !== stripePeriodEnd) {
-          changes.billing_period_end = { old: membership.billing_period_end, new: stripePeriodEnd };
-        }
-
-        // Check tier via price_id
+        // Check tier and billing interval via price_id
         let newTier: string | null = null;
-        let newPrice: number | null = null;
-        if (stripePriceId && priceIdToTier.has(stripePriceId)) {
-          const tierInfo = priceIdToTier.get(stripePriceId)!;
+        const tierInfo = stripePriceId ? priceIdToTier.get(stripePriceId) : undefined;
+        const interval = tierInfo?.interval ?? membership.billing_interval;
+        if (tierInfo) {
           if (tierInfo.tier_name !== membership.tier) {
             changes.tier = { old: membership.tier, new: tierInfo.tier_name };
             newTier = tierInfo.tier_name;
           }
           if (tierInfo.monthly_price !== Number(membership.monthly_price)) {
             changes.monthly_price = { old: Number(membership.monthly_price), new: tierInfo.monthly_price };
-            newPrice = tierInfo.monthly_price;
+          }
+          if (tierInfo.interval !== membership.billing_interval) {
+            changes.billing_interval = { old: membership.billing_interval, new: tierInfo.interval };
+          }
+          if (tierInfo.id !== membership.tier_price_id) {
+            changes.tier_price_id = { old: membership.tier_price_id, new: tierInfo.id };
           }
         }
 
+        // Check the paid term. A new term means a missed renewal, which also starts a fresh
+        // allowance period; within an annual term advance_pour_allowance_periods moves the
+        // allowance on, so it is left alone.
+        const termStart = membership.subscription_period_start ?? membership.billing_period_start;
+        const termEnd = membership.subscription_period_end ?? membership.billing_period_end;
+        if (stripePeriodStart && !sameInstant(termStart, stripePeriodStart)) {
+          changes.subscription_period_start = { old: termStart, new: stripePeriodStart };
+        }
+        if (stripePeriodEnd && !sameInstant(termEnd, stripePeriodEnd)) {
+          changes.subscription_period_end = { old: termEnd, new: stripePeriodEnd };
+        }
+
+        if (changes.subscription_period_start && stripePeriodEnd) {
+          const allowanceEnd = firstAllowancePeriodEnd(
+            new Date(stripePeriodStart!),
+            new Date(stripePeriodEnd),
+            interval,
+          ).toISOString();
+          changes.billing_period_start = { old: membership.billing_period_start, new: stripePeriodStart };
+          if (!sameInstant(membership.billing_period_end, allowanceEnd)) {
+            changes.billing_period_end = { old: membership.billing_period_end, new: allowanceEnd };
+          }
+        } else if (changes.subscription_period_end && interval === 'month') {
+          changes.billing_period_end = { old: membership.billing_period_end, new: stripePeriodEnd };
+        }
+
         // Check if Stripe subscription is cancelled/past_due
         if (stripeStatus === 'canceled' || stripeStatus === 'unpaid') {
           changes.status = { old: membership.status, new: 'cancelled' };
@@ -185,10 +212,33 @@ serve(async (req) => {
           continue;
         }
 
+        // A missed renewal still closes out the previous period's rollover
+        if (
+          changes.billing_period_start &&
+          membership.billing_period_start &&
+          membership.billing_period_end &&
+          new Date(stripePeriodStart!).getTime() > new Date(membership.billing_period_start).getTime()
+        ) {
+          const { data: rollover, error: rolloverError } = await supabaseAdmin.rpc('apply_pour_rollover', {
+            _customer_id: membership.customer_id,
+            _tier: membership.tier,
+            _period_start: membership.billing_period_start,
+            _period_end: membership.billing_period_end,
+          });
+          if (rolloverError || !rollover?.success) {
+            throw new Error(`Rollover failed: ${rolloverError?.message || rollover?.message}`);
+          }
+          changes.rollover_pours = { old: null, new: rollover.carried_pours };
+        }
+
         // Apply membership updates
         const membershipUpdate: Record<string, unknown> = {};
         if (changes.billing_period_start) membershipUpdate.billing_period_start = changes.billing_period_start.new;
         if (changes.billing_period_end) membershipUpdate.billing_period_end = changes.billing_period_end.new;
+        if (changes.subscription_period_start) membershipUpdate.subscription_period_start = changes.subscription_period_start.new;
+        if (changes.subscription_period_end) membershipUpdate.subscription_period_end = changes.subscription_period_end.new;
+        if (changes.billing_interval) membershipUpdate.billing_interval = changes.billing_interval.new;
+        if (changes.tier_price_id) membershipUpdate.tier_price_id = changes.tier_price_id.new;
         if (changes.tier) membershipUpdate.tier = changes.tier.new;
         if (changes.monthly_price) membershipUpdate.monthly_price = changes.monthly_price.new;
         if (changes.status) membershipUpdate.status = changes.status.new;
@@ -1,12 +1,23 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
 import * as jose from 'https://deno.land/x/jose@v5.2.0/index.ts';
+import { loadQrKeys, QR_TOKEN_ALG } from '../_shared/qr-signing-keys.ts';
+import { parseQrValue, QR_TOTP_PERIOD_SECONDS, totpCode, totpStep } from '../_shared/qr-totp.ts';
+import { normalizeMemberCode } from '../_shared/member-code.ts';
+import { parseWalletPassValue } from '../_shared/wallet-pass.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// Offline scans are reconciled once the staff device reconnects, judged as of when they were scanned.
+// Token claims (consume_qr_token) and retired signing keys (RETIRED_GRACE_MS) are kept at least this long.
+const MAX_RECONCILE_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Rotating codes one step either side of the server's clock count as live, allowing for phone clock drift
+const TOTP_DRIFT_STEPS = 1;
+
 // Rate limiting configuration
 const RATE_LIMIT_WINDOW_MS = 60000; // 1 minute
 const MAX_REQUESTS_PER_WINDOW = 30;
@@ -124,28 +135,109 @@ serve(async (req) => {
       );
     }
 
-    const { token } = await req.json();
+    const { token: qrValue, scanned_at } = await req.json();
 
-    if (!token) {
+    if (!qrValue) {
       return new Response(JSON.stringify({ error: 'Token required' }), {
         status: 400,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
     }
 
-    // Verify JWT token
-    const secret = new TextEncoder().encode(
-      Deno.env.get('SUPABASE_JWT_SECRET') ?? Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-    );
+    const scannedAt = scanned_at ? new Date(scanned_at) : null;
+    if (scannedAt && (
+      isNaN(scannedAt.getTime())
+      || scannedAt.getTime() > Date.now() + 60 * 1000
+      || scannedAt.getTime() < Date.now() - MAX_RECONCILE_AGE_MS
+    )) {
+      return new Response(JSON.stringify({ error: 'Invalid scan time' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // A typed member code stands in for the token it was issued with, which is then checked as if scanned
+    const memberCode = normalizeMemberCode(qrValue);
+    let issuedToken: string | null = null;
+    if (memberCode) {
+      const { data: issued } = await supabaseAdmin
+        .from('qr_short_codes')
+        .select('token')
+        .eq('code', memberCode)
+        .maybeSingle();
+
+      if (!issued) {
+        await supabaseAdmin.from('qr_verification_logs').insert({
+          customer_id: null,
+          staff_id: user.id,
+          token_jti: null,
+          verification_result: 'invalid',
+          ip_address: clientIp,
+          scanned_at: scannedAt?.toISOString() ?? null,
+        });
+
+        return new Response(JSON.stringify({ error: 'Member code not recognised' }), {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+      issuedToken = issued.token;
+    }
+
+    // A wallet pass barcode is static, so it is looked up instead of verified as a signed token.
+    // It has no rotating code, so claim_wallet_pass_scan limits how often it scans instead.
+    const walletPass = parseWalletPassValue(qrValue);
+    let walletPayload: jose.JWTPayload | null = null;
+    if (walletPass) {
+      const { data: pass } = await supabaseAdmin
+        .from('wallet_passes')
+        .select('serial, secret, user_id, customer_id, revoked_at')
+        .eq('serial', walletPass.serial)
+        .maybeSingle();
+
+      if (!pass || pass.secret !== walletPass.secret || pass.revoked_at) {
+        await supabaseAdmin.from('qr_verification_logs').insert({
+          customer_id: pass?.customer_id ?? null,
+          member_user_id: pass?.user_id ?? null,
+          staff_id: user.id,
+          token_jti: `wallet:${walletPass.serial}`,
+          verification_result: 'invalid',
+          ip_address: clientIp,
+          scanned_at: scannedAt?.toISOString() ?? null,
+        });
+
+        return new Response(
+          JSON.stringify({ error: pass?.revoked_at ? 'This wallet pass has been replaced' : 'Wallet pass not recognised' }),
+          { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      walletPayload = { customer_id: pass.customer_id, user_id: pass.user_id, jti: `wallet:${pass.serial}` };
+    }
+
+    // The QR carries the signed token plus the rotating code the member's screen showed
+    const { token, step: shownStep, code: shownCode } = issuedToken
+      ? { token: issuedToken, step: null, code: null }
+      : parseQrValue(qrValue);
+
+    // Verify the ES256 signature against the published QR keys
+    const { published } = await loadQrKeys(supabaseAdmin);
+    const jwks = jose.createLocalJWKSet({ keys: published });
 
     try {
-      const { payload } = await jose.jwtVerify(token, secret);
+      const { payload } = walletPayload
+        ? { payload: walletPayload }
+        : await jose.jwtVerify(token, jwks, {
+          algorithms: [QR_TOKEN_ALG],
+          currentDate: scannedAt ?? undefined,
+        });
       const tokenJti = payload.jti || `${payload.customer_id}-${payload.iat}`;
+      // Which household member's code this is; multi-device checks compare scans per member
+      const memberUserId = (payload.user_id as string) ?? null;
 
       // Verify customer still exists and is active (use admin client)
       const { data: customer, error: customerError } = await supabaseAdmin
         .from('customers')
-        .select('id, tier, status, user_id, secondary_user_id, pours_balance')
+        .select('id, tier, status, user_id, secondary_user_id, pours_balance, qr_suspended_at')
         .eq('id', payload.customer_id as string)
         .eq('status', 'active')
         .single();
@@ -154,10 +246,12 @@ serve(async (req) => {
         // Log failed verification
         await supabaseAdmin.from('qr_verification_logs').insert({
           customer_id: payload.customer_id as string,
+          member_user_id: memberUserId,
           staff_id: user.id,
           token_jti: tokenJti,
           verification_result: 'failed',
           ip_address: clientIp,
+          scanned_at: scannedAt?.toISOString() ?? null,
         });
         
         return new Response(JSON.stringify({ error: 'Customer not found or inactive' }), {
@@ -166,14 +260,210 @@ serve(async (req) => {
         });
       }
 
+      // An admin has suspended this member's QR after reviewing suspicious scans
+      if (customer.qr_suspended_at) {
+        await supabaseAdmin.from('qr_verification_logs').insert({
+          customer_id: customer.id,
+          member_user_id: memberUserId,
+          staff_id: user.id,
+          token_jti: tokenJti,
+          verification_result: 'suspended',
+          ip_address: clientIp,
+          scanned_at: scannedAt?.toISOString() ?? null,
+        });
+
+        return new Response(
+          JSON.stringify({ error: 'This member\'s QR code is suspended. Please ask a manager.', qr_suspended: true }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // A code for the current time step means a live screen; a valid code for an older step is a capture.
+      // Member codes carry no rotating code and rely on their own expiry and single use instead.
+      let stepsBehind: number | null = 0;
+      if (!memberCode && !walletPass) {
+        const { data: totpSecret } = await supabaseAdmin
+          .from('qr_totp_secrets')
+          .select('secret')
+          .eq('user_id', payload.user_id as string)
+          .maybeSingle();
+        const codeValid = !!totpSecret && shownStep !== null && shownCode !== null
+          && await totpCode(totpSecret.secret, shownStep) === shownCode;
+        stepsBehind = codeValid ? totpStep(scannedAt?.getTime() ?? Date.now()) - shownStep! : null;
+      }
+
+      if (stepsBehind === null || stepsBehind < -TOTP_DRIFT_STEPS) {
+        await supabaseAdmin.from('qr_verification_logs').insert({
+          customer_id: customer.id,
+          member_user_id: memberUserId,
+          staff_id: user.id,
+          token_jti: tokenJti,
+          verification_result: 'invalid',
+          ip_address: clientIp,
+          scanned_at: scannedAt?.toISOString() ?? null,
+        });
+
+        return new Response(JSON.stringify({ error: 'This is not a live membership code' }), {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      if (stepsBehind > TOTP_DRIFT_STEPS) {
+        await supabaseAdmin.from('qr_verification_logs').insert({
+          customer_id: customer.id,
+          member_user_id: memberUserId,
+          staff_id: user.id,
+          token_jti: tokenJti,
+          verification_result: 'stale',
+          ip_address: clientIp,
+          scanned_at: scannedAt?.toISOString() ?? null,
+        });
+
+        console.warn(`QR stale capture: customer=${customer.id}, staff=${user.id}, ${stepsBehind} steps old`);
+
+        return new Response(
+          JSON.stringify({
+            error: 'This QR code is from an old capture',
+            stale_capture: true,
+            shown_at: new Date(shownStep! * QR_TOTP_PERIOD_SECONDS * 1000).toISOString(),
+          }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // A wallet pass scans again on later visits, but not straight after itself or past its daily cap
+      if (walletPass) {
+        const { data: claim, error: claimError } = await supabaseAdmin.rpc('claim_wallet_pass_scan', {
+          _serial: walletPass.serial,
+          _staff_id: user.id,
+          _scanned_at: scannedAt?.toISOString() ?? null,
+        });
+
+        if (claimError) {
+          console.error('Wallet pass scan claim failed:', claimError);
+          return new Response(JSON.stringify({ error: 'Unable to process request' }), {
+            status: 500,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+
+        if (!claim.success) {
+          await supabaseAdmin.from('qr_verification_logs').insert({
+            customer_id: customer.id,
+            member_user_id: memberUserId,
+            staff_id: user.id,
+            token_jti: tokenJti,
+            verification_result: claim.reason === 'cooldown' ? 'replayed' : 'invalid',
+            ip_address: clientIp,
+            scanned_at: scannedAt?.toISOString() ?? null,
+          });
+
+          if (claim.reason !== 'cooldown') {
+            return new Response(
+              JSON.stringify({ error: claim.message, wallet_pass_limit: true }),
+              { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+          }
+
+          const { data: firstScanner } = await supabaseAdmin
+            .from('profiles')
+            .select('first_name, last_name')
+            .eq('id', claim.used_by)
+            .maybeSingle();
+
+          console.warn(`Wallet pass rescanned within cooldown: customer=${customer.id}, staff=${user.id}, jti=${tokenJti}`);
+
+          return new Response(
+            JSON.stringify({
+              error: claim.message,
+              already_used: true,
+              used_at: claim.used_at,
+              used_by_name: firstScanner
+                ? `${firstScanner.first_name || ''} ${firstScanner.last_name || ''}`.trim() || null
+                : null,
+            }),
+            { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+      }
+
+      // Claim the token so a screenshot of it cannot be scanned again
+      if (!walletPass) {
+        const { data: consumeResult, error: consumeError } = await supabaseAdmin.rpc('consume_qr_token', {
+          _jti: tokenJti,
+          _customer_id: customer.id,
+          _staff_id: user.id,
+          _expires_at: new Date((payload.exp as number) * 1000).toISOString(),
+        });
+
+        if (consumeError) {
+          console.error('QR token claim failed:', consumeError);
+          return new Response(JSON.stringify({ error: 'Unable to process request' }), {
+            status: 500,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+
+        if (!consumeResult.success) {
+          await supabaseAdmin.from('qr_verification_logs').insert({
+            customer_id: customer.id,
+            member_user_id: memberUserId,
+            staff_id: user.id,
+            token_jti: tokenJti,
+            verification_result: 'replayed',
+            ip_address: clientIp,
+            scanned_at: scannedAt?.toISOString() ?? null,
+          });
+
+          const { data: firstScanner } = await supabaseAdmin
+            .from('profiles')
+            .select('first_name, last_name')
+            .eq('id', consumeResult.used_by)
+            .maybeSingle();
+
+          console.warn(`QR replay: customer=${customer.id}, staff=${user.id}, jti=${tokenJti}`);
+
+          return new Response(
+            JSON.stringify({
+              error: consumeResult.message,
+              already_used: true,
+              used_at: consumeResult.used_at,
+              used_by_name: firstScanner
+                ? `${firstScanner.first_name || ''} ${firstScanner.last_name || ''}`.trim() || null
+                : null,
+            }),
+            { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+      }
+
       // Get accurate available pours via RPC
       const { data: livePoursResult } = await supabaseAdmin
         .rpc('get_available_pours', { customer_uuid: customer.id });
       const livePours = typeof livePoursResult === 'number' ? livePoursResult : customer.pours_balance;
 
+      // Service caps at the scanning staff member's usual location, so the result can warn up front
+      const { data: staffProfile } = await supabaseAdmin
+        .from('profiles')
+        .select('default_location_id')
+        .eq('id', user.id)
+        .maybeSingle();
+      const { data: pourLimits } = await supabaseAdmin.rpc('get_pour_limit_status', {
+        _customer_id: customer.id,
+        _location_id: staffProfile?.default_location_id ?? null,
+      });
+
+      // A paused member is shown as such; redeem_pours refuses their pours until the resume date
+      const { data: pausedUntil } = await supabaseAdmin.rpc('get_membership_paused_until', {
+        _customer_id: customer.id,
+      });
+
       // Get profile data - use the user_id from the token payload to show correct name
       // (could be primary or secondary user)
-      const isSecondary = payload.is_secondary as boolean;
+      const isSecondary = walletPass
+        ? payload.user_id === customer.secondary_user_id
+        : payload.is_secondary as boolean;
       const profileUserId = isSecondary ? customer.secondary_user_id : customer.user_id;
       
       const { data: profile } = await supabaseAdmin
@@ -185,13 +475,15 @@ serve(async (req) => {
       // Log successful verification
       await supabaseAdmin.from('qr_verification_logs').insert({
         customer_id: customer.id,
+        member_user_id: memberUserId,
         staff_id: user.id,
         token_jti: tokenJti,
-        verification_result: 'success',
+        verification_result: scannedAt ? 'success_offline' : 'success',
         ip_address: clientIp,
+        scanned_at: scannedAt?.toISOString() ?? null,
       });
       
-      console.log(`QR verified: customer=${customer.id}, staff=${user.id}`);
+      console.log(`QR verified: customer=${customer.id}, staff=${user.id}${scannedAt ? `, scanned offline at ${scannedAt.toISOString()}` : ''}`);
 
       return new Response(
         JSON.stringify({ 
@@ -200,9 +492,12 @@ serve(async (req) => {
             id: customer.id,
             tier: customer.tier,
             pours_balance: livePours,
+            pour_limits: pourLimits ?? null,
             first_name: profile?.first_name,
             last_name: profile?.last_name,
             is_secondary: isSecondary,
+            live_code: !memberCode && !walletPass,
+            paused_until: pausedUntil ?? null,
           }
         }),
         {
@@ -212,26 +507,28 @@ serve(async (req) => {
     } catch (jwtError) {
       console.error('JWT verification failed');
       
-      // Log invalid/expired token attempt
+      // Log invalid/expired token attempt; bursts of these from one IP are flagged for review
+      let decoded: jose.JWTPayload | null = null;
       try {
         // Try to decode without verification to get customer_id for logging
-        const decoded = jose.decodeJwt(token);
-        if (decoded.customer_id) {
-          await supabaseAdmin.from('qr_verification_logs').insert({
-            customer_id: decoded.customer_id as string,
-            staff_id: user.id,
-            token_jti: decoded.jti || `${decoded.customer_id}-${decoded.iat}`,
-            verification_result: 'expired',
-            ip_address: clientIp,
-          });
-        }
+        decoded = jose.decodeJwt(token);
       } catch (decodeError) {
-        // Token is completely invalid, can't log customer_id
+        // Token is completely invalid, so it is logged without a member
         console.error('Could not decode invalid token for logging');
       }
+
+      await supabaseAdmin.from('qr_verification_logs').insert({
+        customer_id: (decoded?.customer_id as string) ?? null,
+        member_user_id: (decoded?.user_id as string) ?? null,
+        staff_id: user.id,
+        token_jti: decoded ? decoded.jti || `${decoded.customer_id}-${decoded.iat}` : null,
+        verification_result: jwtError instanceof jose.errors.JWTExpired ? 'expired' : 'invalid',
+        ip_address: clientIp,
+        scanned_at: scannedAt?.toISOString() ?? null,
+      });
       
       return new Response(
-        JSON.stringify({ error: 'Invalid token' }),
+        JSON.stringify({ error: memberCode ? 'This member code has expired' : 'Invalid token' }),
         {
           status: 401,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -63,7 +63,7 @@ serve(async (req) => {
     // Get membership with Stripe subscription ID
     const { data: membership } = await supabase
       .from('memberships')
-      .select('stripe_subscription_id, status, customer_id')
+      .select('id, stripe_subscription_id, status, customer_id')
       .eq('customer_id', customer.id)
       .order('created_at', { ascending: false })
       .limit(1)
@@ -83,8 +83,30 @@ serve(async (req) => {
     // Fetch subscription from Stripe
     const subscription = await stripe.subscriptions.retrieve(membership.stripe_subscription_id);
 
+    // Paid since the membership went past due, but the webhook has not caught up yet
+    if ((subscription.status === 'active' || subscription.status === 'trialing') && membership.status === 'past_due') {
+      const { error: clearError } = await supabase.rpc('clear_membership_past_due', {
+        _membership_id: membership.id,
+      });
+
+      if (clearError) {
+        throw new Error('Failed to clear past-due state');
+      }
+
+      return new Response(
+        JSON.stringify({
+          status: 'updated',
+          message: 'Subscription status synchronized with Stripe',
+          stripeStatus: subscription.status,
+          localStatus: 'active',
+          previousLocalStatus: membership.status,
+        }),
+        { status: 200, headers: corsHeaders }
+      );
+    }
+
     // Map Stripe status to our membership status
-    let dbStatus: 'active' | 'cancelled' | 'expired';
+    let dbStatus: 'active' | 'cancelled' | 'expired' | 'past_due';
     let customerStatus: 'active' | 'inactive' | 'suspended';
 
     if (subscription.status === 'active' || subscription.status === 'trialing') {
@@ -93,7 +115,11 @@ serve(async (req) => {
     } else if (subscription.status === 'canceled' || subscription.status === 'unpaid') {
       dbStatus = 'cancelled';
       customerStatus = 'inactive';
-    } else if (subscription.status === 'past_due' || subscription.status === 'incomplete' || subscription.status === 'incomplete_expired') {
+    } else if (subscription.status === 'past_due') {
+      // The grace period and any suspension are managed by stripe-webhook and process-dunning
+      dbStatus = membership.status;
+      customerStatus = customer.status;
+    } else if (subscription.status === 'incomplete' || subscription.status === 'incomplete_expired') {
       dbStatus = 'expired';
       customerStatus = 'inactive';
     } else {
@@ -0,0 +1,321 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import * as jose from 'https://deno.land/x/jose@v5.2.0/index.ts';
+import forge from 'https://esm.sh/node-forge@1.3.1';
+import JSZip from 'https://esm.sh/jszip@3.10.1';
+import { composeWalletPassValue } from '../_shared/wallet-pass.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const ORGANIZATION_NAME = 'Vino Sabor Reserve Club';
+const BACKGROUND_COLOR = 'rgb(10, 10, 10)';
+const FOREGROUND_COLOR = 'rgb(255, 255, 255)';
+const LABEL_COLOR = 'rgb(223, 172, 42)';
+
+interface PassMember {
+  serial: string;
+  barcode: string;
+  name: string;
+  tier: string;
+  member_since: string;
+}
+
+// Secrets may be stored with literal "\n" sequences, as most secret stores keep values on one line
+const readPem = (name: string) => Deno.env.get(name)?.replace(/\\n/g, '\n') || null;
+
+/**
+ * Pass signing settings come from secrets so a test certificate can be used locally and the
+ * club's own in production. Returns null when the platform has not been set up.
+ */
+function appleConfig() {
+  const config = {
+    passTypeId: Deno.env.get('APPLE_PASS_TYPE_ID'),
+    teamId: Deno.env.get('APPLE_TEAM_ID'),
+    certPem: readPem('APPLE_PASS_CERT_PEM'),
+    keyPem: readPem('APPLE_PASS_KEY_PEM'),
+    keyPassphrase: Deno.env.get('APPLE_PASS_KEY_PASSPHRASE') || null,
+    wwdrPem: readPem('APPLE_WWDR_CERT_PEM'),
+  };
+  return config.passTypeId && config.teamId && config.certPem && config.keyPem && config.wwdrPem ? config : null;
+}
+
+function googleConfig() {
+  const config = {
+    issuerId: Deno.env.get('GOOGLE_WALLET_ISSUER_ID'),
+    classSuffix: Deno.env.get('GOOGLE_WALLET_CLASS_SUFFIX') || 'membership',
+    serviceAccountEmail: Deno.env.get('GOOGLE_WALLET_SERVICE_ACCOUNT_EMAIL'),
+    privateKeyPem: readPem('GOOGLE_WALLET_PRIVATE_KEY_PEM'),
+  };
+  return config.issuerId && config.serviceAccountEmail && config.privateKeyPem ? config : null;
+}
+
+async function sha1Hex(bytes: Uint8Array): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-1', bytes));
+  return Array.from(digest, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Detached PKCS #7 signature over manifest.json, signed by the pass type certificate and chained to Apple's WWDR certificate
+function signManifest(manifest: Uint8Array, config: NonNullable<ReturnType<typeof appleConfig>>): Uint8Array {
+  const certificate = forge.pki.certificateFromPem(config.certPem!);
+  const key = config.keyPassphrase
+    ? forge.pki.decryptRsaPrivateKey(config.keyPem!, config.keyPassphrase)
+    : forge.pki.privateKeyFromPem(config.keyPem!);
+  if (!key) throw new Error('Unable to read the Apple pass signing key');
+
+  const p7 = forge.pkcs7.createSignedData();
+  p7.content = forge.util.createBuffer(new TextDecoder().decode(manifest), 'utf8');
+  p7.addCertificate(certificate);
+  p7.addCertificate(forge.pki.certificateFromPem(config.wwdrPem!));
+  p7.addSigner({
+    key,
+    certificate,
+    digestAlgorithm: forge.pki.oids.sha256,
+    authenticatedAttributes: [
+      { type: forge.pki.oids.contentType, value: forge.pki.oids.data },
+      { type: forge.pki.oids.messageDigest },
+      { type: forge.pki.oids.signingTime, value: new Date() },
+    ],
+  });
+  p7.sign({ detached: true });
+
+  const der = forge.asn1.toDer(p7.toAsn1()).getBytes();
+  return Uint8Array.from(der, (c: string) => c.charCodeAt(0));
+}
+
+async function buildApplePass(member: PassMember, config: NonNullable<ReturnType<typeof appleConfig>>, siteUrl: string) {
+  const passJson = {
+    formatVersion: 1,
+    passTypeIdentifier: config.passTypeId,
+    teamIdentifier: config.teamId,
+    serialNumber: member.serial,
+    organizationName: ORGANIZATION_NAME,
+    description: `${ORGANIZATION_NAME} membership`,
+    logoText: ORGANIZATION_NAME,
+    backgroundColor: BACKGROUND_COLOR,
+    foregroundColor: FOREGROUND_COLOR,
+    labelColor: LABEL_COLOR,
+    storeCard: {
+      primaryFields: [{ key: 'name', label: 'MEMBER', value: member.name }],
+      secondaryFields: [{ key: 'tier', label: 'TIER', value: member.tier }],
+      auxiliaryFields: [{
+        key: 'member_since',
+        label: 'MEMBER SINCE',
+        value: member.member_since,
+        dateStyle: 'PKDateStyleMedium',
+        timeStyle: 'PKDateStyleNone',
+      }],
+    },
+    barcodes: [{ format: 'PKBarcodeFormatQR', message: member.barcode, messageEncoding: 'iso-8859-1' }],
+  };
+
+  // The app's own icon, as deployed, doubles as the pass icon and logo
+  const iconResponse = await fetch(`${siteUrl}/apple-touch-icon.png`);
+  if (!iconResponse.ok) throw new Error(`Unable to fetch pass icon: ${iconResponse.status}`);
+  const icon = new Uint8Array(await iconResponse.arrayBuffer());
+
+  const files: Record<string, Uint8Array> = {
+    'pass.json': new TextEncoder().encode(JSON.stringify(passJson)),
+    'icon.png': icon,
+    'icon@2x.png': icon,
+    'logo.png': icon,
+  };
+
+  const manifest: Record<string, string> = {};
+  for (const [name, bytes] of Object.entries(files)) {
+    manifest[name] = await sha1Hex(bytes);
+  }
+  const manifestBytes = new TextEncoder().encode(JSON.stringify(manifest));
+
+  const zip = new JSZip();
+  for (const [name, bytes] of Object.entries(files)) {
+    zip.file(name, bytes);
+  }
+  zip.file('manifest.json', manifestBytes);
+  zip.file('signature', signManifest(manifestBytes, config));
+
+  return await zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+}
+
+// A "Save to Google Wallet" link: the pass object travels inside a JWT signed by the issuer's service account
+async function buildGooglePass(member: PassMember, config: NonNullable<ReturnType<typeof googleConfig>>, siteUrl: string) {
+  const classId = `${config.issuerId}.${config.classSuffix}`;
+  const object = {
+    id: `${config.issuerId}.${member.serial}`,
+    classId,
+    state: 'ACTIVE',
+    hexBackgroundColor: '#0a0a0a',
+    logo: { sourceUri: { uri: `${siteUrl}/web-app-manifest-192x192.png` } },
+    cardTitle: { defaultValue: { language: 'en-US', value: ORGANIZATION_NAME } },
+    header: { defaultValue: { language: 'en-US', value: member.name } },
+    subheader: { defaultValue: { language: 'en-US', value: 'Member' } },
+    textModulesData: [
+      { id: 'tier', header: 'Tier', body: member.tier },
+      {
+        id: 'member_since',
+        header: 'Member since',
+        body: new Date(member.member_since).toLocaleDateString('en-US', { month: 'long', year: 'numeric' }),
+      },
+    ],
+    barcode: { type: 'QR_CODE', value: member.barcode },
+  };
+
+  const privateKey = await jose.importPKCS8(config.privateKeyPem!, 'RS256');
+  const jwt = await new jose.SignJWT({
+    origins: [siteUrl],
+    typ: 'savetowallet',
+    payload: { genericClasses: [{ id: classId }], genericObjects: [object] },
+  })
+    .setProtectedHeader({ alg: 'RS256', typ: 'JWT' })
+    .setIssuer(config.serviceAccountEmail!)
+    .setAudience('google')
+    .setIssuedAt()
+    .sign(privateKey);
+
+  return { save_url: `https://pay.google.com/gp/v/save/${jwt}`, object };
+}
+
+/** The member's pass for a platform, created on first request so re-adding keeps the same barcode. */
+async function loadPass(supabaseAdmin: SupabaseClient, userId: string, customerId: string, platform: string) {
+  const { data: existing, error } = await supabaseAdmin
+    .from('wallet_passes')
+    .select('serial, secret, customer_id, revoked_at')
+    .eq('user_id', userId)
+    .eq('platform', platform)
+    .maybeSingle();
+  if (error) throw error;
+
+  if (existing && !existing.revoked_at && existing.customer_id === customerId) return existing;
+
+  // A revoked pass, or one left from an earlier membership, is replaced with a new serial and secret
+  if (existing) {
+    const { error: deleteError } = await supabaseAdmin.from('wallet_passes').delete().eq('serial', existing.serial);
+    if (deleteError) throw deleteError;
+  }
+
+  const secret = jose.base64url.encode(crypto.getRandomValues(new Uint8Array(24)));
+  const { data: created, error: insertError } = await supabaseAdmin
+    .from('wallet_passes')
+    .insert({ user_id: userId, customer_id: customerId, platform, secret })
+    .select('serial, secret, customer_id, revoked_at')
+    .single();
+  if (insertError) throw insertError;
+  return created;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    );
+
+    const { data: { user } } = await supabaseClient.auth.getUser();
+    if (!user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { platform } = await req.json();
+    if (platform !== 'apple' && platform !== 'google') {
+      return new Response(JSON.stringify({ error: 'Unknown wallet platform' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const apple = platform === 'apple' ? appleConfig() : null;
+    const google = platform === 'google' ? googleConfig() : null;
+    if (!apple && !google) {
+      return new Response(
+        JSON.stringify({ error: `${platform === 'apple' ? 'Apple' : 'Google'} Wallet passes are not set up yet` }),
+        { status: 503, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    // Primary or household member, the same as generate-qr-token
+    const { data: customer } = await supabaseAdmin
+      .from('customers')
+      .select('id, tier, status, member_since, qr_suspended_at')
+      .or(`user_id.eq.${user.id},secondary_user_id.eq.${user.id}`)
+      .eq('status', 'active')
+      .maybeSingle();
+
+    if (!customer) {
+      return new Response(JSON.stringify({ error: 'Customer not found' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (customer.qr_suspended_at) {
+      return new Response(JSON.stringify({ error: 'QR code suspended', qr_suspended: true }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const [{ data: profile }, { data: tier }] = await Promise.all([
+      supabaseAdmin.from('profiles').select('first_name, last_name').eq('id', user.id).maybeSingle(),
+      supabaseAdmin.from('tier_definitions').select('display_name').eq('tier_name', customer.tier).maybeSingle(),
+    ]);
+
+    const pass = await loadPass(supabaseAdmin, user.id, customer.id, platform);
+    const member: PassMember = {
+      serial: pass.serial,
+      barcode: composeWalletPassValue(pass.serial, pass.secret),
+      name: `${profile?.first_name || ''} ${profile?.last_name || ''}`.trim() || 'Member',
+      tier: tier?.display_name ?? customer.tier,
+      member_since: customer.member_since,
+    };
+    const siteUrl = Deno.env.get('SITE_URL') || 'https://vinosaborapp.com';
+
+    if (apple) {
+      const pkpass = await buildApplePass(member, apple, siteUrl);
+      console.log(`Apple Wallet pass issued: customer=${customer.id}, serial=${pass.serial}`);
+
+      // Sent as a plain download; the app gives it the pass MIME type so the phone offers to add it
+      return new Response(pkpass, {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/octet-stream',
+          'Content-Disposition': 'attachment; filename="membership.pkpass"',
+        },
+      });
+    }
+
+    const googlePass = await buildGooglePass(member, google!, siteUrl);
+    console.log(`Google Wallet pass issued: customer=${customer.id}, serial=${pass.serial}`);
+
+    return new Response(JSON.stringify(googlePass), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Wallet pass error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Unable to create wallet pass' }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
@@ -0,0 +1,98 @@
+-- Atomic pour redemption
+-- Locks the customer row with SELECT ... FOR UPDATE so concurrent redemptions for the
+-- same member serialize, then re-checks the allowance before inserting the pour.
+-- Replaces the browser-side check/insert/update sequence in AddPour and ManualPour.
+CREATE OR REPLACE FUNCTION public.redeem_pours(
+  _customer_id uuid,
+  _quantity integer,
+  _location location_type,
+  _staff_id uuid,
+  _notes text DEFAULT NULL,
+  _reference text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _customer_status customer_status;
+  _available integer;
+  _pour_id uuid;
+BEGIN
+  IF _quantity IS NULL OR _quantity < 1 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Quantity must be at least 1'
+    );
+  END IF;
+
+  -- Lock the customer row for the rest of the transaction
+  SELECT status INTO _customer_status
+  FROM customers
+  WHERE id = _customer_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Customer not found'
+    );
+  END IF;
+
+  IF _customer_status <> 'active' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Membership is not active'
+    );
+  END IF;
+
+  -- Re-check the allowance while holding the lock
+  _available := get_available_pours(_customer_id);
+
+  IF _available < _quantity THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', format('Only %s pours available in current billing period', _available),
+      'available_pours', _available
+    );
+  END IF;
+
+  INSERT INTO pours (
+    customer_id,
+    quantity,
+    location,
+    notes,
+    toast_reference_number,
+    status,
+    recorded_by_staff_id
+  )
+  VALUES (
+    _customer_id,
+    _quantity,
+    _location,
+    _notes,
+    COALESCE(_reference, 'POUR-' || floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint),
+    'redeemed',
+    _staff_id
+  )
+  RETURNING id INTO _pour_id;
+
+  UPDATE customers
+  SET total_pours_lifetime = total_pours_lifetime + _quantity,
+      pours_balance = _available - _quantity,
+      last_activity = now()
+  WHERE id = _customer_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'message', 'Pour redeemed',
+    'pour_id', _pour_id,
+    'available_pours', _available - _quantity
+  );
+END;
+$$;
+
+-- Only the redeem-pours edge function (service role) may call this
+REVOKE EXECUTE ON FUNCTION public.redeem_pours(uuid, integer, location_type, uuid, text, text) FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.redeem_pours(uuid, integer, location_type, uuid, text, text) TO service_role;
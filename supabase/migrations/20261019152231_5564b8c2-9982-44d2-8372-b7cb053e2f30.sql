@@ -0,0 +1,234 @@
+-- Pour reversal (void) workflow
+-- Staff can void a redeemed pour within a configurable window; older pours need admin approval.
+-- Every void request is recorded in pour_reversals, linked to the original pour.
+CREATE TABLE public.pour_reversals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  pour_id uuid NOT NULL REFERENCES public.pours(id) ON DELETE CASCADE,
+  customer_id uuid NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+  quantity integer NOT NULL,
+  reason text NOT NULL CHECK (length(trim(reason)) > 0),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  requested_by uuid NOT NULL,
+  reviewed_by uuid,
+  reviewed_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.pour_reversals ENABLE ROW LEVEL SECURITY;
+
+-- Staff can see the audit trail; all writes go through the reverse-pour edge function
+CREATE POLICY "Staff can view pour reversals"
+  ON public.pour_reversals FOR SELECT
+  TO authenticated
+  USING (has_role(auth.uid(), 'staff'::app_role));
+
+CREATE INDEX idx_pour_reversals_pour_id ON public.pour_reversals(pour_id);
+CREATE INDEX idx_pour_reversals_customer_id ON public.pour_reversals(customer_id);
+
+-- At most one open request and one approved reversal per pour
+CREATE UNIQUE INDEX idx_pour_reversals_one_pending
+  ON public.pour_reversals(pour_id) WHERE status = 'pending';
+CREATE UNIQUE INDEX idx_pour_reversals_one_approved
+  ON public.pour_reversals(pour_id) WHERE status = 'approved';
+
+CREATE TRIGGER update_pour_reversals_updated_at
+  BEFORE UPDATE ON public.pour_reversals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- How long after a pour staff may void it without admin approval
+INSERT INTO public.system_settings (key, value)
+VALUES ('pour_reversal', '{"staff_window_minutes": 30}'::jsonb)
+ON CONFLICT (key) DO NOTHING;
+
+-- Flip a locked pour to 'reversed' and restore the member's counters.
+-- get_available_pours only counts 'redeemed' pours, so the allowance comes back automatically.
+CREATE OR REPLACE FUNCTION public.apply_pour_reversal(_pour_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _customer_id uuid;
+  _quantity integer;
+  _available integer;
+BEGIN
+  UPDATE pours
+  SET status = 'reversed',
+      updated_at = now()
+  WHERE id = _pour_id
+  RETURNING customer_id, quantity INTO _customer_id, _quantity;
+
+  _available := get_available_pours(_customer_id);
+
+  UPDATE customers
+  SET total_pours_lifetime = GREATEST(0, total_pours_lifetime - _quantity),
+      pours_balance = _available
+  WHERE id = _customer_id;
+
+  RETURN _available;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reverse_pour(
+  _pour_id uuid,
+  _staff_id uuid,
+  _reason text,
+  _bypass_window boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _pour record;
+  _window_minutes integer;
+  _pending_id uuid;
+  _reversal_id uuid;
+  _available integer;
+BEGIN
+  IF _reason IS NULL OR length(trim(_reason)) = 0 THEN
+    RETURN jsonb_build_object('success', false, 'message', 'A reason is required to void a pour');
+  END IF;
+
+  -- Lock the pour so two voids cannot race
+  SELECT id, customer_id, quantity, status, created_at INTO _pour
+  FROM pours
+  WHERE id = _pour_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Pour not found');
+  END IF;
+
+  IF _pour.status <> 'redeemed' THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Only redeemed pours can be voided');
+  END IF;
+
+  SELECT COALESCE((value->>'staff_window_minutes')::integer, 30) INTO _window_minutes
+  FROM system_settings
+  WHERE key = 'pour_reversal';
+  _window_minutes := COALESCE(_window_minutes, 30);
+
+  SELECT id INTO _pending_id
+  FROM pour_reversals
+  WHERE pour_id = _pour_id AND status = 'pending';
+
+  -- Outside the staff window: queue for admin approval
+  IF NOT _bypass_window AND _pour.created_at < now() - make_interval(mins => _window_minutes) THEN
+    IF _pending_id IS NOT NULL THEN
+      RETURN jsonb_build_object('success', false, 'message', 'A void request for this pour is already awaiting approval');
+    END IF;
+
+    INSERT INTO pour_reversals (pour_id, customer_id, quantity, reason, status, requested_by)
+    VALUES (_pour_id, _pour.customer_id, _pour.quantity, trim(_reason), 'pending', _staff_id)
+    RETURNING id INTO _reversal_id;
+
+    RETURN jsonb_build_object(
+      'success', true,
+      'status', 'pending_approval',
+      'message', format('Pours older than %s minutes need admin approval to void', _window_minutes),
+      'reversal_id', _reversal_id
+    );
+  END IF;
+
+  _available := apply_pour_reversal(_pour_id);
+
+  IF _pending_id IS NOT NULL THEN
+    -- An admin voiding directly resolves the open request
+    UPDATE pour_reversals
+    SET status = 'approved',
+        reviewed_by = _staff_id,
+        reviewed_at = now()
+    WHERE id = _pending_id
+    RETURNING id INTO _reversal_id;
+  ELSE
+    INSERT INTO pour_reversals (pour_id, customer_id, quantity, reason, status, requested_by, reviewed_by, reviewed_at)
+    VALUES (_pour_id, _pour.customer_id, _pour.quantity, trim(_reason), 'approved', _staff_id, _staff_id, now())
+    RETURNING id INTO _reversal_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'status', 'reversed',
+    'message', 'Pour voided',
+    'reversal_id', _reversal_id,
+    'available_pours', _available
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.review_pour_reversal(
+  _reversal_id uuid,
+  _admin_id uuid,
+  _approve boolean
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _reversal record;
+  _pour_status pour_status;
+  _available integer;
+BEGIN
+  SELECT id, pour_id, status INTO _reversal
+  FROM pour_reversals
+  WHERE id = _reversal_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Void request not found');
+  END IF;
+
+  IF _reversal.status <> 'pending' THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Void request has already been reviewed');
+  END IF;
+
+  IF NOT _approve THEN
+    UPDATE pour_reversals
+    SET status = 'rejected',
+        reviewed_by = _admin_id,
+        reviewed_at = now()
+    WHERE id = _reversal_id;
+
+    RETURN jsonb_build_object('success', true, 'status', 'rejected', 'message', 'Void request rejected');
+  END IF;
+
+  SELECT status INTO _pour_status
+  FROM pours
+  WHERE id = _reversal.pour_id
+  FOR UPDATE;
+
+  IF _pour_status IS DISTINCT FROM 'redeemed' THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Only redeemed pours can be voided');
+  END IF;
+
+  _available := apply_pour_reversal(_reversal.pour_id);
+
+  UPDATE pour_reversals
+  SET status = 'approved',
+      reviewed_by = _admin_id,
+      reviewed_at = now()
+  WHERE id = _reversal_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'status', 'reversed',
+    'message', 'Pour voided',
+    'available_pours', _available
+  );
+END;
+$$;
+
+-- Only the reverse-pour edge function (service role) may call these
+REVOKE EXECUTE ON FUNCTION public.apply_pour_reversal(uuid) FROM anon, authenticated, public;
+REVOKE EXECUTE ON FUNCTION public.reverse_pour(uuid, uuid, text, boolean) FROM anon, authenticated, public;
+REVOKE EXECUTE ON FUNCTION public.review_pour_reversal(uuid, uuid, boolean) FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.apply_pour_reversal(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION public.reverse_pour(uuid, uuid, text, boolean) TO service_role;
+GRANT EXECUTE ON FUNCTION public.review_pour_reversal(uuid, uuid, boolean) TO service_role;
@@ -0,0 +1,3 @@
+-- First migration: Add pre-order outcomes to the pour_status enum
+ALTER TYPE public.pour_status ADD VALUE IF NOT EXISTS 'cancelled';
+ALTER TYPE public.pour_status ADD VALUE IF NOT EXISTS 'expired';
@@ -0,0 +1,286 @@
+-- Member pre-orders
+-- A pre-order is a 'pending' pour that holds allowance until staff confirm it
+-- ('redeemed') or reject it ('cancelled'). Unconfirmed holds lapse to 'expired'.
+ALTER TABLE public.pours
+  ADD COLUMN expires_at timestamptz;
+
+CREATE INDEX idx_pours_pending_expires_at
+  ON public.pours(expires_at) WHERE status = 'pending';
+
+-- How long a pre-order holds allowance before it expires
+INSERT INTO public.system_settings (key, value)
+VALUES ('pour_preorders', '{"hold_minutes": 60}'::jsonb)
+ON CONFLICT (key) DO NOTHING;
+
+-- Count live pending holds alongside redeemed pours so members cannot overbook
+CREATE OR REPLACE FUNCTION public.get_available_pours(customer_uuid uuid)
+ RETURNS integer
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  membership_tier customer_tier;
+  tier_max_pours integer;
+  period_start timestamp with time zone;
+  period_end timestamp with time zone;
+  used_pours integer;
+  held_pours integer;
+  available integer;
+BEGIN
+  -- Get active membership details
+  SELECT m.tier, m.billing_period_start, m.billing_period_end, td.monthly_pours
+  INTO membership_tier, period_start, period_end, tier_max_pours
+  FROM memberships m
+  JOIN tier_definitions td ON td.tier_name = m.tier
+  WHERE m.customer_id = customer_uuid 
+    AND m.status = 'active'
+  ORDER BY m.created_at DESC
+  LIMIT 1;
+
+  -- If no active membership, return 0
+  IF membership_tier IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  -- If billing period not set, use start_date as fallback
+  IF period_start IS NULL THEN
+    SELECT start_date INTO period_start
+    FROM memberships
+    WHERE customer_id = customer_uuid AND status = 'active'
+    ORDER BY created_at DESC
+    LIMIT 1;
+    
+    period_start := period_start::timestamp with time zone;
+    period_end := (period_start + interval '1 month')::timestamp with time zone;
+  END IF;
+
+  -- Pending pre-orders hold allowance until they are confirmed, cancelled or expire
+  SELECT COALESCE(SUM(quantity), 0)
+  INTO held_pours
+  FROM pours
+  WHERE customer_id = customer_uuid
+    AND status = 'pending'
+    AND (expires_at IS NULL OR expires_at > now());
+
+  -- SAFETY NET: If billing_period_end is in the past, the webhook missed a renewal.
+  -- Treat the customer as being in a new period and return full allocation.
+  IF period_end IS NOT NULL AND period_end < now() THEN
+    RETURN GREATEST(0, tier_max_pours - held_pours);
+  END IF;
+
+  -- Count pours used in current billing period
+  SELECT COALESCE(SUM(quantity), 0)
+  INTO used_pours
+  FROM pours
+  WHERE customer_id = customer_uuid
+    AND created_at >= period_start
+    AND (period_end IS NULL OR created_at < period_end)
+    AND status = 'redeemed';
+
+  -- Calculate available (never negative, never exceed tier max)
+  available := GREATEST(0, tier_max_pours - used_pours - held_pours);
+  
+  RETURN available;
+END;
+$function$;
+
+-- Member places a pre-order. Mirrors redeem_pours: lock the customer, re-check, insert.
+CREATE OR REPLACE FUNCTION public.create_pour_preorder(
+  _customer_id uuid,
+  _quantity integer,
+  _location location_type,
+  _notes text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _customer_status customer_status;
+  _hold_minutes integer;
+  _available integer;
+  _pour_id uuid;
+  _expires_at timestamptz;
+BEGIN
+  IF _quantity IS NULL OR _quantity < 1 THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Quantity must be at least 1');
+  END IF;
+
+  SELECT status INTO _customer_status
+  FROM customers
+  WHERE id = _customer_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Customer not found');
+  END IF;
+
+  IF _customer_status <> 'active' THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Membership is not active');
+  END IF;
+
+  _available := get_available_pours(_customer_id);
+
+  IF _available < _quantity THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', format('Only %s pours available in current billing period', _available),
+      'available_pours', _available
+    );
+  END IF;
+
+  SELECT COALESCE((value->>'hold_minutes')::integer, 60) INTO _hold_minutes
+  FROM system_settings
+  WHERE key = 'pour_preorders';
+  _expires_at := now() + make_interval(mins => COALESCE(_hold_minutes, 60));
+
+  INSERT INTO pours (
+    customer_id,
+    quantity,
+    location,
+    notes,
+    toast_reference_number,
+    status,
+    expires_at
+  )
+  VALUES (
+    _customer_id,
+    _quantity,
+    _location,
+    _notes,
+    'PREORDER-' || floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint,
+    'pending',
+    _expires_at
+  )
+  RETURNING id INTO _pour_id;
+
+  UPDATE customers
+  SET pours_balance = _available - _quantity
+  WHERE id = _customer_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'message', 'Pre-order placed',
+    'pour_id', _pour_id,
+    'expires_at', _expires_at,
+    'available_pours', _available - _quantity
+  );
+END;
+$$;
+
+-- Staff confirm (pour served) or cancel (rejected by staff / withdrawn by the member)
+CREATE OR REPLACE FUNCTION public.resolve_pour_preorder(
+  _pour_id uuid,
+  _confirm boolean,
+  _staff_id uuid DEFAULT NULL,
+  _reason text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _pour record;
+  _available integer;
+BEGIN
+  SELECT id, customer_id, quantity, status, expires_at, notes INTO _pour
+  FROM pours
+  WHERE id = _pour_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Pre-order not found');
+  END IF;
+
+  IF _pour.status <> 'pending' THEN
+    RETURN jsonb_build_object('success', false, 'message', format('Pre-order is already %s', _pour.status));
+  END IF;
+
+  IF _confirm AND _pour.expires_at IS NOT NULL AND _pour.expires_at <= now() THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Pre-order has expired');
+  END IF;
+
+  IF _confirm THEN
+    UPDATE pours
+    SET status = 'redeemed',
+        recorded_by_staff_id = _staff_id,
+        updated_at = now()
+    WHERE id = _pour_id;
+  ELSE
+    UPDATE pours
+    SET status = 'cancelled',
+        notes = CASE
+          WHEN _reason IS NULL OR length(trim(_reason)) = 0 THEN notes
+          ELSE concat_ws(E'\n', notes, '[Cancelled] ' || trim(_reason))
+        END,
+        updated_at = now()
+    WHERE id = _pour_id;
+  END IF;
+
+  _available := get_available_pours(_pour.customer_id);
+
+  UPDATE customers
+  SET total_pours_lifetime = total_pours_lifetime + CASE WHEN _confirm THEN _pour.quantity ELSE 0 END,
+      pours_balance = _available,
+      last_activity = CASE WHEN _confirm THEN now() ELSE last_activity END
+  WHERE id = _pour.customer_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'status', CASE WHEN _confirm THEN 'redeemed' ELSE 'cancelled' END,
+    'message', CASE WHEN _confirm THEN 'Pre-order confirmed' ELSE 'Pre-order cancelled' END,
+    'available_pours', _available
+  );
+END;
+$$;
+
+-- Lapse unconfirmed holds and refresh the affected balances
+CREATE OR REPLACE FUNCTION public.expire_pending_pours()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _customer_ids uuid[];
+BEGIN
+  WITH expired AS (
+    UPDATE pours
+    SET status = 'expired',
+        updated_at = now()
+    WHERE status = 'pending'
+      AND expires_at IS NOT NULL
+      AND expires_at <= now()
+    RETURNING customer_id
+  )
+  SELECT array_agg(DISTINCT customer_id) INTO _customer_ids FROM expired;
+
+  IF _customer_ids IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE customers
+  SET pours_balance = get_available_pours(id)
+  WHERE id = ANY(_customer_ids);
+
+  RETURN array_length(_customer_ids, 1);
+END;
+$$;
+
+-- Only the pour-preorders edge function (service role) and pg_cron may call these
+REVOKE EXECUTE ON FUNCTION public.create_pour_preorder(uuid, integer, location_type, text) FROM anon, authenticated, public;
+REVOKE EXECUTE ON FUNCTION public.resolve_pour_preorder(uuid, boolean, uuid, text) FROM anon, authenticated, public;
+REVOKE EXECUTE ON FUNCTION public.expire_pending_pours() FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.create_pour_preorder(uuid, integer, location_type, text) TO service_role;
+GRANT EXECUTE ON FUNCTION public.resolve_pour_preorder(uuid, boolean, uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION public.expire_pending_pours() TO service_role;
+
+-- Sweep expired holds every minute
+SELECT cron.schedule(
+  'expire-pending-pours',
+  '* * * * *',
+  $$SELECT public.expire_pending_pours();$$
+);
@@ -0,0 +1,240 @@
+-- Per-tier rollover of unused monthly pours
+-- rollover_max_pours caps how many carried-over pours a member can hold at once (0 disables rollover).
+-- rollover_expiry_periods is how many billing periods a carried-over pour stays valid.
+ALTER TABLE public.tier_definitions
+  ADD COLUMN rollover_max_pours integer NOT NULL DEFAULT 0 CHECK (rollover_max_pours >= 0),
+  ADD COLUMN rollover_expiry_periods integer NOT NULL DEFAULT 1 CHECK (rollover_expiry_periods >= 1);
+
+-- One row per member per renewal. pours_remaining is the balance as of the start of the
+-- current period; pours redeemed during a period draw on carried-over pours first.
+CREATE TABLE public.pour_rollovers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id uuid NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+  source_period_start timestamptz NOT NULL,
+  source_period_end timestamptz NOT NULL,
+  pours_granted integer NOT NULL DEFAULT 0 CHECK (pours_granted >= 0),
+  pours_remaining integer NOT NULL DEFAULT 0 CHECK (pours_remaining >= 0),
+  periods_remaining integer NOT NULL DEFAULT 0 CHECK (periods_remaining >= 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (customer_id, source_period_start)
+);
+
+ALTER TABLE public.pour_rollovers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Customers can view own pour rollovers"
+  ON public.pour_rollovers FOR SELECT
+  TO authenticated
+  USING (customer_id IN (SELECT id FROM customers WHERE user_id = auth.uid()));
+
+CREATE POLICY "Staff can view pour rollovers"
+  ON public.pour_rollovers FOR SELECT
+  TO authenticated
+  USING (has_role(auth.uid(), 'staff'::app_role));
+
+CREATE INDEX idx_pour_rollovers_customer_id ON public.pour_rollovers(customer_id);
+
+CREATE TRIGGER update_pour_rollovers_updated_at
+  BEFORE UPDATE ON public.pour_rollovers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Carried-over pours still valid in the current period
+CREATE OR REPLACE FUNCTION public.get_rollover_pours(customer_uuid uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(pours_remaining), 0)::integer
+  FROM pour_rollovers
+  WHERE customer_id = customer_uuid
+    AND periods_remaining > 0;
+$$;
+
+-- Allowance = fresh monthly pours + valid carried-over pours - used - held
+CREATE OR REPLACE FUNCTION public.get_available_pours(customer_uuid uuid)
+ RETURNS integer
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  membership_tier customer_tier;
+  tier_max_pours integer;
+  rollover_pours integer;
+  period_start timestamp with time zone;
+  period_end timestamp with time zone;
+  used_pours integer;
+  held_pours integer;
+  available integer;
+BEGIN
+  -- Get active membership details
+  SELECT m.tier, m.billing_period_start, m.billing_period_end, td.monthly_pours
+  INTO membership_tier, period_start, period_end, tier_max_pours
+  FROM memberships m
+  JOIN tier_definitions td ON td.tier_name = m.tier
+  WHERE m.customer_id = customer_uuid 
+    AND m.status = 'active'
+  ORDER BY m.created_at DESC
+  LIMIT 1;
+
+  -- If no active membership, return 0
+  IF membership_tier IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  -- If billing period not set, use start_date as fallback
+  IF period_start IS NULL THEN
+    SELECT start_date INTO period_start
+    FROM memberships
+    WHERE customer_id = customer_uuid AND status = 'active'
+    ORDER BY created_at DESC
+    LIMIT 1;
+    
+    period_start := period_start::timestamp with time zone;
+    period_end := (period_start + interval '1 month')::timestamp with time zone;
+  END IF;
+
+  rollover_pours := get_rollover_pours(customer_uuid);
+
+  -- Pending pre-orders hold allowance until they are confirmed, cancelled or expire
+  SELECT COALESCE(SUM(quantity), 0)
+  INTO held_pours
+  FROM pours
+  WHERE customer_id = customer_uuid
+    AND status = 'pending'
+    AND (expires_at IS NULL OR expires_at > now());
+
+  -- SAFETY NET: If billing_period_end is in the past, the webhook missed a renewal.
+  -- Treat the customer as being in a new period and return full allocation.
+  IF period_end IS NOT NULL AND period_end < now() THEN
+    RETURN GREATEST(0, tier_max_pours + rollover_pours - held_pours);
+  END IF;
+
+  -- Count pours used in current billing period
+  SELECT COALESCE(SUM(quantity), 0)
+  INTO used_pours
+  FROM pours
+  WHERE customer_id = customer_uuid
+    AND created_at >= period_start
+    AND (period_end IS NULL OR created_at < period_end)
+    AND status = 'redeemed';
+
+  -- Calculate available (never negative, never exceed tier max plus rollover)
+  available := GREATEST(0, tier_max_pours + rollover_pours - used_pours - held_pours);
+  
+  RETURN available;
+END;
+$function$;
+
+-- Close out a billing period at renewal: draw that period's usage from carried-over pours
+-- (oldest first), age every credit by one period, then carry unused fresh pours forward
+-- up to the tier's cap. Safe to call more than once for the same period.
+CREATE OR REPLACE FUNCTION public.apply_pour_rollover(
+  _customer_id uuid,
+  _tier customer_tier,
+  _period_start timestamptz,
+  _period_end timestamptz
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _monthly_pours integer;
+  _max_pours integer;
+  _expiry_periods integer;
+  _used integer;
+  _credit record;
+  _take integer;
+  _carried integer;
+  _granted integer;
+BEGIN
+  -- Serialize with redemptions for this member
+  PERFORM 1 FROM customers WHERE id = _customer_id FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1 FROM pour_rollovers
+    WHERE customer_id = _customer_id AND source_period_start = _period_start
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', true,
+      'message', 'Rollover already applied for this period',
+      'carried_pours', get_rollover_pours(_customer_id)
+    );
+  END IF;
+
+  SELECT monthly_pours, rollover_max_pours, rollover_expiry_periods
+  INTO _monthly_pours, _max_pours, _expiry_periods
+  FROM tier_definitions
+  WHERE tier_name = _tier;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Tier definition not found');
+  END IF;
+
+  SELECT COALESCE(SUM(quantity), 0) INTO _used
+  FROM pours
+  WHERE customer_id = _customer_id
+    AND created_at >= _period_start
+    AND created_at < _period_end
+    AND status = 'redeemed';
+
+  FOR _credit IN
+    SELECT id, pours_remaining
+    FROM pour_rollovers
+    WHERE customer_id = _customer_id
+      AND periods_remaining > 0
+    ORDER BY created_at
+    FOR UPDATE
+  LOOP
+    _take := LEAST(_credit.pours_remaining, _used);
+    _used := _used - _take;
+
+    UPDATE pour_rollovers
+    SET pours_remaining = pours_remaining - _take,
+        periods_remaining = periods_remaining - 1
+    WHERE id = _credit.id;
+  END LOOP;
+
+  _carried := get_rollover_pours(_customer_id);
+  _granted := LEAST(
+    GREATEST(0, _monthly_pours - _used),
+    GREATEST(0, _max_pours - _carried)
+  );
+
+  -- Recorded even when nothing carries over so the period is not processed twice
+  INSERT INTO pour_rollovers (
+    customer_id,
+    source_period_start,
+    source_period_end,
+    pours_granted,
+    pours_remaining,
+    periods_remaining
+  )
+  VALUES (
+    _customer_id,
+    _period_start,
+    _period_end,
+    _granted,
+    _granted,
+    CASE WHEN _granted > 0 THEN _expiry_periods ELSE 0 END
+  );
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'message', 'Rollover applied',
+    'rolled_over', _granted,
+    'carried_pours', _carried + _granted
+  );
+END;
+$$;
+
+-- Only edge functions (service role) may read or apply rollovers directly
+REVOKE EXECUTE ON FUNCTION public.get_rollover_pours(uuid) FROM anon, authenticated, public;
+REVOKE EXECUTE ON FUNCTION public.apply_pour_rollover(uuid, customer_tier, timestamptz, timestamptz) FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.get_rollover_pours(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION public.apply_pour_rollover(uuid, customer_tier, timestamptz, timestamptz) TO service_role;
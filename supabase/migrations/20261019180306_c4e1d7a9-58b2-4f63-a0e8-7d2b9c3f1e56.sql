@@ -0,0 +1,157 @@
+-- Wine catalog, managed by admins, so pours record what was actually poured
+CREATE TABLE public.wines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  producer text,
+  vintage integer CHECK (vintage IS NULL OR vintage BETWEEN 1800 AND 2200),
+  varietal text,
+  region text,
+  glass_price numeric(10,2) CHECK (glass_price IS NULL OR glass_price >= 0),
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.wines ENABLE ROW LEVEL SECURITY;
+
+-- Members see wine names in their pour history; staff pick from the list
+CREATE POLICY "Authenticated users can view wines"
+  ON public.wines FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can insert wines"
+  ON public.wines FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin(auth.uid()));
+
+CREATE POLICY "Admins can update wines"
+  ON public.wines FOR UPDATE
+  TO authenticated
+  USING (is_admin(auth.uid()));
+
+CREATE POLICY "Admins can delete wines"
+  ON public.wines FOR DELETE
+  TO authenticated
+  USING (is_admin(auth.uid()));
+
+CREATE TRIGGER update_wines_updated_at
+  BEFORE UPDATE ON public.wines
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Pours reference the wine; existing pours keep their notes and have no wine
+ALTER TABLE public.pours
+  ADD COLUMN wine_id uuid REFERENCES public.wines(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_pours_wine_id ON public.pours(wine_id);
+
+-- redeem_pours gains a wine; drop the old signature so callers cannot skip it by accident
+DROP FUNCTION IF EXISTS public.redeem_pours(uuid, integer, location_type, uuid, text, text);
+
+CREATE OR REPLACE FUNCTION public.redeem_pours(
+  _customer_id uuid,
+  _quantity integer,
+  _location location_type,
+  _staff_id uuid,
+  _notes text DEFAULT NULL,
+  _reference text DEFAULT NULL,
+  _wine_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _customer_status customer_status;
+  _available integer;
+  _pour_id uuid;
+BEGIN
+  IF _quantity IS NULL OR _quantity < 1 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Quantity must be at least 1'
+    );
+  END IF;
+
+  IF _wine_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM wines WHERE id = _wine_id AND is_active
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Wine is not available'
+    );
+  END IF;
+
+  -- Lock the customer row for the rest of the transaction
+  SELECT status INTO _customer_status
+  FROM customers
+  WHERE id = _customer_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Customer not found'
+    );
+  END IF;
+
+  IF _customer_status <> 'active' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Membership is not active'
+    );
+  END IF;
+
+  -- Re-check the allowance while holding the lock
+  _available := get_available_pours(_customer_id);
+
+  IF _available < _quantity THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', format('Only %s pours available in current billing period', _available),
+      'available_pours', _available
+    );
+  END IF;
+
+  INSERT INTO pours (
+    customer_id,
+    quantity,
+    location,
+    notes,
+    toast_reference_number,
+    status,
+    recorded_by_staff_id,
+    wine_id
+  )
+  VALUES (
+    _customer_id,
+    _quantity,
+    _location,
+    _notes,
+    COALESCE(_reference, 'POUR-' || floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint),
+    'redeemed',
+    _staff_id,
+    _wine_id
+  )
+  RETURNING id INTO _pour_id;
+
+  UPDATE customers
+  SET total_pours_lifetime = total_pours_lifetime + _quantity,
+      pours_balance = _available - _quantity,
+      last_activity = now()
+  WHERE id = _customer_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'message', 'Pour redeemed',
+    'pour_id', _pour_id,
+    'available_pours', _available - _quantity
+  );
+END;
+$$;
+
+-- Only the redeem-pours edge function (service role) may call this
+REVOKE EXECUTE ON FUNCTION public.redeem_pours(uuid, integer, location_type, uuid, text, text, uuid) FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.redeem_pours(uuid, integer, location_type, uuid, text, text, uuid) TO service_role;
@@ -0,0 +1,241 @@
+-- Bottle inventory per wine
+-- Stock is sealed bottles plus the volume left in the one open bottle. Redeemed pours
+-- deplete the open bottle (opening a new one as needed) and reversals put the volume back.
+ALTER TABLE public.wines
+  ADD COLUMN bottle_size_ml integer NOT NULL DEFAULT 750 CHECK (bottle_size_ml > 0),
+  ADD COLUMN pour_size_ml integer NOT NULL DEFAULT 150 CHECK (pour_size_ml > 0),
+  ADD COLUMN bottles_on_hand integer NOT NULL DEFAULT 0 CHECK (bottles_on_hand >= 0),
+  ADD COLUMN open_bottle_ml numeric(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN open_bottle_opened_at timestamptz,
+  ADD COLUMN low_stock_threshold integer NOT NULL DEFAULT 2 CHECK (low_stock_threshold >= 0),
+  ADD COLUMN freshness_days integer NOT NULL DEFAULT 3 CHECK (freshness_days > 0);
+
+COMMENT ON COLUMN public.wines.open_bottle_ml IS 'Volume left in the open bottle. Negative means more was poured than stock allowed; recount to fix.';
+
+-- Audit trail of every stock change
+CREATE TABLE public.wine_stock_movements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  wine_id uuid NOT NULL REFERENCES public.wines(id) ON DELETE CASCADE,
+  pour_id uuid REFERENCES public.pours(id) ON DELETE SET NULL,
+  kind text NOT NULL CHECK (kind IN ('pour', 'reversal', 'restock', 'count', 'discard')),
+  change_ml numeric(10,2) NOT NULL DEFAULT 0,
+  bottles_change integer NOT NULL DEFAULT 0,
+  note text,
+  created_by uuid,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.wine_stock_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view wine stock movements"
+  ON public.wine_stock_movements FOR SELECT
+  TO authenticated
+  USING (is_admin(auth.uid()));
+
+CREATE INDEX idx_wine_stock_movements_wine_id ON public.wine_stock_movements(wine_id, created_at DESC);
+CREATE INDEX idx_wine_stock_movements_pour_id ON public.wine_stock_movements(pour_id);
+
+-- Take _ml out of a wine's stock, opening sealed bottles as needed
+CREATE OR REPLACE FUNCTION public.deplete_wine_stock(_wine_id uuid, _ml numeric, _pour_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _wine record;
+  _remaining numeric := _ml;
+  _opened integer := 0;
+BEGIN
+  SELECT bottle_size_ml, bottles_on_hand, open_bottle_ml, open_bottle_opened_at INTO _wine
+  FROM wines
+  WHERE id = _wine_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _ml <= 0 THEN
+    RETURN;
+  END IF;
+
+  WHILE _remaining > 0 LOOP
+    IF _wine.open_bottle_ml >= _remaining THEN
+      _wine.open_bottle_ml := _wine.open_bottle_ml - _remaining;
+      _remaining := 0;
+    ELSIF _wine.bottles_on_hand > 0 THEN
+      -- Finish the open bottle and open the next one
+      _remaining := _remaining - _wine.open_bottle_ml;
+      _wine.bottles_on_hand := _wine.bottles_on_hand - 1;
+      _wine.open_bottle_ml := _wine.bottle_size_ml;
+      _wine.open_bottle_opened_at := now();
+      _opened := _opened + 1;
+    ELSE
+      -- Out of recorded stock: never block a pour, let the count go negative until recounted
+      _wine.open_bottle_ml := _wine.open_bottle_ml - _remaining;
+      _remaining := 0;
+    END IF;
+  END LOOP;
+
+  UPDATE wines
+  SET bottles_on_hand = _wine.bottles_on_hand,
+      open_bottle_ml = _wine.open_bottle_ml,
+      open_bottle_opened_at = _wine.open_bottle_opened_at
+  WHERE id = _wine_id;
+
+  INSERT INTO wine_stock_movements (wine_id, pour_id, kind, change_ml, bottles_change)
+  VALUES (_wine_id, _pour_id, 'pour', -_ml, -_opened);
+END;
+$$;
+
+-- Put back whatever a pour took out of stock
+CREATE OR REPLACE FUNCTION public.restore_wine_stock(_wine_id uuid, _pour_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _ml numeric;
+  _wine record;
+  _sealed integer := 0;
+BEGIN
+  SELECT -COALESCE(SUM(change_ml), 0) INTO _ml
+  FROM wine_stock_movements
+  WHERE pour_id = _pour_id
+    AND kind IN ('pour', 'reversal');
+
+  IF _ml <= 0 THEN
+    RETURN;
+  END IF;
+
+  SELECT bottle_size_ml, bottles_on_hand, open_bottle_ml INTO _wine
+  FROM wines
+  WHERE id = _wine_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  _wine.open_bottle_ml := _wine.open_bottle_ml + _ml;
+
+  -- A full bottle's worth going back is counted as sealed stock again
+  WHILE _wine.open_bottle_ml > _wine.bottle_size_ml LOOP
+    _wine.open_bottle_ml := _wine.open_bottle_ml - _wine.bottle_size_ml;
+    _wine.bottles_on_hand := _wine.bottles_on_hand + 1;
+    _sealed := _sealed + 1;
+  END LOOP;
+
+  UPDATE wines
+  SET bottles_on_hand = _wine.bottles_on_hand,
+      open_bottle_ml = _wine.open_bottle_ml
+  WHERE id = _wine_id;
+
+  INSERT INTO wine_stock_movements (wine_id, pour_id, kind, change_ml, bottles_change)
+  VALUES (_wine_id, _pour_id, 'reversal', _ml, _sealed);
+END;
+$$;
+
+-- Keep stock in step with pour status, whichever path changed it
+-- (redeem_pours, pre-order confirmation, reversal)
+CREATE OR REPLACE FUNCTION public.sync_pour_wine_stock()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _pour_size integer;
+BEGIN
+  IF NEW.status = 'redeemed'
+     AND NEW.wine_id IS NOT NULL
+     AND (TG_OP = 'INSERT' OR OLD.status <> 'redeemed') THEN
+    SELECT pour_size_ml INTO _pour_size FROM wines WHERE id = NEW.wine_id;
+    PERFORM deplete_wine_stock(NEW.wine_id, NEW.quantity * _pour_size, NEW.id);
+  ELSIF TG_OP = 'UPDATE'
+     AND OLD.status = 'redeemed'
+     AND NEW.status <> 'redeemed'
+     AND OLD.wine_id IS NOT NULL THEN
+    PERFORM restore_wine_stock(OLD.wine_id, OLD.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_pour_wine_stock
+  AFTER INSERT OR UPDATE OF status ON public.pours
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_pour_wine_stock();
+
+-- Admin stock actions from the Cellar page
+CREATE OR REPLACE FUNCTION public.adjust_wine_stock(
+  _wine_id uuid,
+  _action text,
+  _bottles integer DEFAULT 0,
+  _note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _wine record;
+BEGIN
+  IF NOT is_admin(auth.uid()) THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Admin access required');
+  END IF;
+
+  SELECT bottles_on_hand, open_bottle_ml INTO _wine
+  FROM wines
+  WHERE id = _wine_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Wine not found');
+  END IF;
+
+  IF _action = 'restock' THEN
+    IF _bottles IS NULL OR _bottles < 1 THEN
+      RETURN jsonb_build_object('success', false, 'message', 'Enter at least one bottle');
+    END IF;
+
+    UPDATE wines SET bottles_on_hand = bottles_on_hand + _bottles WHERE id = _wine_id;
+    INSERT INTO wine_stock_movements (wine_id, kind, bottles_change, note, created_by)
+    VALUES (_wine_id, 'restock', _bottles, _note, auth.uid());
+
+  ELSIF _action = 'count' THEN
+    IF _bottles IS NULL OR _bottles < 0 THEN
+      RETURN jsonb_build_object('success', false, 'message', 'Bottle count cannot be negative');
+    END IF;
+
+    -- A physical count also clears any negative open-bottle discrepancy
+    UPDATE wines
+    SET bottles_on_hand = _bottles,
+        open_bottle_ml = GREATEST(open_bottle_ml, 0)
+    WHERE id = _wine_id;
+    INSERT INTO wine_stock_movements (wine_id, kind, change_ml, bottles_change, note, created_by)
+    VALUES (_wine_id, 'count', GREATEST(-_wine.open_bottle_ml, 0), _bottles - _wine.bottles_on_hand, _note, auth.uid());
+
+  ELSIF _action = 'discard' THEN
+    UPDATE wines
+    SET open_bottle_ml = 0,
+        open_bottle_opened_at = NULL
+    WHERE id = _wine_id;
+    INSERT INTO wine_stock_movements (wine_id, kind, change_ml, note, created_by)
+    VALUES (_wine_id, 'discard', -GREATEST(_wine.open_bottle_ml, 0), _note, auth.uid());
+
+  ELSE
+    RETURN jsonb_build_object('success', false, 'message', 'Unknown stock action');
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'message', 'Stock updated');
+END;
+$$;
+
+-- Internal helpers are not callable from the client; adjust_wine_stock checks is_admin itself
+REVOKE EXECUTE ON FUNCTION public.deplete_wine_stock(uuid, numeric, uuid) FROM anon, authenticated, public;
+REVOKE EXECUTE ON FUNCTION public.restore_wine_stock(uuid, uuid) FROM anon, authenticated, public;
+REVOKE EXECUTE ON FUNCTION public.adjust_wine_stock(uuid, text, integer, text) FROM anon, public;
+GRANT EXECUTE ON FUNCTION public.deplete_wine_stock(uuid, numeric, uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION public.restore_wine_stock(uuid, uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION public.adjust_wine_stock(uuid, text, integer, text) TO authenticated;
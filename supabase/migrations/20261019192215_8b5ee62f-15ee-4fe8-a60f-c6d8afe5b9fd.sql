@@ -0,0 +1,303 @@
+-- Venues are managed by admins instead of being baked into the location_type enum
+CREATE TABLE public.locations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  is_active boolean NOT NULL DEFAULT true,
+  opens_at time,
+  closes_at time,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK ((opens_at IS NULL) = (closes_at IS NULL))
+);
+
+CREATE UNIQUE INDEX idx_locations_name ON public.locations(lower(name));
+
+ALTER TABLE public.locations ENABLE ROW LEVEL SECURITY;
+
+-- Members choose a location when pre-ordering; staff pick one for every pour
+CREATE POLICY "Authenticated users can view locations"
+  ON public.locations FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can insert locations"
+  ON public.locations FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin(auth.uid()));
+
+CREATE POLICY "Admins can update locations"
+  ON public.locations FOR UPDATE
+  TO authenticated
+  USING (is_admin(auth.uid()));
+
+CREATE POLICY "Admins can delete locations"
+  ON public.locations FOR DELETE
+  TO authenticated
+  USING (is_admin(auth.uid()));
+
+CREATE TRIGGER update_locations_updated_at
+  BEFORE UPDATE ON public.locations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Seed one row per old enum value so existing pours keep their location
+INSERT INTO public.locations (name) VALUES
+  ('Main Bar'),
+  ('Tasting Room'),
+  ('Private Event');
+
+ALTER TABLE public.pours
+  ADD COLUMN location_id uuid REFERENCES public.locations(id);
+
+UPDATE public.pours p
+SET location_id = l.id
+FROM public.locations l
+WHERE l.name = CASE p.location
+  WHEN 'main_bar' THEN 'Main Bar'
+  WHEN 'tasting_room' THEN 'Tasting Room'
+  WHEN 'private_event' THEN 'Private Event'
+END;
+
+ALTER TABLE public.pours ALTER COLUMN location_id SET NOT NULL;
+
+CREATE INDEX idx_pours_location_id ON public.pours(location_id);
+
+-- Staff members get a default location to pre-fill the pour forms
+ALTER TABLE public.profiles
+  ADD COLUMN default_location_id uuid REFERENCES public.locations(id) ON DELETE SET NULL;
+
+-- Drop the enum-typed functions and column, then the enum itself
+DROP FUNCTION IF EXISTS public.redeem_pours(uuid, integer, location_type, uuid, text, text, uuid);
+DROP FUNCTION IF EXISTS public.create_pour_preorder(uuid, integer, location_type, text);
+
+ALTER TABLE public.pours DROP COLUMN location;
+
+DROP TYPE public.location_type;
+
+CREATE OR REPLACE FUNCTION public.redeem_pours(
+  _customer_id uuid,
+  _quantity integer,
+  _location_id uuid,
+  _staff_id uuid,
+  _notes text DEFAULT NULL,
+  _reference text DEFAULT NULL,
+  _wine_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _customer_status customer_status;
+  _available integer;
+  _pour_id uuid;
+BEGIN
+  IF _quantity IS NULL OR _quantity < 1 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Quantity must be at least 1'
+    );
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM locations WHERE id = _location_id AND is_active) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Location is not available'
+    );
+  END IF;
+
+  IF _wine_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM wines WHERE id = _wine_id AND is_active
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Wine is not available'
+    );
+  END IF;
+
+  -- Lock the customer row for the rest of the transaction
+  SELECT status INTO _customer_status
+  FROM customers
+  WHERE id = _customer_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Customer not found'
+    );
+  END IF;
+
+  IF _customer_status <> 'active' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Membership is not active'
+    );
+  END IF;
+
+  -- Re-check the allowance while holding the lock
+  _available := get_available_pours(_customer_id);
+
+  IF _available < _quantity THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', format('Only %s pours available in current billing period', _available),
+      'available_pours', _available
+    );
+  END IF;
+
+  INSERT INTO pours (
+    customer_id,
+    quantity,
+    location_id,
+    notes,
+    toast_reference_number,
+    status,
+    recorded_by_staff_id,
+    wine_id
+  )
+  VALUES (
+    _customer_id,
+    _quantity,
+    _location_id,
+    _notes,
+    COALESCE(_reference, 'POUR-' || floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint),
+    'redeemed',
+    _staff_id,
+    _wine_id
+  )
+  RETURNING id INTO _pour_id;
+
+  UPDATE customers
+  SET total_pours_lifetime = total_pours_lifetime + _quantity,
+      pours_balance = _available - _quantity,
+      last_activity = now()
+  WHERE id = _customer_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'message', 'Pour redeemed',
+    'pour_id', _pour_id,
+    'available_pours', _available - _quantity
+  );
+END;
+$$;
+
+-- Only the redeem-pours edge function (service role) may call this
+REVOKE EXECUTE ON FUNCTION public.redeem_pours(uuid, integer, uuid, uuid, text, text, uuid) FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.redeem_pours(uuid, integer, uuid, uuid, text, text, uuid) TO service_role;
+
+-- Member places a pre-order at an active location
+CREATE OR REPLACE FUNCTION public.create_pour_preorder(
+  _customer_id uuid,
+  _quantity integer,
+  _location_id uuid,
+  _notes text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _customer_status customer_status;
+  _hold_minutes integer;
+  _available integer;
+  _pour_id uuid;
+  _expires_at timestamptz;
+BEGIN
+  IF _quantity IS NULL OR _quantity < 1 THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Quantity must be at least 1');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM locations WHERE id = _location_id AND is_active) THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Location is not available');
+  END IF;
+
+  SELECT status INTO _customer_status
+  FROM customers
+  WHERE id = _customer_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Customer not found');
+  END IF;
+
+  IF _customer_status <> 'active' THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Membership is not active');
+  END IF;
+
+  _available := get_available_pours(_customer_id);
+
+  IF _available < _quantity THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', format('Only %s pours available in current billing period', _available),
+      'available_pours', _available
+    );
+  END IF;
+
+  SELECT COALESCE((value->>'hold_minutes')::integer, 60) INTO _hold_minutes
+  FROM system_settings
+  WHERE key = 'pour_preorders';
+  _expires_at := now() + make_interval(mins => COALESCE(_hold_minutes, 60));
+
+  INSERT INTO pours (
+    customer_id,
+    quantity,
+    location_id,
+    notes,
+    toast_reference_number,
+    status,
+    expires_at
+  )
+  VALUES (
+    _customer_id,
+    _quantity,
+    _location_id,
+    _notes,
+    'PREORDER-' || floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint,
+    'pending',
+    _expires_at
+  )
+  RETURNING id INTO _pour_id;
+
+  UPDATE customers
+  SET pours_balance = _available - _quantity
+  WHERE id = _customer_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'message', 'Pre-order placed',
+    'pour_id', _pour_id,
+    'expires_at', _expires_at,
+    'available_pours', _available - _quantity
+  );
+END;
+$$;
+
+-- Only the pour-preorders edge function (service role) may call this
+REVOKE EXECUTE ON FUNCTION public.create_pour_preorder(uuid, integer, uuid, text) FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.create_pour_preorder(uuid, integer, uuid, text) TO service_role;
+
+-- Redeemed pours grouped by location for the admin dashboard; runs with the caller's RLS
+CREATE OR REPLACE FUNCTION public.get_pour_totals_by_location(_since timestamptz)
+RETURNS TABLE (location_id uuid, location_name text, pour_count bigint, glasses bigint)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT l.id, l.name, count(p.id), COALESCE(sum(p.quantity), 0)
+  FROM locations l
+  LEFT JOIN pours p
+    ON p.location_id = l.id
+   AND p.status = 'redeemed'
+   AND p.created_at >= _since
+  GROUP BY l.id, l.name
+  HAVING l.is_active OR count(p.id) > 0
+  ORDER BY COALESCE(sum(p.quantity), 0) DESC, l.name;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_pour_totals_by_location(timestamptz) FROM anon, public;
+GRANT EXECUTE ON FUNCTION public.get_pour_totals_by_location(timestamptz) TO authenticated;
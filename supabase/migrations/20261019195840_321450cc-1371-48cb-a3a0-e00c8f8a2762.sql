@@ -0,0 +1,450 @@
+-- Members get a separate monthly allowance for pours served to their guests
+ALTER TABLE public.tier_definitions
+  ADD COLUMN monthly_guest_pours integer NOT NULL DEFAULT 0 CHECK (monthly_guest_pours >= 0);
+
+-- Guest pours are recorded against the hosting member; name/email are kept for prospecting
+ALTER TABLE public.pours
+  ADD COLUMN is_guest boolean NOT NULL DEFAULT false,
+  ADD COLUMN guest_name text,
+  ADD COLUMN guest_email text;
+
+CREATE INDEX idx_pours_guest_email ON public.pours(guest_email) WHERE guest_email IS NOT NULL;
+
+-- Guest pours left this period. Mirrors get_available_pours without rollover or holds.
+CREATE OR REPLACE FUNCTION public.get_available_guest_pours(customer_uuid uuid)
+RETURNS integer
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _guest_max integer;
+  _period_start timestamptz;
+  _period_end timestamptz;
+  _start_date date;
+  _used integer;
+BEGIN
+  SELECT td.monthly_guest_pours, m.billing_period_start, m.billing_period_end, m.start_date
+  INTO _guest_max, _period_start, _period_end, _start_date
+  FROM memberships m
+  JOIN tier_definitions td ON td.tier_name = m.tier
+  WHERE m.customer_id = customer_uuid
+    AND m.status = 'active'
+  ORDER BY m.created_at DESC
+  LIMIT 1;
+
+  IF _guest_max IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  IF _period_start IS NULL THEN
+    _period_start := _start_date::timestamptz;
+    _period_end := _period_start + interval '1 month';
+  END IF;
+
+  -- Same safety net as get_available_pours: a missed renewal means a fresh period
+  IF _period_end IS NOT NULL AND _period_end < now() THEN
+    RETURN _guest_max;
+  END IF;
+
+  SELECT COALESCE(SUM(quantity), 0) INTO _used
+  FROM pours
+  WHERE customer_id = customer_uuid
+    AND created_at >= _period_start
+    AND (_period_end IS NULL OR created_at < _period_end)
+    AND status = 'redeemed'
+    AND is_guest;
+
+  RETURN GREATEST(0, _guest_max - _used);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_available_guest_pours(uuid) FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.get_available_guest_pours(uuid) TO service_role;
+
+-- Guest pours no longer count against the member's own allowance
+CREATE OR REPLACE FUNCTION public.get_available_pours(customer_uuid uuid)
+ RETURNS integer
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  membership_tier customer_tier;
+  tier_max_pours integer;
+  rollover_pours integer;
+  period_start timestamp with time zone;
+  period_end timestamp with time zone;
+  used_pours integer;
+  held_pours integer;
+  available integer;
+BEGIN
+  -- Get active membership details
+  SELECT m.tier, m.billing_period_start, m.billing_period_end, td.monthly_pours
+  INTO membership_tier, period_start, period_end, tier_max_pours
+  FROM memberships m
+  JOIN tier_definitions td ON td.tier_name = m.tier
+  WHERE m.customer_id = customer_uuid 
+    AND m.status = 'active'
+  ORDER BY m.created_at DESC
+  LIMIT 1;
+
+  -- If no active membership, return 0
+  IF membership_tier IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  -- If billing period not set, use start_date as fallback
+  IF period_start IS NULL THEN
+    SELECT start_date INTO period_start
+    FROM memberships
+    WHERE customer_id = customer_uuid AND status = 'active'
+    ORDER BY created_at DESC
+    LIMIT 1;
+    
+    period_start := period_start::timestamp with time zone;
+    period_end := (period_start + interval '1 month')::timestamp with time zone;
+  END IF;
+
+  rollover_pours := get_rollover_pours(customer_uuid);
+
+  -- Pending pre-orders hold allowance until they are confirmed, cancelled or expire
+  SELECT COALESCE(SUM(quantity), 0)
+  INTO held_pours
+  FROM pours
+  WHERE customer_id = customer_uuid
+    AND status = 'pending'
+    AND (expires_at IS NULL OR expires_at > now());
+
+  -- SAFETY NET: If billing_period_end is in the past, the webhook missed a renewal.
+  -- Treat the customer as being in a new period and return full allocation.
+  IF period_end IS NOT NULL AND period_end < now() THEN
+    RETURN GREATEST(0, tier_max_pours + rollover_pours - held_pours);
+  END IF;
+
+  -- Count pours used in current billing period
+  SELECT COALESCE(SUM(quantity), 0)
+  INTO used_pours
+  FROM pours
+  WHERE customer_id = customer_uuid
+    AND created_at >= period_start
+    AND (period_end IS NULL OR created_at < period_end)
+    AND status = 'redeemed'
+    AND NOT is_guest;
+
+  -- Calculate available (never negative, never exceed tier max plus rollover)
+  available := GREATEST(0, tier_max_pours + rollover_pours - used_pours - held_pours);
+  
+  RETURN available;
+END;
+$function$;
+
+-- Rollover only carries the member's own unused pours
+CREATE OR REPLACE FUNCTION public.apply_pour_rollover(
+  _customer_id uuid,
+  _tier customer_tier,
+  _period_start timestamptz,
+  _period_end timestamptz
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _monthly_pours integer;
+  _max_pours integer;
+  _expiry_periods integer;
+  _used integer;
+  _credit record;
+  _take integer;
+  _carried integer;
+  _granted integer;
+BEGIN
+  -- Serialize with redemptions for this member
+  PERFORM 1 FROM customers WHERE id = _customer_id FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1 FROM pour_rollovers
+    WHERE customer_id = _customer_id AND source_period_start = _period_start
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', true,
+      'message', 'Rollover already applied for this period',
+      'carried_pours', get_rollover_pours(_customer_id)
+    );
+  END IF;
+
+  SELECT monthly_pours, rollover_max_pours, rollover_expiry_periods
+  INTO _monthly_pours, _max_pours, _expiry_periods
+  FROM tier_definitions
+  WHERE tier_name = _tier;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Tier definition not found');
+  END IF;
+
+  SELECT COALESCE(SUM(quantity), 0) INTO _used
+  FROM pours
+  WHERE customer_id = _customer_id
+    AND created_at >= _period_start
+    AND created_at < _period_end
+    AND status = 'redeemed'
+    AND NOT is_guest;
+
+  FOR _credit IN
+    SELECT id, pours_remaining
+    FROM pour_rollovers
+    WHERE customer_id = _customer_id
+      AND periods_remaining > 0
+    ORDER BY created_at
+    FOR UPDATE
+  LOOP
+    _take := LEAST(_credit.pours_remaining, _used);
+    _used := _used - _take;
+
+    UPDATE pour_rollovers
+    SET pours_remaining = pours_remaining - _take,
+        periods_remaining = periods_remaining - 1
+    WHERE id = _credit.id;
+  END LOOP;
+
+  _carried := get_rollover_pours(_customer_id);
+  _granted := LEAST(
+    GREATEST(0, _monthly_pours - _used),
+    GREATEST(0, _max_pours - _carried)
+  );
+
+  -- Recorded even when nothing carries over so the period is not processed twice
+  INSERT INTO pour_rollovers (
+    customer_id,
+    source_period_start,
+    source_period_end,
+    pours_granted,
+    pours_remaining,
+    periods_remaining
+  )
+  VALUES (
+    _customer_id,
+    _period_start,
+    _period_end,
+    _granted,
+    _granted,
+    CASE WHEN _granted > 0 THEN _expiry_periods ELSE 0 END
+  );
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'message', 'Rollover applied',
+    'rolled_over', _granted,
+    'carried_pours', _carried + _granted
+  );
+END;
+$$;
+
+-- Voiding a guest pour restores the guest allowance; lifetime pours only track the member
+CREATE OR REPLACE FUNCTION public.apply_pour_reversal(_pour_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _customer_id uuid;
+  _quantity integer;
+  _is_guest boolean;
+  _available integer;
+BEGIN
+  UPDATE pours
+  SET status = 'reversed',
+      updated_at = now()
+  WHERE id = _pour_id
+  RETURNING customer_id, quantity, is_guest INTO _customer_id, _quantity, _is_guest;
+
+  _available := get_available_pours(_customer_id);
+
+  UPDATE customers
+  SET total_pours_lifetime = CASE
+        WHEN _is_guest THEN total_pours_lifetime
+        ELSE GREATEST(0, total_pours_lifetime - _quantity)
+      END,
+      pours_balance = _available
+  WHERE id = _customer_id;
+
+  RETURN _available;
+END;
+$$;
+
+-- redeem_pours gains guest fields
+DROP FUNCTION IF EXISTS public.redeem_pours(uuid, integer, uuid, uuid, text, text, uuid);
+
+CREATE OR REPLACE FUNCTION public.redeem_pours(
+  _customer_id uuid,
+  _quantity integer,
+  _location_id uuid,
+  _staff_id uuid,
+  _notes text DEFAULT NULL,
+  _reference text DEFAULT NULL,
+  _wine_id uuid DEFAULT NULL,
+  _is_guest boolean DEFAULT false,
+  _guest_name text DEFAULT NULL,
+  _guest_email text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _customer_status customer_status;
+  _available integer;
+  _pour_id uuid;
+BEGIN
+  IF _quantity IS NULL OR _quantity < 1 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Quantity must be at least 1'
+    );
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM locations WHERE id = _location_id AND is_active) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Location is not available'
+    );
+  END IF;
+
+  IF _wine_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM wines WHERE id = _wine_id AND is_active
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Wine is not available'
+    );
+  END IF;
+
+  -- Lock the customer row for the rest of the transaction
+  SELECT status INTO _customer_status
+  FROM customers
+  WHERE id = _customer_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Customer not found'
+    );
+  END IF;
+
+  IF _customer_status <> 'active' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Membership is not active'
+    );
+  END IF;
+
+  -- Guest pours draw from their own allowance and leave the member's untouched
+  IF _is_guest THEN
+    _available := get_available_guest_pours(_customer_id);
+
+    IF _available < _quantity THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'message', format('Only %s guest pours available in current billing period', _available),
+        'available_guest_pours', _available
+      );
+    END IF;
+
+    INSERT INTO pours (
+      customer_id,
+      quantity,
+      location_id,
+      notes,
+      toast_reference_number,
+      status,
+      recorded_by_staff_id,
+      wine_id,
+      is_guest,
+      guest_name,
+      guest_email
+    )
+    VALUES (
+      _customer_id,
+      _quantity,
+      _location_id,
+      _notes,
+      COALESCE(_reference, 'GUEST-' || floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint),
+      'redeemed',
+      _staff_id,
+      _wine_id,
+      true,
+      NULLIF(trim(_guest_name), ''),
+      NULLIF(lower(trim(_guest_email)), '')
+    )
+    RETURNING id INTO _pour_id;
+
+    UPDATE customers
+    SET last_activity = now()
+    WHERE id = _customer_id;
+
+    RETURN jsonb_build_object(
+      'success', true,
+      'message', 'Guest pour redeemed',
+      'pour_id', _pour_id,
+      'available_pours', get_available_pours(_customer_id),
+      'available_guest_pours', _available - _quantity
+    );
+  END IF;
+
+  -- Re-check the allowance while holding the lock
+  _available := get_available_pours(_customer_id);
+
+  IF _available < _quantity THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', format('Only %s pours available in current billing period', _available),
+      'available_pours', _available
+    );
+  END IF;
+
+  INSERT INTO pours (
+    customer_id,
+    quantity,
+    location_id,
+    notes,
+    toast_reference_number,
+    status,
+    recorded_by_staff_id,
+    wine_id
+  )
+  VALUES (
+    _customer_id,
+    _quantity,
+    _location_id,
+    _notes,
+    COALESCE(_reference, 'POUR-' || floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint),
+    'redeemed',
+    _staff_id,
+    _wine_id
+  )
+  RETURNING id INTO _pour_id;
+
+  UPDATE customers
+  SET total_pours_lifetime = total_pours_lifetime + _quantity,
+      pours_balance = _available - _quantity,
+      last_activity = now()
+  WHERE id = _customer_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'message', 'Pour redeemed',
+    'pour_id', _pour_id,
+    'available_pours', _available - _quantity
+  );
+END;
+$$;
+
+-- Only the redeem-pours edge function (service role) may call this
+REVOKE EXECUTE ON FUNCTION public.redeem_pours(uuid, integer, uuid, uuid, text, text, uuid, boolean, text, text) FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.redeem_pours(uuid, integer, uuid, uuid, text, text, uuid, boolean, text, text) TO service_role;
@@ -0,0 +1,237 @@
+-- Pours captured on a staff device carry a client-generated key so resyncs never double-count
+ALTER TABLE public.pours
+  ADD COLUMN idempotency_key uuid UNIQUE,
+  ADD COLUMN captured_at timestamptz;
+
+-- Queued pours the server rejected at sync time (e.g. over allowance), for a manager to settle
+CREATE TABLE public.pour_sync_conflicts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  idempotency_key uuid NOT NULL UNIQUE,
+  customer_id uuid NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+  staff_id uuid NOT NULL REFERENCES public.profiles(id),
+  payload jsonb NOT NULL,
+  reason text NOT NULL,
+  captured_at timestamptz NOT NULL,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved', 'dismissed')),
+  resolved_by uuid REFERENCES public.profiles(id),
+  resolved_at timestamptz,
+  resolution_note text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_pour_sync_conflicts_open ON public.pour_sync_conflicts(created_at) WHERE status = 'open';
+
+ALTER TABLE public.pour_sync_conflicts ENABLE ROW LEVEL SECURITY;
+
+-- Inserted by the redeem-pours edge function (service role); admins review them
+CREATE POLICY "Admins can view pour sync conflicts"
+  ON public.pour_sync_conflicts FOR SELECT
+  TO authenticated
+  USING (is_admin(auth.uid()));
+
+CREATE POLICY "Admins can update pour sync conflicts"
+  ON public.pour_sync_conflicts FOR UPDATE
+  TO authenticated
+  USING (is_admin(auth.uid()));
+
+-- redeem_pours gains an idempotency key and the device capture time
+DROP FUNCTION IF EXISTS public.redeem_pours(uuid, integer, uuid, uuid, text, text, uuid, boolean, text, text);
+
+CREATE OR REPLACE FUNCTION public.redeem_pours(
+  _customer_id uuid,
+  _quantity integer,
+  _location_id uuid,
+  _staff_id uuid,
+  _notes text DEFAULT NULL,
+  _reference text DEFAULT NULL,
+  _wine_id uuid DEFAULT NULL,
+  _is_guest boolean DEFAULT false,
+  _guest_name text DEFAULT NULL,
+  _guest_email text DEFAULT NULL,
+  _idempotency_key uuid DEFAULT NULL,
+  _captured_at timestamptz DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _customer_status customer_status;
+  _available integer;
+  _pour_id uuid;
+  _existing record;
+BEGIN
+  IF _quantity IS NULL OR _quantity < 1 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Quantity must be at least 1'
+    );
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM locations WHERE id = _location_id AND is_active) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Location is not available'
+    );
+  END IF;
+
+  IF _wine_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM wines WHERE id = _wine_id AND is_active
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Wine is not available'
+    );
+  END IF;
+
+  -- Lock the customer row for the rest of the transaction
+  SELECT status INTO _customer_status
+  FROM customers
+  WHERE id = _customer_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Customer not found'
+    );
+  END IF;
+
+  -- A retried submission (e.g. an offline queue resync) returns the pour it already created
+  IF _idempotency_key IS NOT NULL THEN
+    SELECT id, is_guest INTO _existing
+    FROM pours
+    WHERE idempotency_key = _idempotency_key;
+
+    IF FOUND THEN
+      RETURN jsonb_build_object(
+        'success', true,
+        'message', 'Pour already recorded',
+        'duplicate', true,
+        'pour_id', _existing.id,
+        'available_pours', get_available_pours(_customer_id),
+        'available_guest_pours', get_available_guest_pours(_customer_id)
+      );
+    END IF;
+  END IF;
+
+  IF _customer_status <> 'active' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Membership is not active'
+    );
+  END IF;
+
+  -- Guest pours draw from their own allowance and leave the member's untouched
+  IF _is_guest THEN
+    _available := get_available_guest_pours(_customer_id);
+
+    IF _available < _quantity THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'message', format('Only %s guest pours available in current billing period', _available),
+        'available_guest_pours', _available
+      );
+    END IF;
+
+    INSERT INTO pours (
+      customer_id,
+      quantity,
+      location_id,
+      notes,
+      toast_reference_number,
+      status,
+      recorded_by_staff_id,
+      wine_id,
+      is_guest,
+      guest_name,
+      guest_email,
+      idempotency_key,
+      captured_at
+    )
+    VALUES (
+      _customer_id,
+      _quantity,
+      _location_id,
+      _notes,
+      COALESCE(_reference, 'GUEST-' || floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint),
+      'redeemed',
+      _staff_id,
+      _wine_id,
+      true,
+      NULLIF(trim(_guest_name), ''),
+      NULLIF(lower(trim(_guest_email)), ''),
+      _idempotency_key,
+      _captured_at
+    )
+    RETURNING id INTO _pour_id;
+
+    UPDATE customers
+    SET last_activity = now()
+    WHERE id = _customer_id;
+
+    RETURN jsonb_build_object(
+      'success', true,
+      'message', 'Guest pour redeemed',
+      'pour_id', _pour_id,
+      'available_pours', get_available_pours(_customer_id),
+      'available_guest_pours', _available - _quantity
+    );
+  END IF;
+
+  -- Re-check the allowance while holding the lock
+  _available := get_available_pours(_customer_id);
+
+  IF _available < _quantity THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', format('Only %s pours available in current billing period', _available),
+      'available_pours', _available
+    );
+  END IF;
+
+  INSERT INTO pours (
+    customer_id,
+    quantity,
+    location_id,
+    notes,
+    toast_reference_number,
+    status,
+    recorded_by_staff_id,
+    wine_id,
+    idempotency_key,
+    captured_at
+  )
+  VALUES (
+    _customer_id,
+    _quantity,
+    _location_id,
+    _notes,
+    COALESCE(_reference, 'POUR-' || floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint),
+    'redeemed',
+    _staff_id,
+    _wine_id,
+    _idempotency_key,
+    _captured_at
+  )
+  RETURNING id INTO _pour_id;
+
+  UPDATE customers
+  SET total_pours_lifetime = total_pours_lifetime + _quantity,
+      pours_balance = _available - _quantity,
+      last_activity = now()
+  WHERE id = _customer_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'message', 'Pour redeemed',
+    'pour_id', _pour_id,
+    'available_pours', _available - _quantity
+  );
+END;
+$$;
+
+-- Only the redeem-pours edge function (service role) may call this
+REVOKE EXECUTE ON FUNCTION public.redeem_pours(uuid, integer, uuid, uuid, text, text, uuid, boolean, text, text, uuid, timestamptz) FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.redeem_pours(uuid, integer, uuid, uuid, text, text, uuid, boolean, text, text, uuid, timestamptz) TO service_role;
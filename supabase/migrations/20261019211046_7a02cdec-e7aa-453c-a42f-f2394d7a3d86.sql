@@ -0,0 +1,1015 @@
+-- Each venue serves its own pour sizes, and each size draws a set amount of allowance
+-- (e.g. a taste costs 0.5 pours). volume_ml overrides the wine's pour size for stock depletion.
+CREATE TABLE public.pour_sizes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  location_id uuid NOT NULL REFERENCES public.locations(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  volume_ml integer CHECK (volume_ml > 0),
+  allowance_cost numeric(5,2) NOT NULL DEFAULT 1 CHECK (allowance_cost > 0),
+  is_default boolean NOT NULL DEFAULT false,
+  is_active boolean NOT NULL DEFAULT true,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_pour_sizes_name ON public.pour_sizes(location_id, lower(name));
+-- At most one default per location; it is used when a pour does not name a size
+CREATE UNIQUE INDEX idx_pour_sizes_default ON public.pour_sizes(location_id) WHERE is_default;
+
+ALTER TABLE public.pour_sizes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view pour sizes"
+  ON public.pour_sizes FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can insert pour sizes"
+  ON public.pour_sizes FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin(auth.uid()));
+
+CREATE POLICY "Admins can update pour sizes"
+  ON public.pour_sizes FOR UPDATE
+  TO authenticated
+  USING (is_admin(auth.uid()));
+
+CREATE POLICY "Admins can delete pour sizes"
+  ON public.pour_sizes FOR DELETE
+  TO authenticated
+  USING (is_admin(auth.uid()));
+
+CREATE TRIGGER update_pour_sizes_updated_at
+  BEFORE UPDATE ON public.pour_sizes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Starting sizes for every existing venue; a full glass keeps costing one pour
+INSERT INTO public.pour_sizes (location_id, name, volume_ml, allowance_cost, is_default, sort_order)
+SELECT l.id, s.name, s.volume_ml, s.allowance_cost, s.is_default, s.sort_order
+FROM public.locations l
+CROSS JOIN (VALUES
+  ('Taste', 60, 0.5, false, 0),
+  ('Glass', 150, 1.0, true, 1),
+  ('Flight', 180, 1.5, false, 2)
+) AS s(name, volume_ml, allowance_cost, is_default, sort_order);
+
+-- allowance_cost is the total drawn by the row (quantity x the size's cost)
+ALTER TABLE public.pours
+  ADD COLUMN pour_size_id uuid REFERENCES public.pour_sizes(id),
+  ADD COLUMN allowance_cost numeric(8,2);
+
+UPDATE public.pours SET allowance_cost = quantity;
+
+ALTER TABLE public.pours
+  ALTER COLUMN allowance_cost SET NOT NULL,
+  ADD CONSTRAINT pours_allowance_cost_check CHECK (allowance_cost >= 0);
+
+CREATE INDEX idx_pours_pour_size_id ON public.pours(pour_size_id);
+
+-- Balances can now be fractional. The view and the family lookup expose pours_balance,
+-- so they are recreated around the type change.
+DROP VIEW public.customers_public;
+
+ALTER TABLE public.customers
+  ALTER COLUMN pours_balance TYPE numeric(8,2);
+
+ALTER TABLE public.pour_rollovers
+  ALTER COLUMN pours_granted TYPE numeric(8,2),
+  ALTER COLUMN pours_remaining TYPE numeric(8,2);
+
+CREATE VIEW public.customers_public
+WITH (security_invoker = true) AS
+  SELECT
+    id,
+    user_id,
+    tier,
+    member_since,
+    pours_balance,
+    total_pours_lifetime,
+    status,
+    signed_up_by_staff_id,
+    created_at,
+    updated_at,
+    last_activity,
+    preferences,
+    secondary_user_id,
+    qr_code_url
+    -- Excludes: activation_key
+  FROM public.customers;
+
+DROP FUNCTION IF EXISTS public.get_family_customer_data(uuid);
+
+CREATE FUNCTION public.get_family_customer_data(p_secondary_user_id uuid)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  tier customer_tier,
+  member_since date,
+  pours_balance numeric,
+  total_pours_lifetime integer,
+  status customer_status,
+  created_at timestamp with time zone,
+  updated_at timestamp with time zone,
+  last_activity timestamp with time zone,
+  secondary_user_id uuid,
+  qr_code_url text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    c.id,
+    c.user_id,
+    c.tier,
+    c.member_since,
+    c.pours_balance,
+    c.total_pours_lifetime,
+    c.status,
+    c.created_at,
+    c.updated_at,
+    c.last_activity,
+    c.secondary_user_id,
+    c.qr_code_url
+  FROM public.customers c
+  WHERE c.secondary_user_id = p_secondary_user_id;
+$$;
+
+-- The allowance functions sum allowance cost instead of quantity
+DROP FUNCTION IF EXISTS public.get_rollover_pours(uuid);
+
+CREATE FUNCTION public.get_rollover_pours(customer_uuid uuid)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(pours_remaining), 0)
+  FROM pour_rollovers
+  WHERE customer_id = customer_uuid
+    AND periods_remaining > 0;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_rollover_pours(uuid) FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.get_rollover_pours(uuid) TO service_role;
+
+DROP FUNCTION IF EXISTS public.get_available_pours(uuid);
+
+CREATE FUNCTION public.get_available_pours(customer_uuid uuid)
+ RETURNS numeric
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  membership_tier customer_tier;
+  tier_max_pours integer;
+  rollover_pours numeric;
+  period_start timestamp with time zone;
+  period_end timestamp with time zone;
+  used_pours numeric;
+  held_pours numeric;
+  available numeric;
+BEGIN
+  -- Get active membership details
+  SELECT m.tier, m.billing_period_start, m.billing_period_end, td.monthly_pours
+  INTO membership_tier, period_start, period_end, tier_max_pours
+  FROM memberships m
+  JOIN tier_definitions td ON td.tier_name = m.tier
+  WHERE m.customer_id = customer_uuid
+    AND m.status = 'active'
+  ORDER BY m.created_at DESC
+  LIMIT 1;
+
+  -- If no active membership, return 0
+  IF membership_tier IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  -- If billing period not set, use start_date as fallback
+  IF period_start IS NULL THEN
+    SELECT start_date INTO period_start
+    FROM memberships
+    WHERE customer_id = customer_uuid AND status = 'active'
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    period_start := period_start::timestamp with time zone;
+    period_end := (period_start + interval '1 month')::timestamp with time zone;
+  END IF;
+
+  rollover_pours := get_rollover_pours(customer_uuid);
+
+  -- Pending pre-orders hold allowance until they are confirmed, cancelled or expire
+  SELECT COALESCE(SUM(allowance_cost), 0)
+  INTO held_pours
+  FROM pours
+  WHERE customer_id = customer_uuid
+    AND status = 'pending'
+    AND (expires_at IS NULL OR expires_at > now());
+
+  -- SAFETY NET: If billing_period_end is in the past, the webhook missed a renewal.
+  -- Treat the customer as being in a new period and return full allocation.
+  IF period_end IS NOT NULL AND period_end < now() THEN
+    RETURN GREATEST(0, tier_max_pours + rollover_pours - held_pours);
+  END IF;
+
+  -- Allowance used in current billing period
+  SELECT COALESCE(SUM(allowance_cost), 0)
+  INTO used_pours
+  FROM pours
+  WHERE customer_id = customer_uuid
+    AND created_at >= period_start
+    AND (period_end IS NULL OR created_at < period_end)
+    AND status = 'redeemed'
+    AND NOT is_guest;
+
+  -- Calculate available (never negative, never exceed tier max plus rollover)
+  available := GREATEST(0, tier_max_pours + rollover_pours - used_pours - held_pours);
+
+  RETURN available;
+END;
+$function$;
+
+DROP FUNCTION IF EXISTS public.get_available_guest_pours(uuid);
+
+CREATE FUNCTION public.get_available_guest_pours(customer_uuid uuid)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _guest_max integer;
+  _period_start timestamptz;
+  _period_end timestamptz;
+  _start_date date;
+  _used numeric;
+BEGIN
+  SELECT td.monthly_guest_pours, m.billing_period_start, m.billing_period_end, m.start_date
+  INTO _guest_max, _period_start, _period_end, _start_date
+  FROM memberships m
+  JOIN tier_definitions td ON td.tier_name = m.tier
+  WHERE m.customer_id = customer_uuid
+    AND m.status = 'active'
+  ORDER BY m.created_at DESC
+  LIMIT 1;
+
+  IF _guest_max IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  IF _period_start IS NULL THEN
+    _period_start := _start_date::timestamptz;
+    _period_end := _period_start + interval '1 month';
+  END IF;
+
+  -- Same safety net as get_available_pours: a missed renewal means a fresh period
+  IF _period_end IS NOT NULL AND _period_end < now() THEN
+    RETURN _guest_max;
+  END IF;
+
+  SELECT COALESCE(SUM(allowance_cost), 0) INTO _used
+  FROM pours
+  WHERE customer_id = customer_uuid
+    AND created_at >= _period_start
+    AND (_period_end IS NULL OR created_at < _period_end)
+    AND status = 'redeemed'
+    AND is_guest;
+
+  RETURN GREATEST(0, _guest_max - _used);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_available_guest_pours(uuid) FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.get_available_guest_pours(uuid) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.apply_pour_rollover(
+  _customer_id uuid,
+  _tier customer_tier,
+  _period_start timestamptz,
+  _period_end timestamptz
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _monthly_pours integer;
+  _max_pours integer;
+  _expiry_periods integer;
+  _used numeric;
+  _credit record;
+  _take numeric;
+  _carried numeric;
+  _granted numeric;
+BEGIN
+  -- Serialize with redemptions for this member
+  PERFORM 1 FROM customers WHERE id = _customer_id FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1 FROM pour_rollovers
+    WHERE customer_id = _customer_id AND source_period_start = _period_start
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', true,
+      'message', 'Rollover already applied for this period',
+      'carried_pours', get_rollover_pours(_customer_id)
+    );
+  END IF;
+
+  SELECT monthly_pours, rollover_max_pours, rollover_expiry_periods
+  INTO _monthly_pours, _max_pours, _expiry_periods
+  FROM tier_definitions
+  WHERE tier_name = _tier;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Tier definition not found');
+  END IF;
+
+  SELECT COALESCE(SUM(allowance_cost), 0) INTO _used
+  FROM pours
+  WHERE customer_id = _customer_id
+    AND created_at >= _period_start
+    AND created_at < _period_end
+    AND status = 'redeemed'
+    AND NOT is_guest;
+
+  FOR _credit IN
+    SELECT id, pours_remaining
+    FROM pour_rollovers
+    WHERE customer_id = _customer_id
+      AND periods_remaining > 0
+    ORDER BY created_at
+    FOR UPDATE
+  LOOP
+    _take := LEAST(_credit.pours_remaining, _used);
+    _used := _used - _take;
+
+    UPDATE pour_rollovers
+    SET pours_remaining = pours_remaining - _take,
+        periods_remaining = periods_remaining - 1
+    WHERE id = _credit.id;
+  END LOOP;
+
+  _carried := get_rollover_pours(_customer_id);
+  _granted := LEAST(
+    GREATEST(0, _monthly_pours - _used),
+    GREATEST(0, _max_pours - _carried)
+  );
+
+  -- Recorded even when nothing carries over so the period is not processed twice
+  INSERT INTO pour_rollovers (
+    customer_id,
+    source_period_start,
+    source_period_end,
+    pours_granted,
+    pours_remaining,
+    periods_remaining
+  )
+  VALUES (
+    _customer_id,
+    _period_start,
+    _period_end,
+    _granted,
+    _granted,
+    CASE WHEN _granted > 0 THEN _expiry_periods ELSE 0 END
+  );
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'message', 'Rollover applied',
+    'rolled_over', _granted,
+    'carried_pours', _carried + _granted
+  );
+END;
+$$;
+
+-- Voids restore the allowance through get_available_pours; only the balance type changes
+DROP FUNCTION IF EXISTS public.apply_pour_reversal(uuid);
+
+CREATE FUNCTION public.apply_pour_reversal(_pour_id uuid)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _customer_id uuid;
+  _quantity integer;
+  _is_guest boolean;
+  _available numeric;
+BEGIN
+  UPDATE pours
+  SET status = 'reversed',
+      updated_at = now()
+  WHERE id = _pour_id
+  RETURNING customer_id, quantity, is_guest INTO _customer_id, _quantity, _is_guest;
+
+  _available := get_available_pours(_customer_id);
+
+  UPDATE customers
+  SET total_pours_lifetime = CASE
+        WHEN _is_guest THEN total_pours_lifetime
+        ELSE GREATEST(0, total_pours_lifetime - _quantity)
+      END,
+      pours_balance = _available
+  WHERE id = _customer_id;
+
+  RETURN _available;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_pour_reversal(uuid) FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.apply_pour_reversal(uuid) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.reverse_pour(
+  _pour_id uuid,
+  _staff_id uuid,
+  _reason text,
+  _bypass_window boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _pour record;
+  _window_minutes integer;
+  _pending_id uuid;
+  _reversal_id uuid;
+  _available numeric;
+BEGIN
+  IF _reason IS NULL OR length(trim(_reason)) = 0 THEN
+    RETURN jsonb_build_object('success', false, 'message', 'A reason is required to void a pour');
+  END IF;
+
+  -- Lock the pour so two voids cannot race
+  SELECT id, customer_id, quantity, status, created_at INTO _pour
+  FROM pours
+  WHERE id = _pour_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Pour not found');
+  END IF;
+
+  IF _pour.status <> 'redeemed' THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Only redeemed pours can be voided');
+  END IF;
+
+  SELECT COALESCE((value->>'staff_window_minutes')::integer, 30) INTO _window_minutes
+  FROM system_settings
+  WHERE key = 'pour_reversal';
+  _window_minutes := COALESCE(_window_minutes, 30);
+
+  SELECT id INTO _pending_id
+  FROM pour_reversals
+  WHERE pour_id = _pour_id AND status = 'pending';
+
+  -- Outside the staff window: queue for admin approval
+  IF NOT _bypass_window AND _pour.created_at < now() - make_interval(mins => _window_minutes) THEN
+    IF _pending_id IS NOT NULL THEN
+      RETURN jsonb_build_object('success', false, 'message', 'A void request for this pour is already awaiting approval');
+    END IF;
+
+    INSERT INTO pour_reversals (pour_id, customer_id, quantity, reason, status, requested_by)
+    VALUES (_pour_id, _pour.customer_id, _pour.quantity, trim(_reason), 'pending', _staff_id)
+    RETURNING id INTO _reversal_id;
+
+    RETURN jsonb_build_object(
+      'success', true,
+      'status', 'pending_approval',
+      'message', format('Pours older than %s minutes need admin approval to void', _window_minutes),
+      'reversal_id', _reversal_id
+    );
+  END IF;
+
+  _available := apply_pour_reversal(_pour_id);
+
+  IF _pending_id IS NOT NULL THEN
+    -- An admin voiding directly resolves the open request
+    UPDATE pour_reversals
+    SET status = 'approved',
+        reviewed_by = _staff_id,
+        reviewed_at = now()
+    WHERE id = _pending_id
+    RETURNING id INTO _reversal_id;
+  ELSE
+    INSERT INTO pour_reversals (pour_id, customer_id, quantity, reason, status, requested_by, reviewed_by, reviewed_at)
+    VALUES (_pour_id, _pour.customer_id, _pour.quantity, trim(_reason), 'approved', _staff_id, _staff_id, now())
+    RETURNING id INTO _reversal_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'status', 'reversed',
+    'message', 'Pour voided',
+    'reversal_id', _reversal_id,
+    'available_pours', _available
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.review_pour_reversal(
+  _reversal_id uuid,
+  _admin_id uuid,
+  _approve boolean
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _reversal record;
+  _pour_status pour_status;
+  _available numeric;
+BEGIN
+  SELECT id, pour_id, status INTO _reversal
+  FROM pour_reversals
+  WHERE id = _reversal_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Void request not found');
+  END IF;
+
+  IF _reversal.status <> 'pending' THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Void request has already been reviewed');
+  END IF;
+
+  IF NOT _approve THEN
+    UPDATE pour_reversals
+    SET status = 'rejected',
+        reviewed_by = _admin_id,
+        reviewed_at = now()
+    WHERE id = _reversal_id;
+
+    RETURN jsonb_build_object('success', true, 'status', 'rejected', 'message', 'Void request rejected');
+  END IF;
+
+  SELECT status INTO _pour_status
+  FROM pours
+  WHERE id = _reversal.pour_id
+  FOR UPDATE;
+
+  IF _pour_status IS DISTINCT FROM 'redeemed' THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Only redeemed pours can be voided');
+  END IF;
+
+  _available := apply_pour_reversal(_reversal.pour_id);
+
+  UPDATE pour_reversals
+  SET status = 'approved',
+      reviewed_by = _admin_id,
+      reviewed_at = now()
+  WHERE id = _reversal_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'status', 'reversed',
+    'message', 'Pour voided',
+    'available_pours', _available
+  );
+END;
+$$;
+
+-- Pre-orders hold the location's default size
+CREATE OR REPLACE FUNCTION public.create_pour_preorder(
+  _customer_id uuid,
+  _quantity integer,
+  _location_id uuid,
+  _notes text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _customer_status customer_status;
+  _hold_minutes integer;
+  _size_id uuid;
+  _unit_cost numeric;
+  _cost numeric;
+  _available numeric;
+  _pour_id uuid;
+  _expires_at timestamptz;
+BEGIN
+  IF _quantity IS NULL OR _quantity < 1 THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Quantity must be at least 1');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM locations WHERE id = _location_id AND is_active) THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Location is not available');
+  END IF;
+
+  SELECT id, allowance_cost INTO _size_id, _unit_cost
+  FROM pour_sizes
+  WHERE location_id = _location_id AND is_default AND is_active;
+
+  _cost := _quantity * COALESCE(_unit_cost, 1);
+
+  SELECT status INTO _customer_status
+  FROM customers
+  WHERE id = _customer_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Customer not found');
+  END IF;
+
+  IF _customer_status <> 'active' THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Membership is not active');
+  END IF;
+
+  _available := get_available_pours(_customer_id);
+
+  IF _available < _cost THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', format('Only %s pours available in current billing period', trim_scale(_available)),
+      'available_pours', _available
+    );
+  END IF;
+
+  SELECT COALESCE((value->>'hold_minutes')::integer, 60) INTO _hold_minutes
+  FROM system_settings
+  WHERE key = 'pour_preorders';
+  _expires_at := now() + make_interval(mins => COALESCE(_hold_minutes, 60));
+
+  INSERT INTO pours (
+    customer_id,
+    quantity,
+    location_id,
+    pour_size_id,
+    allowance_cost,
+    notes,
+    toast_reference_number,
+    status,
+    expires_at
+  )
+  VALUES (
+    _customer_id,
+    _quantity,
+    _location_id,
+    _size_id,
+    _cost,
+    _notes,
+    'PREORDER-' || floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint,
+    'pending',
+    _expires_at
+  )
+  RETURNING id INTO _pour_id;
+
+  UPDATE customers
+  SET pours_balance = _available - _cost
+  WHERE id = _customer_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'message', 'Pre-order placed',
+    'pour_id', _pour_id,
+    'expires_at', _expires_at,
+    'available_pours', _available - _cost
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.resolve_pour_preorder(
+  _pour_id uuid,
+  _confirm boolean,
+  _staff_id uuid DEFAULT NULL,
+  _reason text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _pour record;
+  _available numeric;
+BEGIN
+  SELECT id, customer_id, quantity, status, expires_at, notes INTO _pour
+  FROM pours
+  WHERE id = _pour_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Pre-order not found');
+  END IF;
+
+  IF _pour.status <> 'pending' THEN
+    RETURN jsonb_build_object('success', false, 'message', format('Pre-order is already %s', _pour.status));
+  END IF;
+
+  IF _confirm AND _pour.expires_at IS NOT NULL AND _pour.expires_at <= now() THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Pre-order has expired');
+  END IF;
+
+  IF _confirm THEN
+    UPDATE pours
+    SET status = 'redeemed',
+        recorded_by_staff_id = _staff_id,
+        updated_at = now()
+    WHERE id = _pour_id;
+  ELSE
+    UPDATE pours
+    SET status = 'cancelled',
+        notes = CASE
+          WHEN _reason IS NULL OR length(trim(_reason)) = 0 THEN notes
+          ELSE concat_ws(E'\n', notes, '[Cancelled] ' || trim(_reason))
+        END,
+        updated_at = now()
+    WHERE id = _pour_id;
+  END IF;
+
+  _available := get_available_pours(_pour.customer_id);
+
+  UPDATE customers
+  SET total_pours_lifetime = total_pours_lifetime + CASE WHEN _confirm THEN _pour.quantity ELSE 0 END,
+      pours_balance = _available,
+      last_activity = CASE WHEN _confirm THEN now() ELSE last_activity END
+  WHERE id = _pour.customer_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'status', CASE WHEN _confirm THEN 'redeemed' ELSE 'cancelled' END,
+    'message', CASE WHEN _confirm THEN 'Pre-order confirmed' ELSE 'Pre-order cancelled' END,
+    'available_pours', _available
+  );
+END;
+$$;
+
+-- redeem_pours gains a pour size; the location's default applies when none is given
+DROP FUNCTION IF EXISTS public.redeem_pours(uuid, integer, uuid, uuid, text, text, uuid, boolean, text, text, uuid, timestamptz);
+
+CREATE OR REPLACE FUNCTION public.redeem_pours(
+  _customer_id uuid,
+  _quantity integer,
+  _location_id uuid,
+  _staff_id uuid,
+  _notes text DEFAULT NULL,
+  _reference text DEFAULT NULL,
+  _wine_id uuid DEFAULT NULL,
+  _is_guest boolean DEFAULT false,
+  _guest_name text DEFAULT NULL,
+  _guest_email text DEFAULT NULL,
+  _idempotency_key uuid DEFAULT NULL,
+  _captured_at timestamptz DEFAULT NULL,
+  _pour_size_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _customer_status customer_status;
+  _size_id uuid;
+  _unit_cost numeric;
+  _cost numeric;
+  _available numeric;
+  _pour_id uuid;
+  _existing record;
+BEGIN
+  IF _quantity IS NULL OR _quantity < 1 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Quantity must be at least 1'
+    );
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM locations WHERE id = _location_id AND is_active) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Location is not available'
+    );
+  END IF;
+
+  IF _pour_size_id IS NOT NULL THEN
+    SELECT id, allowance_cost INTO _size_id, _unit_cost
+    FROM pour_sizes
+    WHERE id = _pour_size_id AND location_id = _location_id AND is_active;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'message', 'Pour size is not available at this location'
+      );
+    END IF;
+  ELSE
+    SELECT id, allowance_cost INTO _size_id, _unit_cost
+    FROM pour_sizes
+    WHERE location_id = _location_id AND is_default AND is_active;
+  END IF;
+
+  -- Locations without sizes keep the old one-pour-per-glass behaviour
+  _cost := _quantity * COALESCE(_unit_cost, 1);
+
+  IF _wine_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM wines WHERE id = _wine_id AND is_active
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Wine is not available'
+    );
+  END IF;
+
+  -- Lock the customer row for the rest of the transaction
+  SELECT status INTO _customer_status
+  FROM customers
+  WHERE id = _customer_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Customer not found'
+    );
+  END IF;
+
+  -- A retried submission (e.g. an offline queue resync) returns the pour it already created
+  IF _idempotency_key IS NOT NULL THEN
+    SELECT id, is_guest INTO _existing
+    FROM pours
+    WHERE idempotency_key = _idempotency_key;
+
+    IF FOUND THEN
+      RETURN jsonb_build_object(
+        'success', true,
+        'message', 'Pour already recorded',
+        'duplicate', true,
+        'pour_id', _existing.id,
+        'available_pours', get_available_pours(_customer_id),
+        'available_guest_pours', get_available_guest_pours(_customer_id)
+      );
+    END IF;
+  END IF;
+
+  IF _customer_status <> 'active' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Membership is not active'
+    );
+  END IF;
+
+  -- Guest pours draw from their own allowance and leave the member's untouched
+  IF _is_guest THEN
+    _available := get_available_guest_pours(_customer_id);
+
+    IF _available < _cost THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'message', format('Only %s guest pours available in current billing period', trim_scale(_available)),
+        'available_guest_pours', _available
+      );
+    END IF;
+
+    INSERT INTO pours (
+      customer_id,
+      quantity,
+      location_id,
+      pour_size_id,
+      allowance_cost,
+      notes,
+      toast_reference_number,
+      status,
+      recorded_by_staff_id,
+      wine_id,
+      is_guest,
+      guest_name,
+      guest_email,
+      idempotency_key,
+      captured_at
+    )
+    VALUES (
+      _customer_id,
+      _quantity,
+      _location_id,
+      _size_id,
+      _cost,
+      _notes,
+      COALESCE(_reference, 'GUEST-' || floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint),
+      'redeemed',
+      _staff_id,
+      _wine_id,
+      true,
+      NULLIF(trim(_guest_name), ''),
+      NULLIF(lower(trim(_guest_email)), ''),
+      _idempotency_key,
+      _captured_at
+    )
+    RETURNING id INTO _pour_id;
+
+    UPDATE customers
+    SET last_activity = now()
+    WHERE id = _customer_id;
+
+    RETURN jsonb_build_object(
+      'success', true,
+      'message', 'Guest pour redeemed',
+      'pour_id', _pour_id,
+      'allowance_cost', _cost,
+      'available_pours', get_available_pours(_customer_id),
+      'available_guest_pours', _available - _cost
+    );
+  END IF;
+
+  -- Re-check the allowance while holding the lock
+  _available := get_available_pours(_customer_id);
+
+  IF _available < _cost THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', format('Only %s pours available in current billing period', trim_scale(_available)),
+      'available_pours', _available
+    );
+  END IF;
+
+  INSERT INTO pours (
+    customer_id,
+    quantity,
+    location_id,
+    pour_size_id,
+    allowance_cost,
+    notes,
+    toast_reference_number,
+    status,
+    recorded_by_staff_id,
+    wine_id,
+    idempotency_key,
+    captured_at
+  )
+  VALUES (
+    _customer_id,
+    _quantity,
+    _location_id,
+    _size_id,
+    _cost,
+    _notes,
+    COALESCE(_reference, 'POUR-' || floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint),
+    'redeemed',
+    _staff_id,
+    _wine_id,
+    _idempotency_key,
+    _captured_at
+  )
+  RETURNING id INTO _pour_id;
+
+  UPDATE customers
+  SET total_pours_lifetime = total_pours_lifetime + _quantity,
+      pours_balance = _available - _cost,
+      last_activity = now()
+  WHERE id = _customer_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'message', 'Pour redeemed',
+    'pour_id', _pour_id,
+    'allowance_cost', _cost,
+    'available_pours', _available - _cost
+  );
+END;
+$$;
+
+-- Only the redeem-pours edge function (service role) may call this
+REVOKE EXECUTE ON FUNCTION public.redeem_pours(uuid, integer, uuid, uuid, text, text, uuid, boolean, text, text, uuid, timestamptz, uuid) FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.redeem_pours(uuid, integer, uuid, uuid, text, text, uuid, boolean, text, text, uuid, timestamptz, uuid) TO service_role;
+
+-- A sized pour depletes its own volume rather than the wine's standard pour
+CREATE OR REPLACE FUNCTION public.sync_pour_wine_stock()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _pour_size integer;
+BEGIN
+  IF NEW.status = 'redeemed'
+     AND NEW.wine_id IS NOT NULL
+     AND (TG_OP = 'INSERT' OR OLD.status <> 'redeemed') THEN
+    SELECT COALESCE(
+      (SELECT volume_ml FROM pour_sizes WHERE id = NEW.pour_size_id),
+      (SELECT pour_size_ml FROM wines WHERE id = NEW.wine_id)
+    ) INTO _pour_size;
+    PERFORM deplete_wine_stock(NEW.wine_id, NEW.quantity * _pour_size, NEW.id);
+  ELSIF TG_OP = 'UPDATE'
+     AND OLD.status = 'redeemed'
+     AND NEW.status <> 'redeemed'
+     AND OLD.wine_id IS NOT NULL THEN
+    PERFORM restore_wine_stock(OLD.wine_id, OLD.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
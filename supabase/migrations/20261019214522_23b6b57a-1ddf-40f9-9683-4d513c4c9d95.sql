@@ -0,0 +1,441 @@
+-- Responsible-service caps on how much a member is served per service day and per rolling
+-- window of hours. Set on tiers and/or venues; NULL means no cap and the tighter cap wins.
+-- Amounts are in allowance units, so two tastes at 0.5 count as one pour.
+ALTER TABLE public.tier_definitions
+  ADD COLUMN daily_pour_limit numeric(5,2) CHECK (daily_pour_limit > 0),
+  ADD COLUMN window_pour_limit numeric(5,2) CHECK (window_pour_limit > 0),
+  ADD COLUMN limit_window_hours integer CHECK (limit_window_hours BETWEEN 1 AND 24),
+  ADD CONSTRAINT tier_definitions_pour_window_check
+    CHECK ((window_pour_limit IS NULL) = (limit_window_hours IS NULL));
+
+ALTER TABLE public.locations
+  ADD COLUMN daily_pour_limit numeric(5,2) CHECK (daily_pour_limit > 0),
+  ADD COLUMN window_pour_limit numeric(5,2) CHECK (window_pour_limit > 0),
+  ADD COLUMN limit_window_hours integer CHECK (limit_window_hours BETWEEN 1 AND 24),
+  ADD CONSTRAINT locations_pour_window_check
+    CHECK ((window_pour_limit IS NULL) = (limit_window_hours IS NULL));
+
+-- The service day starts at this local hour, so a pour after midnight counts toward the night it belongs to
+INSERT INTO public.system_settings (key, value)
+VALUES ('pour_limits', '{"day_start_hour": 6, "timezone": "UTC"}'::jsonb)
+ON CONFLICT (key) DO NOTHING;
+
+-- Every pour recorded past a cap, with the manager who allowed it
+CREATE TABLE public.pour_limit_overrides (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  pour_id uuid NOT NULL REFERENCES public.pours(id) ON DELETE CASCADE,
+  customer_id uuid NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+  overridden_by uuid NOT NULL REFERENCES public.profiles(id),
+  reason text NOT NULL CHECK (length(trim(reason)) > 0),
+  limit_status jsonb NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_pour_limit_overrides_created_at ON public.pour_limit_overrides(created_at);
+CREATE INDEX idx_pour_limit_overrides_customer_id ON public.pour_limit_overrides(customer_id);
+
+ALTER TABLE public.pour_limit_overrides ENABLE ROW LEVEL SECURITY;
+
+-- Written only by redeem_pours; admins audit them
+CREATE POLICY "Admins can view pour limit overrides"
+  ON public.pour_limit_overrides FOR SELECT
+  TO authenticated
+  USING (is_admin(auth.uid()));
+
+-- Where a member stands against the caps that apply at a location. Guest pours are not counted;
+-- offline pours count from when they were served. remaining is NULL when no cap applies.
+CREATE OR REPLACE FUNCTION public.get_pour_limit_status(
+  _customer_id uuid,
+  _location_id uuid DEFAULT NULL,
+  _at timestamptz DEFAULT now()
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _tier_daily numeric;
+  _tier_window numeric;
+  _tier_hours integer;
+  _venue_daily numeric;
+  _venue_window numeric;
+  _venue_hours integer;
+  _settings jsonb;
+  _tz text;
+  _start_hour integer;
+  _day_start timestamptz;
+  _daily_limit numeric;
+  _daily_used numeric;
+  _tier_window_used numeric;
+  _venue_window_used numeric;
+  _window_limit numeric;
+  _window_hours integer;
+  _window_used numeric;
+  _daily_left numeric;
+  _window_left numeric;
+  _remaining numeric;
+BEGIN
+  SELECT td.daily_pour_limit, td.window_pour_limit, td.limit_window_hours
+  INTO _tier_daily, _tier_window, _tier_hours
+  FROM customers c
+  JOIN tier_definitions td ON td.tier_name = c.tier
+  WHERE c.id = _customer_id;
+
+  SELECT daily_pour_limit, window_pour_limit, limit_window_hours
+  INTO _venue_daily, _venue_window, _venue_hours
+  FROM locations
+  WHERE id = _location_id;
+
+  SELECT value INTO _settings FROM system_settings WHERE key = 'pour_limits';
+  _tz := COALESCE(_settings->>'timezone', 'UTC');
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = _tz) THEN
+    _tz := 'UTC';
+  END IF;
+  _start_hour := COALESCE((_settings->>'day_start_hour')::integer, 6);
+
+  _day_start := (
+    date_trunc('day', (_at AT TIME ZONE _tz) - make_interval(hours => _start_hour))
+    + make_interval(hours => _start_hour)
+  ) AT TIME ZONE _tz;
+
+  -- LEAST ignores NULLs, so an unset cap never tightens the other
+  _daily_limit := LEAST(_tier_daily, _venue_daily);
+
+  SELECT COALESCE(SUM(allowance_cost), 0) INTO _daily_used
+  FROM pours
+  WHERE customer_id = _customer_id
+    AND status = 'redeemed'
+    AND NOT is_guest
+    AND COALESCE(captured_at, created_at) >= _day_start
+    AND COALESCE(captured_at, created_at) <= _at;
+
+  IF _tier_window IS NOT NULL THEN
+    SELECT COALESCE(SUM(allowance_cost), 0) INTO _tier_window_used
+    FROM pours
+    WHERE customer_id = _customer_id
+      AND status = 'redeemed'
+      AND NOT is_guest
+      AND COALESCE(captured_at, created_at) > _at - make_interval(hours => _tier_hours)
+      AND COALESCE(captured_at, created_at) <= _at;
+  END IF;
+
+  IF _venue_window IS NOT NULL THEN
+    SELECT COALESCE(SUM(allowance_cost), 0) INTO _venue_window_used
+    FROM pours
+    WHERE customer_id = _customer_id
+      AND status = 'redeemed'
+      AND NOT is_guest
+      AND COALESCE(captured_at, created_at) > _at - make_interval(hours => _venue_hours)
+      AND COALESCE(captured_at, created_at) <= _at;
+  END IF;
+
+  -- Report whichever rolling window leaves less room
+  IF _tier_window IS NOT NULL
+     AND (_venue_window IS NULL OR _tier_window - _tier_window_used <= _venue_window - _venue_window_used) THEN
+    _window_limit := _tier_window;
+    _window_hours := _tier_hours;
+    _window_used := _tier_window_used;
+  ELSIF _venue_window IS NOT NULL THEN
+    _window_limit := _venue_window;
+    _window_hours := _venue_hours;
+    _window_used := _venue_window_used;
+  END IF;
+
+  _daily_left := GREATEST(0, _daily_limit - _daily_used);
+  _window_left := GREATEST(0, _window_limit - _window_used);
+  _remaining := LEAST(_daily_left, _window_left);
+
+  RETURN jsonb_build_object(
+    'daily_limit', _daily_limit,
+    'daily_used', _daily_used,
+    'day_started_at', _day_start,
+    'window_limit', _window_limit,
+    'window_hours', _window_hours,
+    'window_used', _window_used,
+    'remaining', _remaining,
+    'limited_by', CASE
+      WHEN _remaining IS NULL THEN NULL
+      WHEN _window_left IS NULL OR _daily_left <= _window_left THEN 'day'
+      ELSE 'window'
+    END
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_pour_limit_status(uuid, uuid, timestamptz) FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.get_pour_limit_status(uuid, uuid, timestamptz) TO service_role;
+
+-- redeem_pours enforces the caps; the edge function only passes an override reason for managers
+DROP FUNCTION IF EXISTS public.redeem_pours(uuid, integer, uuid, uuid, text, text, uuid, boolean, text, text, uuid, timestamptz, uuid);
+
+CREATE OR REPLACE FUNCTION public.redeem_pours(
+  _customer_id uuid,
+  _quantity integer,
+  _location_id uuid,
+  _staff_id uuid,
+  _notes text DEFAULT NULL,
+  _reference text DEFAULT NULL,
+  _wine_id uuid DEFAULT NULL,
+  _is_guest boolean DEFAULT false,
+  _guest_name text DEFAULT NULL,
+  _guest_email text DEFAULT NULL,
+  _idempotency_key uuid DEFAULT NULL,
+  _captured_at timestamptz DEFAULT NULL,
+  _pour_size_id uuid DEFAULT NULL,
+  _override_reason text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _customer_status customer_status;
+  _size_id uuid;
+  _unit_cost numeric;
+  _cost numeric;
+  _available numeric;
+  _pour_id uuid;
+  _existing record;
+  _limits jsonb;
+  _limit_remaining numeric;
+  _overridden boolean := false;
+BEGIN
+  IF _quantity IS NULL OR _quantity < 1 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Quantity must be at least 1'
+    );
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM locations WHERE id = _location_id AND is_active) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Location is not available'
+    );
+  END IF;
+
+  IF _pour_size_id IS NOT NULL THEN
+    SELECT id, allowance_cost INTO _size_id, _unit_cost
+    FROM pour_sizes
+    WHERE id = _pour_size_id AND location_id = _location_id AND is_active;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'message', 'Pour size is not available at this location'
+      );
+    END IF;
+  ELSE
+    SELECT id, allowance_cost INTO _size_id, _unit_cost
+    FROM pour_sizes
+    WHERE location_id = _location_id AND is_default AND is_active;
+  END IF;
+
+  -- Locations without sizes keep the old one-pour-per-glass behaviour
+  _cost := _quantity * COALESCE(_unit_cost, 1);
+
+  IF _wine_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM wines WHERE id = _wine_id AND is_active
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Wine is not available'
+    );
+  END IF;
+
+  -- Lock the customer row for the rest of the transaction
+  SELECT status INTO _customer_status
+  FROM customers
+  WHERE id = _customer_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Customer not found'
+    );
+  END IF;
+
+  -- A retried submission (e.g. an offline queue resync) returns the pour it already created
+  IF _idempotency_key IS NOT NULL THEN
+    SELECT id, is_guest INTO _existing
+    FROM pours
+    WHERE idempotency_key = _idempotency_key;
+
+    IF FOUND THEN
+      RETURN jsonb_build_object(
+        'success', true,
+        'message', 'Pour already recorded',
+        'duplicate', true,
+        'pour_id', _existing.id,
+        'available_pours', get_available_pours(_customer_id),
+        'available_guest_pours', get_available_guest_pours(_customer_id)
+      );
+    END IF;
+  END IF;
+
+  IF _customer_status <> 'active' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Membership is not active'
+    );
+  END IF;
+
+  -- Guest pours draw from their own allowance and leave the member's untouched
+  IF _is_guest THEN
+    _available := get_available_guest_pours(_customer_id);
+
+    IF _available < _cost THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'message', format('Only %s guest pours available in current billing period', trim_scale(_available)),
+        'available_guest_pours', _available
+      );
+    END IF;
+
+    INSERT INTO pours (
+      customer_id,
+      quantity,
+      location_id,
+      pour_size_id,
+      allowance_cost,
+      notes,
+      toast_reference_number,
+      status,
+      recorded_by_staff_id,
+      wine_id,
+      is_guest,
+      guest_name,
+      guest_email,
+      idempotency_key,
+      captured_at
+    )
+    VALUES (
+      _customer_id,
+      _quantity,
+      _location_id,
+      _size_id,
+      _cost,
+      _notes,
+      COALESCE(_reference, 'GUEST-' || floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint),
+      'redeemed',
+      _staff_id,
+      _wine_id,
+      true,
+      NULLIF(trim(_guest_name), ''),
+      NULLIF(lower(trim(_guest_email)), ''),
+      _idempotency_key,
+      _captured_at
+    )
+    RETURNING id INTO _pour_id;
+
+    UPDATE customers
+    SET last_activity = now()
+    WHERE id = _customer_id;
+
+    RETURN jsonb_build_object(
+      'success', true,
+      'message', 'Guest pour redeemed',
+      'pour_id', _pour_id,
+      'allowance_cost', _cost,
+      'available_pours', get_available_pours(_customer_id),
+      'available_guest_pours', _available - _cost
+    );
+  END IF;
+
+  -- Re-check the allowance while holding the lock
+  _available := get_available_pours(_customer_id);
+
+  IF _available < _cost THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', format('Only %s pours available in current billing period', trim_scale(_available)),
+      'available_pours', _available
+    );
+  END IF;
+
+  -- Responsible-service caps, judged at the time the pour was served
+  _limits := get_pour_limit_status(_customer_id, _location_id, COALESCE(_captured_at, now()));
+  _limit_remaining := (_limits->>'remaining')::numeric;
+
+  IF _limit_remaining IS NOT NULL AND _limit_remaining < _cost THEN
+    IF _override_reason IS NULL OR length(trim(_override_reason)) = 0 THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'limit_exceeded', true,
+        'message', CASE _limits->>'limited_by'
+          WHEN 'day' THEN format(
+            'Only %s more pours allowed today (limit %s)',
+            trim_scale(_limit_remaining), trim_scale((_limits->>'daily_limit')::numeric)
+          )
+          ELSE format(
+            'Only %s more pours allowed in %s hours (limit %s)',
+            trim_scale(_limit_remaining), _limits->>'window_hours', trim_scale((_limits->>'window_limit')::numeric)
+          )
+        END,
+        'limits', _limits,
+        'available_pours', _available
+      );
+    END IF;
+
+    _overridden := true;
+  END IF;
+
+  INSERT INTO pours (
+    customer_id,
+    quantity,
+    location_id,
+    pour_size_id,
+    allowance_cost,
+    notes,
+    toast_reference_number,
+    status,
+    recorded_by_staff_id,
+    wine_id,
+    idempotency_key,
+    captured_at
+  )
+  VALUES (
+    _customer_id,
+    _quantity,
+    _location_id,
+    _size_id,
+    _cost,
+    _notes,
+    COALESCE(_reference, 'POUR-' || floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint),
+    'redeemed',
+    _staff_id,
+    _wine_id,
+    _idempotency_key,
+    _captured_at
+  )
+  RETURNING id INTO _pour_id;
+
+  IF _overridden THEN
+    INSERT INTO pour_limit_overrides (pour_id, customer_id, overridden_by, reason, limit_status)
+    VALUES (_pour_id, _customer_id, _staff_id, trim(_override_reason), _limits);
+  END IF;
+
+  UPDATE customers
+  SET total_pours_lifetime = total_pours_lifetime + _quantity,
+      pours_balance = _available - _cost,
+      last_activity = now()
+  WHERE id = _customer_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'message', 'Pour redeemed',
+    'pour_id', _pour_id,
+    'allowance_cost', _cost,
+    'limit_overridden', _overridden,
+    'available_pours', _available - _cost
+  );
+END;
+$$;
+
+-- Only the redeem-pours edge function (service role) may call this
+REVOKE EXECUTE ON FUNCTION public.redeem_pours(uuid, integer, uuid, uuid, text, text, uuid, boolean, text, text, uuid, timestamptz, uuid, text) FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.redeem_pours(uuid, integer, uuid, uuid, text, text, uuid, boolean, text, text, uuid, timestamptz, uuid, text) TO service_role;
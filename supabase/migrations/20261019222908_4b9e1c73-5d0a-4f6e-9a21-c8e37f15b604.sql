@@ -0,0 +1,60 @@
+-- Membership QR tokens are single-use: the first successful scan claims the token's jti
+CREATE TABLE public.qr_token_uses (
+  jti text PRIMARY KEY,
+  customer_id uuid NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+  used_by uuid NOT NULL REFERENCES public.profiles(id),
+  expires_at timestamptz NOT NULL,
+  used_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_qr_token_uses_expires_at ON public.qr_token_uses(expires_at);
+
+ALTER TABLE public.qr_token_uses ENABLE ROW LEVEL SECURITY;
+
+-- Written only by consume_qr_token; admins can see who scanned what
+CREATE POLICY "Admins can view QR token uses"
+  ON public.qr_token_uses FOR SELECT
+  TO authenticated
+  USING (is_admin(auth.uid()));
+
+-- Claims a token for one scan. The primary key makes concurrent scans of the same
+-- screenshot race safely: exactly one insert wins and every other scan sees the first use.
+CREATE OR REPLACE FUNCTION public.consume_qr_token(
+  _jti text,
+  _customer_id uuid,
+  _staff_id uuid,
+  _expires_at timestamptz
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _used_at timestamptz;
+  _used_by uuid;
+BEGIN
+  INSERT INTO qr_token_uses (jti, customer_id, used_by, expires_at)
+  VALUES (_jti, _customer_id, _staff_id, _expires_at)
+  ON CONFLICT (jti) DO NOTHING;
+
+  IF FOUND THEN
+    -- Expired tokens can never verify again, so their claims are no longer needed
+    DELETE FROM qr_token_uses WHERE expires_at < now() - interval '1 day';
+
+    RETURN jsonb_build_object('success', true);
+  END IF;
+
+  SELECT used_at, used_by INTO _used_at, _used_by FROM qr_token_uses WHERE jti = _jti;
+
+  RETURN jsonb_build_object(
+    'success', false,
+    'message', 'This QR code has already been used',
+    'used_at', _used_at,
+    'used_by', _used_by
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_qr_token(text, uuid, uuid, timestamptz) FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.consume_qr_token(text, uuid, uuid, timestamptz) TO service_role;
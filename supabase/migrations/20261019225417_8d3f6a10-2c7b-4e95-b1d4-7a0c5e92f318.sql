@@ -0,0 +1,20 @@
+-- ES256 key pairs for membership QR tokens. Staff devices cache the public halves so scans
+-- verify without a connection; keys rotate and the next one is published before it signs.
+CREATE TABLE public.qr_signing_keys (
+  kid text PRIMARY KEY,
+  public_jwk jsonb NOT NULL,
+  private_jwk jsonb NOT NULL,
+  activates_at timestamptz NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_qr_signing_keys_activates_at ON public.qr_signing_keys(activates_at);
+
+-- Private keys never leave the edge functions: no policies, and no table access outside the service role
+ALTER TABLE public.qr_signing_keys ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.qr_signing_keys FROM anon, authenticated, public;
+GRANT ALL ON public.qr_signing_keys TO service_role;
+
+-- Scans verified on a staff device while offline are reconciled later and logged as such
+COMMENT ON COLUMN public.qr_verification_logs.verification_result IS
+  'success, success_offline, failed, expired, invalid or replayed';
@@ -0,0 +1,15 @@
+-- Per-member secret behind the rotating QR code. The member's app derives a new 6-digit code
+-- from it every 30 seconds; verify-qr-token checks the code so an old screenshot is recognised.
+CREATE TABLE public.qr_totp_secrets (
+  user_id uuid PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  secret text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Handed to the member only through generate-qr-token
+ALTER TABLE public.qr_totp_secrets ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.qr_totp_secrets FROM anon, authenticated, public;
+GRANT ALL ON public.qr_totp_secrets TO service_role;
+
+COMMENT ON COLUMN public.qr_verification_logs.verification_result IS
+  'success, success_offline, failed, expired, invalid, replayed or stale';
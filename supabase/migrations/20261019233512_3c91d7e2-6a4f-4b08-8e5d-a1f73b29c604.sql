@@ -0,0 +1,275 @@
+-- Tokens that cannot be decoded carry no member, but still count towards failure bursts from an IP
+ALTER TABLE public.qr_verification_logs ALTER COLUMN customer_id DROP NOT NULL;
+
+CREATE INDEX idx_qr_verification_logs_ip_address ON public.qr_verification_logs(ip_address, created_at);
+CREATE INDEX idx_qr_verification_logs_staff_id ON public.qr_verification_logs(staff_id, created_at);
+
+COMMENT ON COLUMN public.qr_verification_logs.verification_result IS
+  'success, success_offline, failed, expired, invalid, replayed, stale or suspended';
+
+-- A member whose QR an admin has suspended cannot get a new code, and scans of old ones are refused
+ALTER TABLE public.customers
+  ADD COLUMN qr_suspended_at timestamptz,
+  ADD COLUMN qr_suspended_by uuid REFERENCES public.profiles(id),
+  ADD COLUMN qr_suspended_reason text;
+
+GRANT SELECT (qr_suspended_at, qr_suspended_by, qr_suspended_reason) ON public.customers TO authenticated;
+
+-- Suspicious scan patterns found in qr_verification_logs. The fingerprint names the member, IP or
+-- staff member and the time bucket, so each detection run updates a flag rather than repeating it.
+CREATE TABLE public.qr_anomaly_flags (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind text NOT NULL CHECK (kind IN ('multi_device', 'failure_burst', 'heavy_scanning')),
+  fingerprint text NOT NULL UNIQUE,
+  customer_id uuid REFERENCES public.customers(id) ON DELETE CASCADE,
+  staff_id uuid REFERENCES public.profiles(id) ON DELETE CASCADE,
+  ip_address text,
+  event_count integer NOT NULL,
+  window_start timestamptz NOT NULL,
+  window_end timestamptz NOT NULL,
+  details jsonb NOT NULL DEFAULT '{}'::jsonb,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'dismissed', 'suspended')),
+  reviewed_by uuid REFERENCES public.profiles(id),
+  reviewed_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_qr_anomaly_flags_status ON public.qr_anomaly_flags(status, created_at);
+
+ALTER TABLE public.qr_anomaly_flags ENABLE ROW LEVEL SECURITY;
+
+-- Written only by detect_qr_anomalies; admins review them through review_qr_anomaly
+CREATE POLICY "Admins can view QR anomaly flags"
+  ON public.qr_anomaly_flags FOR SELECT
+  TO authenticated
+  USING (is_admin(auth.uid()));
+
+-- Scan the last two hours of verification logs for:
+--   multi_device   the same member scanned by a different staff member or IP within 10 minutes
+--   failure_burst  5 or more failed, expired or invalid tokens from one IP within 10 minutes
+--   heavy_scanning 60 or more scans by one staff member within an hour
+-- Offline scans are logged when they sync rather than when they were made, so they are left out
+-- of the device comparison. Returns the number of flags raised or updated.
+CREATE OR REPLACE FUNCTION public.detect_qr_anomalies()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _since timestamptz := now() - interval '2 hours';
+  _window interval := interval '10 minutes';
+  _burst_threshold integer := 5;
+  _heavy_threshold integer := 60;
+  _rows integer;
+  _total integer := 0;
+BEGIN
+  WITH scans AS (
+    SELECT
+      customer_id,
+      staff_id,
+      NULLIF(ip_address, 'unknown') AS ip_address,
+      created_at,
+      lag(staff_id) OVER w AS prev_staff_id,
+      lag(NULLIF(ip_address, 'unknown')) OVER w AS prev_ip_address,
+      lag(created_at) OVER w AS prev_created_at
+    FROM qr_verification_logs
+    WHERE created_at > _since
+      AND customer_id IS NOT NULL
+      AND verification_result IN ('success', 'replayed', 'stale')
+    WINDOW w AS (PARTITION BY customer_id ORDER BY created_at)
+  ), switches AS (
+    SELECT *
+    FROM scans
+    WHERE created_at - prev_created_at <= _window
+      AND (staff_id <> prev_staff_id OR ip_address IS DISTINCT FROM prev_ip_address)
+  )
+  INSERT INTO qr_anomaly_flags (kind, fingerprint, customer_id, event_count, window_start, window_end, details)
+  SELECT
+    'multi_device',
+    'multi_device:' || customer_id || ':' || to_char(date_trunc('hour', created_at), 'YYYY-MM-DD"T"HH24'),
+    customer_id,
+    count(*) + 1,
+    min(prev_created_at),
+    max(created_at),
+    jsonb_build_object(
+      'staff_ids', (SELECT jsonb_agg(DISTINCT s) FROM unnest(array_agg(staff_id) || array_agg(prev_staff_id)) s),
+      'ip_addresses', (
+        SELECT COALESCE(jsonb_agg(DISTINCT ip), '[]'::jsonb)
+        FROM unnest(array_agg(ip_address) || array_agg(prev_ip_address)) ip
+        WHERE ip IS NOT NULL
+      )
+    )
+  FROM switches
+  GROUP BY customer_id, date_trunc('hour', created_at)
+  ON CONFLICT (fingerprint) DO UPDATE
+  SET event_count = GREATEST(qr_anomaly_flags.event_count, EXCLUDED.event_count),
+      window_start = LEAST(qr_anomaly_flags.window_start, EXCLUDED.window_start),
+      window_end = GREATEST(qr_anomaly_flags.window_end, EXCLUDED.window_end),
+      details = EXCLUDED.details;
+  GET DIAGNOSTICS _rows = ROW_COUNT;
+  _total := _total + _rows;
+
+  INSERT INTO qr_anomaly_flags (kind, fingerprint, customer_id, staff_id, ip_address, event_count, window_start, window_end, details)
+  SELECT
+    'failure_burst',
+    'failure_burst:' || ip_address || ':' || to_char(date_bin(_window, created_at, 'epoch'::timestamptz), 'YYYY-MM-DD"T"HH24:MI'),
+    -- Attributed to a member or staff member only when every failure was theirs
+    CASE WHEN count(DISTINCT customer_id) = 1 AND count(customer_id) = count(*) THEN min(customer_id::text)::uuid END,
+    CASE WHEN count(DISTINCT staff_id) = 1 THEN min(staff_id::text)::uuid END,
+    ip_address,
+    count(*),
+    min(created_at),
+    max(created_at),
+    jsonb_build_object(
+      'failed', count(*) FILTER (WHERE verification_result = 'failed'),
+      'expired', count(*) FILTER (WHERE verification_result = 'expired'),
+      'invalid', count(*) FILTER (WHERE verification_result = 'invalid'),
+      'members', count(DISTINCT customer_id),
+      'staff', count(DISTINCT staff_id)
+    )
+  FROM qr_verification_logs
+  WHERE created_at > _since
+    AND verification_result IN ('failed', 'expired', 'invalid')
+    AND ip_address IS NOT NULL
+    AND ip_address <> 'unknown'
+  GROUP BY ip_address, date_bin(_window, created_at, 'epoch'::timestamptz)
+  HAVING count(*) >= _burst_threshold
+  ON CONFLICT (fingerprint) DO UPDATE
+  SET event_count = GREATEST(qr_anomaly_flags.event_count, EXCLUDED.event_count),
+      window_start = LEAST(qr_anomaly_flags.window_start, EXCLUDED.window_start),
+      window_end = GREATEST(qr_anomaly_flags.window_end, EXCLUDED.window_end),
+      customer_id = EXCLUDED.customer_id,
+      staff_id = EXCLUDED.staff_id,
+      details = EXCLUDED.details;
+  GET DIAGNOSTICS _rows = ROW_COUNT;
+  _total := _total + _rows;
+
+  INSERT INTO qr_anomaly_flags (kind, fingerprint, staff_id, event_count, window_start, window_end, details)
+  SELECT
+    'heavy_scanning',
+    'heavy_scanning:' || staff_id || ':' || to_char(date_trunc('hour', created_at), 'YYYY-MM-DD"T"HH24'),
+    staff_id,
+    count(*),
+    min(created_at),
+    max(created_at),
+    jsonb_build_object('members', count(DISTINCT customer_id))
+  FROM qr_verification_logs
+  WHERE created_at > _since
+  GROUP BY staff_id, date_trunc('hour', created_at)
+  HAVING count(*) >= _heavy_threshold
+  ON CONFLICT (fingerprint) DO UPDATE
+  SET event_count = GREATEST(qr_anomaly_flags.event_count, EXCLUDED.event_count),
+      window_start = LEAST(qr_anomaly_flags.window_start, EXCLUDED.window_start),
+      window_end = GREATEST(qr_anomaly_flags.window_end, EXCLUDED.window_end),
+      details = EXCLUDED.details;
+  GET DIAGNOSTICS _rows = ROW_COUNT;
+  _total := _total + _rows;
+
+  RETURN _total;
+END;
+$$;
+
+-- Suspend or restore a member's QR. Admins only; the reason is required when suspending.
+CREATE OR REPLACE FUNCTION public.set_customer_qr_suspension(
+  _customer_id uuid,
+  _suspend boolean,
+  _reason text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_admin(auth.uid()) THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Admin access required');
+  END IF;
+
+  IF _suspend AND (_reason IS NULL OR length(trim(_reason)) = 0) THEN
+    RETURN jsonb_build_object('success', false, 'message', 'A reason is required to suspend a QR code');
+  END IF;
+
+  UPDATE customers
+  SET qr_suspended_at = CASE WHEN _suspend THEN now() END,
+      qr_suspended_by = CASE WHEN _suspend THEN auth.uid() END,
+      qr_suspended_reason = CASE WHEN _suspend THEN trim(_reason) END,
+      updated_at = now()
+  WHERE id = _customer_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Customer not found');
+  END IF;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- Close an open flag, either dismissing it or suspending the flagged member's QR
+CREATE OR REPLACE FUNCTION public.review_qr_anomaly(
+  _flag_id uuid,
+  _action text,
+  _reason text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _flag record;
+  _result jsonb;
+BEGIN
+  IF NOT is_admin(auth.uid()) THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Admin access required');
+  END IF;
+
+  SELECT id, customer_id, status INTO _flag
+  FROM qr_anomaly_flags
+  WHERE id = _flag_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Flag not found');
+  END IF;
+
+  IF _flag.status <> 'open' THEN
+    RETURN jsonb_build_object('success', false, 'message', 'This flag has already been reviewed');
+  END IF;
+
+  IF _action = 'suspend' THEN
+    IF _flag.customer_id IS NULL THEN
+      RETURN jsonb_build_object('success', false, 'message', 'This flag is not tied to a single member');
+    END IF;
+
+    _result := set_customer_qr_suspension(_flag.customer_id, true, _reason);
+    IF NOT (_result->>'success')::boolean THEN
+      RETURN _result;
+    END IF;
+  ELSIF _action <> 'dismiss' THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Unknown action');
+  END IF;
+
+  UPDATE qr_anomaly_flags
+  SET status = CASE WHEN _action = 'suspend' THEN 'suspended' ELSE 'dismissed' END,
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  WHERE id = _flag_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- detect_qr_anomalies runs from pg_cron only; the review functions check is_admin themselves
+REVOKE EXECUTE ON FUNCTION public.detect_qr_anomalies() FROM anon, authenticated, public;
+REVOKE EXECUTE ON FUNCTION public.set_customer_qr_suspension(uuid, boolean, text) FROM anon, public;
+REVOKE EXECUTE ON FUNCTION public.review_qr_anomaly(uuid, text, text) FROM anon, public;
+GRANT EXECUTE ON FUNCTION public.detect_qr_anomalies() TO service_role;
+GRANT EXECUTE ON FUNCTION public.set_customer_qr_suspension(uuid, boolean, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.review_qr_anomaly(uuid, text, text) TO authenticated;
+
+SELECT cron.schedule(
+  'detect-qr-anomalies',
+  '*/5 * * * *',
+  $$SELECT public.detect_qr_anomalies();$$
+);
@@ -0,0 +1,17 @@
+-- Short numeric member codes that staff can type when a QR will not scan. Each is issued with a
+-- QR token and stands in for it, so verify-qr-token checks it the same way and it is used up
+-- together with the QR it was shown under.
+CREATE TABLE public.qr_short_codes (
+  code text PRIMARY KEY CHECK (code ~ '^[0-9]{8}$'),
+  token text NOT NULL,
+  customer_id uuid NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+  expires_at timestamptz NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_qr_short_codes_expires_at ON public.qr_short_codes(expires_at);
+
+-- Issued and looked up only by the QR edge functions
+ALTER TABLE public.qr_short_codes ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.qr_short_codes FROM anon, authenticated, public;
+GRANT ALL ON public.qr_short_codes TO service_role;
@@ -0,0 +1,20 @@
+-- Membership passes saved to Apple Wallet or Google Wallet. A pass cannot rotate like the QR in
+-- the app, so its barcode carries this serial and secret, which verify-qr-token looks up; each
+-- member has one pass per platform, and revoking it stops that barcode from scanning.
+CREATE TABLE public.wallet_passes (
+  serial uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  customer_id uuid NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+  platform text NOT NULL CHECK (platform IN ('apple', 'google')),
+  secret text NOT NULL,
+  revoked_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, platform)
+);
+
+CREATE INDEX idx_wallet_passes_customer_id ON public.wallet_passes(customer_id);
+
+-- Issued and checked only by the wallet-pass and verify-qr-token edge functions
+ALTER TABLE public.wallet_passes ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.wallet_passes FROM anon, authenticated, public;
+GRANT ALL ON public.wallet_passes TO service_role;
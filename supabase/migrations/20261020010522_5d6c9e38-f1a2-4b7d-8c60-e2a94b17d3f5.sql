@@ -0,0 +1,75 @@
+-- Every Stripe webhook event received, so retried deliveries are acted on once and failures can
+-- be inspected and re-run. Keyed on Stripe's own event ID.
+CREATE TABLE public.stripe_events (
+  id text PRIMARY KEY,
+  type text NOT NULL,
+  payload jsonb NOT NULL,
+  status text NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'processed', 'failed')),
+  attempts integer NOT NULL DEFAULT 0,
+  last_error text,
+  received_at timestamptz NOT NULL DEFAULT now(),
+  last_attempt_at timestamptz,
+  processed_at timestamptz
+);
+
+CREATE INDEX idx_stripe_events_received_at ON public.stripe_events(received_at DESC);
+CREATE INDEX idx_stripe_events_status ON public.stripe_events(status);
+
+ALTER TABLE public.stripe_events ENABLE ROW LEVEL SECURITY;
+
+-- Written by stripe-webhook and replay-stripe-event; admins review them
+CREATE POLICY "Admins can view Stripe events"
+  ON public.stripe_events FOR SELECT
+  TO authenticated
+  USING (is_admin(auth.uid()));
+
+-- Record an event and claim it for processing. A delivery of an event already processed, or one
+-- still being processed by another delivery, is not claimed; a failed event is claimed again, as
+-- is one whose processing stopped without an outcome. _force re-runs a processed event.
+CREATE OR REPLACE FUNCTION public.claim_stripe_event(
+  _event_id text,
+  _type text,
+  _payload jsonb,
+  _force boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event record;
+BEGIN
+  INSERT INTO stripe_events (id, type, payload, status, attempts, last_attempt_at)
+  VALUES (_event_id, _type, _payload, 'processing', 1, now())
+  ON CONFLICT (id) DO NOTHING;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object('claimed', true, 'attempts', 1);
+  END IF;
+
+  SELECT status, attempts, last_attempt_at INTO _event
+  FROM stripe_events
+  WHERE id = _event_id
+  FOR UPDATE;
+
+  IF _event.status = 'processed' AND NOT _force THEN
+    RETURN jsonb_build_object('claimed', false, 'status', 'processed');
+  END IF;
+
+  IF _event.status = 'processing' AND _event.last_attempt_at > now() - interval '5 minutes' THEN
+    RETURN jsonb_build_object('claimed', false, 'status', 'processing');
+  END IF;
+
+  UPDATE stripe_events
+  SET status = 'processing',
+      attempts = attempts + 1,
+      last_attempt_at = now()
+  WHERE id = _event_id;
+
+  RETURN jsonb_build_object('claimed', true, 'attempts', _event.attempts + 1);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_stripe_event(text, text, jsonb, boolean) FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.claim_stripe_event(text, text, jsonb, boolean) TO service_role;
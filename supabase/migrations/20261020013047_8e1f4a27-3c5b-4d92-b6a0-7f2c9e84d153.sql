@@ -0,0 +1,398 @@
+-- Dunning: a membership whose renewal payment fails is 'past_due' for a grace period, during which
+-- the member keeps their benefits and is reminded to update their payment method. Redemptions are
+-- suspended when the grace period ends and restored when a later invoice is paid.
+ALTER TYPE public.membership_status ADD VALUE IF NOT EXISTS 'past_due';
+
+ALTER TABLE public.memberships
+  ADD COLUMN past_due_since timestamptz,
+  ADD COLUMN grace_period_ends_at timestamptz,
+  ADD COLUMN past_due_invoice_url text,
+  ADD COLUMN dunning_reminders_sent integer NOT NULL DEFAULT 0,
+  ADD COLUMN last_dunning_reminder_at timestamptz,
+  ADD COLUMN redemptions_suspended_at timestamptz;
+
+CREATE INDEX idx_memberships_past_due ON public.memberships(grace_period_ends_at)
+  WHERE past_due_since IS NOT NULL;
+
+-- How long a past-due member keeps their benefits, and how often they are reminded meanwhile
+INSERT INTO public.system_settings (key, value)
+VALUES ('dunning', '{"grace_days": 7, "reminder_interval_days": 3}'::jsonb)
+ON CONFLICT (key) DO NOTHING;
+
+-- A past-due membership is still the member's current one, so allowance and tier capacity count it
+CREATE OR REPLACE FUNCTION public.get_available_pours(customer_uuid uuid)
+ RETURNS numeric
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  membership_tier customer_tier;
+  tier_max_pours integer;
+  rollover_pours numeric;
+  period_start timestamp with time zone;
+  period_end timestamp with time zone;
+  used_pours numeric;
+  held_pours numeric;
+  available numeric;
+BEGIN
+  -- Get active membership details
+  SELECT m.tier, m.billing_period_start, m.billing_period_end, td.monthly_pours
+  INTO membership_tier, period_start, period_end, tier_max_pours
+  FROM memberships m
+  JOIN tier_definitions td ON td.tier_name = m.tier
+  WHERE m.customer_id = customer_uuid
+    AND m.status IN ('active', 'past_due')
+  ORDER BY m.created_at DESC
+  LIMIT 1;
+
+  -- If no active membership, return 0
+  IF membership_tier IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  -- If billing period not set, use start_date as fallback
+  IF period_start IS NULL THEN
+    SELECT start_date INTO period_start
+    FROM memberships
+    WHERE customer_id = customer_uuid AND status IN ('active', 'past_due')
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    period_start := period_start::timestamp with time zone;
+    period_end := (period_start + interval '1 month')::timestamp with time zone;
+  END IF;
+
+  rollover_pours := get_rollover_pours(customer_uuid);
+
+  -- Pending pre-orders hold allowance until they are confirmed, cancelled or expire
+  SELECT COALESCE(SUM(allowance_cost), 0)
+  INTO held_pours
+  FROM pours
+  WHERE customer_id = customer_uuid
+    AND status = 'pending'
+    AND (expires_at IS NULL OR expires_at > now());
+
+  -- SAFETY NET: If billing_period_end is in the past, the webhook missed a renewal.
+  -- Treat the customer as being in a new period and return full allocation.
+  IF period_end IS NOT NULL AND period_end < now() THEN
+    RETURN GREATEST(0, tier_max_pours + rollover_pours - held_pours);
+  END IF;
+
+  -- Allowance used in current billing period
+  SELECT COALESCE(SUM(allowance_cost), 0)
+  INTO used_pours
+  FROM pours
+  WHERE customer_id = customer_uuid
+    AND created_at >= period_start
+    AND (period_end IS NULL OR created_at < period_end)
+    AND status = 'redeemed'
+    AND NOT is_guest;
+
+  -- Calculate available (never negative, never exceed tier max plus rollover)
+  available := GREATEST(0, tier_max_pours + rollover_pours - used_pours - held_pours);
+
+  RETURN available;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.get_available_guest_pours(customer_uuid uuid)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _guest_max integer;
+  _period_start timestamptz;
+  _period_end timestamptz;
+  _start_date date;
+  _used numeric;
+BEGIN
+  SELECT td.monthly_guest_pours, m.billing_period_start, m.billing_period_end, m.start_date
+  INTO _guest_max, _period_start, _period_end, _start_date
+  FROM memberships m
+  JOIN tier_definitions td ON td.tier_name = m.tier
+  WHERE m.customer_id = customer_uuid
+    AND m.status IN ('active', 'past_due')
+  ORDER BY m.created_at DESC
+  LIMIT 1;
+
+  IF _guest_max IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  IF _period_start IS NULL THEN
+    _period_start := _start_date::timestamptz;
+    _period_end := _period_start + interval '1 month';
+  END IF;
+
+  -- Same safety net as get_available_pours: a missed renewal means a fresh period
+  IF _period_end IS NOT NULL AND _period_end < now() THEN
+    RETURN _guest_max;
+  END IF;
+
+  SELECT COALESCE(SUM(allowance_cost), 0) INTO _used
+  FROM pours
+  WHERE customer_id = customer_uuid
+    AND created_at >= _period_start
+    AND (_period_end IS NULL OR created_at < _period_end)
+    AND status = 'redeemed'
+    AND is_guest;
+
+  RETURN GREATEST(0, _guest_max - _used);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reserve_tier_slot(
+  _tier_name customer_tier,
+  _user_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _max_subscriptions integer;
+  _current_count integer;
+  _result jsonb;
+BEGIN
+  -- Lock the tier definition row to prevent concurrent modifications
+  SELECT max_subscriptions INTO _max_subscriptions
+  FROM tier_definitions
+  WHERE tier_name = _tier_name
+  FOR UPDATE;
+
+  -- If no max set, always allow
+  IF _max_subscriptions IS NULL THEN
+    RETURN jsonb_build_object(
+      'success', true,
+      'message', 'No limit set for this tier',
+      'available', null,
+      'max', null
+    );
+  END IF;
+
+  -- Count current active subscriptions for this tier
+  SELECT COUNT(*) INTO _current_count
+  FROM memberships
+  WHERE tier = _tier_name
+    AND status IN ('active', 'past_due');
+
+  -- Check if slot is available
+  IF _current_count >= _max_subscriptions THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Tier is sold out',
+      'available', 0,
+      'max', _max_subscriptions,
+      'current', _current_count
+    );
+  END IF;
+
+  -- Slot is available
+  RETURN jsonb_build_object(
+    'success', true,
+    'message', 'Slot available',
+    'available', _max_subscriptions - _current_count,
+    'max', _max_subscriptions,
+    'current', _current_count
+  );
+END;
+$$;
+
+-- Called by stripe-webhook for invoice.payment_failed. The grace period runs from the first failed
+-- payment; later failures (Stripe's retries) only refresh the invoice link.
+CREATE OR REPLACE FUNCTION public.mark_membership_past_due(
+  _membership_id uuid,
+  _invoice_url text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _membership record;
+  _grace_days integer;
+  _grace_ends timestamptz;
+BEGIN
+  SELECT id, status, past_due_since, grace_period_ends_at INTO _membership
+  FROM memberships
+  WHERE id = _membership_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Membership not found');
+  END IF;
+
+  IF _membership.status NOT IN ('active', 'past_due') THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Membership is not active');
+  END IF;
+
+  IF _membership.past_due_since IS NOT NULL THEN
+    UPDATE memberships
+    SET past_due_invoice_url = COALESCE(_invoice_url, past_due_invoice_url)
+    WHERE id = _membership_id;
+
+    RETURN jsonb_build_object(
+      'success', true,
+      'newly_past_due', false,
+      'grace_period_ends_at', _membership.grace_period_ends_at
+    );
+  END IF;
+
+  SELECT COALESCE((value->>'grace_days')::integer, 7) INTO _grace_days
+  FROM system_settings
+  WHERE key = 'dunning';
+
+  _grace_ends := now() + make_interval(days => COALESCE(_grace_days, 7));
+
+  UPDATE memberships
+  SET status = 'past_due',
+      past_due_since = now(),
+      grace_period_ends_at = _grace_ends,
+      past_due_invoice_url = _invoice_url,
+      dunning_reminders_sent = 0,
+      last_dunning_reminder_at = NULL,
+      redemptions_suspended_at = NULL
+  WHERE id = _membership_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'newly_past_due', true,
+    'grace_period_ends_at', _grace_ends
+  );
+END;
+$$;
+
+-- Ends the grace period for a membership: its member can no longer redeem until a payment succeeds.
+-- Only a member who is otherwise active is suspended, so restoring them later cannot undo an admin's
+-- own suspension.
+CREATE OR REPLACE FUNCTION public.suspend_past_due_membership(_membership_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _membership record;
+BEGIN
+  SELECT id, customer_id, status, grace_period_ends_at, redemptions_suspended_at INTO _membership
+  FROM memberships
+  WHERE id = _membership_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _membership.status <> 'past_due' THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Membership is not past due');
+  END IF;
+
+  IF _membership.redemptions_suspended_at IS NOT NULL THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Redemptions are already suspended');
+  END IF;
+
+  IF _membership.grace_period_ends_at > now() THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Grace period has not ended');
+  END IF;
+
+  UPDATE memberships
+  SET redemptions_suspended_at = now()
+  WHERE id = _membership_id;
+
+  UPDATE customers
+  SET status = 'suspended'
+  WHERE id = _membership.customer_id
+    AND status = 'active';
+
+  RETURN jsonb_build_object('success', true, 'message', 'Redemptions suspended');
+END;
+$$;
+
+-- Called when an invoice is paid: the membership is active again and, if the grace period had run
+-- out, the member can redeem again.
+CREATE OR REPLACE FUNCTION public.clear_membership_past_due(_membership_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _membership record;
+  _restored boolean := false;
+BEGIN
+  SELECT id, customer_id, status, redemptions_suspended_at INTO _membership
+  FROM memberships
+  WHERE id = _membership_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _membership.status <> 'past_due' THEN
+    RETURN jsonb_build_object('success', true, 'message', 'Membership is not past due', 'restored', false);
+  END IF;
+
+  IF _membership.redemptions_suspended_at IS NOT NULL THEN
+    UPDATE customers
+    SET status = 'active'
+    WHERE id = _membership.customer_id
+      AND status = 'suspended';
+    _restored := FOUND;
+  END IF;
+
+  UPDATE memberships
+  SET status = 'active',
+      past_due_since = NULL,
+      grace_period_ends_at = NULL,
+      past_due_invoice_url = NULL,
+      dunning_reminders_sent = 0,
+      last_dunning_reminder_at = NULL,
+      redemptions_suspended_at = NULL
+  WHERE id = _membership_id;
+
+  RETURN jsonb_build_object('success', true, 'message', 'Membership is active', 'restored', _restored);
+END;
+$$;
+
+-- What the signed-in member sees about a payment problem on their Dashboard. Customers cannot read
+-- memberships directly.
+CREATE OR REPLACE FUNCTION public.get_my_billing_status()
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _membership record;
+BEGIN
+  SELECT m.past_due_since, m.grace_period_ends_at, m.past_due_invoice_url, m.redemptions_suspended_at
+  INTO _membership
+  FROM memberships m
+  JOIN customers c ON c.id = m.customer_id
+  WHERE c.user_id = auth.uid()
+    AND m.status = 'past_due'
+  ORDER BY m.created_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('past_due', false);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'past_due', true,
+    'past_due_since', _membership.past_due_since,
+    'grace_period_ends_at', _membership.grace_period_ends_at,
+    'update_payment_url', _membership.past_due_invoice_url,
+    'redemptions_suspended', _membership.redemptions_suspended_at IS NOT NULL
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.mark_membership_past_due(uuid, text) FROM anon, authenticated, public;
+REVOKE EXECUTE ON FUNCTION public.suspend_past_due_membership(uuid) FROM anon, authenticated, public;
+REVOKE EXECUTE ON FUNCTION public.clear_membership_past_due(uuid) FROM anon, authenticated, public;
+REVOKE EXECUTE ON FUNCTION public.get_my_billing_status() FROM anon, public;
+GRANT EXECUTE ON FUNCTION public.mark_membership_past_due(uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION public.suspend_past_due_membership(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION public.clear_membership_past_due(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_my_billing_status() TO authenticated;
@@ -0,0 +1,55 @@
+-- Self-serve tier changes. Upgrades apply at once; a downgrade is scheduled in Stripe for the end of
+-- the billing period and recorded here so the member can see it coming.
+ALTER TABLE public.memberships
+  ADD COLUMN scheduled_tier customer_tier,
+  ADD COLUMN scheduled_tier_at timestamptz;
+
+-- Moves a membership to another tier mid-period. Pours already used this period count against the
+-- new allowance, so an upgrade adds the difference and a downgrade can leave nothing until renewal.
+-- pours_balance is refreshed from the recalculated allowance rather than reset.
+CREATE OR REPLACE FUNCTION public.apply_tier_change(
+  _membership_id uuid,
+  _tier customer_tier,
+  _monthly_price numeric
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _customer_id uuid;
+  _available numeric;
+BEGIN
+  SELECT customer_id INTO _customer_id
+  FROM memberships
+  WHERE id = _membership_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Membership not found');
+  END IF;
+
+  -- Serialize with redemptions for this member
+  PERFORM 1 FROM customers WHERE id = _customer_id FOR UPDATE;
+
+  UPDATE memberships
+  SET tier = _tier,
+      monthly_price = _monthly_price,
+      scheduled_tier = NULL,
+      scheduled_tier_at = NULL
+  WHERE id = _membership_id;
+
+  _available := get_available_pours(_customer_id);
+
+  UPDATE customers
+  SET tier = _tier,
+      pours_balance = _available
+  WHERE id = _customer_id;
+
+  RETURN jsonb_build_object('success', true, 'available_pours', _available);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_tier_change(uuid, customer_tier, numeric) FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.apply_tier_change(uuid, customer_tier, numeric) TO service_role;
@@ -0,0 +1,576 @@
+-- Vacation holds. A paused membership stays active, so it keeps its place under the tier's
+-- subscription cap, while Stripe stops collecting payment and redemptions are refused until the
+-- chosen resume date. How long and how often a member may pause is set per tier.
+ALTER TABLE public.tier_definitions
+  ADD COLUMN max_pause_days integer NOT NULL DEFAULT 30 CHECK (max_pause_days >= 0),
+  ADD COLUMN max_pauses_per_year integer NOT NULL DEFAULT 1 CHECK (max_pauses_per_year >= 0);
+
+ALTER TABLE public.memberships
+  ADD COLUMN paused_at timestamptz,
+  ADD COLUMN pause_resumes_at timestamptz;
+
+-- Each pause taken, for the per-year limit and for staff reference
+CREATE TABLE public.membership_pauses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  membership_id uuid NOT NULL REFERENCES public.memberships(id) ON DELETE CASCADE,
+  customer_id uuid NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+  started_at timestamptz NOT NULL DEFAULT now(),
+  resumes_at timestamptz NOT NULL,
+  resumed_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_membership_pauses_membership ON public.membership_pauses(membership_id, started_at DESC);
+
+ALTER TABLE public.membership_pauses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view membership pauses"
+  ON public.membership_pauses FOR SELECT
+  TO authenticated
+  USING (has_role(auth.uid(), 'staff'::app_role));
+
+CREATE POLICY "Customers can view own membership pauses"
+  ON public.membership_pauses FOR SELECT
+  TO authenticated
+  USING (customer_id IN (SELECT id FROM public.customers WHERE user_id = auth.uid()));
+
+-- The resume date of the customer's current pause, or NULL when they are not paused. A pause
+-- whose resume date has passed no longer counts even before the resume is recorded.
+CREATE OR REPLACE FUNCTION public.get_membership_paused_until(_customer_id uuid)
+RETURNS timestamptz
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT pause_resumes_at
+  FROM memberships
+  WHERE customer_id = _customer_id
+    AND status IN ('active', 'past_due')
+    AND paused_at IS NOT NULL
+    AND pause_resumes_at > now()
+  ORDER BY created_at DESC
+  LIMIT 1;
+$$;
+
+-- Starts a pause after checking the tier's limits. Called before Stripe stops collection; if that
+-- fails the pause is taken back with end_membership_pause(_discard => true).
+CREATE OR REPLACE FUNCTION public.start_membership_pause(
+  _membership_id uuid,
+  _resumes_at timestamptz
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _membership record;
+  _max_days integer;
+  _max_per_year integer;
+  _pauses_this_year integer;
+  _pause_id uuid;
+BEGIN
+  SELECT id, customer_id, tier, status, paused_at, pause_resumes_at INTO _membership
+  FROM memberships
+  WHERE id = _membership_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Membership not found');
+  END IF;
+
+  IF _membership.status <> 'active' THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Only an active membership in good standing can be paused');
+  END IF;
+
+  IF _membership.paused_at IS NOT NULL AND _membership.pause_resumes_at > now() THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Membership is already paused');
+  END IF;
+
+  SELECT max_pause_days, max_pauses_per_year INTO _max_days, _max_per_year
+  FROM tier_definitions
+  WHERE tier_name = _membership.tier;
+
+  IF COALESCE(_max_days, 0) = 0 OR COALESCE(_max_per_year, 0) = 0 THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Pausing is not available for this tier');
+  END IF;
+
+  IF _resumes_at < now() + interval '1 day' THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Resume date must be at least a day away');
+  END IF;
+
+  IF _resumes_at > now() + make_interval(days => _max_days) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', format('A pause can last at most %s days', _max_days)
+    );
+  END IF;
+
+  SELECT COUNT(*) INTO _pauses_this_year
+  FROM membership_pauses
+  WHERE membership_id = _membership_id
+    AND started_at > now() - interval '1 year';
+
+  IF _pauses_this_year >= _max_per_year THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', format('You can pause %s time(s) a year and have already used that', _max_per_year)
+    );
+  END IF;
+
+  INSERT INTO membership_pauses (membership_id, customer_id, resumes_at)
+  VALUES (_membership_id, _membership.customer_id, _resumes_at)
+  RETURNING id INTO _pause_id;
+
+  UPDATE memberships
+  SET paused_at = now(),
+      pause_resumes_at = _resumes_at
+  WHERE id = _membership_id;
+
+  RETURN jsonb_build_object('success', true, 'pause_id', _pause_id, 'resumes_at', _resumes_at);
+END;
+$$;
+
+-- Ends the membership's pause, early or on its resume date. _discard removes a pause that never
+-- took effect in Stripe so it does not count against the yearly limit.
+CREATE OR REPLACE FUNCTION public.end_membership_pause(
+  _membership_id uuid,
+  _discard boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _paused_at timestamptz;
+BEGIN
+  SELECT paused_at INTO _paused_at
+  FROM memberships
+  WHERE id = _membership_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Membership not found');
+  END IF;
+
+  IF _paused_at IS NULL THEN
+    RETURN jsonb_build_object('success', true, 'message', 'Membership is not paused');
+  END IF;
+
+  IF _discard THEN
+    DELETE FROM membership_pauses
+    WHERE membership_id = _membership_id
+      AND resumed_at IS NULL;
+  ELSE
+    UPDATE membership_pauses
+    SET resumed_at = LEAST(now(), resumes_at)
+    WHERE membership_id = _membership_id
+      AND resumed_at IS NULL;
+  END IF;
+
+  UPDATE memberships
+  SET paused_at = NULL,
+      pause_resumes_at = NULL
+  WHERE id = _membership_id;
+
+  RETURN jsonb_build_object('success', true, 'message', 'Membership resumed');
+END;
+$$;
+
+-- Redemptions and pre-orders are refused while the member is paused
+CREATE OR REPLACE FUNCTION public.redeem_pours(
+  _customer_id uuid,
+  _quantity integer,
+  _location_id uuid,
+  _staff_id uuid,
+  _notes text DEFAULT NULL,
+  _reference text DEFAULT NULL,
+  _wine_id uuid DEFAULT NULL,
+  _is_guest boolean DEFAULT false,
+  _guest_name text DEFAULT NULL,
+  _guest_email text DEFAULT NULL,
+  _idempotency_key uuid DEFAULT NULL,
+  _captured_at timestamptz DEFAULT NULL,
+  _pour_size_id uuid DEFAULT NULL,
+  _override_reason text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _customer_status customer_status;
+  _size_id uuid;
+  _unit_cost numeric;
+  _cost numeric;
+  _available numeric;
+  _pour_id uuid;
+  _existing record;
+  _limits jsonb;
+  _limit_remaining numeric;
+  _overridden boolean := false;
+  _paused_until timestamptz;
+BEGIN
+  IF _quantity IS NULL OR _quantity < 1 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Quantity must be at least 1'
+    );
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM locations WHERE id = _location_id AND is_active) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Location is not available'
+    );
+  END IF;
+
+  IF _pour_size_id IS NOT NULL THEN
+    SELECT id, allowance_cost INTO _size_id, _unit_cost
+    FROM pour_sizes
+    WHERE id = _pour_size_id AND location_id = _location_id AND is_active;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'message', 'Pour size is not available at this location'
+      );
+    END IF;
+  ELSE
+    SELECT id, allowance_cost INTO _size_id, _unit_cost
+    FROM pour_sizes
+    WHERE location_id = _location_id AND is_default AND is_active;
+  END IF;
+
+  -- Locations without sizes keep the old one-pour-per-glass behaviour
+  _cost := _quantity * COALESCE(_unit_cost, 1);
+
+  IF _wine_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM wines WHERE id = _wine_id AND is_active
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Wine is not available'
+    );
+  END IF;
+
+  -- Lock the customer row for the rest of the transaction
+  SELECT status INTO _customer_status
+  FROM customers
+  WHERE id = _customer_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Customer not found'
+    );
+  END IF;
+
+  -- A retried submission (e.g. an offline queue resync) returns the pour it already created
+  IF _idempotency_key IS NOT NULL THEN
+    SELECT id, is_guest INTO _existing
+    FROM pours
+    WHERE idempotency_key = _idempotency_key;
+
+    IF FOUND THEN
+      RETURN jsonb_build_object(
+        'success', true,
+        'message', 'Pour already recorded',
+        'duplicate', true,
+        'pour_id', _existing.id,
+        'available_pours', get_available_pours(_customer_id),
+        'available_guest_pours', get_available_guest_pours(_customer_id)
+      );
+    END IF;
+  END IF;
+
+  IF _customer_status <> 'active' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Membership is not active'
+    );
+  END IF;
+
+  -- A paused member keeps their allowance for when they return; no override applies
+  _paused_until := get_membership_paused_until(_customer_id);
+  IF _paused_until IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', format('Membership is paused until %s', to_char(_paused_until, 'FMMonth FMDD')),
+      'paused_until', _paused_until
+    );
+  END IF;
+
+  -- Guest pours draw from their own allowance and leave the member's untouched
+  IF _is_guest THEN
+    _available := get_available_guest_pours(_customer_id);
+
+    IF _available < _cost THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'message', format('Only %s guest pours available in current billing period', trim_scale(_available)),
+        'available_guest_pours', _available
+      );
+    END IF;
+
+    INSERT INTO pours (
+      customer_id,
+      quantity,
+      location_id,
+      pour_size_id,
+      allowance_cost,
+      notes,
+      toast_reference_number,
+      status,
+      recorded_by_staff_id,
+      wine_id,
+      is_guest,
+      guest_name,
+      guest_email,
+      idempotency_key,
+      captured_at
+    )
+    VALUES (
+      _customer_id,
+      _quantity,
+      _location_id,
+      _size_id,
+      _cost,
+      _notes,
+      COALESCE(_reference, 'GUEST-' || floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint),
+      'redeemed',
+      _staff_id,
+      _wine_id,
+      true,
+      NULLIF(trim(_guest_name), ''),
+      NULLIF(lower(trim(_guest_email)), ''),
+      _idempotency_key,
+      _captured_at
+    )
+    RETURNING id INTO _pour_id;
+
+    UPDATE customers
+    SET last_activity = now()
+    WHERE id = _customer_id;
+
+    RETURN jsonb_build_object(
+      'success', true,
+      'message', 'Guest pour redeemed',
+      'pour_id', _pour_id,
+      'allowance_cost', _cost,
+      'available_pours', get_available_pours(_customer_id),
+      'available_guest_pours', _available - _cost
+    );
+  END IF;
+
+  -- Re-check the allowance while holding the lock
+  _available := get_available_pours(_customer_id);
+
+  IF _available < _cost THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', format('Only %s pours available in current billing period', trim_scale(_available)),
+      'available_pours', _available
+    );
+  END IF;
+
+  -- Responsible-service caps, judged at the time the pour was served
+  _limits := get_pour_limit_status(_customer_id, _location_id, COALESCE(_captured_at, now()));
+  _limit_remaining := (_limits->>'remaining')::numeric;
+
+  IF _limit_remaining IS NOT NULL AND _limit_remaining < _cost THEN
+    IF _override_reason IS NULL OR length(trim(_override_reason)) = 0 THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'limit_exceeded', true,
+        'message', CASE _limits->>'limited_by'
+          WHEN 'day' THEN format(
+            'Only %s more pours allowed today (limit %s)',
+            trim_scale(_limit_remaining), trim_scale((_limits->>'daily_limit')::numeric)
+          )
+          ELSE format(
+            'Only %s more pours allowed in %s hours (limit %s)',
+            trim_scale(_limit_remaining), _limits->>'window_hours', trim_scale((_limits->>'window_limit')::numeric)
+          )
+        END,
+        'limits', _limits,
+        'available_pours', _available
+      );
+    END IF;
+
+    _overridden := true;
+  END IF;
+
+  INSERT INTO pours (
+    customer_id,
+    quantity,
+    location_id,
+    pour_size_id,
+    allowance_cost,
+    notes,
+    toast_reference_number,
+    status,
+    recorded_by_staff_id,
+    wine_id,
+    idempotency_key,
+    captured_at
+  )
+  VALUES (
+    _customer_id,
+    _quantity,
+    _location_id,
+    _size_id,
+    _cost,
+    _notes,
+    COALESCE(_reference, 'POUR-' || floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint),
+    'redeemed',
+    _staff_id,
+    _wine_id,
+    _idempotency_key,
+    _captured_at
+  )
+  RETURNING id INTO _pour_id;
+
+  IF _overridden THEN
+    INSERT INTO pour_limit_overrides (pour_id, customer_id, overridden_by, reason, limit_status)
+    VALUES (_pour_id, _customer_id, _staff_id, trim(_override_reason), _limits);
+  END IF;
+
+  UPDATE customers
+  SET total_pours_lifetime = total_pours_lifetime + _quantity,
+      pours_balance = _available - _cost,
+      last_activity = now()
+  WHERE id = _customer_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'message', 'Pour redeemed',
+    'pour_id', _pour_id,
+    'allowance_cost', _cost,
+    'limit_overridden', _overridden,
+    'available_pours', _available - _cost
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_pour_preorder(
+  _customer_id uuid,
+  _quantity integer,
+  _location_id uuid,
+  _notes text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _customer_status customer_status;
+  _hold_minutes integer;
+  _size_id uuid;
+  _unit_cost numeric;
+  _cost numeric;
+  _available numeric;
+  _pour_id uuid;
+  _expires_at timestamptz;
+  _paused_until timestamptz;
+BEGIN
+  IF _quantity IS NULL OR _quantity < 1 THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Quantity must be at least 1');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM locations WHERE id = _location_id AND is_active) THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Location is not available');
+  END IF;
+
+  SELECT id, allowance_cost INTO _size_id, _unit_cost
+  FROM pour_sizes
+  WHERE location_id = _location_id AND is_default AND is_active;
+
+  _cost := _quantity * COALESCE(_unit_cost, 1);
+
+  SELECT status INTO _customer_status
+  FROM customers
+  WHERE id = _customer_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Customer not found');
+  END IF;
+
+  IF _customer_status <> 'active' THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Membership is not active');
+  END IF;
+
+  _paused_until := get_membership_paused_until(_customer_id);
+  IF _paused_until IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', format('Membership is paused until %s', to_char(_paused_until, 'FMMonth FMDD')),
+      'paused_until', _paused_until
+    );
+  END IF;
+
+  _available := get_available_pours(_customer_id);
+
+  IF _available < _cost THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', format('Only %s pours available in current billing period', trim_scale(_available)),
+      'available_pours', _available
+    );
+  END IF;
+
+  SELECT COALESCE((value->>'hold_minutes')::integer, 60) INTO _hold_minutes
+  FROM system_settings
+  WHERE key = 'pour_preorders';
+  _expires_at := now() + make_interval(mins => COALESCE(_hold_minutes, 60));
+
+  INSERT INTO pours (
+    customer_id,
+    quantity,
+    location_id,
+    pour_size_id,
+    allowance_cost,
+    notes,
+    toast_reference_number,
+    status,
+    expires_at
+  )
+  VALUES (
+    _customer_id,
+    _quantity,
+    _location_id,
+    _size_id,
+    _cost,
+    _notes,
+    'PREORDER-' || floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint,
+    'pending',
+    _expires_at
+  )
+  RETURNING id INTO _pour_id;
+
+  UPDATE customers
+  SET pours_balance = _available - _cost
+  WHERE id = _customer_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'message', 'Pre-order placed',
+    'pour_id', _pour_id,
+    'expires_at', _expires_at,
+    'available_pours', _available - _cost
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_membership_paused_until(uuid) FROM anon, authenticated, public;
+REVOKE EXECUTE ON FUNCTION public.start_membership_pause(uuid, timestamptz) FROM anon, authenticated, public;
+REVOKE EXECUTE ON FUNCTION public.end_membership_pause(uuid, boolean) FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.get_membership_paused_until(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION public.start_membership_pause(uuid, timestamptz) TO service_role;
+GRANT EXECUTE ON FUNCTION public.end_membership_pause(uuid, boolean) TO service_role;
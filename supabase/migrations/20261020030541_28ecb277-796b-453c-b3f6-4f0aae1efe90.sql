@@ -0,0 +1,143 @@
+-- Prices per tier and billing interval, so a tier can be sold monthly and annually. The Stripe
+-- price a subscription is on identifies both its tier and its interval.
+CREATE TABLE public.tier_prices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tier_name customer_tier NOT NULL,
+  interval text NOT NULL CHECK (interval IN ('month', 'year')),
+  amount numeric(10,2) NOT NULL CHECK (amount >= 0),
+  stripe_price_id text NOT NULL UNIQUE,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- One price on sale per tier and interval; retired prices stay so existing subscriptions resolve
+CREATE UNIQUE INDEX idx_tier_prices_active_interval
+  ON public.tier_prices(tier_name, interval)
+  WHERE is_active;
+
+ALTER TABLE public.tier_prices ENABLE ROW LEVEL SECURITY;
+
+-- Like tier_definitions, Stripe price IDs are staff-only; members see prices through
+-- check-tier-availability
+CREATE POLICY "Staff and admins can view tier prices"
+  ON public.tier_prices FOR SELECT
+  TO authenticated
+  USING (has_role(auth.uid(), 'staff'::app_role));
+
+CREATE POLICY "Admins can insert tier prices"
+  ON public.tier_prices FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin(auth.uid()));
+
+CREATE POLICY "Admins can update tier prices"
+  ON public.tier_prices FOR UPDATE
+  TO authenticated
+  USING (is_admin(auth.uid()));
+
+CREATE TRIGGER update_tier_prices_updated_at
+  BEFORE UPDATE ON public.tier_prices
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The existing monthly prices become the first rows
+INSERT INTO public.tier_prices (tier_name, interval, amount, stripe_price_id)
+SELECT tier_name, 'month', monthly_price, stripe_price_id
+FROM public.tier_definitions
+WHERE stripe_price_id IS NOT NULL
+ON CONFLICT (stripe_price_id) DO NOTHING;
+
+COMMENT ON COLUMN public.tier_definitions.stripe_price_id IS 'Superseded by tier_prices';
+
+-- billing_period_start/end remain the pour allowance period, which is always about a month.
+-- subscription_period_start/end hold the term Stripe has billed for, which for an annual plan
+-- spans twelve allowance periods. monthly_price is the monthly equivalent of the plan's price.
+ALTER TABLE public.memberships
+  ADD COLUMN billing_interval text NOT NULL DEFAULT 'month' CHECK (billing_interval IN ('month', 'year')),
+  ADD COLUMN tier_price_id uuid REFERENCES public.tier_prices(id),
+  ADD COLUMN subscription_period_start timestamptz,
+  ADD COLUMN subscription_period_end timestamptz;
+
+UPDATE public.memberships m
+SET subscription_period_start = m.billing_period_start,
+    subscription_period_end = m.billing_period_end,
+    tier_price_id = (
+      SELECT tp.id
+      FROM public.tier_prices tp
+      WHERE tp.tier_name = m.tier AND tp.interval = 'month'
+      ORDER BY tp.is_active DESC, tp.created_at DESC
+      LIMIT 1
+    )
+WHERE m.stripe_subscription_id IS NOT NULL;
+
+-- Starts the next allowance period for memberships whose period has ended inside a term that is
+-- already paid for, i.e. the months of an annual plan. The period that ends with the term is left
+-- to invoice.payment_succeeded, as for monthly plans. Periods are counted from the start of the
+-- term so month-end dates do not drift; a membership that missed several is caught up one period
+-- per run.
+CREATE OR REPLACE FUNCTION public.advance_pour_allowance_periods()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _membership record;
+  _months integer;
+  _next_start timestamptz;
+  _next_end timestamptz;
+  _advanced integer := 0;
+BEGIN
+  FOR _membership IN
+    SELECT id, customer_id, tier, billing_period_start, billing_period_end,
+           subscription_period_start, subscription_period_end
+    FROM memberships
+    WHERE status IN ('active', 'past_due')
+      AND billing_period_start IS NOT NULL
+      AND billing_period_end <= now()
+      AND subscription_period_start IS NOT NULL
+      AND billing_period_end < subscription_period_end
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    -- Close out the month that ended under the tier's rollover policy
+    PERFORM apply_pour_rollover(
+      _membership.customer_id,
+      _membership.tier,
+      _membership.billing_period_start,
+      _membership.billing_period_end
+    );
+
+    _next_start := _membership.billing_period_end;
+    _months := 1;
+    WHILE _membership.subscription_period_start + make_interval(months => _months) <= _next_start LOOP
+      _months := _months + 1;
+    END LOOP;
+    _next_end := LEAST(
+      _membership.subscription_period_start + make_interval(months => _months),
+      _membership.subscription_period_end
+    );
+
+    UPDATE memberships
+    SET billing_period_start = _next_start,
+        billing_period_end = _next_end
+    WHERE id = _membership.id;
+
+    UPDATE customers
+    SET pours_balance = get_available_pours(id)
+    WHERE id = _membership.customer_id;
+
+    _advanced := _advanced + 1;
+  END LOOP;
+
+  RETURN _advanced;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.advance_pour_allowance_periods() FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.advance_pour_allowance_periods() TO service_role;
+
+SELECT cron.schedule(
+  'advance-pour-allowance-periods',
+  '10 * * * *',
+  $$SELECT public.advance_pour_allowance_periods();$$
+);
@@ -0,0 +1,130 @@
+-- Confirming a pre-order serves a pour, so it is held to the same checks as redeem_pours: the
+-- membership must still be active and not paused, and the responsible-service caps apply with
+-- the same manager override. Withdrawing or rejecting a pre-order is always allowed.
+DROP FUNCTION IF EXISTS public.resolve_pour_preorder(uuid, boolean, uuid, text);
+
+CREATE OR REPLACE FUNCTION public.resolve_pour_preorder(
+  _pour_id uuid,
+  _confirm boolean,
+  _staff_id uuid DEFAULT NULL,
+  _reason text DEFAULT NULL,
+  _override_reason text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _pour record;
+  _customer_status customer_status;
+  _paused_until timestamptz;
+  _limits jsonb;
+  _limit_remaining numeric;
+  _overridden boolean := false;
+  _available numeric;
+BEGIN
+  SELECT id, customer_id, quantity, location_id, allowance_cost, status, expires_at, notes INTO _pour
+  FROM pours
+  WHERE id = _pour_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Pre-order not found');
+  END IF;
+
+  IF _pour.status <> 'pending' THEN
+    RETURN jsonb_build_object('success', false, 'message', format('Pre-order is already %s', _pour.status));
+  END IF;
+
+  IF _confirm AND _pour.expires_at IS NOT NULL AND _pour.expires_at <= now() THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Pre-order has expired');
+  END IF;
+
+  IF _confirm THEN
+    -- Lock the customer row for the rest of the transaction, as redeem_pours does
+    SELECT status INTO _customer_status
+    FROM customers
+    WHERE id = _pour.customer_id
+    FOR UPDATE;
+
+    IF _customer_status IS DISTINCT FROM 'active' THEN
+      RETURN jsonb_build_object('success', false, 'message', 'Membership is not active');
+    END IF;
+
+    _paused_until := get_membership_paused_until(_pour.customer_id);
+    IF _paused_until IS NOT NULL THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'message', format('Membership is paused until %s', to_char(_paused_until, 'FMMonth FMDD')),
+        'paused_until', _paused_until
+      );
+    END IF;
+
+    -- Responsible-service caps, judged when the pour is served rather than when it was ordered
+    _limits := get_pour_limit_status(_pour.customer_id, _pour.location_id, now());
+    _limit_remaining := (_limits->>'remaining')::numeric;
+
+    IF _limit_remaining IS NOT NULL AND _limit_remaining < COALESCE(_pour.allowance_cost, _pour.quantity) THEN
+      IF _override_reason IS NULL OR length(trim(_override_reason)) = 0 THEN
+        RETURN jsonb_build_object(
+          'success', false,
+          'limit_exceeded', true,
+          'message', CASE _limits->>'limited_by'
+            WHEN 'day' THEN format(
+              'Only %s more pours allowed today (limit %s)',
+              trim_scale(_limit_remaining), trim_scale((_limits->>'daily_limit')::numeric)
+            )
+            ELSE format(
+              'Only %s more pours allowed in %s hours (limit %s)',
+              trim_scale(_limit_remaining), _limits->>'window_hours', trim_scale((_limits->>'window_limit')::numeric)
+            )
+          END,
+          'limits', _limits
+        );
+      END IF;
+
+      _overridden := true;
+    END IF;
+
+    UPDATE pours
+    SET status = 'redeemed',
+        recorded_by_staff_id = _staff_id,
+        updated_at = now()
+    WHERE id = _pour_id;
+
+    IF _overridden THEN
+      INSERT INTO pour_limit_overrides (pour_id, customer_id, overridden_by, reason, limit_status)
+      VALUES (_pour_id, _pour.customer_id, _staff_id, trim(_override_reason), _limits);
+    END IF;
+  ELSE
+    UPDATE pours
+    SET status = 'cancelled',
+        notes = CASE
+          WHEN _reason IS NULL OR length(trim(_reason)) = 0 THEN notes
+          ELSE concat_ws(E'\n', notes, '[Cancelled] ' || trim(_reason))
+        END,
+        updated_at = now()
+    WHERE id = _pour_id;
+  END IF;
+
+  _available := get_available_pours(_pour.customer_id);
+
+  UPDATE customers
+  SET total_pours_lifetime = total_pours_lifetime + CASE WHEN _confirm THEN _pour.quantity ELSE 0 END,
+      pours_balance = _available,
+      last_activity = CASE WHEN _confirm THEN now() ELSE last_activity END
+  WHERE id = _pour.customer_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'status', CASE WHEN _confirm THEN 'redeemed' ELSE 'cancelled' END,
+    'message', CASE WHEN _confirm THEN 'Pre-order confirmed' ELSE 'Pre-order cancelled' END,
+    'limit_overridden', _overridden,
+    'available_pours', _available
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.resolve_pour_preorder(uuid, boolean, uuid, text, text) FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.resolve_pour_preorder(uuid, boolean, uuid, text, text) TO service_role;
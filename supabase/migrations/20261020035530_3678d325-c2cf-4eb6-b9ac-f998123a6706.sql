@@ -0,0 +1,96 @@
+-- A wallet pass barcode never changes, so a screenshot of it would scan for ever. Each scan is
+-- recorded against the pass: a second scan within the cooldown is treated like a replayed QR
+-- code, and a pass scans only a few times a day. Members who need more use the live code in
+-- the app, which rotates and is single use.
+CREATE TABLE public.wallet_pass_scans (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  serial uuid NOT NULL REFERENCES public.wallet_passes(serial) ON DELETE CASCADE,
+  customer_id uuid NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+  scanned_by uuid NOT NULL REFERENCES public.profiles(id),
+  scanned_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_wallet_pass_scans_serial ON public.wallet_pass_scans(serial, scanned_at DESC);
+
+ALTER TABLE public.wallet_pass_scans ENABLE ROW LEVEL SECURITY;
+
+-- Written only by claim_wallet_pass_scan; admins can see who scanned what
+CREATE POLICY "Admins can view wallet pass scans"
+  ON public.wallet_pass_scans FOR SELECT
+  TO authenticated
+  USING (is_admin(auth.uid()));
+
+-- Claims one scan of a wallet pass, as of when it was scanned so offline scans are judged fairly.
+-- The pass row is locked so two devices scanning the same screenshot cannot both get through.
+CREATE OR REPLACE FUNCTION public.claim_wallet_pass_scan(
+  _serial uuid,
+  _staff_id uuid,
+  _scanned_at timestamptz DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _cooldown interval := interval '15 minutes';
+  _daily_cap integer := 4;
+  _at timestamptz := COALESCE(_scanned_at, now());
+  _customer_id uuid;
+  _nearest record;
+  _scans_today integer;
+BEGIN
+  SELECT customer_id INTO _customer_id
+  FROM wallet_passes
+  WHERE serial = _serial
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Wallet pass not recognised');
+  END IF;
+
+  -- Either side of the scan, since an offline scan can be reconciled after a later one
+  SELECT scanned_at, scanned_by INTO _nearest
+  FROM wallet_pass_scans
+  WHERE serial = _serial
+    AND scanned_at > _at - _cooldown
+    AND scanned_at < _at + _cooldown
+  ORDER BY scanned_at DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'reason', 'cooldown',
+      'message', 'This wallet pass was scanned moments ago',
+      'used_at', _nearest.scanned_at,
+      'used_by', _nearest.scanned_by
+    );
+  END IF;
+
+  SELECT COUNT(*) INTO _scans_today
+  FROM wallet_pass_scans
+  WHERE serial = _serial
+    AND scanned_at > _at - interval '24 hours'
+    AND scanned_at <= _at;
+
+  IF _scans_today >= _daily_cap THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'reason', 'daily_cap',
+      'message', format('This wallet pass has been scanned %s times today. Ask the member to show the live code in the app.', _scans_today)
+    );
+  END IF;
+
+  INSERT INTO wallet_pass_scans (serial, customer_id, scanned_by, scanned_at)
+  VALUES (_serial, _customer_id, _staff_id, _at);
+
+  -- Older scans can no longer affect a cooldown or daily cap, even for a late offline scan
+  DELETE FROM wallet_pass_scans WHERE scanned_at < now() - interval '8 days';
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_wallet_pass_scan(uuid, uuid, timestamptz) FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.claim_wallet_pass_scan(uuid, uuid, timestamptz) TO service_role;
@@ -0,0 +1,43 @@
+-- Offline scans are reconciled up to 7 days after they were made, judged as of the scan time,
+-- so a claim has to outlive its token by that long or a replayed screenshot would claim again.
+CREATE OR REPLACE FUNCTION public.consume_qr_token(
+  _jti text,
+  _customer_id uuid,
+  _staff_id uuid,
+  _expires_at timestamptz
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _used_at timestamptz;
+  _used_by uuid;
+BEGIN
+  INSERT INTO qr_token_uses (jti, customer_id, used_by, expires_at)
+  VALUES (_jti, _customer_id, _staff_id, _expires_at)
+  ON CONFLICT (jti) DO NOTHING;
+
+  IF FOUND THEN
+    -- Past the reconcile window no scan of these tokens is accepted, so their claims are no longer needed
+    DELETE FROM qr_token_uses
+    WHERE expires_at < now() - interval '8 days'
+      AND jti <> _jti;
+
+    RETURN jsonb_build_object('success', true);
+  END IF;
+
+  SELECT used_at, used_by INTO _used_at, _used_by FROM qr_token_uses WHERE jti = _jti;
+
+  RETURN jsonb_build_object(
+    'success', false,
+    'message', 'This QR code has already been used',
+    'used_at', _used_at,
+    'used_by', _used_by
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_qr_token(text, uuid, uuid, timestamptz) FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.consume_qr_token(text, uuid, uuid, timestamptz) TO service_role;
@@ -0,0 +1,129 @@
+-- The household member whose code was scanned: the primary or secondary user named in the token
+-- or wallet pass. Both members of a household share a customer_id and may well be scanned at the
+-- bar by different staff within minutes, so the device comparison is made per member.
+ALTER TABLE public.qr_verification_logs ADD COLUMN member_user_id uuid;
+
+-- As in 20261019233512, except that multi_device compares scans of the same member's code rather
+-- than of any code on the membership. Scans logged before member_user_id existed are compared per
+-- membership as before.
+CREATE OR REPLACE FUNCTION public.detect_qr_anomalies()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _since timestamptz := now() - interval '2 hours';
+  _window interval := interval '10 minutes';
+  _burst_threshold integer := 5;
+  _heavy_threshold integer := 60;
+  _rows integer;
+  _total integer := 0;
+BEGIN
+  WITH scans AS (
+    SELECT
+      customer_id,
+      member_user_id,
+      staff_id,
+      NULLIF(ip_address, 'unknown') AS ip_address,
+      created_at,
+      lag(staff_id) OVER w AS prev_staff_id,
+      lag(NULLIF(ip_address, 'unknown')) OVER w AS prev_ip_address,
+      lag(created_at) OVER w AS prev_created_at
+    FROM qr_verification_logs
+    WHERE created_at > _since
+      AND customer_id IS NOT NULL
+      AND verification_result IN ('success', 'replayed', 'stale')
+    WINDOW w AS (PARTITION BY customer_id, member_user_id ORDER BY created_at)
+  ), switches AS (
+    SELECT *
+    FROM scans
+    WHERE created_at - prev_created_at <= _window
+      AND (staff_id <> prev_staff_id OR ip_address IS DISTINCT FROM prev_ip_address)
+  )
+  INSERT INTO qr_anomaly_flags (kind, fingerprint, customer_id, event_count, window_start, window_end, details)
+  SELECT
+    'multi_device',
+    'multi_device:' || customer_id || COALESCE(':' || member_user_id, '') || ':' || to_char(date_trunc('hour', created_at), 'YYYY-MM-DD"T"HH24'),
+    customer_id,
+    count(*) + 1,
+    min(prev_created_at),
+    max(created_at),
+    jsonb_build_object(
+      'member_user_id', member_user_id,
+      'staff_ids', (SELECT jsonb_agg(DISTINCT s) FROM unnest(array_agg(staff_id) || array_agg(prev_staff_id)) s),
+      'ip_addresses', (
+        SELECT COALESCE(jsonb_agg(DISTINCT ip), '[]'::jsonb)
+        FROM unnest(array_agg(ip_address) || array_agg(prev_ip_address)) ip
+        WHERE ip IS NOT NULL
+      )
+    )
+  FROM switches
+  GROUP BY customer_id, member_user_id, date_trunc('hour', created_at)
+  ON CONFLICT (fingerprint) DO UPDATE
+  SET event_count = GREATEST(qr_anomaly_flags.event_count, EXCLUDED.event_count),
+      window_start = LEAST(qr_anomaly_flags.window_start, EXCLUDED.window_start),
+      window_end = GREATEST(qr_anomaly_flags.window_end, EXCLUDED.window_end),
+      details = EXCLUDED.details;
+  GET DIAGNOSTICS _rows = ROW_COUNT;
+  _total := _total + _rows;
+
+  INSERT INTO qr_anomaly_flags (kind, fingerprint, customer_id, staff_id, ip_address, event_count, window_start, window_end, details)
+  SELECT
+    'failure_burst',
+    'failure_burst:' || ip_address || ':' || to_char(date_bin(_window, created_at, 'epoch'::timestamptz), 'YYYY-MM-DD"T"HH24:MI'),
+    -- Attributed to a member or staff member only when every failure was theirs
+    CASE WHEN count(DISTINCT customer_id) = 1 AND count(customer_id) = count(*) THEN min(customer_id::text)::uuid END,
+    CASE WHEN count(DISTINCT staff_id) = 1 THEN min(staff_id::text)::uuid END,
+    ip_address,
+    count(*),
+    min(created_at),
+    max(created_at),
+    jsonb_build_object(
+      'failed', count(*) FILTER (WHERE verification_result = 'failed'),
+      'expired', count(*) FILTER (WHERE verification_result = 'expired'),
+      'invalid', count(*) FILTER (WHERE verification_result = 'invalid'),
+      'members', count(DISTINCT customer_id),
+      'staff', count(DISTINCT staff_id)
+    )
+  FROM qr_verification_logs
+  WHERE created_at > _since
+    AND verification_result IN ('failed', 'expired', 'invalid')
+    AND ip_address IS NOT NULL
+    AND ip_address <> 'unknown'
+  GROUP BY ip_address, date_bin(_window, created_at, 'epoch'::timestamptz)
+  HAVING count(*) >= _burst_threshold
+  ON CONFLICT (fingerprint) DO UPDATE
+  SET event_count = GREATEST(qr_anomaly_flags.event_count, EXCLUDED.event_count),
+      window_start = LEAST(qr_anomaly_flags.window_start, EXCLUDED.window_start),
+      window_end = GREATEST(qr_anomaly_flags.window_end, EXCLUDED.window_end),
+      customer_id = EXCLUDED.customer_id,
+      staff_id = EXCLUDED.staff_id,
+      details = EXCLUDED.details;
+  GET DIAGNOSTICS _rows = ROW_COUNT;
+  _total := _total + _rows;
+
+  INSERT INTO qr_anomaly_flags (kind, fingerprint, staff_id, event_count, window_start, window_end, details)
+  SELECT
+    'heavy_scanning',
+    'heavy_scanning:' || staff_id || ':' || to_char(date_trunc('hour', created_at), 'YYYY-MM-DD"T"HH24'),
+    staff_id,
+    count(*),
+    min(created_at),
+    max(created_at),
+    jsonb_build_object('members', count(DISTINCT customer_id))
+  FROM qr_verification_logs
+  WHERE created_at > _since
+  GROUP BY staff_id, date_trunc('hour', created_at)
+  HAVING count(*) >= _heavy_threshold
+  ON CONFLICT (fingerprint) DO UPDATE
+  SET event_count = GREATEST(qr_anomaly_flags.event_count, EXCLUDED.event_count),
+      window_start = LEAST(qr_anomaly_flags.window_start, EXCLUDED.window_start),
+      window_end = GREATEST(qr_anomaly_flags.window_end, EXCLUDED.window_end),
+      details = EXCLUDED.details;
+  GET DIAGNOSTICS _rows = ROW_COUNT;
+  _total := _total + _rows;
+
+  RETURN _total;
+END;
+$$;
@@ -0,0 +1,29 @@
+-- Whether the signed-in member's QR token has been scanned, so the app can replace the code on
+-- screen straight away rather than leave a used one to be scanned again. Only tokens of the
+-- caller's own membership are answered; anything else reads as unused.
+CREATE OR REPLACE FUNCTION public.get_my_qr_token_use(_jti text)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _used_at timestamptz;
+BEGIN
+  SELECT u.used_at INTO _used_at
+  FROM qr_token_uses u
+  JOIN customers c ON c.id = u.customer_id
+  WHERE u.jti = _jti
+    AND (c.user_id = auth.uid() OR c.secondary_user_id = auth.uid());
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('used', false);
+  END IF;
+
+  RETURN jsonb_build_object('used', true, 'used_at', _used_at);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_my_qr_token_use(text) FROM anon, public;
+GRANT EXECUTE ON FUNCTION public.get_my_qr_token_use(text) TO authenticated;
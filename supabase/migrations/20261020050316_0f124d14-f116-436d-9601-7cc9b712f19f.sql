@@ -0,0 +1,53 @@
+-- replay-stripe-event only re-runs events that did not finish, which a normal claim already allows,
+-- so the _force option for re-running a processed event is gone
+DROP FUNCTION IF EXISTS public.claim_stripe_event(text, text, jsonb, boolean);
+
+-- Record an event and claim it for processing. A delivery of an event already processed, or one
+-- still being processed by another delivery, is not claimed; a failed event is claimed again, as
+-- is one whose processing stopped without an outcome.
+CREATE FUNCTION public.claim_stripe_event(
+  _event_id text,
+  _type text,
+  _payload jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event record;
+BEGIN
+  INSERT INTO stripe_events (id, type, payload, status, attempts, last_attempt_at)
+  VALUES (_event_id, _type, _payload, 'processing', 1, now())
+  ON CONFLICT (id) DO NOTHING;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object('claimed', true, 'attempts', 1);
+  END IF;
+
+  SELECT status, attempts, last_attempt_at INTO _event
+  FROM stripe_events
+  WHERE id = _event_id
+  FOR UPDATE;
+
+  IF _event.status = 'processed' THEN
+    RETURN jsonb_build_object('claimed', false, 'status', 'processed');
+  END IF;
+
+  IF _event.status = 'processing' AND _event.last_attempt_at > now() - interval '5 minutes' THEN
+    RETURN jsonb_build_object('claimed', false, 'status', 'processing');
+  END IF;
+
+  UPDATE stripe_events
+  SET status = 'processing',
+      attempts = attempts + 1,
+      last_attempt_at = now()
+  WHERE id = _event_id;
+
+  RETURN jsonb_build_object('claimed', true, 'attempts', _event.attempts + 1);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_stripe_event(text, text, jsonb) FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.claim_stripe_event(text, text, jsonb) TO service_role;
@@ -0,0 +1,149 @@
+-- When an offline scan was made, as recorded by the staff device; null for scans verified live.
+-- The row itself is only written when the device syncs.
+ALTER TABLE public.qr_verification_logs ADD COLUMN scanned_at timestamptz;
+
+-- As in 20261020042518, except that scans accepted offline now count towards multi_device, placed
+-- at the time they were scanned. A shared screenshot is most likely to get through on a device
+-- without a connection. Offline scans can arrive up to a week late, so the comparison reaches back
+-- that far for members with a scan logged in the last two hours, and only pairs involving a newly
+-- logged scan are flagged. The IP of an offline scan is where it synced from, so only the staff
+-- member is compared for those.
+CREATE OR REPLACE FUNCTION public.detect_qr_anomalies()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _since timestamptz := now() - interval '2 hours';
+  _window interval := interval '10 minutes';
+  -- How late verify-qr-token accepts an offline scan
+  _reconcile_window interval := interval '7 days';
+  _burst_threshold integer := 5;
+  _heavy_threshold integer := 60;
+  _rows integer;
+  _total integer := 0;
+BEGIN
+  WITH recent AS (
+    SELECT DISTINCT customer_id
+    FROM qr_verification_logs
+    WHERE created_at > _since
+      AND customer_id IS NOT NULL
+      AND verification_result IN ('success', 'success_offline', 'replayed', 'stale')
+  ), scans AS (
+    SELECT
+      customer_id,
+      member_user_id,
+      staff_id,
+      -- An offline scan is logged from wherever the device synced, so its IP says nothing about the scan
+      CASE WHEN scanned_at IS NULL THEN NULLIF(ip_address, 'unknown') END AS ip_address,
+      scanned_at IS NOT NULL AS offline,
+      COALESCE(scanned_at, created_at) AS scan_time,
+      created_at,
+      lag(staff_id) OVER w AS prev_staff_id,
+      lag(CASE WHEN scanned_at IS NULL THEN NULLIF(ip_address, 'unknown') END) OVER w AS prev_ip_address,
+      lag(scanned_at IS NOT NULL) OVER w AS prev_offline,
+      lag(COALESCE(scanned_at, created_at)) OVER w AS prev_scan_time,
+      lag(created_at) OVER w AS prev_created_at
+    FROM qr_verification_logs
+    WHERE created_at > _since - _reconcile_window
+      AND customer_id IN (SELECT customer_id FROM recent)
+      AND verification_result IN ('success', 'success_offline', 'replayed', 'stale')
+    WINDOW w AS (PARTITION BY customer_id, member_user_id ORDER BY COALESCE(scanned_at, created_at))
+  ), switches AS (
+    SELECT *
+    FROM scans
+    WHERE scan_time - prev_scan_time <= _window
+      AND (created_at > _since OR prev_created_at > _since)
+      AND (
+        staff_id <> prev_staff_id
+        OR (NOT offline AND NOT prev_offline AND ip_address IS DISTINCT FROM prev_ip_address)
+      )
+  )
+  INSERT INTO qr_anomaly_flags (kind, fingerprint, customer_id, event_count, window_start, window_end, details)
+  SELECT
+    'multi_device',
+    'multi_device:' || customer_id || COALESCE(':' || member_user_id, '') || ':' || to_char(date_trunc('hour', scan_time), 'YYYY-MM-DD"T"HH24'),
+    customer_id,
+    count(*) + 1,
+    min(prev_scan_time),
+    max(scan_time),
+    jsonb_build_object(
+      'member_user_id', member_user_id,
+      'offline_scans', count(*) FILTER (WHERE offline OR prev_offline),
+      'staff_ids', (SELECT jsonb_agg(DISTINCT s) FROM unnest(array_agg(staff_id) || array_agg(prev_staff_id)) s),
+      'ip_addresses', (
+        SELECT COALESCE(jsonb_agg(DISTINCT ip), '[]'::jsonb)
+        FROM unnest(array_agg(ip_address) || array_agg(prev_ip_address)) ip
+        WHERE ip IS NOT NULL
+      )
+    )
+  FROM switches
+  GROUP BY customer_id, member_user_id, date_trunc('hour', scan_time)
+  ON CONFLICT (fingerprint) DO UPDATE
+  SET event_count = GREATEST(qr_anomaly_flags.event_count, EXCLUDED.event_count),
+      window_start = LEAST(qr_anomaly_flags.window_start, EXCLUDED.window_start),
+      window_end = GREATEST(qr_anomaly_flags.window_end, EXCLUDED.window_end),
+      details = EXCLUDED.details;
+  GET DIAGNOSTICS _rows = ROW_COUNT;
+  _total := _total + _rows;
+
+  INSERT INTO qr_anomaly_flags (kind, fingerprint, customer_id, staff_id, ip_address, event_count, window_start, window_end, details)
+  SELECT
+    'failure_burst',
+    'failure_burst:' || ip_address || ':' || to_char(date_bin(_window, created_at, 'epoch'::timestamptz), 'YYYY-MM-DD"T"HH24:MI'),
+    -- Attributed to a member or staff member only when every failure was theirs
+    CASE WHEN count(DISTINCT customer_id) = 1 AND count(customer_id) = count(*) THEN min(customer_id::text)::uuid END,
+    CASE WHEN count(DISTINCT staff_id) = 1 THEN min(staff_id::text)::uuid END,
+    ip_address,
+    count(*),
+    min(created_at),
+    max(created_at),
+    jsonb_build_object(
+      'failed', count(*) FILTER (WHERE verification_result = 'failed'),
+      'expired', count(*) FILTER (WHERE verification_result = 'expired'),
+      'invalid', count(*) FILTER (WHERE verification_result = 'invalid'),
+      'members', count(DISTINCT customer_id),
+      'staff', count(DISTINCT staff_id)
+    )
+  FROM qr_verification_logs
+  WHERE created_at > _since
+    AND verification_result IN ('failed', 'expired', 'invalid')
+    AND ip_address IS NOT NULL
+    AND ip_address <> 'unknown'
+  GROUP BY ip_address, date_bin(_window, created_at, 'epoch'::timestamptz)
+  HAVING count(*) >= _burst_threshold
+  ON CONFLICT (fingerprint) DO UPDATE
+  SET event_count = GREATEST(qr_anomaly_flags.event_count, EXCLUDED.event_count),
+      window_start = LEAST(qr_anomaly_flags.window_start, EXCLUDED.window_start),
+      window_end = GREATEST(qr_anomaly_flags.window_end, EXCLUDED.window_end),
+      customer_id = EXCLUDED.customer_id,
+      staff_id = EXCLUDED.staff_id,
+      details = EXCLUDED.details;
+  GET DIAGNOSTICS _rows = ROW_COUNT;
+  _total := _total + _rows;
+
+  INSERT INTO qr_anomaly_flags (kind, fingerprint, staff_id, event_count, window_start, window_end, details)
+  SELECT
+    'heavy_scanning',
+    'heavy_scanning:' || staff_id || ':' || to_char(date_trunc('hour', created_at), 'YYYY-MM-DD"T"HH24'),
+    staff_id,
+    count(*),
+    min(created_at),
+    max(created_at),
+    jsonb_build_object('members', count(DISTINCT customer_id))
+  FROM qr_verification_logs
+  WHERE created_at > _since
+  GROUP BY staff_id, date_trunc('hour', created_at)
+  HAVING count(*) >= _heavy_threshold
+  ON CONFLICT (fingerprint) DO UPDATE
+  SET event_count = GREATEST(qr_anomaly_flags.event_count, EXCLUDED.event_count),
+      window_start = LEAST(qr_anomaly_flags.window_start, EXCLUDED.window_start),
+      window_end = GREATEST(qr_anomaly_flags.window_end, EXCLUDED.window_end),
+      details = EXCLUDED.details;
+  GET DIAGNOSTICS _rows = ROW_COUNT;
+  _total := _total + _rows;
+
+  RETURN _total;
+END;
+$$;
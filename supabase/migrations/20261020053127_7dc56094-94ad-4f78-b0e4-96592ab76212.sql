@@ -0,0 +1,66 @@
+-- A downgrade is confirmed at once but only takes effect at the end of the billing period. Its slot
+-- in the lower tier is held from confirmation, so the move cannot find the tier full when it
+-- happens: scheduled moves count towards the tier's limit, as well as towards the member's current
+-- tier until the renewal. Cancelling the scheduled change frees the slot.
+CREATE OR REPLACE FUNCTION public.reserve_tier_slot(
+  _tier_name customer_tier,
+  _user_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _max_subscriptions integer;
+  _current_count integer;
+  _result jsonb;
+BEGIN
+  -- Lock the tier definition row to prevent concurrent modifications
+  SELECT max_subscriptions INTO _max_subscriptions
+  FROM tier_definitions
+  WHERE tier_name = _tier_name
+  FOR UPDATE;
+
+  -- If no max set, always allow
+  IF _max_subscriptions IS NULL THEN
+    RETURN jsonb_build_object(
+      'success', true,
+      'message', 'No limit set for this tier',
+      'available', null,
+      'max', null
+    );
+  END IF;
+
+  -- Count current active subscriptions for this tier, and those scheduled to move down to it.
+  -- The caller's own scheduled move is not counted against them.
+  SELECT COUNT(*) INTO _current_count
+  FROM memberships m
+  WHERE (m.tier = _tier_name OR m.scheduled_tier = _tier_name)
+    AND m.status IN ('active', 'past_due')
+    AND NOT (
+      COALESCE(m.scheduled_tier = _tier_name, false)
+      AND m.customer_id IN (SELECT id FROM customers WHERE user_id = _user_id)
+    );
+
+  -- Check if slot is available
+  IF _current_count >= _max_subscriptions THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Tier is sold out',
+      'available', 0,
+      'max', _max_subscriptions,
+      'current', _current_count
+    );
+  END IF;
+
+  -- Slot is available
+  RETURN jsonb_build_object(
+    'success', true,
+    'message', 'Slot available',
+    'available', _max_subscriptions - _current_count,
+    'max', _max_subscriptions,
+    'current', _current_count
+  );
+END;
+$$;
@@ -0,0 +1,313 @@
+-- Pours are dated when they were served rather than when they reached the server, so a pour
+-- captured offline is counted in the allowance period it was served in. Previously a pour served
+-- just before a renewal and synced after it was charged to the new period.
+CREATE OR REPLACE FUNCTION public.redeem_pours(
+  _customer_id uuid,
+  _quantity integer,
+  _location_id uuid,
+  _staff_id uuid,
+  _notes text DEFAULT NULL,
+  _reference text DEFAULT NULL,
+  _wine_id uuid DEFAULT NULL,
+  _is_guest boolean DEFAULT false,
+  _guest_name text DEFAULT NULL,
+  _guest_email text DEFAULT NULL,
+  _idempotency_key uuid DEFAULT NULL,
+  _captured_at timestamptz DEFAULT NULL,
+  _pour_size_id uuid DEFAULT NULL,
+  _override_reason text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _customer_status customer_status;
+  _size_id uuid;
+  _unit_cost numeric;
+  _cost numeric;
+  _available numeric;
+  _pour_id uuid;
+  _existing record;
+  _limits jsonb;
+  _limit_remaining numeric;
+  _overridden boolean := false;
+  _paused_until timestamptz;
+  _served_at timestamptz := LEAST(COALESCE(_captured_at, now()), now());
+  _period_start timestamptz;
+  _closed_period boolean := false;
+  _remaining numeric;
+BEGIN
+  IF _quantity IS NULL OR _quantity < 1 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Quantity must be at least 1'
+    );
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM locations WHERE id = _location_id AND is_active) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Location is not available'
+    );
+  END IF;
+
+  IF _pour_size_id IS NOT NULL THEN
+    SELECT id, allowance_cost INTO _size_id, _unit_cost
+    FROM pour_sizes
+    WHERE id = _pour_size_id AND location_id = _location_id AND is_active;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'message', 'Pour size is not available at this location'
+      );
+    END IF;
+  ELSE
+    SELECT id, allowance_cost INTO _size_id, _unit_cost
+    FROM pour_sizes
+    WHERE location_id = _location_id AND is_default AND is_active;
+  END IF;
+
+  -- Locations without sizes keep the old one-pour-per-glass behaviour
+  _cost := _quantity * COALESCE(_unit_cost, 1);
+
+  IF _wine_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM wines WHERE id = _wine_id AND is_active
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Wine is not available'
+    );
+  END IF;
+
+  -- Lock the customer row for the rest of the transaction
+  SELECT status INTO _customer_status
+  FROM customers
+  WHERE id = _customer_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Customer not found'
+    );
+  END IF;
+
+  -- A retried submission (e.g. an offline queue resync) returns the pour it already created
+  IF _idempotency_key IS NOT NULL THEN
+    SELECT id, is_guest INTO _existing
+    FROM pours
+    WHERE idempotency_key = _idempotency_key;
+
+    IF FOUND THEN
+      RETURN jsonb_build_object(
+        'success', true,
+        'message', 'Pour already recorded',
+        'duplicate', true,
+        'pour_id', _existing.id,
+        'available_pours', get_available_pours(_customer_id),
+        'available_guest_pours', get_available_guest_pours(_customer_id)
+      );
+    END IF;
+  END IF;
+
+  IF _customer_status <> 'active' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Membership is not active'
+    );
+  END IF;
+
+  -- A paused member keeps their allowance for when they return; no override applies
+  _paused_until := get_membership_paused_until(_customer_id);
+  IF _paused_until IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', format('Membership is paused until %s', to_char(_paused_until, 'FMMonth FMDD')),
+      'paused_until', _paused_until
+    );
+  END IF;
+
+  -- A pour belongs to the allowance period it was served in. One captured offline before a renewal
+  -- and synced after it was served under the previous period's allowance, which is already closed.
+  SELECT billing_period_start INTO _period_start
+  FROM memberships
+  WHERE customer_id = _customer_id
+    AND status = 'active'
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  _closed_period := _period_start IS NOT NULL AND _served_at < _period_start;
+
+  -- Guest pours draw from their own allowance and leave the member's untouched
+  IF _is_guest THEN
+    _available := get_available_guest_pours(_customer_id);
+
+    IF NOT _closed_period AND _available < _cost THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'message', format('Only %s guest pours available in current billing period', trim_scale(_available)),
+        'available_guest_pours', _available
+      );
+    END IF;
+
+    INSERT INTO pours (
+      customer_id,
+      quantity,
+      location_id,
+      pour_size_id,
+      allowance_cost,
+      notes,
+      toast_reference_number,
+      status,
+      recorded_by_staff_id,
+      wine_id,
+      is_guest,
+      guest_name,
+      guest_email,
+      idempotency_key,
+      captured_at,
+      created_at
+    )
+    VALUES (
+      _customer_id,
+      _quantity,
+      _location_id,
+      _size_id,
+      _cost,
+      _notes,
+      COALESCE(_reference, 'GUEST-' || floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint),
+      'redeemed',
+      _staff_id,
+      _wine_id,
+      true,
+      NULLIF(trim(_guest_name), ''),
+      NULLIF(lower(trim(_guest_email)), ''),
+      _idempotency_key,
+      _captured_at,
+      _served_at
+    )
+    RETURNING id INTO _pour_id;
+
+    UPDATE customers
+    SET last_activity = now()
+    WHERE id = _customer_id;
+
+    RETURN jsonb_build_object(
+      'success', true,
+      'message', 'Guest pour redeemed',
+      'pour_id', _pour_id,
+      'allowance_cost', _cost,
+      'available_pours', get_available_pours(_customer_id),
+      'available_guest_pours', CASE WHEN _closed_period THEN _available ELSE _available - _cost END
+    );
+  END IF;
+
+  -- Re-check the allowance while holding the lock. A pour from a closed period was already served
+  -- and does not draw on the current allowance.
+  _available := get_available_pours(_customer_id);
+
+  IF NOT _closed_period AND _available < _cost THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', format('Only %s pours available in current billing period', trim_scale(_available)),
+      'available_pours', _available
+    );
+  END IF;
+
+  -- Responsible-service caps, judged at the time the pour was served
+  _limits := get_pour_limit_status(_customer_id, _location_id, _served_at);
+  _limit_remaining := (_limits->>'remaining')::numeric;
+
+  IF _limit_remaining IS NOT NULL AND _limit_remaining < _cost THEN
+    IF _override_reason IS NULL OR length(trim(_override_reason)) = 0 THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'limit_exceeded', true,
+        'message', CASE _limits->>'limited_by'
+          WHEN 'day' THEN format(
+            'Only %s more pours allowed today (limit %s)',
+            trim_scale(_limit_remaining), trim_scale((_limits->>'daily_limit')::numeric)
+          )
+          ELSE format(
+            'Only %s more pours allowed in %s hours (limit %s)',
+            trim_scale(_limit_remaining), _limits->>'window_hours', trim_scale((_limits->>'window_limit')::numeric)
+          )
+        END,
+        'limits', _limits,
+        'available_pours', _available
+      );
+    END IF;
+
+    _overridden := true;
+  END IF;
+
+  INSERT INTO pours (
+    customer_id,
+    quantity,
+    location_id,
+    pour_size_id,
+    allowance_cost,
+    notes,
+    toast_reference_number,
+    status,
+    recorded_by_staff_id,
+    wine_id,
+    idempotency_key,
+    captured_at,
+    created_at
+  )
+  VALUES (
+    _customer_id,
+    _quantity,
+    _location_id,
+    _size_id,
+    _cost,
+    _notes,
+    COALESCE(_reference, 'POUR-' || floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint),
+    'redeemed',
+    _staff_id,
+    _wine_id,
+    _idempotency_key,
+    _captured_at,
+    _served_at
+  )
+  RETURNING id INTO _pour_id;
+
+  -- The closed period's unused allowance was carried over without this pour, so it comes out of that
+  IF _closed_period THEN
+    UPDATE pour_rollovers
+    SET pours_remaining = GREATEST(0, pours_remaining - _cost),
+        updated_at = now()
+    WHERE customer_id = _customer_id
+      AND source_period_start <= _served_at
+      AND source_period_end > _served_at;
+
+    _remaining := get_available_pours(_customer_id);
+  ELSE
+    _remaining := _available - _cost;
+  END IF;
+
+  IF _overridden THEN
+    INSERT INTO pour_limit_overrides (pour_id, customer_id, overridden_by, reason, limit_status)
+    VALUES (_pour_id, _customer_id, _staff_id, trim(_override_reason), _limits);
+  END IF;
+
+  UPDATE customers
+  SET total_pours_lifetime = total_pours_lifetime + _quantity,
+      pours_balance = _remaining,
+      last_activity = now()
+  WHERE id = _customer_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'message', 'Pour redeemed',
+    'pour_id', _pour_id,
+    'allowance_cost', _cost,
+    'limit_overridden', _overridden,
+    'available_pours', _remaining
+  );
+END;
+$$;